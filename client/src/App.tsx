@@ -8,6 +8,8 @@ import { ThemeProvider } from "@/components/theme-provider";
 import Home from "@/pages/home";
 import Login from "@/pages/login";
 import AdminSettings from "@/pages/admin-settings";
+import AcceptInvite from "@/pages/accept-invite";
+import Present from "@/pages/present";
 import NotFound from "@/pages/not-found";
 import { LoaderIcon } from "lucide-react";
 
@@ -60,13 +62,23 @@ function AuthenticatedApp() {
     <Switch>
       <Route path="/" component={Home} />
       <Route path="/admin/settings" component={AdminSettings} />
+      <Route path="/present" component={Present} />
+      <Route path="/present/:assignmentId" component={Present} />
       <Route component={NotFound} />
     </Switch>
   );
 }
 
 function Router() {
-  return <AuthenticatedApp />;
+  return (
+    <Switch>
+      {/* Invite links are opened before the staff member has an account to sign in with */}
+      <Route path="/staff/invite/:token" component={AcceptInvite} />
+      <Route>
+        <AuthenticatedApp />
+      </Route>
+    </Switch>
+  );
 }
 
 function App() {
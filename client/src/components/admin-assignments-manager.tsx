@@ -0,0 +1,445 @@
+import { useState } from "react";
+import { Plus, ArrowUp, ArrowDown, Archive, ArchiveRestore, Edit2, Trash2, LoaderIcon, ClipboardCheck, Award, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { toDateTimeInputValue, fromDateTimeInputValue } from "@/lib/utils";
+import RubricEditor from "@/components/rubric-editor";
+import type { Assignment } from "@shared/schema";
+
+interface ScheduleFields {
+  openAt: string;
+  dueAt: string;
+  cutoffAt: string;
+}
+
+const emptySchedule: ScheduleFields = { openAt: "", dueAt: "", cutoffAt: "" };
+
+const scheduleToPayload = (schedule: ScheduleFields) => ({
+  openAt: fromDateTimeInputValue(schedule.openAt),
+  dueAt: fromDateTimeInputValue(schedule.dueAt),
+  cutoffAt: fromDateTimeInputValue(schedule.cutoffAt),
+});
+
+function ScheduleInputs({ idPrefix, value, onChange }: { idPrefix: string; value: ScheduleFields; onChange: (value: ScheduleFields) => void }) {
+  const fields: { key: keyof ScheduleFields; label: string }[] = [
+    { key: "openAt", label: "Opens" },
+    { key: "dueAt", label: "Due" },
+    { key: "cutoffAt", label: "Hard cutoff" },
+  ];
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+      {fields.map(field => (
+        <div key={field.key} className="space-y-1">
+          <Label htmlFor={`${idPrefix}-${field.key}`} className="text-xs">{field.label}</Label>
+          <Input
+            id={`${idPrefix}-${field.key}`}
+            type="datetime-local"
+            value={value[field.key]}
+            onChange={(e) => onChange({ ...value, [field.key]: e.target.value })}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function AdminAssignmentsManager() {
+  const [newTitle, setNewTitle] = useState("");
+  const [newDescription, setNewDescription] = useState("");
+  const [newSchedule, setNewSchedule] = useState<ScheduleFields>(emptySchedule);
+  const [editingAssignment, setEditingAssignment] = useState<Assignment | null>(null);
+  const [editTitle, setEditTitle] = useState("");
+  const [editDescription, setEditDescription] = useState("");
+  const [editSchedule, setEditSchedule] = useState<ScheduleFields>(emptySchedule);
+  const [rubricAssignment, setRubricAssignment] = useState<Assignment | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: assignments = [], isLoading } = useQuery<Assignment[]>({
+    queryKey: ["/api/admin/assignments"],
+  });
+
+  const invalidateAssignments = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/assignments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/assignments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/assignment-settings"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async ({ title, description, schedule }: { title: string; description: string; schedule: ScheduleFields }) => {
+      return await apiRequest("POST", "/api/admin/assignments", {
+        title,
+        description: description || null,
+        ...scheduleToPayload(schedule),
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success!",
+        description: "Assignment created",
+      });
+      setNewTitle("");
+      setNewDescription("");
+      setNewSchedule(emptySchedule);
+      invalidateAssignments();
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Create Failed",
+        description: error.message || "Failed to create assignment",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Record<string, string | null> }) => {
+      return await apiRequest("PUT", `/api/admin/assignments/${id}`, updates);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success!",
+        description: "Assignment updated",
+      });
+      setEditingAssignment(null);
+      invalidateAssignments();
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Update Failed",
+        description: error.message || "Failed to update assignment",
+      });
+    },
+  });
+
+  const releaseMutation = useMutation({
+    mutationFn: async ({ id, released }: { id: string; released: "true" | "false" }) => {
+      return await apiRequest("PUT", `/api/admin/assignments/${id}/release-grades`, { released });
+    },
+    onSuccess: (assignment: Assignment) => {
+      toast({
+        title: "Success!",
+        description: assignment.gradesReleased === "true"
+          ? `Grades for ${assignment.title} are now visible to teams`
+          : `Grades for ${assignment.title} are hidden from teams`,
+      });
+      invalidateAssignments();
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Release Failed",
+        description: error.message || "Failed to update grade release",
+      });
+    },
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (ids: string[]) => {
+      return await apiRequest("PUT", "/api/admin/assignments/order", { ids });
+    },
+    onSuccess: () => {
+      invalidateAssignments();
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Reorder Failed",
+        description: error.message || "Failed to reorder assignments",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/admin/assignments/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success!",
+        description: "Assignment deleted",
+      });
+      invalidateAssignments();
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Delete Failed",
+        description: error.message || "Failed to delete assignment",
+      });
+    },
+  });
+
+  const handleCreate = () => {
+    if (!newTitle.trim()) {
+      toast({
+        variant: "destructive",
+        title: "Title Required",
+        description: "Please enter an assignment title",
+      });
+      return;
+    }
+    createMutation.mutate({ title: newTitle.trim(), description: newDescription.trim(), schedule: newSchedule });
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= assignments.length) return;
+
+    const ids = assignments.map(assignment => assignment.id);
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderMutation.mutate(ids);
+  };
+
+  const openEditDialog = (assignment: Assignment) => {
+    setEditingAssignment(assignment);
+    setEditTitle(assignment.title);
+    setEditDescription(assignment.description || "");
+    setEditSchedule({
+      openAt: toDateTimeInputValue(assignment.openAt),
+      dueAt: toDateTimeInputValue(assignment.dueAt),
+      cutoffAt: toDateTimeInputValue(assignment.cutoffAt),
+    });
+  };
+
+  const handleSaveEdit = () => {
+    if (!editingAssignment) return;
+    if (!editTitle.trim()) {
+      toast({
+        variant: "destructive",
+        title: "Title Required",
+        description: "Please enter an assignment title",
+      });
+      return;
+    }
+    updateMutation.mutate({
+      id: editingAssignment.id,
+      updates: {
+        title: editTitle.trim(),
+        description: editDescription.trim() || null,
+        ...scheduleToPayload(editSchedule),
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-semibold mb-2 text-foreground">Assignments</h2>
+        <p className="text-muted-foreground mb-6">
+          Create assignments for this course, set the order they appear in, and archive them when they are no longer accepting uploads.
+          Add a rubric to grade submissions, then release grades when teams should see them.
+        </p>
+        <Button variant="outline" size="sm" asChild>
+          <a href="/api/admin/gradebook.csv" download>
+            <Download className="w-4 h-4 mr-2" />
+            Export Gradebook
+          </a>
+        </Button>
+      </div>
+
+      {/* Create Assignment */}
+      <Card>
+        <CardContent className="p-4 space-y-3">
+          <h3 className="font-medium text-foreground">New Assignment</h3>
+          <div className="space-y-2">
+            <Label htmlFor="newAssignmentTitle">Title *</Label>
+            <Input
+              id="newAssignmentTitle"
+              value={newTitle}
+              onChange={(e) => setNewTitle(e.target.value)}
+              placeholder="e.g., Assignment 1 - Segmentation and Personas"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="newAssignmentDescription">Description (Optional)</Label>
+            <Textarea
+              id="newAssignmentDescription"
+              value={newDescription}
+              onChange={(e) => setNewDescription(e.target.value)}
+              placeholder="What teams should submit..."
+              rows={2}
+              className="resize-none"
+            />
+          </div>
+          <ScheduleInputs idPrefix="newAssignment" value={newSchedule} onChange={setNewSchedule} />
+          <p className="text-xs text-muted-foreground">
+            All times are optional. Uploads after the due time are marked late; uploads after the cutoff are rejected.
+          </p>
+          <Button onClick={handleCreate} disabled={createMutation.isPending}>
+            {createMutation.isPending ? (
+              <LoaderIcon className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Plus className="w-4 h-4 mr-2" />
+            )}
+            Add Assignment
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Assignment List */}
+      {isLoading ? (
+        <div className="text-muted-foreground">Loading assignments...</div>
+      ) : assignments.length === 0 ? (
+        <div className="text-center py-8 bg-card rounded-lg border border-border">
+          <p className="text-muted-foreground">No assignments yet. Add the first one above.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {assignments.map((assignment, index) => (
+            <Card key={assignment.id} className={assignment.isArchived === "true" ? "opacity-60" : ""}>
+              <CardContent className="p-4">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-medium text-foreground truncate">{assignment.title}</h3>
+                      {assignment.isArchived === "true" && <Badge variant="secondary">Archived</Badge>}
+                      {assignment.gradesReleased === "true" && <Badge variant="outline">Grades released</Badge>}
+                    </div>
+                    {assignment.description && (
+                      <p className="text-sm text-muted-foreground mt-1 line-clamp-2">{assignment.description}</p>
+                    )}
+                    {(assignment.openAt || assignment.dueAt || assignment.cutoffAt) && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {[
+                          assignment.openAt && `Opens ${new Date(assignment.openAt).toLocaleString()}`,
+                          assignment.dueAt && `Due ${new Date(assignment.dueAt).toLocaleString()}`,
+                          assignment.cutoffAt && `Cutoff ${new Date(assignment.cutoffAt).toLocaleString()}`,
+                        ].filter(Boolean).join(" • ")}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="flex items-center space-x-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleMove(index, -1)}
+                      disabled={index === 0 || reorderMutation.isPending}
+                      title="Move up"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleMove(index, 1)}
+                      disabled={index === assignments.length - 1 || reorderMutation.isPending}
+                      title="Move down"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => openEditDialog(assignment)}
+                      title="Edit"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setRubricAssignment(assignment)}
+                      title="Rubric"
+                    >
+                      <ClipboardCheck className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => releaseMutation.mutate({
+                        id: assignment.id,
+                        released: assignment.gradesReleased === "true" ? "false" : "true",
+                      })}
+                      disabled={releaseMutation.isPending}
+                      className={assignment.gradesReleased === "true" ? "text-primary" : ""}
+                      title={assignment.gradesReleased === "true" ? "Hide grades from teams" : "Release grades to teams"}
+                    >
+                      <Award className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateMutation.mutate({
+                        id: assignment.id,
+                        updates: { isArchived: assignment.isArchived === "true" ? "false" : "true" },
+                      })}
+                      disabled={updateMutation.isPending}
+                      title={assignment.isArchived === "true" ? "Restore" : "Archive"}
+                    >
+                      {assignment.isArchived === "true" ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(assignment.id)}
+                      disabled={deleteMutation.isPending}
+                      className="text-red-600 hover:text-red-700"
+                      title="Delete (only assignments without uploads)"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Edit Dialog */}
+      <Dialog open={!!editingAssignment} onOpenChange={(open) => !open && setEditingAssignment(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Assignment</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="editAssignmentTitle">Title *</Label>
+              <Input
+                id="editAssignmentTitle"
+                value={editTitle}
+                onChange={(e) => setEditTitle(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="editAssignmentDescription">Description</Label>
+              <Textarea
+                id="editAssignmentDescription"
+                value={editDescription}
+                onChange={(e) => setEditDescription(e.target.value)}
+                rows={3}
+                className="resize-none"
+              />
+            </div>
+            <ScheduleInputs idPrefix="editAssignment" value={editSchedule} onChange={setEditSchedule} />
+            <p className="text-xs text-muted-foreground">
+              Renaming keeps all existing uploads attached to this assignment.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingAssignment(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveEdit} disabled={updateMutation.isPending}>
+              {updateMutation.isPending ? "Saving..." : "Save Changes"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <RubricEditor assignment={rubricAssignment} onOpenChange={(open) => !open && setRubricAssignment(null)} />
+    </div>
+  );
+}
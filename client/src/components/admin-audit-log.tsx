@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { ChevronDown, ChevronRight, Download, History } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { isStaffRole, staffRoleLabels } from "@shared/permissions";
+import type { AuditEvent } from "@shared/schema";
+
+interface AuditEventPage {
+  events: AuditEvent[];
+  hasMore: boolean;
+}
+
+interface AuditFilters {
+  actors: { value: string; label: string }[];
+  actions: string[];
+}
+
+const PAGE_SIZE = 100;
+const MAX_SHOWN = 1000; // the server's page limit; older events are in the CSV export
+
+function describeActor(event: AuditEvent): string {
+  if (event.actorRole === "team") return `Team ${event.actorTeamNumber}: ${event.actorName}`;
+  if (isStaffRole(event.actorRole)) return `${event.actorName} (${staffRoleLabels[event.actorRole]})`;
+  return event.actorName;
+}
+
+export default function AdminAuditLog() {
+  const [teamNumber, setTeamNumber] = useState("");
+  const [actor, setActor] = useState("all");
+  const [action, setAction] = useState("all");
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const params = new URLSearchParams();
+  if (teamNumber.trim()) params.set("teamNumber", teamNumber.trim());
+  if (actor !== "all") params.set("actor", actor);
+  if (action !== "all") params.set("action", action);
+  const filterQuery = params.toString();
+
+  const { data: filters } = useQuery<AuditFilters>({
+    queryKey: ["/api/admin/audit-events/filters"],
+    staleTime: 0,
+  });
+
+  const { data, isLoading } = useQuery<AuditEventPage>({
+    queryKey: ["/api/admin/audit-events", filterQuery, limit],
+    queryFn: async () => {
+      return await apiRequest("GET", `/api/admin/audit-events?${filterQuery}${filterQuery ? "&" : ""}limit=${limit}`);
+    },
+    staleTime: 0,
+  });
+
+  const events = data?.events ?? [];
+
+  // A new filter starts again from the most recent events
+  const resetPaging = () => {
+    setLimit(PAGE_SIZE);
+    setExpandedId(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-semibold mb-2 text-foreground">Audit Log</h2>
+        <p className="text-muted-foreground mb-6">
+          Every change made in this course: who made it, from which address, and what the record looked like before and after.
+          Staff account changes appear in every course. Entries can't be edited or deleted.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="audit-team">Team</Label>
+          <Input
+            id="audit-team"
+            type="number"
+            min={1}
+            value={teamNumber}
+            onChange={(e) => { setTeamNumber(e.target.value); resetPaging(); }}
+            placeholder="Any team"
+            className="w-28"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>Actor</Label>
+          <Select value={actor} onValueChange={(value) => { setActor(value); resetPaging(); }}>
+            <SelectTrigger className="w-56" aria-label="Actor">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Anyone</SelectItem>
+              {filters?.actors.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Action</Label>
+          <Select value={action} onValueChange={(value) => { setAction(value); resetPaging(); }}>
+            <SelectTrigger className="w-56" aria-label="Action">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All actions</SelectItem>
+              {filters?.actions.map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button variant="outline" size="sm" className="ml-auto" asChild>
+          <a href={`/api/admin/audit-events/export.csv${filterQuery ? `?${filterQuery}` : ""}`} download>
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </a>
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="text-muted-foreground">Loading audit log...</div>
+      ) : events.length === 0 ? (
+        <div className="text-center py-12 bg-card rounded-lg border border-border">
+          <History className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">No matching events</p>
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="p-0 divide-y divide-border">
+            {events.map(event => {
+              const isExpanded = expandedId === event.id;
+              const hasSnapshot = event.before !== null || event.after !== null;
+              return (
+                <div key={event.id} className="p-3">
+                  <button
+                    type="button"
+                    className="w-full text-left flex items-start gap-3"
+                    onClick={() => setExpandedId(isExpanded ? null : event.id)}
+                    disabled={!hasSnapshot}
+                  >
+                    {hasSnapshot ? (
+                      isExpanded ? <ChevronDown className="w-4 h-4 mt-0.5 text-muted-foreground flex-shrink-0" /> : <ChevronRight className="w-4 h-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                    ) : (
+                      <span className="w-4 flex-shrink-0" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant="outline" className="font-mono text-xs">{event.action}</Badge>
+                        {event.teamNumber !== null && event.teamNumber !== 0 && (
+                          <Badge variant="secondary">Team {event.teamNumber}</Badge>
+                        )}
+                        <span className="text-sm text-foreground">{event.summary}</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {new Date(event.createdAt).toLocaleString()} • {describeActor(event)}
+                        {event.ipAddress && ` • ${event.ipAddress}`}
+                      </p>
+                    </div>
+                  </button>
+                  {isExpanded && (
+                    <div className="grid md:grid-cols-2 gap-3 mt-3 ml-7">
+                      {(["before", "after"] as const).map(key => (
+                        <div key={key}>
+                          <Label className="text-xs text-muted-foreground capitalize">{key}</Label>
+                          <pre className="mt-1 max-h-64 overflow-auto rounded-md bg-muted p-2 text-xs text-foreground whitespace-pre-wrap break-all">
+                            {event[key] === null ? "—" : JSON.stringify(event[key], null, 2)}
+                          </pre>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      {data?.hasMore && (
+        <div className="text-center">
+          {limit < MAX_SHOWN ? (
+            <Button variant="outline" onClick={() => setLimit(limit + PAGE_SIZE)}>
+              Show More
+            </Button>
+          ) : (
+            <p className="text-sm text-muted-foreground">Export the CSV to see older events</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,368 @@
+import { useRef, useState } from "react";
+import { AlertTriangle, DatabaseBackup, Download, LoaderIcon, RotateCcw, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+
+interface Backup {
+  id: string;
+  createdAt: string;
+  trigger: "manual" | "scheduled" | "command";
+  createdBy: string | null;
+  storage: string;
+  size: number;
+  sha256: string;
+  recordCount: number;
+  fileCount: number;
+  missingFiles: number;
+}
+
+interface BackupList {
+  backups: Backup[];
+  schedule: { intervalHours: number | null; retention: number };
+  isRunning: boolean;
+}
+
+// A backup kept on the server, or a ZIP chosen from this computer
+type RestoreSource = { backup: Backup } | { file: File };
+
+const triggerLabels: Record<Backup["trigger"], string> = {
+  manual: "Manual",
+  scheduled: "Scheduled",
+  command: "Command line",
+};
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1);
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+export default function AdminBackups() {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [restoreSource, setRestoreSource] = useState<RestoreSource | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Backup | null>(null);
+  const [adminPassword, setAdminPassword] = useState("");
+  const [confirmText, setConfirmText] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<BackupList>({
+    queryKey: ["/api/admin/backups"],
+    staleTime: 0,
+  });
+  const backups = data?.backups ?? [];
+
+  const closeDialogs = () => {
+    setRestoreSource(null);
+    setDeleteTarget(null);
+    setAdminPassword("");
+    setConfirmText("");
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/admin/backups", {});
+    },
+    onSuccess: (backup: Backup) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/backups"] });
+      toast({
+        title: "Success!",
+        description: `Backed up ${backup.recordCount} records and ${backup.fileCount} file${backup.fileCount === 1 ? "" : "s"}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Backup Failed",
+        description: error.message || "Failed to create backup",
+      });
+    },
+  });
+
+  // Uploaded backups go as form data, which apiRequest doesn't send
+  const restoreMutation = useMutation({
+    mutationFn: async (source: RestoreSource) => {
+      if ("backup" in source) {
+        return await apiRequest("POST", `/api/admin/backups/${source.backup.id}/restore`, { adminPassword, confirmText });
+      }
+      const formData = new FormData();
+      formData.append("adminPassword", adminPassword);
+      formData.append("confirmText", confirmText);
+      formData.append("backup", source.file);
+      const response = await fetch("/api/admin/backups/restore", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to restore backup");
+      }
+      return data;
+    },
+    onSuccess: (data: any) => {
+      // Everything on the page may have changed
+      queryClient.invalidateQueries();
+      closeDialogs();
+      toast({
+        title: "Success!",
+        description: data.message,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Restore Failed",
+        description: error.message || "Failed to restore backup",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (backup: Backup) => {
+      return await apiRequest("DELETE", `/api/admin/backups/${backup.id}`, { adminPassword });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/backups"] });
+      closeDialogs();
+      toast({
+        title: "Success!",
+        description: "Backup deleted",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Delete Failed",
+        description: error.message || "Failed to delete backup",
+      });
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) setRestoreSource({ file });
+  };
+
+  const handleRestore = () => {
+    if (!restoreSource) return;
+    if (confirmText !== "RESTORE BACKUP") {
+      toast({
+        variant: "destructive",
+        title: "Confirmation Required",
+        description: 'Please type "RESTORE BACKUP" to confirm',
+      });
+      return;
+    }
+    restoreMutation.mutate(restoreSource);
+  };
+
+  const schedule = data?.schedule;
+  const isRunning = data?.isRunning || createMutation.isPending || restoreMutation.isPending;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-semibold mb-2 text-foreground">Backups</h2>
+        <p className="text-muted-foreground mb-6">
+          A backup holds every course, account, grade, comment and stored file on this server, taken at a single moment.
+          Restoring one replaces everything, in every course.
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="p-4 space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h3 className="font-medium text-foreground">Back Up Now</h3>
+              <p className="text-sm text-muted-foreground">
+                {schedule?.intervalHours
+                  ? `Scheduled every ${schedule.intervalHours} ${schedule.intervalHours === 1 ? "hour" : "hours"}, keeping the last ${schedule.retention} scheduled backups.`
+                  : "Scheduled backups are off; set BACKUP_INTERVAL_HOURS on the server to turn them on."}
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => createMutation.mutate()}
+              disabled={isRunning}
+            >
+              {createMutation.isPending ? (
+                <LoaderIcon className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <DatabaseBackup className="w-4 h-4 mr-2" />
+              )}
+              {createMutation.isPending ? "Backing up..." : "Back Up"}
+            </Button>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h3 className="font-medium text-foreground">Restore from File</h3>
+              <p className="text-sm text-muted-foreground">
+                Restore a backup downloaded earlier or taken on another server.
+              </p>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isRunning}
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Choose ZIP
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="text-muted-foreground">Loading backups...</div>
+      ) : backups.length === 0 ? (
+        <div className="text-center py-12 bg-card rounded-lg border border-border">
+          <DatabaseBackup className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">No backups yet</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {backups.map(backup => (
+            <Card key={backup.id}>
+              <CardContent className="p-4 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-medium text-foreground">{new Date(backup.createdAt).toLocaleString()}</h3>
+                    <Badge variant="secondary">{triggerLabels[backup.trigger]}</Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {backup.recordCount} records • {backup.fileCount} {backup.fileCount === 1 ? "file" : "files"} • {formatFileSize(backup.size)}
+                    {backup.createdBy && ` • ${backup.createdBy}`}
+                  </p>
+                  {backup.missingFiles > 0 && (
+                    <p className="text-sm text-orange-600">
+                      {backup.missingFiles} {backup.missingFiles === 1 ? "file was" : "files were"} already missing from storage
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={`/api/admin/backups/${backup.id}/download`} download>
+                      <Download className="w-4 h-4 mr-2" />
+                      Download
+                    </a>
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setRestoreSource({ backup })} disabled={isRunning}>
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Restore
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                    onClick={() => setDeleteTarget(backup)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!restoreSource} onOpenChange={(open) => { if (!open && !restoreMutation.isPending) closeDialogs(); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Restore Backup</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="flex items-center space-x-2 p-3 bg-destructive/10 rounded border border-destructive/20">
+              <AlertTriangle className="h-4 w-4 text-destructive flex-shrink-0" />
+              <p className="text-sm text-destructive font-medium">
+                Every course, account and file record on this server is replaced with the backup's
+                {restoreSource && ("backup" in restoreSource
+                  ? ` from ${new Date(restoreSource.backup.createdAt).toLocaleString()}`
+                  : ` in ${restoreSource.file.name}`)}.
+                Everyone else is signed out.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="restoreAdminPassword">Your Password</Label>
+              <Input
+                id="restoreAdminPassword"
+                type="password"
+                value={adminPassword}
+                onChange={(e) => setAdminPassword(e.target.value)}
+                placeholder="Enter your password"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="restoreConfirmText">Type "RESTORE BACKUP" to confirm</Label>
+              <Input
+                id="restoreConfirmText"
+                value={confirmText}
+                onChange={(e) => setConfirmText(e.target.value)}
+                placeholder="RESTORE BACKUP"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialogs} disabled={restoreMutation.isPending}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleRestore} disabled={restoreMutation.isPending}>
+              {restoreMutation.isPending ? "Checking and restoring..." : "Restore"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!deleteTarget} onOpenChange={(open) => { if (!open) closeDialogs(); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Backup</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              Delete the backup from {deleteTarget && new Date(deleteTarget.createdAt).toLocaleString()}? This can't be undone.
+            </p>
+            <Label htmlFor="deleteBackupPassword">Your Password</Label>
+            <Input
+              id="deleteBackupPassword"
+              type="password"
+              value={adminPassword}
+              onChange={(e) => setAdminPassword(e.target.value)}
+              placeholder="Enter your password"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialogs} disabled={deleteMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deleteTarget && deleteMutation.mutate(deleteTarget)}
+              disabled={deleteMutation.isPending || !adminPassword}
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,340 @@
+import { useState } from "react";
+import { Plus, Edit2, Archive, ArchiveRestore, Copy, RefreshCw, LoaderIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useCourses, type CourseSummary } from "@/hooks/use-courses";
+
+export default function AdminCoursesManager() {
+  const [newName, setNewName] = useState("");
+  const [newSection, setNewSection] = useState("");
+  const [newMaxTeams, setNewMaxTeams] = useState("9");
+  const [editingCourse, setEditingCourse] = useState<CourseSummary | null>(null);
+  const [editName, setEditName] = useState("");
+  const [editSection, setEditSection] = useState("");
+  const [editMaxTeams, setEditMaxTeams] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { courses, activeCourse, isLoading } = useCourses();
+
+  const invalidateCourses = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/courses"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async ({ name, section, maxTeams }: { name: string; section: string; maxTeams: number }) => {
+      return await apiRequest("POST", "/api/admin/courses", { name, section: section || null, maxTeams });
+    },
+    onSuccess: (course: CourseSummary) => {
+      toast({
+        title: "Success!",
+        description: `Course created. Teams join with code ${course.joinCode}`,
+      });
+      setNewName("");
+      setNewSection("");
+      setNewMaxTeams("9");
+      invalidateCourses();
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Create Failed",
+        description: error.message || "Failed to create course",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Record<string, string | number | null> }) => {
+      return await apiRequest("PUT", `/api/admin/courses/${id}`, updates);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success!",
+        description: "Course updated",
+      });
+      setEditingCourse(null);
+      invalidateCourses();
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Update Failed",
+        description: error.message || "Failed to update course",
+      });
+    },
+  });
+
+  const joinCodeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("POST", `/api/admin/courses/${id}/join-code`, {});
+    },
+    onSuccess: (course: CourseSummary) => {
+      toast({
+        title: "Success!",
+        description: `New join code: ${course.joinCode}`,
+      });
+      invalidateCourses();
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Join Code Failed",
+        description: error.message || "Failed to create a new join code",
+      });
+    },
+  });
+
+  const parseMaxTeams = (value: string): number | null => {
+    const maxTeams = parseInt(value);
+    if (isNaN(maxTeams) || maxTeams < 1 || maxTeams > 200) {
+      toast({
+        variant: "destructive",
+        title: "Invalid Team Count",
+        description: "Number of teams must be between 1 and 200",
+      });
+      return null;
+    }
+    return maxTeams;
+  };
+
+  const handleCreate = () => {
+    if (!newName.trim()) {
+      toast({
+        variant: "destructive",
+        title: "Name Required",
+        description: "Please enter a course name",
+      });
+      return;
+    }
+    const maxTeams = parseMaxTeams(newMaxTeams);
+    if (maxTeams === null) return;
+    createMutation.mutate({ name: newName.trim(), section: newSection.trim(), maxTeams });
+  };
+
+  const openEditDialog = (course: CourseSummary) => {
+    setEditingCourse(course);
+    setEditName(course.name);
+    setEditSection(course.section || "");
+    setEditMaxTeams(String(course.maxTeams));
+  };
+
+  const handleSaveEdit = () => {
+    if (!editingCourse) return;
+    if (!editName.trim()) {
+      toast({
+        variant: "destructive",
+        title: "Name Required",
+        description: "Please enter a course name",
+      });
+      return;
+    }
+    const maxTeams = parseMaxTeams(editMaxTeams);
+    if (maxTeams === null) return;
+    updateMutation.mutate({
+      id: editingCourse.id,
+      updates: { name: editName.trim(), section: editSection.trim() || null, maxTeams },
+    });
+  };
+
+  const copyJoinCode = async (joinCode: string) => {
+    try {
+      await navigator.clipboard.writeText(joinCode);
+      toast({
+        title: "Copied",
+        description: "Join code copied to clipboard",
+      });
+    } catch {
+      toast({
+        variant: "destructive",
+        title: "Copy Failed",
+        description: "Select the code and copy it manually",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-semibold mb-2 text-foreground">Courses</h2>
+        <p className="text-muted-foreground mb-6">
+          Each course or section has its own teams, assignments and files. Teams register with the course's join code; staff switch courses from the header.
+        </p>
+      </div>
+
+      {/* Create Course */}
+      <Card>
+        <CardContent className="p-4 space-y-3">
+          <h3 className="font-medium text-foreground">New Course</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="newCourseName">Name *</Label>
+              <Input
+                id="newCourseName"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="e.g., Product Marketing"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="newCourseSection">Section (Optional)</Label>
+              <Input
+                id="newCourseSection"
+                value={newSection}
+                onChange={(e) => setNewSection(e.target.value)}
+                placeholder="e.g., Section A, Monsoon 2026"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="newCourseMaxTeams">Number of Teams</Label>
+              <Input
+                id="newCourseMaxTeams"
+                type="number"
+                min="1"
+                max="200"
+                value={newMaxTeams}
+                onChange={(e) => setNewMaxTeams(e.target.value)}
+              />
+            </div>
+          </div>
+          <Button onClick={handleCreate} disabled={createMutation.isPending}>
+            {createMutation.isPending ? (
+              <LoaderIcon className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Plus className="w-4 h-4 mr-2" />
+            )}
+            Add Course
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Course List */}
+      {isLoading ? (
+        <div className="text-muted-foreground">Loading courses...</div>
+      ) : courses.length === 0 ? (
+        <div className="text-center py-8 bg-card rounded-lg border border-border">
+          <p className="text-muted-foreground">No courses yet. Add the first one above.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {courses.map((course) => (
+            <Card key={course.id} className={course.isArchived ? "opacity-60" : ""}>
+              <CardContent className="p-4">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-medium text-foreground truncate">{course.name}</h3>
+                      {course.section && <Badge variant="outline">{course.section}</Badge>}
+                      {course.id === activeCourse?.id && <Badge variant="secondary">Current</Badge>}
+                      {course.isArchived && <Badge variant="secondary">Archived</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      Join code: <span className="font-mono text-foreground tracking-wider">{course.joinCode}</span>
+                      {` • Teams 1-${course.maxTeams}`}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center space-x-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => course.joinCode && copyJoinCode(course.joinCode)}
+                      title="Copy join code"
+                    >
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => joinCodeMutation.mutate(course.id)}
+                      disabled={joinCodeMutation.isPending}
+                      title="New join code (registered teams are unaffected)"
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => openEditDialog(course)}
+                      title="Edit"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateMutation.mutate({
+                        id: course.id,
+                        updates: { isArchived: course.isArchived ? "false" : "true" },
+                      })}
+                      disabled={updateMutation.isPending}
+                      title={course.isArchived ? "Restore" : "Archive (closes login and registration for its teams)"}
+                    >
+                      {course.isArchived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Edit Dialog */}
+      <Dialog open={!!editingCourse} onOpenChange={(open) => !open && setEditingCourse(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Course</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="editCourseName">Name *</Label>
+              <Input
+                id="editCourseName"
+                value={editName}
+                onChange={(e) => setEditName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="editCourseSection">Section</Label>
+              <Input
+                id="editCourseSection"
+                value={editSection}
+                onChange={(e) => setEditSection(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="editCourseMaxTeams">Number of Teams</Label>
+              <Input
+                id="editCourseMaxTeams"
+                type="number"
+                min="1"
+                max="200"
+                value={editMaxTeams}
+                onChange={(e) => setEditMaxTeams(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Lowering the count does not remove teams already registered above it, but they can no longer sign in.
+              </p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingCourse(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveEdit} disabled={updateMutation.isPending}>
+              {updateMutation.isPending ? "Saving..." : "Save Changes"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { FileText, Image, FileSpreadsheet, Presentation, Download, Eye, Edit2, Trash2, EyeOff } from "lucide-react";
+import { FileText, Image, FileSpreadsheet, Presentation, Download, Eye, Edit2, Trash2, EyeOff, Copy } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -11,6 +11,10 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import FilePreview from "@/components/file-preview";
+import { useAssignments } from "@/hooks/use-assignments";
+import { formatMinutes } from "@shared/deadlines";
+import { hasPermission } from "@shared/permissions";
+import { describeUploader, findIdenticalUploads, groupIdenticalUploads } from "@shared/duplicates";
 import type { File } from "@shared/schema";
 
 export default function AdminFilesManager() {
@@ -23,11 +27,14 @@ export default function AdminFilesManager() {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { getAssignmentTitle } = useAssignments();
 
   // Get current user info
-  const { data: user } = useQuery<{ teamNumber: number; isAdmin: boolean }>({
+  const { data: user } = useQuery<{ teamNumber: number; isAdmin: boolean; role?: string }>({
     queryKey: ["/api/user"]
   });
+  const canEditFiles = hasPermission(user, "files.edit");
+  const canDeleteFiles = hasPermission(user, "files.delete");
 
   // Query for admin files (team 0)
   const { data: allFiles = [], isLoading } = useQuery<File[]>({
@@ -47,6 +54,9 @@ export default function AdminFilesManager() {
 
   // Filter to only admin files (team 0)
   const adminFiles = allFiles.filter(file => file.teamNumber === 0);
+  // Same contents uploaded by different teams often means a copied submission
+  const identicalGroups = hasPermission(user, "files.viewAll") ? groupIdenticalUploads(allFiles) : [];
+  const identicalUpload = new Map(adminFiles.map(file => [file.id, findIdenticalUploads(file, allFiles)[0]]));
 
   // Toggle visibility mutation
   const toggleVisibilityMutation = useMutation({
@@ -145,7 +155,7 @@ export default function AdminFilesManager() {
     onSuccess: () => {
       toast({
         title: "Success!",
-        description: "File deleted successfully",
+        description: "File moved to the trash",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/files"] });
       setAdminPassword("");
@@ -255,7 +265,7 @@ export default function AdminFilesManager() {
       toast({
         variant: "destructive",
         title: "Password Required",
-        description: "Please enter your admin password to delete this file.",
+        description: "Please enter your password to delete this file.",
       });
       return;
     }
@@ -284,13 +294,61 @@ export default function AdminFilesManager() {
 
   return (
     <div>
-      <div className="mb-8">
-        <h2 className="text-2xl font-semibold text-foreground mb-2">W.'s Files</h2>
-        <p className="text-muted-foreground">
-          Manage your uploaded files for class presentations ({adminFiles.length} files)
-        </p>
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-semibold text-foreground mb-2">W.'s Files</h2>
+          <p className="text-muted-foreground">
+            Manage your uploaded files for class presentations ({adminFiles.length} files)
+          </p>
+        </div>
+        {adminFiles.length > 0 && (
+          <Button variant="outline" size="sm" asChild>
+            <a href="/api/files/download.zip?teamNumber=0" download>
+              <Download className="w-4 h-4 mr-2" />
+              Download All
+            </a>
+          </Button>
+        )}
       </div>
 
+      {identicalGroups.length > 0 && (
+        <Card className="mb-6 border-amber-300 dark:border-amber-700">
+          <CardContent className="p-4">
+            <h3 className="font-medium text-foreground flex items-center gap-2 mb-1">
+              <Copy className="w-4 h-4 text-amber-600" />
+              Identical Uploads
+            </h3>
+            <p className="text-sm text-muted-foreground mb-3">
+              These files have exactly the same contents but were uploaded by different teams.
+            </p>
+            <ul className="space-y-2">
+              {identicalGroups.map(group => (
+                <li key={group[0].contentHash} className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+                  {group.map(file => (
+                    <button
+                      key={file.id}
+                      onClick={() => setSelectedFile(file)}
+                      className="text-left text-foreground hover:underline"
+                    >
+                      <span className="font-medium">{describeUploader(file.teamNumber)}:</span> {file.label}
+                      <span className="text-muted-foreground"> ({getAssignmentTitle(file.assignmentId)})</span>
+                    </button>
+                  ))}
+                  <a
+                    href={`/api/files/download.zip?ids=${group.map(file => file.id).join(",")}`}
+                    download
+                    className="inline-flex items-center gap-1 text-muted-foreground hover:text-foreground"
+                  >
+                    <Download className="w-3 h-3" />
+                    Download all
+                  </a>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
       {adminFiles.length === 0 ? (
         <div className="text-center py-16">
           <div className="mx-auto w-24 h-24 bg-muted rounded-full flex items-center justify-center mb-6">
@@ -323,6 +381,16 @@ export default function AdminFilesManager() {
                       <Badge variant={file.isVisible === "true" ? "default" : "secondary"}>
                         {file.isVisible === "true" ? "Visible" : "Hidden"}
                       </Badge>
+                      {file.isLate === "true" && (
+                        <Badge variant="outline" className="border-orange-300 text-orange-700 bg-orange-50">
+                          Late · {formatMinutes(file.minutesLate)}
+                        </Badge>
+                      )}
+                      {identicalUpload.get(file.id) && (
+                        <Badge variant="outline" className="border-amber-300 text-amber-700 bg-amber-50">
+                          Identical to {describeUploader(identicalUpload.get(file.id)!.teamNumber)}'s upload
+                        </Badge>
+                      )}
                     </div>
                     
                     <p className="text-sm text-muted-foreground mb-2">
@@ -331,7 +399,7 @@ export default function AdminFilesManager() {
                     
                     <div className="flex items-center space-x-2 mb-2">
                       <Badge variant="secondary" className="text-xs">
-                        {file.assignment.split(' - ')[0]}
+                        {getAssignmentTitle(file.assignmentId).split(' - ')[0]}
                       </Badge>
                       {file.tags.map((tag, index) => (
                         <Badge key={index} variant="outline" className="text-xs">
@@ -367,6 +435,8 @@ export default function AdminFilesManager() {
                       <Download className="w-4 h-4" />
                       <span>Download</span>
                     </Button>
+                    {canEditFiles && (
+                    <>
                     <Button
                       variant="outline"
                       size="sm"
@@ -386,6 +456,9 @@ export default function AdminFilesManager() {
                       <Edit2 className="w-4 h-4" />
                       <span>Edit</span>
                     </Button>
+                    </>
+                    )}
+                    {canDeleteFiles && (
                     <AlertDialog>
                       <AlertDialogTrigger asChild>
                         <Button
@@ -401,17 +474,17 @@ export default function AdminFilesManager() {
                         <AlertDialogHeader>
                           <AlertDialogTitle>Delete File</AlertDialogTitle>
                           <AlertDialogDescription>
-                            Are you sure you want to delete "{file.originalName}"? This action cannot be undone.
+                            Are you sure you want to delete "{file.originalName}"? It goes to the trash, where an instructor can restore it.
                           </AlertDialogDescription>
                         </AlertDialogHeader>
                         <div className="py-4">
-                          <Label htmlFor="adminPasswordDelete">Admin Password</Label>
+                          <Label htmlFor="adminPasswordDelete">Your Password</Label>
                           <Input
                             id="adminPasswordDelete"
                             type="password"
                             value={adminPassword}
                             onChange={(e) => setAdminPassword(e.target.value)}
-                            placeholder="Enter your admin password"
+                            placeholder="Enter your password"
                             className="mt-2"
                           />
                         </div>
@@ -427,6 +500,7 @@ export default function AdminFilesManager() {
                         </AlertDialogFooter>
                       </AlertDialogContent>
                     </AlertDialog>
+                    )}
                   </div>
                 </div>
               </CardContent>
@@ -10,6 +10,7 @@ import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { useAssignments } from "@/hooks/use-assignments";
 import type { File } from "@shared/schema";
 
 interface AdminModalProps {
@@ -23,6 +24,7 @@ export default function AdminModal({ open, onOpenChange }: AdminModalProps) {
   const [fileToDelete, setFileToDelete] = useState<File | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { getAssignmentTitle } = useAssignments();
 
   const { data: files = [] } = useQuery<File[]>({
     queryKey: ["/api/files"],
@@ -37,7 +39,7 @@ export default function AdminModal({ open, onOpenChange }: AdminModalProps) {
     onSuccess: () => {
       toast({
         title: "Success!",
-        description: "File deleted successfully",
+        description: "File moved to the trash",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/files"] });
       setFileToDelete(null);
@@ -202,7 +204,7 @@ export default function AdminModal({ open, onOpenChange }: AdminModalProps) {
                                     {file.label} • Team {file.teamNumber} • {formatFileSize(file.fileSize)} • {formatDate(file.uploadedAt)}
                                   </p>
                                   <p className="text-xs text-muted-foreground truncate">
-                                    {file.assignment}
+                                    {getAssignmentTitle(file.assignmentId)}
                                   </p>
                                 </div>
                               </div>
@@ -246,13 +248,13 @@ export default function AdminModal({ open, onOpenChange }: AdminModalProps) {
             <div className="space-y-4">
               <p className="text-foreground">
                 Are you sure you want to delete "<strong>{fileToDelete?.originalName}</strong>"? 
-                This action cannot be undone.
+                It goes to the trash, where an instructor can restore it.
               </p>
               
               <Alert className="border-destructive/20 bg-destructive/10">
                 <AlertTriangle className="h-4 w-4 text-destructive" />
                 <AlertDescription className="text-destructive">
-                  This will permanently delete the file from the system.
+                  The file is deleted for good when the trash is emptied or purged.
                 </AlertDescription>
               </Alert>
               
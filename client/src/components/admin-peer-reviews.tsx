@@ -0,0 +1,532 @@
+import { useEffect, useState } from "react";
+import { Plus, Trash2, ArrowUp, ArrowDown, LoaderIcon, Shuffle, Lock, LockOpen, Eye, EyeOff, Download, CheckCircle2, Circle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAssignments } from "@/hooks/use-assignments";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { toDateTimeInputValue, fromDateTimeInputValue } from "@/lib/utils";
+import { hasPermission } from "@shared/permissions";
+import { formatPeerReviewAnswer } from "@shared/peer-review";
+import type { PeerReview, PeerReviewQuestion, PeerReviewRound } from "@shared/schema";
+
+interface PeerReviewData {
+  round: PeerReviewRound | null;
+  reviews: PeerReview[];
+  submittingTeams: number[];
+}
+
+interface QuestionFields {
+  id?: string;
+  prompt: string;
+  type: "rating" | "text";
+  maxRating: string;
+  isRequired: boolean;
+}
+
+const toFields = (question: PeerReviewQuestion): QuestionFields => ({
+  id: question.id,
+  prompt: question.prompt,
+  type: question.type,
+  maxRating: String(question.maxRating ?? 5),
+  isRequired: question.isRequired,
+});
+
+const newQuestion = (type: QuestionFields["type"] = "rating"): QuestionFields => ({ prompt: "", type, maxRating: "5", isRequired: true });
+
+const defaultQuestions: QuestionFields[] = [
+  { ...newQuestion("rating"), prompt: "How convincing is the submission overall?" },
+  { ...newQuestion("text"), prompt: "What is the strongest part of this work?" },
+  { ...newQuestion("text"), prompt: "What should the team improve?" },
+];
+
+const statusLabels: Record<PeerReviewRound["status"], string> = {
+  draft: "Not started",
+  open: "Open",
+  closed: "Closed",
+};
+
+function reviewStatus(review: PeerReview): string {
+  if (review.submittedAt) return "Submitted";
+  return review.answers.length > 0 ? "In progress" : "Not started";
+}
+
+/**
+ * Peer review rounds: staff write a review form for an assignment, the server assigns each
+ * submitting team other teams' work to review, and staff follow progress and read every review.
+ */
+export default function AdminPeerReviews() {
+  const [assignmentId, setAssignmentId] = useState("");
+  const [questions, setQuestions] = useState<QuestionFields[]>([]);
+  const [reviewsPerTeam, setReviewsPerTeam] = useState("2");
+  const [dueAt, setDueAt] = useState("");
+  const [viewedReview, setViewedReview] = useState<PeerReview | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { assignments } = useAssignments();
+
+  const { data: user } = useQuery<{ role?: string }>({
+    queryKey: ["/api/user"]
+  });
+  const canManage = hasPermission(user, "reviews.manage");
+
+  const { data, isLoading } = useQuery<PeerReviewData>({
+    queryKey: ["/api/admin/assignments", assignmentId, "peer-review"],
+    enabled: !!assignmentId,
+    staleTime: 0,
+  });
+  const round = data?.round ?? null;
+  const reviews = data?.reviews ?? [];
+  const hasSubmissions = reviews.some(review => review.submittedAt);
+
+  // Start from the saved form whenever another assignment is picked or the round changes
+  useEffect(() => {
+    if (!data) return;
+    setQuestions(data.round ? data.round.questions.map(toFields) : defaultQuestions);
+    setReviewsPerTeam(String(data.round?.reviewsPerTeam ?? 2));
+    setDueAt(toDateTimeInputValue(data.round?.dueAt ?? null));
+  }, [data]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/assignments", assignmentId, "peer-review"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PUT", `/api/admin/assignments/${assignmentId}/peer-review`, {
+        questions: questions.map(question => ({
+          ...(question.id && { id: question.id }),
+          prompt: question.prompt.trim(),
+          type: question.type,
+          maxRating: question.type === "rating" ? parseInt(question.maxRating) || 5 : null,
+          isRequired: question.isRequired,
+        })),
+        reviewsPerTeam: parseInt(reviewsPerTeam) || 1,
+        dueAt: fromDateTimeInputValue(dueAt),
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success!",
+        description: "Review form saved",
+      });
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Save Failed",
+        description: error.message || "Failed to save review form",
+      });
+    },
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/admin/assignments/${assignmentId}/peer-review/assign`);
+    },
+    onSuccess: (result: { reviews: PeerReview[] }) => {
+      toast({
+        title: "Success!",
+        description: `${result.reviews.length} reviews assigned; the round is open`,
+      });
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Assignment Failed",
+        description: error.message || "Failed to assign reviewers",
+      });
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async (status: "open" | "closed") => {
+      return await apiRequest("PUT", `/api/admin/assignments/${assignmentId}/peer-review/status`, { status });
+    },
+    onSuccess: invalidate,
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Update Failed",
+        description: error.message || "Failed to update peer review",
+      });
+    },
+  });
+
+  const releaseMutation = useMutation({
+    mutationFn: async (released: "true" | "false") => {
+      return await apiRequest("PUT", `/api/admin/assignments/${assignmentId}/peer-review/release`, { released });
+    },
+    onSuccess: (updated: PeerReviewRound) => {
+      toast({
+        title: "Success!",
+        description: updated.isReleased === "true" ? "Teams can now read the reviews of their work" : "Reviews hidden from teams",
+      });
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Update Failed",
+        description: error.message || "Failed to update review release",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("DELETE", `/api/admin/assignments/${assignmentId}/peer-review`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success!",
+        description: "Peer review deleted",
+      });
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Delete Failed",
+        description: error.message || "Failed to delete peer review",
+      });
+    },
+  });
+
+  const updateQuestion = (index: number, updates: Partial<QuestionFields>) => {
+    setQuestions(prev => prev.map((question, i) => i === index ? { ...question, ...updates } : question));
+  };
+
+  const moveQuestion = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= questions.length) return;
+    const next = [...questions];
+    [next[index], next[target]] = [next[target], next[index]];
+    setQuestions(next);
+  };
+
+  const handleSave = () => {
+    if (questions.length === 0 || questions.some(question => !question.prompt.trim())) {
+      toast({
+        variant: "destructive",
+        title: "Prompt Required",
+        description: "Add at least one question, and give every question a prompt",
+      });
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  const reviewerTeams = Array.from(new Set(reviews.map(review => review.reviewerTeamNumber))).sort((a, b) => a - b);
+  const questionsFor = round?.questions ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-semibold mb-2 text-foreground">Peer Review</h2>
+        <p className="text-muted-foreground mb-6">
+          Write a review form for an assignment, then assign each team other teams' submissions to review.
+          Reviewers stay anonymous to the teams they review; staff see who wrote every review.
+        </p>
+        <Select value={assignmentId} onValueChange={setAssignmentId}>
+          <SelectTrigger className="max-w-md" aria-label="Assignment">
+            <SelectValue placeholder="Choose an assignment" />
+          </SelectTrigger>
+          <SelectContent>
+            {assignments.map(assignment => (
+              <SelectItem key={assignment.id} value={assignment.id}>{assignment.title}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {assignmentId && (isLoading || !data ? (
+        <div className="text-muted-foreground">Loading peer review...</div>
+      ) : (
+        <>
+          {/* Review form */}
+          <Card>
+            <CardContent className="p-4 space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="font-medium text-foreground">Review Form</h3>
+                {hasSubmissions && (
+                  <span className="text-xs text-muted-foreground">Questions are fixed once reviews have been submitted</span>
+                )}
+              </div>
+
+              {questions.map((question, index) => (
+                <div key={question.id ?? `new-${index}`} className="border border-border rounded-lg p-3 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={question.prompt}
+                      onChange={(e) => updateQuestion(index, { prompt: e.target.value })}
+                      placeholder="Question, e.g., How clear is the pitch?"
+                      aria-label="Question prompt"
+                      disabled={!canManage}
+                    />
+                    {canManage && (
+                      <>
+                        <Button variant="ghost" size="sm" onClick={() => moveQuestion(index, -1)} disabled={index === 0} title="Move up">
+                          <ArrowUp className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => moveQuestion(index, 1)} disabled={index === questions.length - 1} title="Move down">
+                          <ArrowDown className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setQuestions(prev => prev.filter((_, i) => i !== index))}
+                          className="text-red-600 hover:text-red-700"
+                          title="Remove question"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-4 flex-wrap">
+                    <Select
+                      value={question.type}
+                      onValueChange={(type) => updateQuestion(index, { type: type as QuestionFields["type"] })}
+                      disabled={!canManage}
+                    >
+                      <SelectTrigger className="w-40 h-8 text-xs" aria-label="Answer type">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="rating">Rating</SelectItem>
+                        <SelectItem value="text">Written answer</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {question.type === "rating" && (
+                      <div className="flex items-center gap-2">
+                        <Label htmlFor={`maxRating-${index}`} className="text-xs">1 to</Label>
+                        <Input
+                          id={`maxRating-${index}`}
+                          type="number"
+                          min={2}
+                          max={10}
+                          value={question.maxRating}
+                          onChange={(e) => updateQuestion(index, { maxRating: e.target.value })}
+                          className="w-20 h-8 text-xs"
+                          disabled={!canManage}
+                        />
+                      </div>
+                    )}
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id={`required-${index}`}
+                        checked={question.isRequired}
+                        onCheckedChange={(isRequired) => updateQuestion(index, { isRequired })}
+                        disabled={!canManage}
+                      />
+                      <Label htmlFor={`required-${index}`} className="text-xs">Required</Label>
+                    </div>
+                  </div>
+                </div>
+              ))}
+
+              {canManage && (
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setQuestions(prev => [...prev, newQuestion("rating")])}>
+                    <Plus className="w-4 h-4 mr-1" />
+                    Rating
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setQuestions(prev => [...prev, newQuestion("text")])}>
+                    <Plus className="w-4 h-4 mr-1" />
+                    Written answer
+                  </Button>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="reviewsPerTeam" className="text-xs">Reviews per team</Label>
+                  <Input
+                    id="reviewsPerTeam"
+                    type="number"
+                    min={1}
+                    max={10}
+                    value={reviewsPerTeam}
+                    onChange={(e) => setReviewsPerTeam(e.target.value)}
+                    disabled={!canManage}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="reviewDueAt" className="text-xs">Due (optional)</Label>
+                  <Input
+                    id="reviewDueAt"
+                    type="datetime-local"
+                    value={dueAt}
+                    onChange={(e) => setDueAt(e.target.value)}
+                    disabled={!canManage}
+                  />
+                </div>
+              </div>
+
+              {canManage && (
+                <Button onClick={handleSave} disabled={saveMutation.isPending}>
+                  {saveMutation.isPending && <LoaderIcon className="w-4 h-4 mr-2 animate-spin" />}
+                  Save Form
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Round */}
+          {round && (
+            <Card>
+              <CardContent className="p-4 space-y-4">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <h3 className="font-medium text-foreground">Round</h3>
+                  <Badge variant={round.status === "open" ? "default" : "secondary"}>{statusLabels[round.status]}</Badge>
+                  {round.isReleased === "true" && <Badge variant="outline">Released to teams</Badge>}
+                  <span className="text-xs text-muted-foreground ml-auto">
+                    {data.submittingTeams.length} team{data.submittingTeams.length === 1 ? "" : "s"} submitted
+                    {reviews.length > 0 && ` • ${reviews.filter(review => review.submittedAt).length} of ${reviews.length} reviews done`}
+                  </span>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  {canManage && !hasSubmissions && (
+                    <Button size="sm" onClick={() => assignMutation.mutate()} disabled={assignMutation.isPending}>
+                      {assignMutation.isPending ? <LoaderIcon className="w-4 h-4 mr-2 animate-spin" /> : <Shuffle className="w-4 h-4 mr-2" />}
+                      {reviews.length > 0 ? "Reassign Reviewers" : "Assign Reviewers & Open"}
+                    </Button>
+                  )}
+                  {canManage && round.status !== "draft" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => statusMutation.mutate(round.status === "open" ? "closed" : "open")}
+                      disabled={statusMutation.isPending}
+                    >
+                      {round.status === "open" ? <Lock className="w-4 h-4 mr-2" /> : <LockOpen className="w-4 h-4 mr-2" />}
+                      {round.status === "open" ? "Close Round" : "Reopen Round"}
+                    </Button>
+                  )}
+                  {canManage && round.status !== "draft" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => releaseMutation.mutate(round.isReleased === "true" ? "false" : "true")}
+                      disabled={releaseMutation.isPending}
+                    >
+                      {round.isReleased === "true" ? <EyeOff className="w-4 h-4 mr-2" /> : <Eye className="w-4 h-4 mr-2" />}
+                      {round.isReleased === "true" ? "Hide From Teams" : "Release to Teams"}
+                    </Button>
+                  )}
+                  {reviews.length > 0 && (
+                    <Button variant="outline" size="sm" asChild>
+                      <a href={`/api/admin/assignments/${assignmentId}/peer-review/export.csv`} download>
+                        <Download className="w-4 h-4 mr-2" />
+                        Export CSV
+                      </a>
+                    </Button>
+                  )}
+                  {canManage && (
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="outline" size="sm" className="text-red-600 hover:text-red-700">
+                          <Trash2 className="w-4 h-4 mr-2" />
+                          Delete
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete Peer Review</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            This deletes the review form and all {reviews.length} assigned reviews, including submitted ones. This action cannot be undone.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => deleteMutation.mutate()} className="bg-red-600 hover:bg-red-700">
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  )}
+                </div>
+
+                {/* Completion per reviewing team */}
+                {reviews.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No reviewers assigned yet. Each team that has submitted will review {round.reviewsPerTeam} other team{round.reviewsPerTeam === 1 ? "" : "s"}.
+                  </p>
+                ) : (
+                  <div className="border rounded-lg divide-y">
+                    {reviewerTeams.map(teamNumber => {
+                      const written = reviews.filter(review => review.reviewerTeamNumber === teamNumber);
+                      const done = written.filter(review => review.submittedAt).length;
+                      return (
+                        <div key={teamNumber} className="flex items-center gap-3 px-3 py-2 text-sm">
+                          <span className="font-medium w-20">Team {teamNumber}</span>
+                          <div className="flex flex-wrap gap-1 flex-1">
+                            {written.map(review => (
+                              <Button
+                                key={review.id}
+                                variant="outline"
+                                size="sm"
+                                className="h-7 text-xs"
+                                onClick={() => setViewedReview(review)}
+                                title={`${reviewStatus(review)}: Team ${review.revieweeTeamNumber}`}
+                              >
+                                {review.submittedAt
+                                  ? <CheckCircle2 className="w-3 h-3 mr-1 text-green-600" />
+                                  : <Circle className={`w-3 h-3 mr-1 ${review.answers.length > 0 ? "text-amber-500" : "text-muted-foreground"}`} />}
+                                Team {review.revieweeTeamNumber}
+                              </Button>
+                            ))}
+                          </div>
+                          <Badge variant={done === written.length ? "default" : "outline"}>{done}/{written.length}</Badge>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      ))}
+
+      <Dialog open={!!viewedReview} onOpenChange={(open) => !open && setViewedReview(null)}>
+        <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              Team {viewedReview?.reviewerTeamNumber} reviewing Team {viewedReview?.revieweeTeamNumber}
+            </DialogTitle>
+          </DialogHeader>
+          {viewedReview && (
+            <div className="space-y-4 text-sm">
+              <p className="text-xs text-muted-foreground">
+                {reviewStatus(viewedReview)}
+                {viewedReview.submittedAt && ` on ${new Date(viewedReview.submittedAt).toLocaleString()}`}
+              </p>
+              {questionsFor.map(question => (
+                <div key={question.id}>
+                  <p className="font-medium text-foreground">{question.prompt}</p>
+                  <p className="text-muted-foreground whitespace-pre-wrap">
+                    {formatPeerReviewAnswer(question, viewedReview.answers.find(answer => answer.questionId === question.id)) || "No answer"}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
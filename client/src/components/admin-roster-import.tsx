@@ -0,0 +1,102 @@
+import { useRef, useState } from "react";
+import { Upload, LoaderIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+export default function AdminRosterImport() {
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // apiRequest only surfaces the message text, but the per-line errors are what admins need to fix the file
+  const importMutation = useMutation({
+    mutationFn: async (csv: string) => {
+      const response = await fetch("/api/admin/teams/members/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ csv }),
+        credentials: "include",
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw Object.assign(new Error(data.message || "Failed to import roster"), { errors: data.errors || [] });
+      }
+      return data;
+    },
+    onSuccess: (data: any) => {
+      setErrors([]);
+      toast({
+        title: "Roster Imported",
+        description: data.message,
+      });
+      queryClient.invalidateQueries({ queryKey: ["admin-teams"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/teams"] });
+    },
+    onError: (error: any) => {
+      setErrors(error.errors || []);
+      toast({
+        variant: "destructive",
+        title: "Import Failed",
+        description: error.message || "Failed to import roster",
+      });
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => importMutation.mutate(String(reader.result ?? ""));
+    reader.onerror = () => toast({
+      variant: "destructive",
+      title: "Import Failed",
+      description: "Could not read the selected file",
+    });
+    reader.readAsText(file);
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h3 className="font-medium text-foreground">Import Roster</h3>
+            <p className="text-sm text-muted-foreground">
+              CSV with a header row: <span className="font-mono">team,name,email,roll</span>. Teams in the file have their members replaced.
+            </p>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importMutation.isPending}
+          >
+            {importMutation.isPending ? (
+              <LoaderIcon className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Upload className="w-4 h-4 mr-2" />
+            )}
+            Choose CSV
+          </Button>
+        </div>
+
+        {errors.length > 0 && (
+          <ul className="text-sm text-red-600 dark:text-red-400 list-disc pl-5 space-y-1 max-h-40 overflow-y-auto">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
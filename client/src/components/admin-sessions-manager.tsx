@@ -0,0 +1,183 @@
+import { LogOut, LoaderIcon, MonitorSmartphone } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { isStaffRole, staffRoleLabels } from "@shared/permissions";
+
+interface ActiveSession {
+  id: string;
+  teamNumber: number;
+  teamName: string | null;
+  role: string;
+  email: string | null;
+  signedInAt: string | null;
+  userAgent: string | null;
+  expiresAt: string | null;
+  isCurrent: boolean;
+}
+
+interface SessionList {
+  persistent: boolean;
+  sessions: ActiveSession[];
+}
+
+// Enough of the user agent to tell devices apart without listing every engine token
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+  const browser = ["Edg", "Firefox", "Chrome", "Safari"].find(name => userAgent.includes(`${name}/`));
+  const platform = ["iPhone", "iPad", "Android", "Windows", "Mac OS", "Linux"].find(name => userAgent.includes(name));
+  const label = [browser === "Edg" ? "Edge" : browser, platform === "Mac OS" ? "macOS" : platform].filter(Boolean).join(" on ");
+  return label || userAgent.slice(0, 60);
+}
+
+export default function AdminSessionsManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<SessionList>({
+    queryKey: ["/api/admin/sessions"],
+    staleTime: 0,
+  });
+
+  const onSignedOut = (result: any) => {
+    toast({
+      title: "Success!",
+      description: result.message,
+    });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/sessions"] });
+  };
+
+  const onSignOutError = (error: any) => {
+    toast({
+      variant: "destructive",
+      title: "Sign Out Failed",
+      description: error.message || "Failed to sign out session",
+    });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/admin/sessions/${encodeURIComponent(id)}`);
+    },
+    onSuccess: onSignedOut,
+    onError: onSignOutError,
+  });
+
+  const revokeTeamMutation = useMutation({
+    mutationFn: async (teamNumber: number) => {
+      return await apiRequest("DELETE", `/api/admin/teams/${teamNumber}/sessions`);
+    },
+    onSuccess: onSignedOut,
+    onError: onSignOutError,
+  });
+
+  const sessions = data?.sessions ?? [];
+  const staffSessions = sessions.filter(session => isStaffRole(session.role));
+  const teamNumbers = Array.from(new Set(sessions.filter(session => session.role === "team").map(session => session.teamNumber)))
+    .sort((a, b) => a - b);
+
+  const renderSession = (session: ActiveSession) => (
+    <div key={session.id} className="flex items-center justify-between gap-4 py-2">
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <MonitorSmartphone className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+          <span className="text-sm text-foreground truncate">
+            {isStaffRole(session.role) ? session.teamName || session.email : describeDevice(session.userAgent)}
+          </span>
+          {isStaffRole(session.role) && <Badge variant="outline">{staffRoleLabels[session.role]}</Badge>}
+          {session.isCurrent && <Badge variant="secondary">This device</Badge>}
+        </div>
+        <p className="text-xs text-muted-foreground mt-1 truncate">
+          {isStaffRole(session.role) && `${describeDevice(session.userAgent)} • `}
+          {session.signedInAt ? `Signed in ${new Date(session.signedInAt).toLocaleString()}` : "Signed in before session tracking"}
+          {session.expiresAt && ` • Expires ${new Date(session.expiresAt).toLocaleString()}`}
+        </p>
+      </div>
+      {!session.isCurrent && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => revokeMutation.mutate(session.id)}
+          disabled={revokeMutation.isPending}
+          className="text-red-600 hover:text-red-700"
+          title="Sign out this session"
+        >
+          <LogOut className="w-4 h-4" />
+        </Button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-semibold mb-2 text-foreground">Active Sessions</h2>
+        <p className="text-muted-foreground mb-6">
+          Everyone currently signed in to this course. Signing out a session forces that device back to the login page; use it with a password change when a team's password has leaked.
+        </p>
+      </div>
+
+      {data && !data.persistent && (
+        <p className="text-sm text-muted-foreground">
+          Sessions are kept in memory in this deployment, so a server restart signs everyone out.
+        </p>
+      )}
+
+      {isLoading ? (
+        <div className="text-muted-foreground">Loading sessions...</div>
+      ) : (
+        <div className="space-y-4">
+          <Card>
+            <CardContent className="p-4">
+              <h3 className="font-medium text-foreground mb-1">Staff</h3>
+              {staffSessions.length > 0
+                ? <div className="divide-y divide-border">{staffSessions.map(renderSession)}</div>
+                : <p className="text-sm text-muted-foreground">No staff signed in</p>}
+            </CardContent>
+          </Card>
+
+          {teamNumbers.length === 0 ? (
+            <div className="text-center py-12 bg-card rounded-lg border border-border">
+              <MonitorSmartphone className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">No teams signed in</p>
+            </div>
+          ) : teamNumbers.map(teamNumber => {
+            const teamSessions = sessions.filter(session => session.role === "team" && session.teamNumber === teamNumber);
+            return (
+              <Card key={teamNumber}>
+                <CardContent className="p-4">
+                  <div className="flex items-center justify-between gap-4 mb-1">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">Team {teamNumber}</Badge>
+                      <span className="font-medium text-foreground">{teamSessions[0].teamName}</span>
+                      <span className="text-sm text-muted-foreground">
+                        {teamSessions.length} session{teamSessions.length === 1 ? "" : "s"}
+                      </span>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => revokeTeamMutation.mutate(teamNumber)}
+                      disabled={revokeTeamMutation.isPending}
+                    >
+                      {revokeTeamMutation.isPending && revokeTeamMutation.variables === teamNumber ? (
+                        <LoaderIcon className="w-4 h-4 mr-1 animate-spin" />
+                      ) : (
+                        <LogOut className="w-4 h-4 mr-1" />
+                      )}
+                      Sign Out Team
+                    </Button>
+                  </div>
+                  <div className="divide-y divide-border">{teamSessions.map(renderSession)}</div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { Settings, LoaderIcon, Eye, EyeOff, Trash2, AlertTriangle, Users, Database, Shield, FileX, UserX } from "lucide-react";
+import { Settings, LoaderIcon, Eye, EyeOff, Trash2, AlertTriangle, Users, Database, Shield, FileX, UserX, BookOpen, UserCog, GraduationCap, MonitorSmartphone, MessagesSquare, History, Archive, ArchiveRestore, DatabaseBackup } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogTrigger } from "@/components/ui/dialog";
 import { Switch } from "@/components/ui/switch";
@@ -11,11 +11,28 @@ import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { useAssignments } from "@/hooks/use-assignments";
+import AdminAssignmentsManager from "@/components/admin-assignments-manager";
+import OpenViewSchedule from "@/components/open-view-schedule";
+import AdminStaffManager from "@/components/admin-staff-manager";
+import AdminCoursesManager from "@/components/admin-courses-manager";
+import AdminRosterImport from "@/components/admin-roster-import";
+import AdminSessionsManager from "@/components/admin-sessions-manager";
+import AdminPeerReviews from "@/components/admin-peer-reviews";
+import AdminAuditLog from "@/components/admin-audit-log";
+import AdminTermArchives from "@/components/admin-term-archives";
+import AdminBackups from "@/components/admin-backups";
+import AdminTrash from "@/components/admin-trash";
+import { hasPermission, type Permission } from "@shared/permissions";
+import type { TeamMember } from "@shared/schema";
+import { getOpenViewTransitions } from "@shared/open-view";
 
 interface AssignmentSetting {
   id: string;
-  assignment: string;
+  assignmentId: string;
   isOpenView: string;
+  revealAt: string | null;
+  hideAt: string | null;
   updatedAt: string;
 }
 
@@ -26,6 +43,7 @@ interface Team {
   lastLogin?: string;
   createdAt?: string;
   isActive: boolean;
+  members: TeamMember[];
 }
 
 interface AdminSettingsModalProps {
@@ -41,13 +59,27 @@ export default function AdminSettingsModal({ open, onOpenChange }: AdminSettings
   const [activeSection, setActiveSection] = useState("assignments");
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { getAssignment } = useAssignments();
+
+  const { data: user } = useQuery<{ id?: string; role?: string; courseId?: string | null }>({
+    queryKey: ["/api/user"]
+  });
 
   // Fetch assignment settings (no admin auth needed - user is already admin)
-  const { data: settings = [], isLoading: settingsLoading } = useQuery<AssignmentSetting[]>({
+  const { data: allSettings = [], isLoading: settingsLoading } = useQuery<AssignmentSetting[]>({
     queryKey: ["/api/assignment-settings"],
     enabled: open,
   });
 
+  // Archived assignments no longer take part in peer viewing
+  const settings = allSettings.filter(setting => getAssignment(setting.assignmentId)?.isArchived === "false");
+
+  // Pending scheduled reveal/hide times across all assignments, soonest first
+  const upcomingTransitions = settings
+    .flatMap(setting => getOpenViewTransitions(setting).map(transition => ({ ...transition, assignmentId: setting.assignmentId })))
+    .filter(transition => transition.at.getTime() > Date.now())
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+
   // Fetch teams (no admin auth needed - user is already admin)
   const { data: teams = [], isLoading: teamsLoading } = useQuery<Team[]>({
     queryKey: ["admin-teams"],
@@ -63,8 +95,8 @@ export default function AdminSettingsModal({ open, onOpenChange }: AdminSettings
   });
 
   const updateSettingMutation = useMutation({
-    mutationFn: async ({ assignment, isOpenView }: { assignment: string; isOpenView: boolean }) => {
-      const response = await apiRequest("PUT", "/api/assignment-settings", { assignment, isOpenView });
+    mutationFn: async ({ assignmentId, isOpenView }: { assignmentId: string; isOpenView: boolean }) => {
+      const response = await apiRequest("PUT", "/api/assignment-settings", { assignmentId, isOpenView });
       return response;
     },
     onSuccess: () => {
@@ -92,7 +124,7 @@ export default function AdminSettingsModal({ open, onOpenChange }: AdminSettings
     onSuccess: () => {
       toast({
         title: "Success!",
-        description: "All files have been deleted",
+        description: "All files moved to the trash",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/files"] });
       setShowDeleteConfirm(false);
@@ -151,14 +183,14 @@ export default function AdminSettingsModal({ open, onOpenChange }: AdminSettings
     },
   });
 
-  // Reset server mutation
-  const resetServerMutation = useMutation({
+  // Close term mutation: the server archives the course before clearing it
+  const closeTermMutation = useMutation({
     mutationFn: async ({ adminPassword, confirmText }: { adminPassword: string; confirmText: string }) => {
-      return await apiRequest("POST", "/api/admin/reset-server", { adminPassword, confirmText });
+      return await apiRequest("POST", "/api/admin/close-term", { adminPassword, confirmText });
     },
     onSuccess: (data: any) => {
       toast({
-        title: "Server Reset Complete!",
+        title: "Term Closed!",
         description: data.message,
       });
       queryClient.invalidateQueries();
@@ -169,14 +201,14 @@ export default function AdminSettingsModal({ open, onOpenChange }: AdminSettings
     onError: (error: any) => {
       toast({
         variant: "destructive",
-        title: "Reset Failed",
-        description: error.message || "Failed to reset server",
+        title: "Close Term Failed",
+        description: error.message || "Failed to close the term",
       });
     },
   });
 
-  const handleToggle = (assignment: string, currentValue: boolean) => {
-    updateSettingMutation.mutate({ assignment, isOpenView: !currentValue });
+  const handleToggle = (assignmentId: string, currentValue: boolean) => {
+    updateSettingMutation.mutate({ assignmentId, isOpenView: !currentValue });
   };
 
   const handleDeleteAll = () => {
@@ -196,7 +228,7 @@ export default function AdminSettingsModal({ open, onOpenChange }: AdminSettings
       toast({
         variant: "destructive",
         title: "Password Required",
-        description: "Please enter admin password",
+        description: "Please enter your password",
       });
       return;
     }
@@ -208,31 +240,31 @@ export default function AdminSettingsModal({ open, onOpenChange }: AdminSettings
       toast({
         variant: "destructive",
         title: "Password Required",
-        description: "Please enter admin password",
+        description: "Please enter your password",
       });
       return;
     }
     deleteTeamMutation.mutate({ teamNumber, adminPassword });
   };
 
-  const handleResetServer = () => {
+  const handleCloseTerm = () => {
     if (!adminPassword) {
       toast({
         variant: "destructive",
         title: "Password Required",
-        description: "Please enter admin password",
+        description: "Please enter your password",
       });
       return;
     }
-    if (confirmText !== "RESET ALL DATA") {
+    if (confirmText !== "CLOSE TERM") {
       toast({
         variant: "destructive",
         title: "Confirmation Required",
-        description: 'Please type "RESET ALL DATA" to confirm',
+        description: 'Please type "CLOSE TERM" to confirm',
       });
       return;
     }
-    resetServerMutation.mutate({ adminPassword, confirmText });
+    closeTermMutation.mutate({ adminPassword, confirmText });
   };
 
   if (settingsLoading) {
@@ -253,13 +285,29 @@ export default function AdminSettingsModal({ open, onOpenChange }: AdminSettings
     );
   }
 
-  const sidebarItems = [
-    { id: "assignments", label: "Assignment Settings", icon: Settings, description: "Control assignment visibility" },
-    { id: "teams", label: "Team Management", icon: Users, description: "Manage registered teams" },
+  const allSidebarItems: { id: string; label: string; icon: typeof Settings; description: string; permission?: Permission }[] = [
+    { id: "assignments", label: "Assignment Settings", icon: Settings, description: "Control assignment visibility", permission: "assignments.visibility" },
+    { id: "manage-assignments", label: "Assignments", icon: BookOpen, description: "Create, reorder and archive", permission: "assignments.manage" },
+    { id: "peer-review", label: "Peer Review", icon: MessagesSquare, description: "Review forms and assignments", permission: "reviews.view" },
+    { id: "teams", label: "Team Management", icon: Users, description: "Manage registered teams", permission: "teams.view" },
+    { id: "courses", label: "Courses", icon: GraduationCap, description: "Sections and join codes", permission: "courses.manage" },
+    { id: "staff", label: "Staff", icon: UserCog, description: "Invite and deactivate staff", permission: "staff.manage" },
+    { id: "sessions", label: "Active Sessions", icon: MonitorSmartphone, description: "See and sign out devices", permission: "sessions.manage" },
+    { id: "trash", label: "Trash", icon: ArchiveRestore, description: "Restore deleted files and teams", permission: "trash.manage" },
+    { id: "audit", label: "Audit Log", icon: History, description: "Who changed what, and when", permission: "audit.view" },
+    { id: "archives", label: "Term Archives", icon: Archive, description: "Download and import past terms", permission: "archives.manage" },
+    { id: "backups", label: "Backups", icon: DatabaseBackup, description: "Back up and restore the whole server", permission: "backups.manage" },
     { id: "info", label: "System Info", icon: Database, description: "View system information" },
-    { id: "danger", label: "Danger Zone", icon: AlertTriangle, description: "Destructive actions" },
+    { id: "danger", label: "Danger Zone", icon: AlertTriangle, description: "Destructive actions", permission: "server.reset" },
   ];
 
+  // Each role only sees the sections it can act on
+  const sidebarItems = allSidebarItems.filter(item => !item.permission || hasPermission(user, item.permission));
+  // Until a course exists there is nothing to configure except courses
+  const requestedSection = user && !user.courseId && hasPermission(user, "courses.manage") ? "courses" : activeSection;
+  const currentSection = sidebarItems.some(item => item.id === requestedSection) ? requestedSection : sidebarItems[0]?.id;
+  const canManageTeams = hasPermission(user, "teams.manage");
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-6xl max-h-[90vh] flex flex-col p-0">
@@ -279,7 +327,7 @@ export default function AdminSettingsModal({ open, onOpenChange }: AdminSettings
                   key={item.id}
                   onClick={() => setActiveSection(item.id)}
                   className={`w-full flex items-center px-3 py-3 text-left rounded-lg transition-colors ${
-                    activeSection === item.id
+                    currentSection === item.id
                       ? "bg-accent text-accent-foreground"
                       : "hover:bg-accent/50 text-muted-foreground hover:text-foreground"
                   }`}
@@ -296,12 +344,12 @@ export default function AdminSettingsModal({ open, onOpenChange }: AdminSettings
 
           {/* Right Content Area */}
           <div className="flex-1 overflow-y-auto p-6" style={{ height: '888px' }}>
-            {activeSection === "assignments" && (
+            {currentSection === "assignments" && (
               <div className="space-y-6">
                 <div>
                   <h2 className="text-2xl font-semibold mb-2 text-foreground">Assignment Visibility</h2>
                   <p className="text-muted-foreground mb-6">
-                    Control which assignments are open for teams to view each other's files. Admin file visibility is controlled separately.
+                    Control which assignments are open for teams to view each other's files, now or on a schedule. Admin file visibility is controlled separately.
                   </p>
                 </div>
 
@@ -313,12 +361,35 @@ export default function AdminSettingsModal({ open, onOpenChange }: AdminSettings
                   </div>
                 ) : (
                   <div className="space-y-4">
+                    {upcomingTransitions.length > 0 && (
+                      <Card>
+                        <CardContent className="p-4">
+                          <h3 className="font-medium text-foreground mb-3">Upcoming changes</h3>
+                          <ul className="space-y-2">
+                            {upcomingTransitions.map((transition) => (
+                              <li key={`${transition.assignmentId}-${transition.isOpenView}`} className="flex items-center justify-between text-sm">
+                                <span className="flex items-center gap-2">
+                                  {transition.isOpenView ? (
+                                    <Eye className="w-4 h-4 text-green-600" />
+                                  ) : (
+                                    <EyeOff className="w-4 h-4 text-orange-600" />
+                                  )}
+                                  {getAssignment(transition.assignmentId)?.title} {transition.isOpenView ? "opens" : "closes"}
+                                </span>
+                                <span className="text-muted-foreground">{transition.at.toLocaleString()}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </CardContent>
+                      </Card>
+                    )}
+
                     {settings.map((setting) => (
-                      <Card key={setting.assignment}>
+                      <Card key={setting.assignmentId}>
                         <CardContent className="p-4">
                           <div className="flex items-center justify-between">
                             <div className="flex-1">
-                              <h3 className="font-medium text-foreground">{setting.assignment}</h3>
+                              <h3 className="font-medium text-foreground">{getAssignment(setting.assignmentId)?.title}</h3>
                               <p className="text-sm text-muted-foreground mt-1">
                                 {setting.isOpenView === "true" ? (
                                   <span className="flex items-center gap-1 text-green-600">
@@ -340,11 +411,18 @@ export default function AdminSettingsModal({ open, onOpenChange }: AdminSettings
                               </span>
                               <Switch
                                 checked={setting.isOpenView === "true"}
-                                onCheckedChange={() => handleToggle(setting.assignment, setting.isOpenView === "true")}
+                                onCheckedChange={() => handleToggle(setting.assignmentId, setting.isOpenView === "true")}
                                 disabled={updateSettingMutation.isPending}
                               />
                             </div>
                           </div>
+
+                          <OpenViewSchedule
+                            key={`${setting.assignmentId}-${setting.revealAt}-${setting.hideAt}`}
+                            assignmentId={setting.assignmentId}
+                            revealAt={setting.revealAt}
+                            hideAt={setting.hideAt}
+                          />
                         </CardContent>
                       </Card>
                     ))}
@@ -353,15 +431,21 @@ export default function AdminSettingsModal({ open, onOpenChange }: AdminSettings
               </div>
             )}
 
-            {activeSection === "teams" && (
+            {currentSection === "manage-assignments" && (
+              <AdminAssignmentsManager />
+            )}
+
+            {currentSection === "teams" && (
               <div className="space-y-6">
                 <div>
                   <h2 className="text-2xl font-semibold mb-2 text-foreground">Team Management</h2>
                   <p className="text-muted-foreground mb-6">
-                    Manage registered teams. Delete team files or entire teams as needed.
+                    Manage registered teams and their members. Delete team files or entire teams as needed.
                   </p>
                 </div>
 
+                {canManageTeams && <AdminRosterImport />}
+
                 {teamsLoading ? (
                   <div className="text-muted-foreground">Loading teams...</div>
                 ) : teams.length === 0 ? (
@@ -386,7 +470,13 @@ export default function AdminSettingsModal({ open, onOpenChange }: AdminSettings
                                 {team.lastLogin ? `Last login: ${new Date(team.lastLogin).toLocaleDateString()}` : "Never logged in"}
                                 {team.createdAt && ` • Registered: ${new Date(team.createdAt).toLocaleDateString()}`}
                               </div>
+                              <div className="text-sm text-foreground mt-1">
+                                {team.members.length > 0
+                                  ? team.members.map(member => member.rollNumber ? `${member.name} (${member.rollNumber})` : member.name).join(", ")
+                                  : <span className="text-muted-foreground">No members listed</span>}
+                              </div>
                             </div>
+                            {canManageTeams && (
                             <div className="flex items-center space-x-2">
                               <Dialog>
                                 <DialogTrigger asChild>
@@ -401,16 +491,16 @@ export default function AdminSettingsModal({ open, onOpenChange }: AdminSettings
                                   </DialogHeader>
                                   <div className="space-y-4">
                                     <p className="text-sm text-muted-foreground">
-                                      This will permanently delete all files uploaded by {team.teamName}. This action cannot be undone.
+                                      This moves all files uploaded by {team.teamName} to the trash, where they can be restored until they are purged.
                                     </p>
                                     <div className="space-y-2">
-                                      <Label htmlFor="adminPassword">Admin Password</Label>
+                                      <Label htmlFor="adminPassword">Your Password</Label>
                                       <Input
                                         id="adminPassword"
                                         type="password"
                                         value={adminPassword}
                                         onChange={(e) => setAdminPassword(e.target.value)}
-                                        placeholder="Enter admin password"
+                                        placeholder="Enter your password"
                                       />
                                     </div>
                                   </div>
@@ -444,17 +534,17 @@ export default function AdminSettingsModal({ open, onOpenChange }: AdminSettings
                                     <div className="flex items-center space-x-2 p-3 bg-destructive/10 rounded border border-destructive/20">
                                       <AlertTriangle className="h-4 w-4 text-destructive" />
                                       <p className="text-sm text-destructive font-medium">
-                                        This will permanently delete the team, all their files, and their account. This action cannot be undone.
+                                        This moves the team, all their files, and their account to the trash, where they can be restored until they are purged.
                                       </p>
                                     </div>
                                     <div className="space-y-2">
-                                      <Label htmlFor="adminPassword">Admin Password</Label>
+                                      <Label htmlFor="adminPassword">Your Password</Label>
                                       <Input
                                         id="adminPassword"
                                         type="password"
                                         value={adminPassword}
                                         onChange={(e) => setAdminPassword(e.target.value)}
-                                        placeholder="Enter admin password"
+                                        placeholder="Enter your password"
                                       />
                                     </div>
                                   </div>
@@ -473,6 +563,7 @@ export default function AdminSettingsModal({ open, onOpenChange }: AdminSettings
                                 </DialogContent>
                               </Dialog>
                             </div>
+                            )}
                           </div>
                         </CardContent>
                       </Card>
@@ -482,7 +573,39 @@ export default function AdminSettingsModal({ open, onOpenChange }: AdminSettings
               </div>
             )}
 
-            {activeSection === "info" && (
+            {currentSection === "courses" && (
+              <AdminCoursesManager />
+            )}
+
+            {currentSection === "staff" && (
+              <AdminStaffManager />
+            )}
+
+            {currentSection === "sessions" && (
+              <AdminSessionsManager />
+            )}
+
+            {currentSection === "peer-review" && (
+              <AdminPeerReviews />
+            )}
+
+            {currentSection === "audit" && (
+              <AdminAuditLog />
+            )}
+
+            {currentSection === "trash" && (
+              <AdminTrash />
+            )}
+
+            {currentSection === "archives" && (
+              <AdminTermArchives />
+            )}
+
+            {currentSection === "backups" && (
+              <AdminBackups />
+            )}
+
+            {currentSection === "info" && (
               <div className="space-y-6">
                 <div>
                   <h2 className="text-2xl font-semibold mb-2 text-foreground">System Information</h2>
@@ -497,7 +620,7 @@ export default function AdminSettingsModal({ open, onOpenChange }: AdminSettings
                       <h3 className="font-medium text-foreground mb-2">Database</h3>
                       <p className="text-sm text-muted-foreground">
                         Uses PostgreSQL in production and memory storage in development. 
-                        All team passwords are securely hashed using bcrypt.
+                        All team and staff passwords are securely hashed using bcrypt.
                       </p>
                     </CardContent>
                   </Card>
@@ -525,7 +648,7 @@ export default function AdminSettingsModal({ open, onOpenChange }: AdminSettings
               </div>
             )}
 
-            {activeSection === "danger" && (
+            {currentSection === "danger" && (
               <div className="space-y-6">
                 <div>
                   <h2 className="text-2xl font-semibold mb-2 text-destructive">Danger Zone</h2>
@@ -553,7 +676,7 @@ export default function AdminSettingsModal({ open, onOpenChange }: AdminSettings
                     ) : (
                       <div className="space-y-3 p-4 border border-destructive/20 rounded-lg bg-destructive/5">
                         <p className="text-sm text-destructive">
-                          This will permanently delete all uploaded files from all teams. This action cannot be undone.
+                          This moves all uploaded files from all teams in the current course to the trash, where they can be restored until they are purged.
                         </p>
                         <div className="space-y-2">
                           <Label htmlFor="confirmText" className="text-sm font-medium">
@@ -601,14 +724,15 @@ export default function AdminSettingsModal({ open, onOpenChange }: AdminSettings
                   <div className="space-y-4">
                     <div className="flex items-center gap-2">
                       <Shield className="w-5 w-5 text-destructive" />
-                      <h3 className="font-medium text-foreground">Reset Server for New Semester</h3>
+                      <h3 className="font-medium text-foreground">Close Term</h3>
                     </div>
                     
                     <p className="text-sm text-muted-foreground mb-4">
-                      This will permanently delete ALL data:
+                      Saves a downloadable archive of the current course, then deletes its data for the next class (other courses are not affected):
                     </p>
                     <ul className="text-sm text-muted-foreground list-disc list-inside space-y-1 mb-4">
-                      <li>All uploaded files (from all teams and admin)</li>
+                      <li>An archive of every upload, team, roster, grade and setting is saved first, under Term Archives</li>
+                        <li>All uploaded files (from all teams and admin)</li>
                       <li>All team accounts and registrations</li>
                       <li>Reset all assignment settings to closed</li>
                       <li>Clear all login sessions</li>
@@ -620,46 +744,46 @@ export default function AdminSettingsModal({ open, onOpenChange }: AdminSettings
                         onClick={() => setShowResetConfirm(true)}
                       >
                         <Trash2 className="w-4 h-4 mr-2" />
-                        Reset Server
+                        Close Term
                       </Button>
                     ) : (
                       <div className="space-y-4 p-4 border border-destructive/20 rounded-lg bg-destructive/5">
                         <div className="flex items-center space-x-2 p-3 bg-destructive/10 rounded border border-destructive/20">
                           <AlertTriangle className="h-4 w-4 text-destructive" />
                           <p className="text-sm text-destructive font-medium">
-                            This action cannot be undone!
+                            Only the archive is kept. Everything else is deleted.
                           </p>
                         </div>
                         
                         <div className="space-y-2">
-                          <Label htmlFor="resetAdminPassword">Admin Password</Label>
+                          <Label htmlFor="resetAdminPassword">Your Password</Label>
                           <Input
                             id="resetAdminPassword"
                             type="password"
                             value={adminPassword}
                             onChange={(e) => setAdminPassword(e.target.value)}
-                            placeholder="Enter admin password"
+                            placeholder="Enter your password"
                           />
                         </div>
 
                         <div className="space-y-2">
-                          <Label htmlFor="resetConfirmText">Type "RESET ALL DATA" to confirm</Label>
+                          <Label htmlFor="resetConfirmText">Type "CLOSE TERM" to confirm</Label>
                           <Input
                             id="resetConfirmText"
                             value={confirmText}
                             onChange={(e) => setConfirmText(e.target.value)}
-                            placeholder="RESET ALL DATA"
+                            placeholder="CLOSE TERM"
                           />
                         </div>
                         
                         <div className="flex gap-2">
                           <Button 
                             variant="destructive" 
-                            onClick={handleResetServer}
-                            disabled={resetServerMutation.isPending}
+                            onClick={handleCloseTerm}
+                            disabled={closeTermMutation.isPending}
                             className="flex-1"
                           >
-                            {resetServerMutation.isPending ? "Resetting..." : "Reset Server"}
+                            {closeTermMutation.isPending ? "Archiving and closing..." : "Close Term"}
                           </Button>
                           <Button
                             variant="outline"
@@ -668,7 +792,7 @@ export default function AdminSettingsModal({ open, onOpenChange }: AdminSettings
                               setAdminPassword("");
                               setConfirmText("");
                             }}
-                            disabled={resetServerMutation.isPending}
+                            disabled={closeTermMutation.isPending}
                           >
                             Cancel
                           </Button>
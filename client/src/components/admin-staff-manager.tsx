@@ -0,0 +1,278 @@
+import { useState } from "react";
+import { UserPlus, Link2, Copy, UserX, UserCheck, LoaderIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { staffRoles, staffRoleLabels, type StaffRole } from "@shared/permissions";
+
+interface StaffMember {
+  id: string;
+  email: string;
+  displayName: string | null;
+  role: StaffRole;
+  isActive: boolean;
+  invitePending: boolean;
+  hasPassword: boolean;
+  lastLogin: string | null;
+  createdAt: string;
+}
+
+const roleDescriptions: Record<StaffRole, string> = {
+  instructor: "Full access, including staff, teams and server reset",
+  ta: "Preview all files, post staff files, open assignments for viewing, grade submissions",
+  observer: "Read-only access to all files and grades",
+};
+
+export default function AdminStaffManager() {
+  const [newName, setNewName] = useState("");
+  const [newEmail, setNewEmail] = useState("");
+  const [newRole, setNewRole] = useState<StaffRole>("ta");
+  const [inviteLink, setInviteLink] = useState<{ email: string; url: string } | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: user } = useQuery<{ id?: string }>({
+    queryKey: ["/api/user"]
+  });
+
+  const { data: staff = [], isLoading } = useQuery<StaffMember[]>({
+    queryKey: ["/api/admin/staff"],
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async ({ displayName, email, role }: { displayName: string; email: string; role: StaffRole }) => {
+      return await apiRequest("POST", "/api/admin/staff", { displayName, email, role });
+    },
+    onSuccess: (data: any) => {
+      toast({
+        title: "Success!",
+        description: data.message,
+      });
+      setInviteLink({ email: data.staff.email, url: data.inviteUrl });
+      setNewName("");
+      setNewEmail("");
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/staff"] });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Invite Failed",
+        description: error.message || "Failed to invite staff member",
+      });
+    },
+  });
+
+  const reissueMutation = useMutation({
+    mutationFn: async (member: StaffMember) => {
+      return await apiRequest("POST", `/api/admin/staff/${member.id}/invite`, {});
+    },
+    onSuccess: (data: any, member) => {
+      setInviteLink({ email: member.email, url: data.inviteUrl });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/staff"] });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Invite Failed",
+        description: error.message || "Failed to create invite link",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: { role?: StaffRole; isActive?: "true" | "false" } }) => {
+      return await apiRequest("PUT", `/api/admin/staff/${id}`, updates);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success!",
+        description: "Staff member updated",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/staff"] });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Update Failed",
+        description: error.message || "Failed to update staff member",
+      });
+    },
+  });
+
+  const handleInvite = () => {
+    if (!newName.trim() || !newEmail.trim()) {
+      toast({
+        variant: "destructive",
+        title: "Missing Information",
+        description: "Please enter a name and email",
+      });
+      return;
+    }
+    inviteMutation.mutate({ displayName: newName.trim(), email: newEmail.trim(), role: newRole });
+  };
+
+  const copyInviteLink = async () => {
+    if (!inviteLink) return;
+    try {
+      await navigator.clipboard.writeText(inviteLink.url);
+      toast({
+        title: "Copied",
+        description: "Invite link copied to clipboard",
+      });
+    } catch {
+      toast({
+        variant: "destructive",
+        title: "Copy Failed",
+        description: "Select the link and copy it manually",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-semibold mb-2 text-foreground">Staff</h2>
+        <p className="text-muted-foreground mb-6">
+          Invite instructors, teaching assistants and observers. Each person signs in with their own email and password.
+        </p>
+      </div>
+
+      {/* Invite Staff */}
+      <Card>
+        <CardContent className="p-4 space-y-3">
+          <h3 className="font-medium text-foreground">Invite Staff Member</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="staffName">Name *</Label>
+              <Input
+                id="staffName"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="e.g., Priya Menon"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="staffEmail">Email *</Label>
+              <Input
+                id="staffEmail"
+                type="email"
+                value={newEmail}
+                onChange={(e) => setNewEmail(e.target.value)}
+                placeholder="ta@school.edu"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Role</Label>
+            <Select value={newRole} onValueChange={(value) => setNewRole(value as StaffRole)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {staffRoles.map(role => (
+                  <SelectItem key={role} value={role}>{staffRoleLabels[role]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{roleDescriptions[newRole]}</p>
+          </div>
+          <Button onClick={handleInvite} disabled={inviteMutation.isPending}>
+            {inviteMutation.isPending ? (
+              <LoaderIcon className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <UserPlus className="w-4 h-4 mr-2" />
+            )}
+            Create Invite
+          </Button>
+
+          {inviteLink && (
+            <div className="rounded-md border border-border bg-muted/50 p-3 space-y-2">
+              <p className="text-sm text-foreground">
+                Send this link to <span className="font-medium">{inviteLink.email}</span>. It expires in 7 days.
+              </p>
+              <div className="flex gap-2">
+                <Input value={inviteLink.url} readOnly onFocus={(e) => e.target.select()} />
+                <Button variant="outline" onClick={copyInviteLink} title="Copy link">
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Staff List */}
+      {isLoading ? (
+        <div className="text-muted-foreground">Loading staff...</div>
+      ) : (
+        <div className="space-y-3">
+          {staff.map((member) => {
+            const isSelf = member.id === user?.id;
+            return (
+              <Card key={member.id} className={member.isActive ? "" : "opacity-60"}>
+                <CardContent className="p-4">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <h3 className="font-medium text-foreground truncate">{member.displayName || member.email}</h3>
+                        {isSelf && <Badge variant="outline">You</Badge>}
+                        {!member.isActive && <Badge variant="secondary">Deactivated</Badge>}
+                        {member.invitePending && <Badge variant="outline">{member.hasPassword ? "Reset link pending" : "Invite pending"}</Badge>}
+                      </div>
+                      <p className="text-sm text-muted-foreground mt-1 truncate">
+                        {member.email}
+                        {member.lastLogin && member.hasPassword && ` • Last login ${new Date(member.lastLogin).toLocaleDateString()}`}
+                      </p>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      <Select
+                        value={member.role}
+                        onValueChange={(value) => updateMutation.mutate({ id: member.id, updates: { role: value as StaffRole } })}
+                        disabled={isSelf || updateMutation.isPending}
+                      >
+                        <SelectTrigger className="w-[170px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {staffRoles.map(role => (
+                            <SelectItem key={role} value={role}>{staffRoleLabels[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => reissueMutation.mutate(member)}
+                        disabled={reissueMutation.isPending}
+                        title={member.hasPassword ? "Create password reset link" : "Create new invite link"}
+                      >
+                        <Link2 className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => updateMutation.mutate({ id: member.id, updates: { isActive: member.isActive ? "false" : "true" } })}
+                        disabled={isSelf || updateMutation.isPending}
+                        title={member.isActive ? "Deactivate" : "Reactivate"}
+                        className={member.isActive ? "text-red-600 hover:text-red-700" : ""}
+                      >
+                        {member.isActive ? <UserX className="w-4 h-4" /> : <UserCheck className="w-4 h-4" />}
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
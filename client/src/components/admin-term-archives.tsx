@@ -0,0 +1,187 @@
+import { useRef } from "react";
+import { Archive, Download, LoaderIcon, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCourseName, useCourses } from "@/hooks/use-courses";
+import type { TermArchive } from "@shared/schema";
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1);
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+export default function AdminTermArchives() {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { activeCourse } = useCourses();
+
+  const { data: archives = [], isLoading } = useQuery<TermArchive[]>({
+    queryKey: ["/api/admin/archives"],
+    staleTime: 0,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/admin/archives", {});
+    },
+    onSuccess: (archive: TermArchive) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/archives"] });
+      toast({
+        title: "Success!",
+        description: `Archived ${archive.courseName}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Archive Failed",
+        description: error.message || "Failed to archive the course",
+      });
+    },
+  });
+
+  // Archives are uploaded as files, which apiRequest doesn't send
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("archive", file);
+      const response = await fetch("/api/admin/archives/import", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to import archive");
+      }
+      return data;
+    },
+    onSuccess: (data: any) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/courses"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/archives"] });
+      toast({
+        title: "Success!",
+        description: `${data.message}. Teams rejoin with code ${data.course.joinCode}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Import Failed",
+        description: error.message || "Failed to import archive",
+      });
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) importMutation.mutate(file);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-semibold mb-2 text-foreground">Term Archives</h2>
+        <p className="text-muted-foreground mb-6">
+          A ZIP of a course's uploads, arranged by assignment and team, with a manifest of its teams, rosters, grades and settings.
+          Closing a term saves one automatically before anything is deleted.
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="p-4 space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h3 className="font-medium text-foreground">Archive Now</h3>
+              <p className="text-sm text-muted-foreground">
+                Save an archive of {activeCourse ? formatCourseName(activeCourse) : "the current course"} without deleting anything.
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => createMutation.mutate()}
+              disabled={!activeCourse || createMutation.isPending}
+            >
+              {createMutation.isPending ? (
+                <LoaderIcon className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Archive className="w-4 h-4 mr-2" />
+              )}
+              {createMutation.isPending ? "Archiving..." : "Archive Course"}
+            </Button>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h3 className="font-medium text-foreground">Import Archive</h3>
+              <p className="text-sm text-muted-foreground">
+                Restore an archive from this or another server as a new course with its own join code.
+              </p>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={importMutation.isPending}
+            >
+              {importMutation.isPending ? (
+                <LoaderIcon className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Upload className="w-4 h-4 mr-2" />
+              )}
+              {importMutation.isPending ? "Importing..." : "Choose ZIP"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="text-muted-foreground">Loading archives...</div>
+      ) : archives.length === 0 ? (
+        <div className="text-center py-12 bg-card rounded-lg border border-border">
+          <Archive className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">No term archives yet</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {archives.map(archive => (
+            <Card key={archive.id}>
+              <CardContent className="p-4 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <h3 className="font-medium text-foreground truncate">{archive.courseName}</h3>
+                  <p className="text-sm text-muted-foreground">
+                    {new Date(archive.createdAt).toLocaleString()}
+                    {archive.createdBy && ` • ${archive.createdBy}`}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {archive.fileCount} {archive.fileCount === 1 ? "file" : "files"} • {archive.teamCount} {archive.teamCount === 1 ? "team" : "teams"} • {formatFileSize(archive.fileSize)}
+                  </p>
+                </div>
+                <Button variant="outline" size="sm" asChild>
+                  <a href={`/api/admin/archives/${archive.id}/download`} download>
+                    <Download className="w-4 h-4 mr-2" />
+                    Download
+                  </a>
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
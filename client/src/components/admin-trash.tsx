@@ -0,0 +1,221 @@
+import { useState } from "react";
+import { ArchiveRestore, FileText, LoaderIcon, Trash2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { TrashItemKind } from "@shared/schema";
+
+interface TrashedFile {
+  id: string;
+  label: string;
+  originalName: string;
+  version: number;
+  teamNumber: number;
+  fileSize: number;
+}
+
+interface TrashEntry {
+  id: string;
+  kind: TrashItemKind;
+  teamNumber: number | null;
+  summary: string;
+  fileCount: number;
+  deletedBy: string;
+  deletedAt: string;
+  expiresAt: string;
+  files: TrashedFile[];
+}
+
+interface TrashList {
+  retentionDays: number;
+  items: TrashEntry[];
+}
+
+// Enough names to recognise an item by; the rest are counted
+const LISTED_FILES = 5;
+
+export default function AdminTrash() {
+  const [purgeTarget, setPurgeTarget] = useState<TrashEntry | "all" | null>(null);
+  const [adminPassword, setAdminPassword] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<TrashList>({
+    queryKey: ["/api/admin/trash"],
+    staleTime: 0,
+  });
+  const items = data?.items ?? [];
+
+  const closeDialog = () => {
+    setPurgeTarget(null);
+    setAdminPassword("");
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async (item: TrashEntry) => {
+      return await apiRequest("POST", `/api/admin/trash/${item.id}/restore`, {});
+    },
+    onSuccess: (data: any) => {
+      // Restored files and teams show up across the app again
+      queryClient.invalidateQueries();
+      toast({
+        title: "Success!",
+        description: data.message,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Restore Failed",
+        description: error.message || "Failed to restore from the trash",
+      });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (target: TrashEntry | "all") => {
+      const url = target === "all" ? "/api/admin/trash" : `/api/admin/trash/${target.id}`;
+      return await apiRequest("DELETE", url, { adminPassword });
+    },
+    onSuccess: (data: any) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/trash"] });
+      closeDialog();
+      toast({
+        title: "Success!",
+        description: data.message,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Delete Failed",
+        description: error.message || "Failed to delete from the trash",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-semibold mb-2 text-foreground">Trash</h2>
+          <p className="text-muted-foreground mb-6">
+            Deleted files and teams in this course. Each can be restored for {data?.retentionDays ?? 30} days after it was deleted,
+            then it is deleted for good.
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+          onClick={() => setPurgeTarget("all")}
+          disabled={items.length === 0}
+        >
+          <Trash2 className="w-4 h-4 mr-2" />
+          Empty Trash
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="text-muted-foreground">Loading trash...</div>
+      ) : items.length === 0 ? (
+        <div className="text-center py-12 bg-card rounded-lg border border-border">
+          <Trash2 className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">The trash is empty</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {items.map(item => (
+            <Card key={item.id}>
+              <CardContent className="p-4 flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    {item.kind === "team" ? (
+                      <Users className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                    ) : (
+                      <FileText className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                    )}
+                    <h3 className="font-medium text-foreground truncate">{item.summary}</h3>
+                    {item.kind === "team" && <Badge variant="secondary">Team</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Deleted by {item.deletedBy} on {new Date(item.deletedAt).toLocaleString()} • Deleted for good on {new Date(item.expiresAt).toLocaleDateString()}
+                  </p>
+                  {item.files.length > 0 && (
+                    <p className="text-sm text-muted-foreground truncate">
+                      {item.files.slice(0, LISTED_FILES).map(file => `${file.originalName} (v${file.version})`).join(", ")}
+                      {item.files.length > LISTED_FILES && ` and ${item.files.length - LISTED_FILES} more`}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => restoreMutation.mutate(item)}
+                    disabled={restoreMutation.isPending}
+                  >
+                    {restoreMutation.isPending && restoreMutation.variables?.id === item.id ? (
+                      <LoaderIcon className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <ArchiveRestore className="w-4 h-4 mr-2" />
+                    )}
+                    Restore
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                    onClick={() => setPurgeTarget(item)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!purgeTarget} onOpenChange={(open) => { if (!open) closeDialog(); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{purgeTarget === "all" ? "Empty Trash" : "Delete for Good"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              {purgeTarget === "all"
+                ? `Delete all ${items.length} ${items.length === 1 ? "item" : "items"} in the trash for good? This can't be undone.`
+                : `Delete ${purgeTarget?.summary} for good? This can't be undone.`}
+            </p>
+            <Label htmlFor="purgeTrashPassword">Your Password</Label>
+            <Input
+              id="purgeTrashPassword"
+              type="password"
+              value={adminPassword}
+              onChange={(e) => setAdminPassword(e.target.value)}
+              placeholder="Enter your password"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog} disabled={purgeMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => purgeTarget && purgeMutation.mutate(purgeTarget)}
+              disabled={purgeMutation.isPending || !adminPassword}
+            >
+              {purgeMutation.isPending ? "Deleting..." : "Delete for Good"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
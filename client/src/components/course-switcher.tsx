@@ -0,0 +1,50 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useCourses, formatCourseName } from "@/hooks/use-courses";
+
+export default function CourseSwitcher() {
+  const { courses, activeCourse } = useCourses();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const switchMutation = useMutation({
+    mutationFn: async (courseId: string) => {
+      return await apiRequest("PUT", "/api/user/course", { courseId });
+    },
+    onSuccess: (data: any) => {
+      queryClient.setQueryData(["/api/user"], data.user);
+      // Everything else on screen belongs to the previous course
+      queryClient.invalidateQueries();
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Switch Failed",
+        description: error.message || "Failed to switch course",
+      });
+    },
+  });
+
+  if (courses.length === 0) return null;
+
+  return (
+    <Select
+      value={activeCourse?.id ?? ""}
+      onValueChange={(courseId) => switchMutation.mutate(courseId)}
+      disabled={switchMutation.isPending}
+    >
+      <SelectTrigger className="w-[220px]" title="Switch course">
+        <SelectValue placeholder="Choose a course" />
+      </SelectTrigger>
+      <SelectContent>
+        {courses.map(course => (
+          <SelectItem key={course.id} value={course.id}>
+            {formatCourseName(course)}{course.isArchived ? " (archived)" : ""}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
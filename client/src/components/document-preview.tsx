@@ -0,0 +1,191 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { ChevronLeft, ChevronRight, LoaderIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { usePreview } from "@/hooks/use-preview";
+import type { SheetPreview } from "@shared/previews";
+import type { File } from "@shared/schema";
+
+interface DocumentPreviewProps {
+  file: File;
+  // Shown when the server can't produce a preview for this file
+  fallback: ReactNode;
+  // Told which slide is on screen, and null once no slide is
+  onSlideChange?: (slide: number | null) => void;
+}
+
+/**
+ * Inline preview of a presentation, Word document or spreadsheet from its server-side
+ * conversion. Conversions run after upload, so a fresh file may show as preparing first.
+ */
+export default function DocumentPreview({ file, fallback, onSlideChange }: DocumentPreviewProps) {
+  const { data: preview, isLoading } = usePreview(file.id);
+
+  if (isLoading || preview?.status === "pending") {
+    return (
+      <div className="bg-muted rounded-lg h-full flex items-center justify-center">
+        <div className="text-center text-muted-foreground">
+          <LoaderIcon className="w-8 h-8 mx-auto mb-3 animate-spin" />
+          <p>Preparing preview...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (preview?.status !== "ready") {
+    return (
+      <div className="h-full flex flex-col">
+        <div className="flex-1">{fallback}</div>
+        {(preview?.status === "failed" || preview?.status === "unavailable") && (
+          <p className="text-xs text-muted-foreground text-center py-2">{preview.message}</p>
+        )}
+      </div>
+    );
+  }
+
+  if (preview.kind === "slides") {
+    return <SlidesPreview file={file} slideCount={preview.slideCount} onSlideChange={onSlideChange} />;
+  }
+
+  if (preview.kind === "sheets") {
+    return <SheetsPreview sheets={preview.sheets} />;
+  }
+
+  return (
+    <div className="bg-muted rounded-lg h-full flex flex-col">
+      <div className="flex-1 p-4">
+        {/* No scripts, no same-origin access: converted documents are still user content */}
+        <iframe
+          src={`/api/files/${file.id}/preview/document`}
+          sandbox=""
+          className="w-full h-full rounded border bg-white"
+          title={`Document Preview: ${file.originalName}`}
+        />
+      </div>
+    </div>
+  );
+}
+
+interface SlidesPreviewProps {
+  file: File;
+  slideCount: number;
+  onSlideChange?: (slide: number | null) => void;
+}
+
+function SlidesPreview({ file, slideCount, onSlideChange }: SlidesPreviewProps) {
+  const [slide, setSlide] = useState(1);
+
+  useEffect(() => setSlide(1), [file.id]);
+  useEffect(() => onSlideChange?.(slide), [slide]);
+  useEffect(() => () => onSlideChange?.(null), []);
+
+  const previous = () => setSlide(current => Math.max(1, current - 1));
+  const next = () => setSlide(current => Math.min(slideCount, current + 1));
+
+  // Page keys step through slides; arrow keys are left to the preview's own controls
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'PageDown') {
+        next();
+        e.preventDefault();
+      } else if (e.key === 'PageUp') {
+        previous();
+        e.preventDefault();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [slideCount]);
+
+  return (
+    <div className="bg-muted rounded-lg h-full flex flex-col">
+      <div className="px-4 py-2 bg-background border-b flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" size="sm" onClick={previous} disabled={slide === 1}>
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={next} disabled={slide === slideCount}>
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+        <div className="text-sm text-muted-foreground">
+          Slide {slide} of {slideCount} • Page Up/Down to move
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 p-4 flex items-center justify-center">
+        <img
+          src={`/api/files/${file.id}/preview/slides/${slide}`}
+          alt={`Slide ${slide} of ${file.originalName}`}
+          className="max-w-full max-h-full object-contain rounded shadow-lg bg-white"
+          draggable={false}
+        />
+      </div>
+
+      {slideCount > 1 && (
+        <div className="flex gap-2 overflow-x-auto px-4 pb-4">
+          {Array.from({ length: slideCount }, (_, index) => index + 1).map(number => (
+            <button
+              key={number}
+              type="button"
+              onClick={() => setSlide(number)}
+              className={`flex-shrink-0 rounded border-2 ${number === slide ? 'border-primary' : 'border-transparent opacity-70 hover:opacity-100'}`}
+              title={`Slide ${number}`}
+            >
+              <img
+                src={`/api/files/${file.id}/preview/slides/${number}`}
+                alt={`Slide ${number}`}
+                loading="lazy"
+                className="h-16 w-auto rounded-sm bg-white"
+                draggable={false}
+              />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SheetsPreview({ sheets }: { sheets: SheetPreview[] }) {
+  if (sheets.length === 0) {
+    return (
+      <div className="bg-muted rounded-lg h-full flex items-center justify-center text-muted-foreground">
+        This workbook has no sheets
+      </div>
+    );
+  }
+
+  return (
+    <Tabs defaultValue="0" className="bg-muted rounded-lg h-full flex flex-col p-4">
+      <TabsList className="self-start">
+        {sheets.map((sheet, index) => (
+          <TabsTrigger key={index} value={String(index)}>{sheet.name}</TabsTrigger>
+        ))}
+      </TabsList>
+      {sheets.map((sheet, index) => (
+        <TabsContent key={index} value={String(index)} className="flex-1 min-h-0 overflow-auto bg-background rounded border">
+          {sheet.rows.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground">This sheet is empty</p>
+          ) : (
+            <table className="text-sm border-collapse">
+              <tbody>
+                {sheet.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    <th className="sticky left-0 bg-muted px-2 py-1 text-xs font-normal text-muted-foreground border">{rowIndex + 1}</th>
+                    {row.map((cell, cellIndex) => (
+                      <td key={cellIndex} className="px-2 py-1 border whitespace-nowrap">{cell}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {sheet.truncated && (
+            <p className="p-2 text-xs text-muted-foreground">Only the first rows and columns are shown. Download the file to see everything.</p>
+          )}
+        </TabsContent>
+      ))}
+    </Tabs>
+  );
+}
@@ -0,0 +1,374 @@
+import { useState } from "react";
+import { CheckCircle2, Lock, LoaderIcon, MessageSquare, Pencil, RotateCcw, Trash2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useFileComments } from "@/hooks/use-file-comments";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { CommentView, CommentVisibility, File } from "@shared/schema";
+
+interface FileCommentsProps {
+  file: File;
+  // Slide on screen in the preview, offered as the page for a new comment
+  currentPage: number | null;
+}
+
+function visibilityLabel(visibility: CommentVisibility, teamNumber: number): string {
+  if (visibility === "staff") return "Staff only";
+  if (visibility === "team") return `Staff and Team ${teamNumber}`;
+  return "Everyone who can see this file";
+}
+
+/**
+ * Threaded comments on one file version. Threads can be pinned to a page or slide and resolved
+ * once dealt with; the server decides which comments the user sees and what they may do.
+ */
+export default function FileComments({ file, currentPage }: FileCommentsProps) {
+  const [body, setBody] = useState("");
+  const [page, setPage] = useState("");
+  const [visibility, setVisibility] = useState<CommentVisibility>("everyone");
+  const [showResolved, setShowResolved] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data, isLoading } = useFileComments(file.id);
+
+  const postMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/files/${file.id}/comments`, {
+        body,
+        page: page.trim() ? Number(page) : null,
+        visibility,
+      });
+    },
+    onSuccess: () => {
+      setBody("");
+      setPage("");
+      queryClient.invalidateQueries({ queryKey: ["/api/files", file.id, "comments"] });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Comment Failed",
+        description: error.message || "Failed to post comment",
+      });
+    },
+  });
+
+  if (isLoading || !data) {
+    return <span className="text-muted-foreground text-xs">Loading comments...</span>;
+  }
+
+  const threads = data.comments.filter(comment => !comment.parentId);
+  const repliesTo = (threadId: string) => data.comments.filter(comment => comment.parentId === threadId);
+  const openThreads = threads.filter(thread => thread.isResolved !== "true");
+  const resolvedThreads = threads.filter(thread => thread.isResolved === "true");
+
+  return (
+    <div className="space-y-3 text-sm">
+      {data.canComment && (
+        <div className="space-y-2">
+          <Textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Leave feedback on this file"
+            rows={3}
+            className="text-xs resize-none"
+          />
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={1}
+              value={page}
+              onChange={(e) => setPage(e.target.value)}
+              placeholder="Page (optional)"
+              className="h-8 text-xs flex-1"
+              aria-label="Page or slide number"
+            />
+            {currentPage !== null && String(currentPage) !== page && (
+              <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => setPage(String(currentPage))}>
+                Slide {currentPage}
+              </Button>
+            )}
+          </div>
+          {data.visibilities.length > 1 && (
+            <Select value={visibility} onValueChange={(value) => setVisibility(value as CommentVisibility)}>
+              <SelectTrigger className="h-8 text-xs" aria-label="Who can see this comment">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {data.visibilities.map(option => (
+                  <SelectItem key={option} value={option} className="text-xs">
+                    {visibilityLabel(option, file.teamNumber)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <div className="flex justify-end">
+            <Button size="sm" onClick={() => postMutation.mutate()} disabled={!body.trim() || postMutation.isPending}>
+              {postMutation.isPending && <LoaderIcon className="w-3 h-3 mr-1 animate-spin" />}
+              Comment
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {threads.length === 0 ? (
+        <div className="text-center py-6 text-muted-foreground">
+          <MessageSquare className="w-6 h-6 mx-auto mb-2" />
+          <p className="text-xs">No comments yet</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {openThreads.map(thread => (
+            <CommentThread key={thread.id} file={file} thread={thread} replies={repliesTo(thread.id)} canReply={data.canComment} />
+          ))}
+          {resolvedThreads.length > 0 && (
+            <Button variant="ghost" size="sm" className="w-full text-xs" onClick={() => setShowResolved(!showResolved)}>
+              {showResolved ? "Hide" : "Show"} {resolvedThreads.length} resolved thread{resolvedThreads.length === 1 ? "" : "s"}
+            </Button>
+          )}
+          {showResolved && resolvedThreads.map(thread => (
+            <CommentThread key={thread.id} file={file} thread={thread} replies={repliesTo(thread.id)} canReply={data.canComment} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface CommentThreadProps {
+  file: File;
+  thread: CommentView;
+  replies: CommentView[];
+  canReply: boolean;
+}
+
+function CommentThread({ file, thread, replies, canReply }: CommentThreadProps) {
+  const [isReplying, setIsReplying] = useState(false);
+  const [reply, setReply] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isResolved = thread.isResolved === "true";
+
+  const replyMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/files/${file.id}/comments`, { body: reply, parentId: thread.id });
+    },
+    onSuccess: () => {
+      setReply("");
+      setIsReplying(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/files", file.id, "comments"] });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Reply Failed",
+        description: error.message || "Failed to post reply",
+      });
+    },
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PUT", `/api/comments/${thread.id}/resolve`, { isResolved: isResolved ? "false" : "true" });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/files", file.id, "comments"] });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Update Failed",
+        description: error.message || "Failed to update comment",
+      });
+    },
+  });
+
+  return (
+    <div className={`rounded-md border bg-background p-2 space-y-2 ${isResolved ? 'opacity-70' : ''}`}>
+      <CommentItem file={file} comment={thread} />
+
+      {replies.length > 0 && (
+        <div className="pl-3 border-l-2 space-y-2">
+          {replies.map(comment => <CommentItem key={comment.id} file={file} comment={comment} />)}
+        </div>
+      )}
+
+      {isReplying ? (
+        <div className="space-y-2">
+          <Textarea
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            placeholder="Reply"
+            rows={2}
+            className="text-xs resize-none"
+            autoFocus
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => { setIsReplying(false); setReply(""); }}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={() => replyMutation.mutate()} disabled={!reply.trim() || replyMutation.isPending}>
+              {replyMutation.isPending && <LoaderIcon className="w-3 h-3 mr-1 animate-spin" />}
+              Reply
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center gap-1">
+          {canReply && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setIsReplying(true)}>
+              Reply
+            </Button>
+          )}
+          {thread.canResolve && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs ml-auto"
+              onClick={() => resolveMutation.mutate()}
+              disabled={resolveMutation.isPending}
+            >
+              {isResolved ? <RotateCcw className="w-3 h-3 mr-1" /> : <CheckCircle2 className="w-3 h-3 mr-1" />}
+              {isResolved ? "Reopen" : "Resolve"}
+            </Button>
+          )}
+        </div>
+      )}
+      {isResolved && thread.resolvedBy && (
+        <p className="text-[10px] text-muted-foreground">Resolved by {thread.resolvedBy}</p>
+      )}
+    </div>
+  );
+}
+
+function CommentItem({ file, comment }: { file: File; comment: CommentView }) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(comment.body);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isThread = !comment.parentId;
+
+  const editMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PUT", `/api/comments/${comment.id}`, { body: draft });
+    },
+    onSuccess: () => {
+      setIsEditing(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/files", file.id, "comments"] });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Edit Failed",
+        description: error.message || "Failed to update comment",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("DELETE", `/api/comments/${comment.id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success!",
+        description: isThread ? "Comment thread deleted" : "Reply deleted",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/files", file.id, "comments"] });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Delete Failed",
+        description: error.message || "Failed to delete comment",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-1 flex-wrap">
+        <span className="text-xs font-medium text-foreground">{comment.authorName}</span>
+        {comment.authorTeamNumber === 0 && <Badge variant="secondary" className="text-[10px] px-1.5 py-0">Staff</Badge>}
+        {isThread && comment.page !== null && (
+          <Badge variant="outline" className="text-[10px] px-1.5 py-0">Page {comment.page}</Badge>
+        )}
+        {isThread && comment.visibility !== "everyone" && (
+          <Badge
+            variant="outline"
+            className="text-[10px] px-1.5 py-0 border-amber-300 text-amber-700 dark:text-amber-300"
+            title={visibilityLabel(comment.visibility, file.teamNumber)}
+          >
+            {comment.visibility === "staff" ? <Lock className="w-2.5 h-2.5 mr-0.5" /> : <Users className="w-2.5 h-2.5 mr-0.5" />}
+            {comment.visibility === "staff" ? "Staff only" : "Private"}
+          </Badge>
+        )}
+        <div className="ml-auto flex items-center">
+          {comment.canEdit && !isEditing && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => { setDraft(comment.body); setIsEditing(true); }}
+              title="Edit comment"
+            >
+              <Pencil className="w-3 h-3" />
+            </Button>
+          )}
+          {comment.canDelete && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-6 w-6 p-0 text-red-600 hover:text-red-700" title="Delete comment">
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete {isThread ? "Comment Thread" : "Reply"}</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    {isThread
+                      ? "This deletes the comment and every reply to it. This action cannot be undone."
+                      : "This action cannot be undone."}
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => deleteMutation.mutate()} className="bg-red-600 hover:bg-red-700">
+                    Delete
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </div>
+      </div>
+
+      {isEditing ? (
+        <div className="space-y-2">
+          <Textarea value={draft} onChange={(e) => setDraft(e.target.value)} rows={3} className="text-xs resize-none" autoFocus />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)}>Cancel</Button>
+            <Button size="sm" onClick={() => editMutation.mutate()} disabled={!draft.trim() || editMutation.isPending}>
+              {editMutation.isPending && <LoaderIcon className="w-3 h-3 mr-1 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-foreground whitespace-pre-wrap break-words">{comment.body}</p>
+      )}
+
+      <p className="text-[10px] text-muted-foreground">
+        {new Date(comment.createdAt).toLocaleString()}
+        {comment.editedAt && " • edited"}
+      </p>
+    </div>
+  );
+}
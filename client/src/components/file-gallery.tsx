@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { Search, Upload, Eye, Download, FileText, Image, FileSpreadsheet, Presentation, FolderOpen, Users, BookOpen, MoreHorizontal, Trash2, ChevronDown, ChevronRight, SortAsc, SortDesc } from "lucide-react";
+import { Search, Upload, Eye, Download, FileText, Image, FileSpreadsheet, Presentation, FolderOpen, Users, BookOpen, MoreHorizontal, Trash2, ChevronDown, ChevronRight, SortAsc, SortDesc, History } from "lucide-react";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -12,11 +12,16 @@ import { Label } from "@/components/ui/label";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import FilePreview from "@/components/file-preview";
+import FileThumbnail from "@/components/file-thumbnail";
+import TeamGradeSummary, { type TeamGrade } from "@/components/team-grade";
+import { useAssignments } from "@/hooks/use-assignments";
+import { formatMinutes } from "@shared/deadlines";
+import { hasPermission } from "@shared/permissions";
 import type { File } from "@shared/schema";
 
 interface AssignmentSetting {
   id: string;
-  assignment: string;
+  assignmentId: string;
   isOpenView: string;
   updatedAt: string;
 }
@@ -30,6 +35,7 @@ export default function FileGallery({ onUploadClick }: FileGalleryProps) {
   const [selectedPrimary, setSelectedPrimary] = useState<string>(""); // Team number or Assignment
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [sortBy, setSortBy] = useState<"date-asc" | "date-desc">("date-desc");
+  const [showAllVersions, setShowAllVersions] = useState(false);
   const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
   const [showBulkDeleteDialog, setShowBulkDeleteDialog] = useState(false);
   const [bulkDeleteTarget, setBulkDeleteTarget] = useState<{ type: 'assignment' | 'team', value: string, files: File[] } | null>(null);
@@ -40,33 +46,27 @@ export default function FileGallery({ onUploadClick }: FileGalleryProps) {
   // Bulk delete mutation
   const bulkDeleteMutation = useMutation({
     mutationFn: async ({ files, adminPassword }: { files: File[]; adminPassword: string }) => {
-      const deletePromises = files.map(file =>
-        fetch(`/api/files/${file.id}`, {
-          method: 'DELETE',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ adminPassword }),
-          credentials: 'include',
-        })
-      );
+      // One request, so the files land in the trash as one item and can be restored together
+      const response = await fetch('/api/files', {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ adminPassword, ids: files.map(file => file.id) }),
+        credentials: 'include',
+      });
 
-      const responses = await Promise.all(deletePromises);
-      
-      // Check if any failed
-      for (const response of responses) {
-        if (!response.ok) {
-          const error = await response.json();
-          throw new Error(error.message || 'Failed to delete some files');
-        }
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to delete files');
       }
-      
-      return responses;
+
+      return response.json();
     },
     onSuccess: () => {
       toast({
         title: "Success!",
-        description: `Successfully deleted ${bulkDeleteTarget?.files.length} file(s)`,
+        description: `Moved ${bulkDeleteTarget?.files.length} file(s) to the trash`,
       });
       // Refresh files list
       queryClient.invalidateQueries({ queryKey: ["/api/files"] });
@@ -84,28 +84,24 @@ export default function FileGallery({ onUploadClick }: FileGalleryProps) {
     },
   });
 
-  const assignments = [
-    "Assignment 1 - Segmentation and Personas",
-    "Assignment 2 - Positioning",
-    "Assignment 3 - Journey Mapping",
-    "Assignment 4 - Marketing Channels",
-    "Assignment 5 - Pricing",
-    "Assignment 6 - Distribution Channels",
-    "Assignment 7 - Acquisition",
-    "Assignment 8 - Customer Discovery",
-    "Assignment 9 - Product Validation",
-  ];
+  const { assignments, getAssignmentTitle } = useAssignments();
 
   // Get current user info
-  const { data: user } = useQuery<{ teamNumber: number; isAdmin: boolean }>({
+  const { data: user } = useQuery<{ teamNumber: number; isAdmin: boolean; role?: string }>({
     queryKey: ["/api/user"]
   });
 
-  // Query for all files (already filtered by backend based on permissions)
-  const { data: allFiles = [], isLoading } = useQuery<File[]>({
-    queryKey: ["/api/files"],
+  // Teams only get grades for assignments whose grades have been released
+  const { data: teamGrades = [] } = useQuery<TeamGrade[]>({
+    queryKey: ["/api/grades"],
+    enabled: !!user && !user.isAdmin,
+  });
+
+  // Query for all files including earlier versions (already filtered by backend based on permissions)
+  const { data: fileVersions = [], isLoading } = useQuery<File[]>({
+    queryKey: ["/api/files", "all-versions"],
     queryFn: async () => {
-      const response = await fetch('/api/files', {
+      const response = await fetch('/api/files?versions=all', {
         credentials: 'include',
       });
       
@@ -117,6 +113,9 @@ export default function FileGallery({ onUploadClick }: FileGalleryProps) {
     },
   });
 
+  // Only the latest version of each submission is shown unless asked otherwise
+  const allFiles = showAllVersions ? fileVersions : fileVersions.filter(file => file.isLatestVersion === "true");
+
   // Query assignment settings to determine open view assignments
   const { data: assignmentSettings = [] } = useQuery<AssignmentSetting[]>({
     queryKey: ["/api/assignment-settings"],
@@ -155,16 +154,16 @@ export default function FileGallery({ onUploadClick }: FileGalleryProps) {
     
     if (user.isAdmin) {
       // Admin can see all assignments that have files
-      const assignmentsWithFiles = new Set(allFiles.map(file => file.assignment));
-      return assignments.filter(assignment => assignmentsWithFiles.has(assignment));
+      const assignmentsWithFiles = new Set(allFiles.map(file => file.assignmentId));
+      return assignments.filter(assignment => assignmentsWithFiles.has(assignment.id));
     } else {
       // Students can only see assignments they have files for in "Team Files"
       const studentAssignments = new Set(
         allFiles
           .filter(file => file.teamNumber === user.teamNumber)
-          .map(file => file.assignment)
+          .map(file => file.assignmentId)
       );
-      return assignments.filter(assignment => studentAssignments.has(assignment));
+      return assignments.filter(assignment => studentAssignments.has(assignment.id));
     }
   };
 
@@ -179,12 +178,14 @@ export default function FileGallery({ onUploadClick }: FileGalleryProps) {
       
       return availableAssignments.map(assignment => {
         const files = allFiles.filter(file => 
-          file.teamNumber === teamNumber && file.assignment === assignment
+          file.teamNumber === teamNumber && file.assignmentId === assignment.id
         );
         return {
-          id: assignment,
-          title: assignment.split(' - ')[0],
-          subtitle: assignment.split(' - ')[1],
+          id: assignment.id,
+          teamNumber,
+          assignmentId: assignment.id,
+          title: assignment.title.split(' - ')[0],
+          subtitle: assignment.title.split(' - ')[1],
           files,
           icon: <BookOpen className="text-2xl text-primary" />
         };
@@ -195,10 +196,12 @@ export default function FileGallery({ onUploadClick }: FileGalleryProps) {
       
       return availableTeams.map(teamNum => {
         const files = allFiles.filter(file => 
-          file.teamNumber === teamNum && file.assignment === selectedPrimary
+          file.teamNumber === teamNum && file.assignmentId === selectedPrimary
         );
         return {
           id: `team-${teamNum}`,
+          teamNumber: teamNum,
+          assignmentId: selectedPrimary,
           title: teamNum === 0 ? "Warrier" : `Team ${teamNum}`,
           subtitle: '',
           files,
@@ -210,6 +213,15 @@ export default function FileGallery({ onUploadClick }: FileGalleryProps) {
 
   const boxData = getBoxData();
 
+  // One ZIP of everything shown for a team and/or assignment, built by the server as it downloads
+  const getZipUrl = (filter: { teamNumber?: number; assignmentId?: string }) => {
+    const params = new URLSearchParams();
+    if (filter.teamNumber !== undefined) params.set("teamNumber", filter.teamNumber.toString());
+    if (filter.assignmentId) params.set("assignmentId", filter.assignmentId);
+    if (showAllVersions) params.set("versions", "all");
+    return `/api/files/download.zip?${params}`;
+  };
+
   const getFileIcon = (fileType: string) => {
     const type = fileType.toLowerCase();
     if (type.includes('.pdf')) return <FileText className="text-4xl text-red-500" />;
@@ -276,7 +288,10 @@ export default function FileGallery({ onUploadClick }: FileGalleryProps) {
     setBulkDeleteTarget({
       type: viewMode === "teams" ? "assignment" : "team",
       value: box.id,
-      files: box.files
+      // Earlier versions go with the submissions they belong to
+      files: fileVersions.filter(version => box.files.some((file: File) =>
+        file.teamNumber === version.teamNumber && file.assignmentId === version.assignmentId && file.label === version.label
+      ))
     });
     setShowBulkDeleteDialog(true);
   };
@@ -286,7 +301,7 @@ export default function FileGallery({ onUploadClick }: FileGalleryProps) {
       toast({
         variant: "destructive",
         title: "Password Required",
-        description: "Please enter your admin password to delete files.",
+        description: "Please enter your password to delete files.",
       });
       return;
     }
@@ -325,17 +340,18 @@ export default function FileGallery({ onUploadClick }: FileGalleryProps) {
     const assignmentGroups = new Map();
     
     studentFiles.forEach(file => {
-      if (!assignmentGroups.has(file.assignment)) {
-        assignmentGroups.set(file.assignment, []);
+      if (!assignmentGroups.has(file.assignmentId)) {
+        assignmentGroups.set(file.assignmentId, []);
       }
-      assignmentGroups.get(file.assignment).push(file);
+      assignmentGroups.get(file.assignmentId).push(file);
     });
     
-    return Array.from(assignmentGroups.entries()).map(([assignment, files]) => ({
-      id: assignment,
-      title: assignment.split(' - ')[0],
-      subtitle: assignment.split(' - ')[1] || '',
+    return Array.from(assignmentGroups.entries()).map(([assignmentId, files]) => ({
+      id: assignmentId,
+      title: getAssignmentTitle(assignmentId).split(' - ')[0],
+      subtitle: getAssignmentTitle(assignmentId).split(' - ')[1] || '',
       files: files.sort((a: any, b: any) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime()),
+      grade: teamGrades.find(grade => grade.assignmentId === assignmentId),
       icon: <BookOpen className="text-2xl text-primary" />
     }));
   };
@@ -403,17 +419,26 @@ export default function FileGallery({ onUploadClick }: FileGalleryProps) {
                         </SelectItem>
                       ))
                     ) : (
-                      getAvailableAssignments().map((assignment, index) => (
-                        <SelectItem key={assignment} value={assignment}>
-                          Assignment {index + 1} - {assignment.split(' - ')[1]}
+                      getAvailableAssignments().map((assignment) => (
+                        <SelectItem key={assignment.id} value={assignment.id}>
+                          {assignment.title}
                         </SelectItem>
                       ))
                     )}
                   </SelectContent>
                 </Select>
                 
+                <Button
+                  variant="outline"
+                  onClick={() => setShowAllVersions(!showAllVersions)}
+                  className="ml-auto"
+                >
+                  <History className="w-4 h-4 mr-2" />
+                  {showAllVersions ? "Latest versions only" : "Show all versions"}
+                </Button>
+
                 {/* Upload Button */}
-                <Button onClick={onUploadClick} className="ml-auto">
+                <Button onClick={onUploadClick}>
                   <Upload className="w-4 h-4 mr-2" />
                   Upload Files
                 </Button>
@@ -431,10 +456,16 @@ export default function FileGallery({ onUploadClick }: FileGalleryProps) {
                   <h2 className="text-2xl font-semibold text-foreground mb-2">Your Files</h2>
                   <p className="text-muted-foreground">Files you've uploaded, organized by assignment</p>
                 </div>
-                <Button onClick={onUploadClick}>
-                  <Upload className="w-4 h-4 mr-2" />
-                  Upload Files
-                </Button>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" onClick={() => setShowAllVersions(!showAllVersions)}>
+                    <History className="w-4 h-4 mr-2" />
+                    {showAllVersions ? "Latest versions only" : "Show all versions"}
+                  </Button>
+                  <Button onClick={onUploadClick}>
+                    <Upload className="w-4 h-4 mr-2" />
+                    Upload Files
+                  </Button>
+                </div>
               </div>
             </CardContent>
           </Card>
@@ -460,12 +491,25 @@ export default function FileGallery({ onUploadClick }: FileGalleryProps) {
         ) : (
           /* Admin Boxes Grid */
           <div>
-            <h2 className="text-xl font-semibold text-foreground mb-6">
-              {viewMode === "teams" 
-                ? `${selectedPrimary === "0" ? "Warrier" : `Team ${selectedPrimary}`} - Files by Assignment`
-                : `${selectedPrimary.split(' - ')[0]} - Files by Team`
-              }
-            </h2>
+            <div className="flex items-center justify-between gap-4 mb-6">
+              <h2 className="text-xl font-semibold text-foreground">
+                {viewMode === "teams" 
+                  ? `${selectedPrimary === "0" ? "Warrier" : `Team ${selectedPrimary}`} - Files by Assignment`
+                  : `${getAssignmentTitle(selectedPrimary).split(' - ')[0]} - Files by Team`
+                }
+              </h2>
+              {boxData.some(box => box.files.length > 0) && (
+                <Button variant="outline" size="sm" asChild>
+                  <a
+                    href={getZipUrl(viewMode === "teams" ? { teamNumber: parseInt(selectedPrimary) } : { assignmentId: selectedPrimary })}
+                    download
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    Download All
+                  </a>
+                </Button>
+              )}
+            </div>
             
             <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-6">
               {boxData.map((box) => (
@@ -482,7 +526,7 @@ export default function FileGallery({ onUploadClick }: FileGalleryProps) {
                       <div className="text-xs text-muted-foreground">
                         {box.files.length} files
                       </div>
-                      {user?.isAdmin && box.files.length > 0 && (
+                      {box.files.length > 0 && (
                         <DropdownMenu>
                           <DropdownMenuTrigger asChild>
                             <Button 
@@ -494,13 +538,21 @@ export default function FileGallery({ onUploadClick }: FileGalleryProps) {
                             </Button>
                           </DropdownMenuTrigger>
                           <DropdownMenuContent align="end">
-                            <DropdownMenuItem 
-                              onClick={() => handleBulkDeleteClick(box)}
-                              className="text-red-600 focus:text-red-600 focus:bg-red-50 dark:focus:bg-red-950"
-                            >
-                              <Trash2 className="w-4 h-4 mr-2" />
-                              Delete All Files
+                            <DropdownMenuItem asChild>
+                              <a href={getZipUrl({ teamNumber: box.teamNumber, assignmentId: box.assignmentId })} download>
+                                <Download className="w-4 h-4 mr-2" />
+                                Download All Files
+                              </a>
                             </DropdownMenuItem>
+                            {hasPermission(user, "files.delete") && (
+                              <DropdownMenuItem 
+                                onClick={() => handleBulkDeleteClick(box)}
+                                className="text-red-600 focus:text-red-600 focus:bg-red-50 dark:focus:bg-red-950"
+                              >
+                                <Trash2 className="w-4 h-4 mr-2" />
+                                Delete All Files
+                              </DropdownMenuItem>
+                            )}
                           </DropdownMenuContent>
                         </DropdownMenu>
                       )}
@@ -525,15 +577,31 @@ export default function FileGallery({ onUploadClick }: FileGalleryProps) {
                           onClick={() => setSelectedFile(file)}
                         >
                           <div className="flex flex-col items-center text-center">
-                            <div className="w-8 h-8 flex items-center justify-center mb-1">
-                              {getFileIcon(file.fileType)}
-                            </div>
+                            <FileThumbnail
+                              file={file}
+                              className="w-full h-16 object-cover rounded-sm mb-1 bg-background"
+                              fallback={
+                                <div className="w-8 h-8 flex items-center justify-center mb-1">
+                                  {getFileIcon(file.fileType)}
+                                </div>
+                              }
+                            />
                             <p className="text-xs font-medium text-foreground truncate w-full">
                               {file.label}
                             </p>
                             <p className="text-xs text-muted-foreground">
                               {formatFileSize(file.fileSize)}
                             </p>
+                            {file.version > 1 && (
+                              <Badge variant="outline" className="mt-1 text-[10px] px-1.5 py-0" title={file.isLatestVersion === "true" ? "Latest version" : "Earlier version"}>
+                                v{file.version}
+                              </Badge>
+                            )}
+                            {file.isLate === "true" && (
+                              <Badge variant="outline" className="mt-1 text-[10px] px-1.5 py-0 border-orange-300 text-orange-700 bg-orange-50" title={`Submitted ${formatMinutes(file.minutesLate)} after the due time`}>
+                                Late · {formatMinutes(file.minutesLate)}
+                              </Badge>
+                            )}
                           </div>
                         </Card>
                       ))}
@@ -587,8 +655,15 @@ export default function FileGallery({ onUploadClick }: FileGalleryProps) {
                     <div className="w-12 h-12 bg-primary/10 rounded-full flex items-center justify-center">
                       {box.icon}
                     </div>
-                    <div className="text-xs text-muted-foreground">
-                      {box.files.length} files
+                    <div className="flex items-center space-x-2">
+                      <div className="text-xs text-muted-foreground">
+                        {box.files.length} files
+                      </div>
+                      <Button variant="ghost" size="sm" className="h-6 w-6 p-0 hover:bg-accent" title="Download all files" asChild>
+                        <a href={getZipUrl({ teamNumber: user?.teamNumber, assignmentId: box.id })} download>
+                          <Download className="w-4 h-4" />
+                        </a>
+                      </Button>
                     </div>
                   </div>
                   <h3 className="font-semibold text-foreground mb-2">
@@ -599,6 +674,8 @@ export default function FileGallery({ onUploadClick }: FileGalleryProps) {
                       {box.subtitle}
                     </p>
                   )}
+
+                  {box.grade && <TeamGradeSummary grade={box.grade} assignmentTitle={getAssignmentTitle(box.id)} />}
                   
                   {/* Files Grid */}
                   <div className="grid grid-cols-2 gap-2 mt-4">
@@ -609,15 +686,31 @@ export default function FileGallery({ onUploadClick }: FileGalleryProps) {
                         onClick={() => setSelectedFile(file)}
                       >
                         <div className="flex flex-col items-center text-center">
-                          <div className="w-8 h-8 flex items-center justify-center mb-1">
-                            {getFileIcon(file.fileType)}
-                          </div>
+                          <FileThumbnail
+                            file={file}
+                            className="w-full h-16 object-cover rounded-sm mb-1 bg-background"
+                            fallback={
+                              <div className="w-8 h-8 flex items-center justify-center mb-1">
+                                {getFileIcon(file.fileType)}
+                              </div>
+                            }
+                          />
                           <p className="text-xs font-medium text-foreground truncate w-full">
                             {file.label}
                           </p>
                           <p className="text-xs text-muted-foreground">
                             {formatFileSize(file.fileSize)}
                           </p>
+                          {file.version > 1 && (
+                            <Badge variant="outline" className="mt-1 text-[10px] px-1.5 py-0" title={file.isLatestVersion === "true" ? "Latest version" : "Earlier version"}>
+                              v{file.version}
+                            </Badge>
+                          )}
+                          {file.isLate === "true" && (
+                            <Badge variant="outline" className="mt-1 text-[10px] px-1.5 py-0 border-orange-300 text-orange-700 bg-orange-50" title={`Submitted ${formatMinutes(file.minutesLate)} after the due time`}>
+                              Late · {formatMinutes(file.minutesLate)}
+                            </Badge>
+                          )}
                         </div>
                       </Card>
                     ))}
@@ -656,19 +749,19 @@ export default function FileGallery({ onUploadClick }: FileGalleryProps) {
             <AlertDialogDescription>
               Are you sure you want to delete all {bulkDeleteTarget?.files.length} file(s) from{" "}
               {bulkDeleteTarget?.type === 'assignment' ? 
-                `${bulkDeleteTarget.value}` : 
+                `${getAssignmentTitle(bulkDeleteTarget.value)}` : 
                 `Team ${bulkDeleteTarget?.value?.replace('team-', '')}`
-              }? This action cannot be undone.
+              }? They go to the trash together, where an instructor can restore them.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <div className="py-4">
-            <Label htmlFor="adminPasswordBulk">Admin Password</Label>
+            <Label htmlFor="adminPasswordBulk">Your Password</Label>
             <Input
               id="adminPasswordBulk"
               type="password"
               value={adminPassword}
               onChange={(e) => setAdminPassword(e.target.value)}
-              placeholder="Enter your admin password"
+              placeholder="Enter your password"
               className="mt-2"
             />
           </div>
@@ -6,8 +6,18 @@ import { Badge } from "@/components/ui/badge";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
+import { useAssignments } from "@/hooks/use-assignments";
+import { useFileComments } from "@/hooks/use-file-comments";
+import FileVersionHistory from "@/components/file-version-history";
+import GradeSheet from "@/components/grade-sheet";
+import FileComments from "@/components/file-comments";
+import DocumentPreview from "@/components/document-preview";
 import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
+import { hasPermission } from "@shared/permissions";
+import { describeUploader, findIdenticalUploads } from "@shared/duplicates";
+import { getPreviewKind } from "@shared/previews";
 import type { File } from "@shared/schema";
 
 interface FilePreviewProps {
@@ -26,16 +36,26 @@ export default function FilePreview({ file, onClose, onDownload }: FilePreviewPr
   const [isPanelCollapsed, setIsPanelCollapsed] = useState(false);
   const [imageDimensions, setImageDimensions] = useState({ width: 0, height: 0 });
   const [containerDimensions, setContainerDimensions] = useState({ width: 0, height: 0 });
+  const [viewedVersion, setViewedVersion] = useState<File | null>(null);
+  const [currentSlide, setCurrentSlide] = useState<number | null>(null);
   const imageRef = useRef<HTMLImageElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { getAssignmentTitle, getAssignment } = useAssignments();
 
   // Get current user info
-  const { data: user } = useQuery<{ teamNumber: number; isAdmin: boolean }>({
+  const { data: user } = useQuery<{ teamNumber: number; isAdmin: boolean; role?: string }>({
     queryKey: ["/api/user"]
   });
 
+  // Staff see every file, so they can be told when another team uploaded the same contents
+  const canCompareUploads = hasPermission(user, "files.viewAll");
+  const { data: courseFiles = [] } = useQuery<File[]>({
+    queryKey: ["/api/files"],
+    enabled: canCompareUploads,
+  });
+
   if (!file) return null;
 
   // Delete file mutation
@@ -60,7 +80,7 @@ export default function FilePreview({ file, onClose, onDownload }: FilePreviewPr
     onSuccess: () => {
       toast({
         title: "Success!",
-        description: "File deleted successfully",
+        description: "File moved to the trash",
       });
       // Refresh files list
       queryClient.invalidateQueries({ queryKey: ["/api/files"] });
@@ -88,6 +108,7 @@ export default function FilePreview({ file, onClose, onDownload }: FilePreviewPr
     setIsPanelCollapsed(true);
     setImageDimensions({ width: 0, height: 0 });
     setContainerDimensions({ width: 0, height: 0 });
+    setViewedVersion(null);
   }, [file?.id]);
 
   // Track container and image dimensions for panning logic
@@ -235,7 +256,7 @@ export default function FilePreview({ file, onClose, onDownload }: FilePreviewPr
       toast({
         variant: "destructive",
         title: "Password Required",
-        description: "Please enter your admin password to delete this file.",
+        description: "Please enter your password to delete this file.",
       });
       return;
     }
@@ -272,12 +293,27 @@ export default function FilePreview({ file, onClose, onDownload }: FilePreviewPr
     if (type.includes('.png')) return 'PNG Image';
     if (type.includes('.docx')) return 'Word Document';
     if (type.includes('.pptx')) return 'PowerPoint Presentation';
+    if (type.includes('.xlsx')) return 'Excel Spreadsheet';
     return 'Document';
   };
 
+  // Earlier versions picked from the history panel are previewed in place of the latest
+  const previewFile = viewedVersion ?? file;
+  const identicalUploads = canCompareUploads ? findIdenticalUploads(previewFile, courseFiles) : [];
+  const { data: fileComments } = useFileComments(previewFile.id);
+  const openCommentCount = fileComments?.comments.filter(comment => !comment.parentId && comment.isResolved !== "true").length ?? 0;
+
+  const handleDownload = () => {
+    if (viewedVersion) {
+      window.open(`/api/files/${viewedVersion.id}/download`, '_blank');
+    } else {
+      onDownload();
+    }
+  };
+
   const getPreviewContent = () => {
-    const type = file.fileType.toLowerCase();
-    const downloadUrl = `/api/files/${file.id}/download`;
+    const type = previewFile.fileType.toLowerCase();
+    const downloadUrl = `/api/files/${previewFile.id}/download`;
     
     // Image preview with controls
     if (type.includes('.jpg') || type.includes('.jpeg') || type.includes('.png')) {
@@ -330,7 +366,7 @@ export default function FilePreview({ file, onClose, onDownload }: FilePreviewPr
             <img 
               ref={imageRef}
               src={downloadUrl}
-              alt={file.originalName}
+              alt={previewFile.originalName}
               className="rounded shadow-lg transition-transform select-none block m-auto"
               style={{
                 transform: `scale(${imageScale}) translate(${imagePosition.x / imageScale}px, ${imagePosition.y / imageScale}px)`,
@@ -371,7 +407,7 @@ export default function FilePreview({ file, onClose, onDownload }: FilePreviewPr
             <iframe
               src={`${downloadUrl}#toolbar=1&navpanes=1&scrollbar=1`}
               className="w-full h-full rounded border"
-              title={`PDF Preview: ${file.originalName}`}
+              title={`PDF Preview: ${previewFile.originalName}`}
               onError={() => {
                 console.log('PDF preview failed, showing fallback');
               }}
@@ -385,7 +421,7 @@ export default function FilePreview({ file, onClose, onDownload }: FilePreviewPr
               <Button
                 variant="outline"
                 size="sm"
-                onClick={onDownload}
+                onClick={handleDownload}
                 className="flex items-center space-x-2"
               >
                 <Download className="w-4 h-4" />
@@ -415,9 +451,9 @@ export default function FilePreview({ file, onClose, onDownload }: FilePreviewPr
 
     const config = Object.entries(fileTypeConfig).find(([ext]) => type.includes(ext));
     const { icon, title, description, action } = config ? config[1] : 
-      { icon: '📁', title: getFileTypeDisplay(file.fileType), description: 'Click to download and view', action: 'Download File' };
+      { icon: '📁', title: getFileTypeDisplay(previewFile.fileType), description: 'Click to download and view', action: 'Download File' };
     
-    return (
+    const downloadCard = (
       <div className="bg-muted rounded-lg h-full flex items-center justify-center">
         <div className="text-center max-w-md">
           <div className="text-8xl mb-6">{icon}</div>
@@ -426,7 +462,7 @@ export default function FilePreview({ file, onClose, onDownload }: FilePreviewPr
           <div className="space-y-3">
             <div className="flex space-x-2">
               <Button
-                onClick={() => window.open(`/api/files/${file.id}/download`, '_blank')}
+                onClick={() => window.open(downloadUrl, '_blank')}
                 className="flex-1 bg-primary text-primary-foreground hover:bg-primary/90"
                 size="lg"
               >
@@ -434,7 +470,7 @@ export default function FilePreview({ file, onClose, onDownload }: FilePreviewPr
                 Open in Browser
               </Button>
               <Button
-                onClick={onDownload}
+                onClick={handleDownload}
                 variant="outline"
                 size="lg"
                 className="flex-1"
@@ -453,6 +489,13 @@ export default function FilePreview({ file, onClose, onDownload }: FilePreviewPr
         </div>
       </div>
     );
+
+    // Presentations, Word documents and spreadsheets are converted on the server
+    if (getPreviewKind(previewFile.fileType)) {
+      return <DocumentPreview file={previewFile} fallback={downloadCard} onSlideChange={setCurrentSlide} />;
+    }
+
+    return downloadCard;
   };
 
   return (
@@ -464,24 +507,34 @@ export default function FilePreview({ file, onClose, onDownload }: FilePreviewPr
             {/* Simplified Header */}
             <div className="flex items-center justify-between p-4 pr-16 border-b bg-background">
               <div>
-                <DialogTitle className="text-lg font-semibold text-foreground">
+                <DialogTitle className="text-lg font-semibold text-foreground flex items-center gap-2">
                   {file.label}
+                  {file.version > 1 && (
+                    <Badge
+                      variant={viewedVersion ? "outline" : "secondary"}
+                      className="cursor-pointer text-xs"
+                      onClick={() => setIsPanelCollapsed(false)}
+                      title="Show version history"
+                    >
+                      v{previewFile.version}{viewedVersion ? ` of ${file.version}` : ""}
+                    </Badge>
+                  )}
                 </DialogTitle>
                 <p className="text-sm text-muted-foreground">
-                  {file.originalName} • {getFileTypeDisplay(file.fileType)} • {formatFileSize(file.fileSize)}
+                  {previewFile.originalName} • {getFileTypeDisplay(previewFile.fileType)} • {formatFileSize(previewFile.fileSize)}
                 </p>
               </div>
               <div className="flex items-center space-x-2 mr-8">
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={onDownload}
+                  onClick={handleDownload}
                   className="text-muted-foreground hover:text-foreground hover:bg-accent"
                   title="Download file"
                 >
                   <Download className="w-4 h-4" />
                 </Button>
-                {user?.isAdmin && (
+                {hasPermission(user, "files.delete") && (
                   <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
                     <AlertDialogTrigger asChild>
                       <Button
@@ -497,17 +550,17 @@ export default function FilePreview({ file, onClose, onDownload }: FilePreviewPr
                       <AlertDialogHeader>
                         <AlertDialogTitle>Delete File</AlertDialogTitle>
                         <AlertDialogDescription>
-                          Are you sure you want to delete "{file.originalName}"? This action cannot be undone.
+                          Are you sure you want to delete "{file.originalName}"? It goes to the trash, where an instructor can restore it.
                         </AlertDialogDescription>
                       </AlertDialogHeader>
                       <div className="py-4">
-                        <Label htmlFor="adminPasswordDelete">Admin Password</Label>
+                        <Label htmlFor="adminPasswordDelete">Your Password</Label>
                         <Input
                           id="adminPasswordDelete"
                           type="password"
                           value={adminPassword}
                           onChange={(e) => setAdminPassword(e.target.value)}
-                          placeholder="Enter your admin password"
+                          placeholder="Enter your password"
                           className="mt-2"
                         />
                       </div>
@@ -550,8 +603,15 @@ export default function FilePreview({ file, onClose, onDownload }: FilePreviewPr
             
             {/* Panel Content */}
             {!isPanelCollapsed && (
-              <div className="p-4 space-y-4 overflow-y-auto h-full">
-                <div className="space-y-3 text-sm">
+              <Tabs defaultValue="details" className="p-4 overflow-y-auto h-full">
+                <TabsList className="grid w-full grid-cols-2 mb-4">
+                  <TabsTrigger value="details">Details</TabsTrigger>
+                  <TabsTrigger value="comments">
+                    Comments{openCommentCount > 0 && ` (${openCommentCount})`}
+                  </TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="details" className="space-y-3 text-sm mt-0">
                   <div>
                     <span className="text-muted-foreground block mb-1">Team:</span>
                     <span className="text-foreground font-medium">Team {file.teamNumber}</span>
@@ -559,7 +619,7 @@ export default function FilePreview({ file, onClose, onDownload }: FilePreviewPr
                   
                   <div>
                     <span className="text-muted-foreground block mb-1">Assignment:</span>
-                    <span className="text-foreground text-xs leading-relaxed">{file.assignment}</span>
+                    <span className="text-foreground text-xs leading-relaxed">{getAssignmentTitle(file.assignmentId)}</span>
                   </div>
                   
                   <div>
@@ -588,10 +648,47 @@ export default function FilePreview({ file, onClose, onDownload }: FilePreviewPr
                   
                   <div className="pt-2 border-t">
                     <span className="text-muted-foreground block mb-1">Uploaded:</span>
-                    <span className="text-foreground text-xs">{formatDate(file.uploadedAt)}</span>
+                    <span className="text-foreground text-xs">{formatDate(previewFile.uploadedAt)}</span>
                   </div>
-                </div>
-              </div>
+
+                  {previewFile.uploadedByName && (
+                    <div>
+                      <span className="text-muted-foreground block mb-1">Uploaded By:</span>
+                      <span className="text-foreground text-xs">{previewFile.uploadedByName}</span>
+                    </div>
+                  )}
+
+                  {identicalUploads.length > 0 && (
+                    <div className="rounded-md border border-amber-300 bg-amber-50 dark:bg-amber-950/30 dark:border-amber-700 px-2 py-1.5">
+                      <span className="text-amber-800 dark:text-amber-300 text-xs">
+                        Identical to {identicalUploads
+                          .map(other => `${describeUploader(other.teamNumber)}'s upload "${other.label}"`)
+                          .join(", ")}
+                      </span>
+                    </div>
+                  )}
+
+                  <FileVersionHistory
+                    file={file}
+                    selectedFileId={previewFile.id}
+                    canRestore={!!user && (user.isAdmin ? hasPermission(user, "files.edit") : user.teamNumber === file.teamNumber)}
+                    onSelect={(version) => setViewedVersion(version.id === file.id ? null : version)}
+                  />
+
+                  {file.teamNumber !== 0 && hasPermission(user, "grades.view") && (
+                    <GradeSheet
+                      assignmentId={file.assignmentId}
+                      teamNumber={file.teamNumber}
+                      canEdit={hasPermission(user, "grades.edit")}
+                      gradesReleased={getAssignment(file.assignmentId)?.gradesReleased === "true"}
+                    />
+                  )}
+                </TabsContent>
+
+                <TabsContent value="comments" className="mt-0">
+                  <FileComments key={previewFile.id} file={previewFile} currentPage={currentSlide} />
+                </TabsContent>
+              </Tabs>
             )}
           </div>
         </div>
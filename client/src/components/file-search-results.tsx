@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { FileText, LoaderIcon, SearchX } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useQuery } from "@tanstack/react-query";
+import FilePreview from "@/components/file-preview";
+import FileThumbnail from "@/components/file-thumbnail";
+import { useAssignments } from "@/hooks/use-assignments";
+import { splitSnippet, type FileSearchResult } from "@shared/search";
+import type { File } from "@shared/schema";
+
+interface FileSearchResultsProps {
+  query: string;
+}
+
+/**
+ * Files matching the header search, best match first, with the passage of text that matched.
+ * The server only returns files the signed-in user may see.
+ */
+export default function FileSearchResults({ query }: FileSearchResultsProps) {
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const { getAssignmentTitle } = useAssignments();
+
+  const { data: results = [], isLoading, isError } = useQuery<FileSearchResult[]>({
+    queryKey: [`/api/files?search=${encodeURIComponent(query)}`],
+  });
+
+  const downloadFile = (file: File) => {
+    const link = document.createElement('a');
+    link.href = `/api/files/${file.id}/download`;
+    link.download = file.originalName;
+    link.click();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16 text-muted-foreground">
+        <LoaderIcon className="w-5 h-5 mr-2 animate-spin" />
+        Searching...
+      </div>
+    );
+  }
+
+  if (isError) {
+    return <div className="text-center py-16 text-muted-foreground">Search failed. Please try again.</div>;
+  }
+
+  return (
+    <div>
+      <h2 className="text-lg font-semibold text-foreground mb-4">
+        {results.length === 0 ? "No results" : `${results.length} result${results.length === 1 ? "" : "s"}`} for "{query}"
+      </h2>
+
+      {results.length === 0 ? (
+        <div className="text-center py-16 bg-card rounded-lg border border-border">
+          <SearchX className="w-10 h-10 mx-auto mb-4 text-muted-foreground" />
+          <p className="text-muted-foreground">
+            Try other words. Searches cover file labels, names, tags, descriptions and the text inside PDFs, Word documents, slide decks and text files.
+          </p>
+        </div>
+      ) : (
+        <div className="grid gap-3">
+          {results.map(result => (
+            <Card
+              key={result.id}
+              className="cursor-pointer hover:shadow-md transition-shadow"
+              onClick={() => setSelectedFile(result)}
+            >
+              <CardContent className="p-4 flex items-start gap-4">
+                <div className="flex-shrink-0 w-16 h-16 flex items-center justify-center">
+                  <FileThumbnail
+                    file={result}
+                    className="w-16 h-16 object-cover rounded border"
+                    fallback={<FileText className="w-8 h-8 text-muted-foreground" />}
+                  />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <h3 className="font-medium text-foreground truncate">{result.label}</h3>
+                    <Badge variant="outline">{result.teamNumber === 0 ? "Warrier" : `Team ${result.teamNumber}`}</Badge>
+                    {result.version > 1 && <Badge variant="outline">v{result.version}</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground truncate">
+                    {getAssignmentTitle(result.assignmentId)} • {result.originalName}
+                  </p>
+                  {result.searchSnippet && (
+                    <p className="text-sm text-foreground mt-2 line-clamp-3">
+                      {splitSnippet(result.searchSnippet).map((part, index) => part.isMatch ? (
+                        <mark key={index} className="bg-yellow-200 dark:bg-yellow-700 text-inherit rounded-sm px-0.5">{part.text}</mark>
+                      ) : (
+                        <span key={index}>{part.text}</span>
+                      ))}
+                    </p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {selectedFile && (
+        <FilePreview
+          file={selectedFile}
+          onClose={() => setSelectedFile(null)}
+          onDownload={() => downloadFile(selectedFile)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { canHaveThumbnail } from "@shared/previews";
+import type { File } from "@shared/schema";
+
+interface FileThumbnailProps {
+  file: File;
+  // Shown for types without thumbnails, and until the thumbnail has loaded
+  fallback: ReactNode;
+  className?: string;
+}
+
+// A fresh upload's thumbnail may take a few seconds; give up after about half a minute
+const RETRY_DELAYS = [2000, 4000, 8000, 16000];
+
+/**
+ * Server-made thumbnail of an image, PDF or presentation, falling back to the file type icon.
+ */
+export default function FileThumbnail({ file, fallback, className }: FileThumbnailProps) {
+  const [attempt, setAttempt] = useState(0);
+  const [status, setStatus] = useState<"loading" | "loaded" | "waiting" | "none">("loading");
+
+  useEffect(() => {
+    setAttempt(0);
+    setStatus("loading");
+  }, [file.id]);
+
+  useEffect(() => {
+    if (status !== "waiting") return;
+    const timeout = setTimeout(() => {
+      setAttempt(current => current + 1);
+      setStatus("loading");
+    }, RETRY_DELAYS[attempt]);
+    return () => clearTimeout(timeout);
+  }, [status, attempt]);
+
+  if (!canHaveThumbnail(file.fileType) || status === "none") return <>{fallback}</>;
+
+  return (
+    <>
+      {status !== "loaded" && fallback}
+      {status !== "waiting" && (
+        <img
+          src={`/api/files/${file.id}/thumbnail${attempt > 0 ? `?attempt=${attempt}` : ""}`}
+          alt=""
+          onLoad={() => setStatus("loaded")}
+          onError={() => setStatus(attempt < RETRY_DELAYS.length ? "waiting" : "none")}
+          className={status === "loaded" ? className : "hidden"}
+          draggable={false}
+        />
+      )}
+    </>
+  );
+}
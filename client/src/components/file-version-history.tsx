@@ -0,0 +1,122 @@
+import { Download, History, RotateCcw, LoaderIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { File } from "@shared/schema";
+
+interface FileVersionHistoryProps {
+  file: File;
+  selectedFileId: string;
+  canRestore: boolean;
+  onSelect: (version: File) => void;
+}
+
+export default function FileVersionHistory({ file, selectedFileId, canRestore, onSelect }: FileVersionHistoryProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: versions = [], isLoading } = useQuery<File[]>({
+    queryKey: ["/api/files", file.id, "versions"],
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (versionId: string) => {
+      return await apiRequest("POST", `/api/files/${versionId}/restore`, {});
+    },
+    onSuccess: (data: any) => {
+      toast({
+        title: "Success!",
+        description: data.message,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Restore Failed",
+        description: error.message || "Failed to restore version",
+      });
+    },
+  });
+
+  const formatDate = (date: string | Date) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  return (
+    <div className="pt-2 border-t">
+      <span className="text-muted-foreground flex items-center gap-1 mb-2">
+        <History className="w-4 h-4" />
+        Version history:
+      </span>
+      {isLoading ? (
+        <span className="text-muted-foreground text-xs">Loading versions...</span>
+      ) : (
+        <div className="space-y-2">
+          {versions.map((version) => (
+            <div
+              key={version.id}
+              onClick={() => onSelect(version)}
+              className={`rounded-md border p-2 cursor-pointer transition-colors ${
+                version.id === selectedFileId ? "border-primary bg-primary/5" : "hover:bg-accent"
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-1 min-w-0">
+                  <span className="font-medium text-foreground text-xs">v{version.version}</span>
+                  {version.isLatestVersion === "true" && (
+                    <Badge variant="secondary" className="text-[10px] px-1.5 py-0">Latest</Badge>
+                  )}
+                </div>
+                <div className="flex items-center">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    title="Download this version"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      window.open(`/api/files/${version.id}/download`, '_blank');
+                    }}
+                  >
+                    <Download className="w-3 h-3" />
+                  </Button>
+                  {canRestore && version.isLatestVersion !== "true" && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      title="Restore this version"
+                      disabled={restoreMutation.isPending}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        restoreMutation.mutate(version.id);
+                      }}
+                    >
+                      {restoreMutation.isPending && restoreMutation.variables === version.id
+                        ? <LoaderIcon className="w-3 h-3 animate-spin" />
+                        : <RotateCcw className="w-3 h-3" />}
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground truncate">{version.originalName}</p>
+              <p className="text-xs text-muted-foreground">
+                {formatDate(version.uploadedAt)}
+                {version.uploadedByName && ` • ${version.uploadedByName}`}
+                {version.restoredFromVersion && ` • restored from v${version.restoredFromVersion}`}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import { useEffect, useState } from "react";
+import { ClipboardCheck, LoaderIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { getGradeTotal } from "@shared/grading";
+import type { Grade } from "@shared/schema";
+import type { Rubric } from "@/components/rubric-editor";
+
+interface GradeSheetProps {
+  assignmentId: string;
+  teamNumber: number;
+  canEdit: boolean;
+  gradesReleased: boolean;
+}
+
+interface ScoreFields {
+  points: string;
+  comment: string;
+}
+
+// Grades belong to a team's submission for an assignment, so every file in it shows the same sheet
+export default function GradeSheet({ assignmentId, teamNumber, canEdit, gradesReleased }: GradeSheetProps) {
+  const [scores, setScores] = useState<Record<string, ScoreFields>>({});
+  const [feedback, setFeedback] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: rubric, isLoading: rubricLoading } = useQuery<Rubric>({
+    queryKey: ["/api/assignments", assignmentId, "rubric"],
+  });
+
+  const { data: grades = [], isLoading: gradesLoading } = useQuery<Grade[]>({
+    queryKey: ["/api/admin/assignments", assignmentId, "grades"],
+  });
+
+  const grade = grades.find(g => g.teamNumber === teamNumber);
+
+  useEffect(() => {
+    const saved: Record<string, ScoreFields> = {};
+    grade?.scores.forEach(score => {
+      saved[score.criterionId] = { points: String(score.points), comment: score.comment || "" };
+    });
+    setScores(saved);
+    setFeedback(grade?.feedback || "");
+  }, [grade, teamNumber]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PUT", `/api/admin/assignments/${assignmentId}/grades/${teamNumber}`, {
+        scores: (rubric?.criteria ?? [])
+          .filter(criterion => scores[criterion.id]?.points.trim())
+          .map(criterion => ({
+            criterionId: criterion.id,
+            points: Number(scores[criterion.id].points),
+            comment: scores[criterion.id].comment,
+          })),
+        feedback,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success!",
+        description: `Grade saved for Team ${teamNumber}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/assignments", assignmentId, "grades"] });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Save Failed",
+        description: error.message || "Failed to save grade",
+      });
+    },
+  });
+
+  const updateScore = (criterionId: string, updates: Partial<ScoreFields>) => {
+    setScores(prev => ({
+      ...prev,
+      [criterionId]: { ...(prev[criterionId] ?? { points: "", comment: "" }), ...updates },
+    }));
+  };
+
+  const header = (
+    <span className="text-muted-foreground flex items-center gap-1 mb-2">
+      <ClipboardCheck className="w-4 h-4" />
+      Grade:
+      {gradesReleased && <Badge variant="outline" className="ml-auto text-[10px] px-1.5 py-0">Released</Badge>}
+    </span>
+  );
+
+  if (rubricLoading || gradesLoading) {
+    return (
+      <div className="pt-2 border-t">
+        {header}
+        <span className="text-muted-foreground text-xs">Loading grade sheet...</span>
+      </div>
+    );
+  }
+
+  if (!rubric || rubric.criteria.length === 0) {
+    return (
+      <div className="pt-2 border-t">
+        {header}
+        <span className="text-muted-foreground text-xs italic">No rubric for this assignment yet</span>
+      </div>
+    );
+  }
+
+  const draftTotal = rubric.criteria.reduce((total, criterion) => total + (Number(scores[criterion.id]?.points) || 0), 0);
+
+  return (
+    <div className="pt-2 border-t space-y-3">
+      {header}
+
+      {rubric.criteria.map(criterion => (
+        <div key={criterion.id} className="space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-foreground text-xs font-medium" title={criterion.description || undefined}>
+              {criterion.title}
+            </span>
+            <span className="text-muted-foreground text-[10px] whitespace-nowrap">
+              {criterion.minPoints}–{criterion.maxPoints}
+            </span>
+          </div>
+          {canEdit ? (
+            <>
+              <Input
+                type="number"
+                min={criterion.minPoints}
+                max={criterion.maxPoints}
+                step="0.5"
+                value={scores[criterion.id]?.points ?? ""}
+                onChange={(e) => updateScore(criterion.id, { points: e.target.value })}
+                className="h-8 text-xs"
+                aria-label={`${criterion.title} points`}
+              />
+              <Textarea
+                value={scores[criterion.id]?.comment ?? ""}
+                onChange={(e) => updateScore(criterion.id, { comment: e.target.value })}
+                placeholder="Comment (optional)"
+                rows={1}
+                className="text-xs resize-none min-h-0"
+              />
+            </>
+          ) : (
+            <p className="text-xs text-foreground">
+              {scores[criterion.id]?.points || "—"}
+              {scores[criterion.id]?.comment && <span className="text-muted-foreground"> • {scores[criterion.id].comment}</span>}
+            </p>
+          )}
+        </div>
+      ))}
+
+      {canEdit ? (
+        <Textarea
+          value={feedback}
+          onChange={(e) => setFeedback(e.target.value)}
+          placeholder="Overall feedback for the team"
+          rows={3}
+          className="text-xs resize-none"
+        />
+      ) : (
+        feedback && <p className="text-xs text-foreground leading-relaxed">{feedback}</p>
+      )}
+
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-foreground font-medium">
+          Total: {canEdit ? draftTotal : getGradeTotal(rubric.criteria, grade?.scores ?? [])} / {rubric.maxPoints}
+        </span>
+        {canEdit && (
+          <Button size="sm" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+            {saveMutation.isPending && <LoaderIcon className="w-3 h-3 mr-1 animate-spin" />}
+            Save Grade
+          </Button>
+        )}
+      </div>
+      {grade?.gradedBy && (
+        <p className="text-[10px] text-muted-foreground">
+          Last saved by {grade.gradedBy} on {new Date(grade.updatedAt).toLocaleString()}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { CalendarClock, LoaderIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { toDateTimeInputValue, fromDateTimeInputValue } from "@/lib/utils";
+
+interface OpenViewScheduleProps {
+  assignmentId: string;
+  revealAt: string | null;
+  hideAt: string | null;
+}
+
+export default function OpenViewSchedule({ assignmentId, revealAt, hideAt }: OpenViewScheduleProps) {
+  const [revealValue, setRevealValue] = useState(toDateTimeInputValue(revealAt));
+  const [hideValue, setHideValue] = useState(toDateTimeInputValue(hideAt));
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const scheduleMutation = useMutation({
+    mutationFn: async (schedule: { revealAt: string | null; hideAt: string | null }) => {
+      return await apiRequest("PUT", "/api/assignment-settings/schedule", { assignmentId, ...schedule });
+    },
+    onSuccess: (_data, schedule) => {
+      toast({
+        title: "Success!",
+        description: schedule.revealAt || schedule.hideAt ? "Open view schedule saved" : "Open view schedule cleared",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/assignment-settings"] });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Schedule Failed",
+        description: error.message || "Failed to update open view schedule",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    scheduleMutation.mutate({
+      revealAt: fromDateTimeInputValue(revealValue),
+      hideAt: fromDateTimeInputValue(hideValue),
+    });
+  };
+
+  const handleClear = () => {
+    setRevealValue("");
+    setHideValue("");
+    scheduleMutation.mutate({ revealAt: null, hideAt: null });
+  };
+
+  const isDirty = revealValue !== toDateTimeInputValue(revealAt) || hideValue !== toDateTimeInputValue(hideAt);
+  const hasSchedule = !!(revealAt || hideAt);
+
+  return (
+    <div className="mt-4 pt-4 border-t border-border">
+      <div className="flex items-center gap-2 mb-3 text-sm font-medium text-foreground">
+        <CalendarClock className="w-4 h-4" />
+        Scheduled open view
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <Label htmlFor={`reveal-${assignmentId}`} className="text-xs text-muted-foreground">Open at</Label>
+          <Input
+            id={`reveal-${assignmentId}`}
+            type="datetime-local"
+            value={revealValue}
+            onChange={(e) => setRevealValue(e.target.value)}
+          />
+        </div>
+        <div>
+          <Label htmlFor={`hide-${assignmentId}`} className="text-xs text-muted-foreground">Close at</Label>
+          <Input
+            id={`hide-${assignmentId}`}
+            type="datetime-local"
+            value={hideValue}
+            onChange={(e) => setHideValue(e.target.value)}
+          />
+        </div>
+      </div>
+      <div className="flex justify-end gap-2 mt-3">
+        {hasSchedule && (
+          <Button variant="ghost" size="sm" onClick={handleClear} disabled={scheduleMutation.isPending}>
+            Clear
+          </Button>
+        )}
+        <Button size="sm" onClick={handleSave} disabled={!isDirty || scheduleMutation.isPending}>
+          {scheduleMutation.isPending && <LoaderIcon className="w-4 h-4 mr-2 animate-spin" />}
+          Save schedule
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -6,11 +6,13 @@ import { Button } from "@/components/ui/button";
 import { useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import FilePreview from "@/components/file-preview";
+import FileThumbnail from "@/components/file-thumbnail";
+import { useAssignments } from "@/hooks/use-assignments";
 import type { File } from "@shared/schema";
 
 interface AssignmentSetting {
   id: string;
-  assignment: string;
+  assignmentId: string;
   isOpenView: string;
   updatedAt: string;
 }
@@ -18,6 +20,7 @@ interface AssignmentSetting {
 export default function OtherTeamFiles() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const { toast } = useToast();
+  const { getAssignmentTitle } = useAssignments();
 
   // Get current user info
   const { data: user } = useQuery<{ teamNumber: number; isAdmin: boolean }>({
@@ -61,10 +64,10 @@ export default function OtherTeamFiles() {
   const otherTeamFiles = allFiles.filter(file => {
     const openAssignments = assignmentSettings
       .filter(setting => setting.isOpenView === "true")
-      .map(setting => setting.assignment);
+      .map(setting => setting.assignmentId);
     
     return (
-      file.teamNumber !== user?.teamNumber && openAssignments.includes(file.assignment)
+      file.teamNumber !== user?.teamNumber && openAssignments.includes(file.assignmentId)
     ) || (
       file.teamNumber === 0 && file.isVisible === "true" // Include visible admin files
     );
@@ -180,7 +183,11 @@ export default function OtherTeamFiles() {
                 <div className="flex items-center space-x-4">
                   {/* File Icon */}
                   <div className="flex-shrink-0">
-                    {getFileIcon(file.fileType)}
+                    <FileThumbnail
+                      file={file}
+                      className="w-16 h-16 object-cover rounded border"
+                      fallback={getFileIcon(file.fileType)}
+                    />
                   </div>
                   
                   {/* File Info */}
@@ -198,7 +205,7 @@ export default function OtherTeamFiles() {
                     
                     <div className="flex items-center space-x-2 mb-2">
                       <Badge variant="secondary" className="text-xs">
-                        {file.assignment.split(' - ')[0]}
+                        {getAssignmentTitle(file.assignmentId).split(' - ')[0]}
                       </Badge>
                       {file.tags.map((tag, index) => (
                         <Badge key={index} variant="outline" className="text-xs">
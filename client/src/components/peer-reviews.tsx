@@ -0,0 +1,321 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { FileText, MessagesSquare } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import FilePreview from "@/components/file-preview";
+import { useToast } from "@/hooks/use-toast";
+import { useAssignments } from "@/hooks/use-assignments";
+import { usePeerReviews, type AssignedPeerReview, type ReceivedPeerReviews } from "@/hooks/use-peer-reviews";
+import { apiRequest } from "@/lib/queryClient";
+import { formatPeerReviewAnswer } from "@shared/peer-review";
+import type { File, PeerReviewAnswer } from "@shared/schema";
+
+const formatDateTime = (date: string | Date) => {
+  return new Date(date).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+};
+
+export default function PeerReviews() {
+  const { assigned, received, isLoading } = usePeerReviews();
+  const { getAssignmentTitle } = useAssignments();
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const { toast } = useToast();
+
+  const downloadFile = async (file: File) => {
+    try {
+      const response = await fetch(`/api/files/${file.id}/download`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to download file');
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.style.display = 'none';
+      a.href = url;
+      a.download = file.originalName;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Download Failed",
+        description: "Failed to download file. Please try again.",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading peer reviews...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-10">
+      <div>
+        <div className="mb-6">
+          <h2 className="text-2xl font-semibold text-foreground mb-2">Reviews to Write</h2>
+          <p className="text-muted-foreground">
+            Review other teams' submissions. The teams you review will not see who wrote their review.
+          </p>
+        </div>
+
+        {assigned.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <MessagesSquare className="w-10 h-10 mx-auto mb-3 opacity-50" />
+            <p>No peer reviews have been assigned to your team</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {assigned.map(review => (
+              <PeerReviewForm
+                key={review.id}
+                review={review}
+                assignmentTitle={getAssignmentTitle(review.assignmentId)}
+                onOpenFile={setSelectedFile}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="mb-6">
+          <h2 className="text-2xl font-semibold text-foreground mb-2">Reviews of Your Work</h2>
+          <p className="text-muted-foreground">
+            Feedback from other teams appears here once your instructor releases it.
+          </p>
+        </div>
+
+        {received.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <p>No peer reviews have been released yet</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {received.map(entry => (
+              <ReceivedReviews
+                key={entry.assignmentId}
+                entry={entry}
+                assignmentTitle={getAssignmentTitle(entry.assignmentId)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {selectedFile && (
+        <FilePreview
+          file={selectedFile}
+          onClose={() => setSelectedFile(null)}
+          onDownload={() => downloadFile(selectedFile)}
+        />
+      )}
+    </div>
+  );
+}
+
+interface PeerReviewFormProps {
+  review: AssignedPeerReview;
+  assignmentTitle: string;
+  onOpenFile: (file: File) => void;
+}
+
+function PeerReviewForm({ review, assignmentTitle, onOpenFile }: PeerReviewFormProps) {
+  const [answers, setAnswers] = useState<PeerReviewAnswer[]>(review.answers);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    setAnswers(review.answers);
+  }, [review]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (submit: boolean) => {
+      return await apiRequest("PUT", `/api/peer-reviews/${review.id}`, { answers, submit });
+    },
+    onSuccess: (_data, submit) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/peer-reviews"] });
+      toast({
+        title: "Success!",
+        description: submit ? "Review submitted" : "Draft saved",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to save review",
+      });
+    },
+  });
+
+  const getAnswer = (questionId: string) => answers.find(a => a.questionId === questionId);
+
+  const setAnswer = (questionId: string, changes: Partial<PeerReviewAnswer>) => {
+    setAnswers(current => {
+      const existing = current.find(a => a.questionId === questionId) ?? { questionId, rating: null, text: null };
+      return [...current.filter(a => a.questionId !== questionId), { ...existing, ...changes }];
+    });
+  };
+
+  const isSubmitted = !!review.submittedAt;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <CardTitle className="text-lg">{assignmentTitle}: Team {review.revieweeTeamNumber}</CardTitle>
+            {review.dueAt && (
+              <p className="text-sm text-muted-foreground mt-1">Due {formatDateTime(review.dueAt)}</p>
+            )}
+          </div>
+          <div className="flex gap-2">
+            {!review.isOpen && <Badge variant="outline">Closed</Badge>}
+            {isSubmitted ? (
+              <Badge className="bg-green-600 hover:bg-green-600 text-white">Submitted</Badge>
+            ) : (
+              <Badge variant="secondary">{review.answers.length > 0 ? "Draft" : "Not started"}</Badge>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <div>
+          <Label className="text-sm text-muted-foreground">Submission</Label>
+          {review.files.length === 0 ? (
+            <p className="text-sm text-muted-foreground mt-1">This team has not uploaded any files</p>
+          ) : (
+            <div className="flex flex-wrap gap-2 mt-2">
+              {review.files.map(file => (
+                <Button key={file.id} variant="outline" size="sm" onClick={() => onOpenFile(file)}>
+                  <FileText className="w-4 h-4 mr-2" />
+                  {file.originalName}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {review.questions.map((question, index) => (
+          <div key={question.id} className="space-y-2">
+            <Label className="text-sm font-medium">
+              {index + 1}. {question.prompt}
+              {question.isRequired && <span className="text-destructive ml-1">*</span>}
+            </Label>
+            {question.type === "rating" ? (
+              <div className="flex flex-wrap gap-1">
+                {Array.from({ length: question.maxRating ?? 5 }, (_, i) => i + 1).map(value => (
+                  <Button
+                    key={value}
+                    type="button"
+                    size="sm"
+                    variant={getAnswer(question.id)?.rating === value ? "default" : "outline"}
+                    className="w-9"
+                    disabled={!review.isOpen}
+                    onClick={() => setAnswer(question.id, { rating: getAnswer(question.id)?.rating === value ? null : value })}
+                  >
+                    {value}
+                  </Button>
+                ))}
+              </div>
+            ) : (
+              <Textarea
+                value={getAnswer(question.id)?.text ?? ""}
+                onChange={(e) => setAnswer(question.id, { text: e.target.value || null })}
+                disabled={!review.isOpen}
+                rows={3}
+                maxLength={5000}
+              />
+            )}
+          </div>
+        ))}
+
+        {review.isOpen ? (
+          <div className="flex justify-end gap-2">
+            {!isSubmitted && (
+              <Button variant="outline" onClick={() => saveMutation.mutate(false)} disabled={saveMutation.isPending}>
+                Save Draft
+              </Button>
+            )}
+            <Button onClick={() => saveMutation.mutate(true)} disabled={saveMutation.isPending}>
+              {isSubmitted ? "Update Review" : "Submit Review"}
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-right">This review round is closed</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface ReceivedReviewsProps {
+  entry: ReceivedPeerReviews;
+  assignmentTitle: string;
+}
+
+function ReceivedReviews({ entry, assignmentTitle }: ReceivedReviewsProps) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg">{assignmentTitle}</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          {entry.reviews.length} {entry.reviews.length === 1 ? "review" : "reviews"}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {entry.questions.map(question => {
+          const ratings = entry.reviews
+            .map(answers => answers.find(a => a.questionId === question.id)?.rating)
+            .filter((rating): rating is number => rating != null);
+          const average = ratings.length > 0 ? ratings.reduce((sum, r) => sum + r, 0) / ratings.length : null;
+
+          return (
+            <div key={question.id} className="border border-border rounded-lg p-3">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-foreground">{question.prompt}</span>
+                {question.type === "rating" && average !== null && (
+                  <span className="text-sm text-foreground whitespace-nowrap">
+                    Average {average.toFixed(1)} / {question.maxRating ?? 5}
+                  </span>
+                )}
+              </div>
+              <div className="mt-2 space-y-1">
+                {entry.reviews.map((answers, index) => {
+                  const value = formatPeerReviewAnswer(question, answers.find(a => a.questionId === question.id));
+                  return value ? (
+                    <p key={index} className="text-sm">
+                      <span className="text-muted-foreground">Reviewer {index + 1}:</span>{" "}
+                      <span className="text-foreground whitespace-pre-wrap">{value}</span>
+                    </p>
+                  ) : null;
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
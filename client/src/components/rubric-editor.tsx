@@ -0,0 +1,204 @@
+import { useEffect, useState } from "react";
+import { Plus, Trash2, ArrowUp, ArrowDown, LoaderIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { Assignment, RubricCriterion } from "@shared/schema";
+
+export interface Rubric {
+  criteria: RubricCriterion[];
+  maxPoints: number;
+}
+
+interface CriterionFields {
+  id?: string;
+  title: string;
+  description: string;
+  minPoints: string;
+  maxPoints: string;
+}
+
+const toFields = (criterion: RubricCriterion): CriterionFields => ({
+  id: criterion.id,
+  title: criterion.title,
+  description: criterion.description || "",
+  minPoints: String(criterion.minPoints),
+  maxPoints: String(criterion.maxPoints),
+});
+
+const newCriterion = (): CriterionFields => ({ title: "", description: "", minPoints: "0", maxPoints: "10" });
+
+interface RubricEditorProps {
+  assignment: Assignment | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function RubricEditor({ assignment, onOpenChange }: RubricEditorProps) {
+  const [criteria, setCriteria] = useState<CriterionFields[]>([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: rubric, isLoading } = useQuery<Rubric>({
+    queryKey: ["/api/assignments", assignment?.id, "rubric"],
+    enabled: !!assignment,
+  });
+
+  // Start from the saved rubric each time the dialog opens, dropping edits that were cancelled
+  useEffect(() => {
+    if (assignment && rubric) {
+      setCriteria(rubric.criteria.length > 0 ? rubric.criteria.map(toFields) : [newCriterion()]);
+    }
+  }, [assignment, rubric]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (fields: CriterionFields[]) => {
+      return await apiRequest("PUT", `/api/admin/assignments/${assignment!.id}/rubric`, {
+        criteria: fields.map(field => ({
+          ...(field.id && { id: field.id }),
+          title: field.title.trim(),
+          description: field.description.trim() || null,
+          minPoints: parseInt(field.minPoints) || 0,
+          maxPoints: parseInt(field.maxPoints) || 0,
+        })),
+      });
+    },
+    onSuccess: (saved: Rubric) => {
+      toast({
+        title: "Success!",
+        description: `Rubric saved (${saved.maxPoints} points)`,
+      });
+      queryClient.setQueryData(["/api/assignments", assignment!.id, "rubric"], saved);
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Save Failed",
+        description: error.message || "Failed to save rubric",
+      });
+    },
+  });
+
+  const updateCriterion = (index: number, updates: Partial<CriterionFields>) => {
+    setCriteria(prev => prev.map((criterion, i) => i === index ? { ...criterion, ...updates } : criterion));
+  };
+
+  const moveCriterion = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= criteria.length) return;
+    const next = [...criteria];
+    [next[index], next[target]] = [next[target], next[index]];
+    setCriteria(next);
+  };
+
+  const handleSave = () => {
+    if (criteria.some(criterion => !criterion.title.trim())) {
+      toast({
+        variant: "destructive",
+        title: "Title Required",
+        description: "Every criterion needs a title",
+      });
+      return;
+    }
+    saveMutation.mutate(criteria);
+  };
+
+  const totalPoints = criteria.reduce((total, criterion) => total + (parseInt(criterion.maxPoints) || 0), 0);
+
+  return (
+    <Dialog open={!!assignment} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Rubric: {assignment?.title}</DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-muted-foreground">Loading rubric...</div>
+        ) : (
+          <div className="space-y-4">
+            {criteria.map((criterion, index) => (
+              <div key={criterion.id ?? `new-${index}`} className="border border-border rounded-lg p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={criterion.title}
+                    onChange={(e) => updateCriterion(index, { title: e.target.value })}
+                    placeholder="Criterion, e.g., Market analysis"
+                    aria-label="Criterion title"
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => moveCriterion(index, -1)} disabled={index === 0} title="Move up">
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => moveCriterion(index, 1)} disabled={index === criteria.length - 1} title="Move down">
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setCriteria(prev => prev.filter((_, i) => i !== index))}
+                    className="text-red-600 hover:text-red-700"
+                    title="Remove criterion"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <Textarea
+                  value={criterion.description}
+                  onChange={(e) => updateCriterion(index, { description: e.target.value })}
+                  placeholder="What earns full marks (optional)"
+                  rows={2}
+                  className="resize-none"
+                />
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Minimum points</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={criterion.minPoints}
+                      onChange={(e) => updateCriterion(index, { minPoints: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Maximum points</Label>
+                    <Input
+                      type="number"
+                      min="1"
+                      value={criterion.maxPoints}
+                      onChange={(e) => updateCriterion(index, { maxPoints: e.target.value })}
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
+
+            <div className="flex items-center justify-between">
+              <Button variant="outline" size="sm" onClick={() => setCriteria(prev => [...prev, newCriterion()])}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Criterion
+              </Button>
+              <span className="text-sm text-muted-foreground">Total: {totalPoints} points</span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Removing a criterion drops its scores from grades already given.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saveMutation.isPending || isLoading}>
+            {saveMutation.isPending && <LoaderIcon className="w-4 h-4 mr-2 animate-spin" />}
+            Save Rubric
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,74 @@
+import { useState } from "react";
+import { Award } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { GradeScore, RubricCriterion } from "@shared/schema";
+
+export interface TeamGrade {
+  assignmentId: string;
+  criteria: RubricCriterion[];
+  scores: GradeScore[];
+  feedback: string | null;
+  total: number;
+  maxPoints: number;
+  updatedAt: string;
+}
+
+interface TeamGradeProps {
+  grade: TeamGrade;
+  assignmentTitle: string;
+}
+
+// Released grade summary on a team's assignment card, with the rubric breakdown on demand
+export default function TeamGradeSummary({ grade, assignmentTitle }: TeamGradeProps) {
+  const [showDetails, setShowDetails] = useState(false);
+
+  return (
+    <>
+      <div className="flex items-center justify-between gap-2 rounded-md bg-primary/10 border border-primary/20 px-3 py-2">
+        <span className="flex items-center gap-2 text-sm font-medium text-primary">
+          <Award className="w-4 h-4" />
+          {grade.total} / {grade.maxPoints}
+        </span>
+        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setShowDetails(true)}>
+          View feedback
+        </Button>
+      </div>
+
+      <Dialog open={showDetails} onOpenChange={setShowDetails}>
+        <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{assignmentTitle}: {grade.total} / {grade.maxPoints}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            {grade.criteria.map(criterion => {
+              const score = grade.scores.find(s => s.criterionId === criterion.id);
+              return (
+                <div key={criterion.id} className="border border-border rounded-lg p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-foreground">{criterion.title}</span>
+                    <span className="text-sm text-foreground whitespace-nowrap">
+                      {score ? score.points : "—"} / {criterion.maxPoints}
+                    </span>
+                  </div>
+                  {criterion.description && (
+                    <p className="text-xs text-muted-foreground mt-1">{criterion.description}</p>
+                  )}
+                  {score?.comment && (
+                    <p className="text-sm text-foreground mt-2">{score.comment}</p>
+                  )}
+                </div>
+              );
+            })}
+            {grade.feedback && (
+              <div className="pt-2 border-t">
+                <span className="text-muted-foreground text-sm block mb-1">Overall feedback:</span>
+                <p className="text-sm text-foreground leading-relaxed whitespace-pre-line">{grade.feedback}</p>
+              </div>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { UserPlus, Edit2, Trash2, Check, X, LoaderIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { TeamMember } from "@shared/schema";
+
+interface TeamMembersModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teamNumber: number;
+}
+
+interface MemberForm {
+  name: string;
+  email: string;
+  rollNumber: string;
+}
+
+const emptyForm: MemberForm = { name: "", email: "", rollNumber: "" };
+
+export default function TeamMembersModal({ open, onOpenChange, teamNumber }: TeamMembersModalProps) {
+  const [newMember, setNewMember] = useState<MemberForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState<MemberForm>(emptyForm);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const membersKey = ["/api/teams", teamNumber, "members"];
+
+  const { data: members = [], isLoading } = useQuery<TeamMember[]>({
+    queryKey: membersKey,
+    enabled: open,
+  });
+
+  const showError = (title: string) => (error: any) => {
+    toast({
+      variant: "destructive",
+      title,
+      description: error.message || "Something went wrong",
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async (member: MemberForm) => {
+      return await apiRequest("POST", `/api/teams/${teamNumber}/members`, member);
+    },
+    onSuccess: () => {
+      setNewMember(emptyForm);
+      queryClient.invalidateQueries({ queryKey: membersKey });
+    },
+    onError: showError("Add Failed"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, member }: { id: string; member: MemberForm }) => {
+      return await apiRequest("PUT", `/api/teams/${teamNumber}/members/${id}`, member);
+    },
+    onSuccess: () => {
+      setEditingId(null);
+      queryClient.invalidateQueries({ queryKey: membersKey });
+    },
+    onError: showError("Update Failed"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/teams/${teamNumber}/members/${id}`, {});
+    },
+    onSuccess: (data: any) => {
+      toast({
+        title: "Member Removed",
+        description: data.message,
+      });
+      queryClient.invalidateQueries({ queryKey: membersKey });
+    },
+    onError: showError("Remove Failed"),
+  });
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newMember.name.trim()) {
+      toast({
+        variant: "destructive",
+        title: "Name Required",
+        description: "Please enter the member's name",
+      });
+      return;
+    }
+    addMutation.mutate(newMember);
+  };
+
+  const startEditing = (member: TeamMember) => {
+    setEditingId(member.id);
+    setEditForm({ name: member.name, email: member.email || "", rollNumber: member.rollNumber || "" });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Team {teamNumber} Members</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Your team shares one login. List everyone on the team so uploads can record who submitted them.
+          </p>
+
+          {isLoading ? (
+            <div className="text-muted-foreground text-sm">Loading members...</div>
+          ) : members.length === 0 ? (
+            <div className="text-center py-4 text-sm text-muted-foreground border border-border rounded-lg">
+              No members added yet
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {members.map(member => editingId === member.id ? (
+                <div key={member.id} className="space-y-2 border border-border rounded-lg p-3">
+                  <Input
+                    value={editForm.name}
+                    onChange={(e) => setEditForm({ ...editForm, name: e.target.value })}
+                    placeholder="Name"
+                  />
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input
+                      type="email"
+                      value={editForm.email}
+                      onChange={(e) => setEditForm({ ...editForm, email: e.target.value })}
+                      placeholder="Email"
+                    />
+                    <Input
+                      value={editForm.rollNumber}
+                      onChange={(e) => setEditForm({ ...editForm, rollNumber: e.target.value })}
+                      placeholder="Roll number"
+                    />
+                  </div>
+                  <div className="flex justify-end gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => setEditingId(null)} title="Cancel">
+                      <X className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => updateMutation.mutate({ id: member.id, member: editForm })}
+                      disabled={updateMutation.isPending || !editForm.name.trim()}
+                      title="Save"
+                    >
+                      <Check className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div key={member.id} className="flex items-center justify-between gap-3 border border-border rounded-lg p-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-foreground truncate">{member.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {[member.rollNumber, member.email].filter(Boolean).join(" • ") || "No email or roll number"}
+                    </p>
+                  </div>
+                  <div className="flex items-center">
+                    <Button variant="ghost" size="sm" onClick={() => startEditing(member)} title="Edit">
+                      <Edit2 className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(member.id)}
+                      disabled={deleteMutation.isPending}
+                      className="text-red-600 hover:text-red-700"
+                      title="Remove"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={handleAdd} className="space-y-3 border-t border-border pt-4">
+            <div className="space-y-2">
+              <Label htmlFor="memberName">Name *</Label>
+              <Input
+                id="memberName"
+                value={newMember.name}
+                onChange={(e) => setNewMember({ ...newMember, name: e.target.value })}
+                placeholder="e.g., Ananya Rao"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="memberEmail">Email</Label>
+                <Input
+                  id="memberEmail"
+                  type="email"
+                  value={newMember.email}
+                  onChange={(e) => setNewMember({ ...newMember, email: e.target.value })}
+                  placeholder="student@school.edu"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="memberRoll">Roll Number</Label>
+                <Input
+                  id="memberRoll"
+                  value={newMember.rollNumber}
+                  onChange={(e) => setNewMember({ ...newMember, rollNumber: e.target.value })}
+                  placeholder="e.g., 23MBA041"
+                />
+              </div>
+            </div>
+            <Button type="submit" className="w-full" disabled={addMutation.isPending}>
+              {addMutation.isPending ? (
+                <LoaderIcon className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <UserPlus className="w-4 h-4 mr-2" />
+              )}
+              Add Member
+            </Button>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
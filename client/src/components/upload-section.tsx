@@ -1,6 +1,6 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { useDropzone } from "react-dropzone";
-import { CloudUploadIcon, FileIcon, CheckIcon, LoaderIcon } from "lucide-react";
+import { CloudUploadIcon, FileIcon, CheckIcon, LoaderIcon, Clock, Pause, Play, AlertCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -8,56 +8,108 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { ChunkedUploader, forgetUpload } from "@/lib/chunked-upload";
+import { useAssignments } from "@/hooks/use-assignments";
+import { getSubmissionStatus, formatMinutes } from "@shared/deadlines";
+import { isAllowedUploadType, MAX_UPLOAD_SIZE } from "@shared/uploads";
+import type { Assignment, TeamMember } from "@shared/schema";
 
 interface UploadSectionProps {
   onUploadSuccess: () => void;
 }
 
-const assignments = [
-  "Assignment 1 - Segmentation and Personas",
-  "Assignment 2 - Positioning",
-  "Assignment 3 - Journey Mapping",
-  "Assignment 4 - Marketing Channels",
-  "Assignment 5 - Pricing",
-  "Assignment 6 - Distribution Channels",
-  "Assignment 7 - Acquisition",
-  "Assignment 8 - Customer Discovery",
-  "Assignment 9 - Product Validation",
-];
+interface FileProgress {
+  uploadedBytes: number;
+  state: "waiting" | "uploading" | "retrying" | "done" | "failed";
+  retry?: string;
+}
+
+interface UploadRequest {
+  files: File[];
+  details: {
+    label: string;
+    assignmentId: string;
+    tags: string;
+    description: string;
+    memberId?: string;
+    isVisible?: string;
+  };
+}
+
+const maxUploadMb = MAX_UPLOAD_SIZE / 1024 / 1024;
 
 export default function UploadSection({ onUploadSuccess }: UploadSectionProps) {
   const [files, setFiles] = useState<File[]>([]);
   const [label, setLabel] = useState("");
-  const [assignment, setAssignment] = useState("");
+  const [assignmentId, setAssignmentId] = useState("");
   const [tags, setTags] = useState("");
   const [description, setDescription] = useState("");
   const [tagList, setTagList] = useState<string[]>([]);
   const [isVisible, setIsVisible] = useState(true);
+  const [memberId, setMemberId] = useState("");
+  const [progress, setProgress] = useState<Record<number, FileProgress>>({});
+  const [isPaused, setIsPaused] = useState(false);
+  const uploaderRef = useRef<ChunkedUploader | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { activeAssignments, getAssignment } = useAssignments();
   
   // Get current user info
   const { data: user } = useQuery<{ teamNumber: number; isAdmin: boolean }>({
     queryKey: ["/api/user"]
   });
 
+  // Teams share a login, so members pick their own name when uploading
+  const { data: members = [] } = useQuery<TeamMember[]>({
+    queryKey: ["/api/teams", user?.teamNumber, "members"],
+    enabled: !!user && !user.isAdmin,
+  });
+
+  // Deadline state for the selected assignment, refreshed every second
+  const selectedAssignment = assignmentId ? getAssignment(assignmentId) : undefined;
+  const now = useNow(selectedAssignment ? 1000 : null);
+  const submissionState = selectedAssignment ? getSubmissionStatus(selectedAssignment, now).state : "open";
+  const isSubmissionBlocked = !user?.isAdmin && (submissionState === "not-open" || submissionState === "closed");
+
+  const updateProgress = (index: number, update: Partial<FileProgress>) => {
+    setProgress(prev => ({ ...prev, [index]: { ...prev[index], ...update } }));
+  };
+
+  // Each file is sent in chunks first, then all of them are saved together as one version
   const uploadMutation = useMutation({
-    mutationFn: async (formData: FormData) => {
-      const response = await fetch("/api/files/upload", {
-        method: "POST",
-        body: formData,
-        credentials: "include",
-      });
-      
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || `HTTP ${response.status}: ${error.message || 'Upload failed'}`);
+    mutationFn: async ({ files, details }: UploadRequest) => {
+      const uploader = new ChunkedUploader();
+      uploaderRef.current = uploader;
+      setIsPaused(false);
+      setProgress(Object.fromEntries(files.map((_, index) => [index, { uploadedBytes: 0, state: "waiting" }])));
+
+      const uploadIds: string[] = [];
+      for (let index = 0; index < files.length; index++) {
+        const file = files[index];
+        try {
+          updateProgress(index, { state: "uploading" });
+          uploadIds.push(await uploader.upload(file, {
+            onProgress: uploadedBytes => updateProgress(index, { uploadedBytes, state: "uploading", retry: undefined }),
+            onRetry: (attempt, maxAttempts) => updateProgress(index, { state: "retrying", retry: `Connection lost, retrying (${attempt}/${maxAttempts})` }),
+          }));
+          updateProgress(index, { state: "done" });
+        } catch (error) {
+          updateProgress(index, { state: "failed", retry: undefined });
+          throw error;
+        }
       }
-      
-      return response.json();
+
+      const result = await apiRequest("POST", "/api/files/upload/complete", { uploadIds, ...details });
+      files.forEach(forgetUpload);
+      return result;
+    },
+    onSettled: () => {
+      uploaderRef.current = null;
+      setIsPaused(false);
     },
     onSuccess: () => {
       toast({
@@ -67,11 +119,12 @@ export default function UploadSection({ onUploadSuccess }: UploadSectionProps) {
       // Reset form
       setFiles([]);
       setLabel("");
-      setAssignment("");
+      setAssignmentId("");
       setTags("");
       setDescription("");
       setTagList([]);
       setIsVisible(true);
+      setProgress({});
       // Invalidate cache and switch to gallery
       queryClient.invalidateQueries({ queryKey: ["/api/files"] });
       onUploadSuccess();
@@ -80,30 +133,24 @@ export default function UploadSection({ onUploadSuccess }: UploadSectionProps) {
       toast({
         variant: "destructive",
         title: "Upload Failed",
-        description: error.message || "Failed to upload files. Please try again.",
+        description: error.message || "Failed to upload files. Please try again; finished parts will not be sent again.",
       });
     },
   });
 
+  const togglePause = () => {
+    const uploader = uploaderRef.current;
+    if (!uploader) return;
+    if (uploader.isPaused) {
+      uploader.resume();
+    } else {
+      uploader.pause();
+    }
+    setIsPaused(uploader.isPaused);
+  };
+
   const onDrop = useCallback((acceptedFiles: File[]) => {
-    const allowedTypes = [
-      // Images
-      '.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', '.svg',
-      // Documents
-      '.pdf', '.doc', '.docx', '.txt', '.rtf',
-      // Spreadsheets
-      '.xls', '.xlsx', '.csv',
-      // Presentations
-      '.ppt', '.pptx',
-      // Archives
-      '.zip', '.rar', '.7z',
-      // Other common formats
-      '.json', '.xml', '.html', '.css', '.js', '.ts'
-    ];
-    const validFiles = acceptedFiles.filter(file => {
-      const ext = '.' + file.name.split('.').pop()?.toLowerCase();
-      return allowedTypes.includes(ext);
-    });
+    const validFiles = acceptedFiles.filter(file => isAllowedUploadType(file.name));
 
     if (validFiles.length !== acceptedFiles.length) {
       toast({
@@ -114,6 +161,7 @@ export default function UploadSection({ onUploadSuccess }: UploadSectionProps) {
     }
 
     setFiles(prev => [...prev, ...validFiles]);
+    setProgress({});
   }, [toast]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
@@ -151,7 +199,8 @@ export default function UploadSection({ onUploadSuccess }: UploadSectionProps) {
       'application/javascript': ['.js'],
       'application/typescript': ['.ts']
     },
-    maxSize: 50 * 1024 * 1024, // 50MB
+    maxSize: MAX_UPLOAD_SIZE,
+    disabled: uploadMutation.isPending,
   });
 
   const handleTagsChange = (value: string) => {
@@ -179,7 +228,7 @@ export default function UploadSection({ onUploadSuccess }: UploadSectionProps) {
       return;
     }
 
-    if (!label || !assignment) {
+    if (!label || !assignmentId) {
       toast({
         variant: "destructive",
         title: "Missing Required Fields",
@@ -188,24 +237,24 @@ export default function UploadSection({ onUploadSuccess }: UploadSectionProps) {
       return;
     }
 
-    const formData = new FormData();
-    files.forEach(file => {
-      formData.append('files', file);
+    uploadMutation.mutate({
+      files,
+      details: {
+        label,
+        assignmentId,
+        tags: [...tagList, ...tags.split(',').map(t => t.trim()).filter(t => t)].join(','),
+        description,
+        ...(memberId && { memberId }),
+        // Add visibility for admin files
+        ...(user?.isAdmin && { isVisible: isVisible.toString() }),
+      },
     });
-    
-    formData.append('label', label);
-    formData.append('assignment', assignment);
-    formData.append('tags', [...tagList, ...tags.split(',').map(t => t.trim()).filter(t => t)].join(','));
-    formData.append('description', description);
-    
-    // Add visibility for admin files
-    if (user?.isAdmin) {
-      formData.append('isVisible', isVisible.toString());
-    }
-
-    uploadMutation.mutate(formData);
   };
 
+  const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+  const uploadedBytes = files.reduce((sum, _, index) => sum + (progress[index]?.uploadedBytes ?? 0), 0);
+  const overallPercent = totalBytes > 0 ? Math.floor((uploadedBytes / totalBytes) * 100) : 0;
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -241,7 +290,7 @@ export default function UploadSection({ onUploadSuccess }: UploadSectionProps) {
               {isDragActive ? "Drop files here..." : "Drop files here or click to browse"}
             </h3>
             <p className="text-muted-foreground mb-4">
-              Supports images, documents, spreadsheets, presentations, archives, and code files (Max 50MB)
+              Supports images, documents, spreadsheets, presentations, archives, and code files (Max {maxUploadMb}MB)
             </p>
             <Button type="button" className="bg-primary text-primary-foreground hover:bg-primary/90">
               Choose Files
@@ -255,14 +304,36 @@ export default function UploadSection({ onUploadSuccess }: UploadSectionProps) {
             <CardContent className="p-6">
               <h4 className="font-medium text-foreground mb-4">Selected Files ({files.length})</h4>
               <div className="space-y-3">
-                {files.map((file, index) => (
-                  <div key={index} className="flex items-center text-sm text-foreground">
-                    <FileIcon className="w-4 h-4 mr-2 text-primary" />
-                    <span className="flex-1">{file.name}</span>
-                    <span className="text-muted-foreground mr-2">{formatFileSize(file.size)}</span>
-                    <CheckIcon className="w-4 h-4 text-green-600" />
-                  </div>
-                ))}
+                {files.map((file, index) => {
+                  const fileProgress = progress[index];
+                  const percent = Math.floor(((fileProgress?.uploadedBytes ?? 0) / Math.max(file.size, 1)) * 100);
+                  return (
+                    <div key={index} className="space-y-1">
+                      <div className="flex items-center text-sm text-foreground">
+                        <FileIcon className="w-4 h-4 mr-2 text-primary" />
+                        <span className="flex-1">{file.name}</span>
+                        <span className="text-muted-foreground mr-2">{formatFileSize(file.size)}</span>
+                        {fileProgress?.state === "failed" ? (
+                          <AlertCircle className="w-4 h-4 text-destructive" />
+                        ) : fileProgress && fileProgress.state !== "done" ? (
+                          <span className="text-xs text-muted-foreground w-10 text-right">{percent}%</span>
+                        ) : (
+                          <CheckIcon className="w-4 h-4 text-green-600" />
+                        )}
+                      </div>
+                      {fileProgress && (
+                        <>
+                          <Progress value={percent} className="h-1.5" />
+                          {(fileProgress.retry || fileProgress.state === "failed") && (
+                            <p className={`text-xs ${fileProgress.state === "failed" ? "text-destructive" : "text-orange-600"}`}>
+                              {fileProgress.state === "failed" ? "Upload stopped. Submit again to resume." : fileProgress.retry}
+                            </p>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  );
+                })}
               </div>
             </CardContent>
           </Card>
@@ -296,6 +367,25 @@ export default function UploadSection({ onUploadSuccess }: UploadSectionProps) {
                 </div>
               </div>
             )}
+
+            {/* Uploading Member - only once the team has listed its members */}
+            {user && !user.isAdmin && members.length > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="uploadedBy">Uploaded By</Label>
+                <Select value={memberId} onValueChange={setMemberId}>
+                  <SelectTrigger id="uploadedBy">
+                    <SelectValue placeholder="Select your name" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {members.map((member) => (
+                      <SelectItem key={member.id} value={member.id}>
+                        {member.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
             
             {/* Admin Note */}
             {user?.isAdmin && (
@@ -310,18 +400,21 @@ export default function UploadSection({ onUploadSuccess }: UploadSectionProps) {
             {/* Assignment */}
             <div className="space-y-2">
               <Label htmlFor="assignment">Assignment *</Label>
-              <Select value={assignment} onValueChange={setAssignment}>
+              <Select value={assignmentId} onValueChange={setAssignmentId}>
                 <SelectTrigger>
-                  <SelectValue placeholder="Select assignment" />
+                  <SelectValue placeholder={activeAssignments.length === 0 ? "No assignments available" : "Select assignment"} />
                 </SelectTrigger>
                 <SelectContent>
-                  {assignments.map((assignment, index) => (
-                    <SelectItem key={index} value={assignment}>
-                      {assignment}
+                  {activeAssignments.map((assignment) => (
+                    <SelectItem key={assignment.id} value={assignment.id}>
+                      {assignment.title}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
+              {selectedAssignment && (
+                <DeadlineCountdown assignment={selectedAssignment} now={now} isAdmin={!!user?.isAdmin} />
+              )}
             </div>
 
             {/* Tags */}
@@ -386,23 +479,31 @@ export default function UploadSection({ onUploadSuccess }: UploadSectionProps) {
             )}
 
             {/* Submit Button */}
-            <Button 
-              type="submit" 
-              disabled={uploadMutation.isPending}
-              className="w-full bg-primary text-primary-foreground hover:bg-primary/90"
-            >
-              {uploadMutation.isPending ? (
-                <>
-                  <LoaderIcon className="w-4 h-4 mr-2 animate-spin" />
-                  Uploading...
-                </>
-              ) : (
-                <>
-                  <CloudUploadIcon className="w-4 h-4 mr-2" />
-                  Upload Files
-                </>
+            <div className="flex gap-2">
+              <Button 
+                type="submit" 
+                disabled={uploadMutation.isPending || isSubmissionBlocked}
+                className="flex-1 bg-primary text-primary-foreground hover:bg-primary/90"
+              >
+                {uploadMutation.isPending ? (
+                  <>
+                    <LoaderIcon className={`w-4 h-4 mr-2 ${isPaused ? "" : "animate-spin"}`} />
+                    {isPaused ? `Paused at ${overallPercent}%` : `Uploading... ${overallPercent}%`}
+                  </>
+                ) : (
+                  <>
+                    <CloudUploadIcon className="w-4 h-4 mr-2" />
+                    Upload Files
+                  </>
+                )}
+              </Button>
+              {uploadMutation.isPending && (
+                <Button type="button" variant="outline" onClick={togglePause}>
+                  {isPaused ? <Play className="w-4 h-4 mr-1" /> : <Pause className="w-4 h-4 mr-1" />}
+                  {isPaused ? "Resume" : "Pause"}
+                </Button>
               )}
-            </Button>
+            </div>
           </form>
         </CardContent>
       </Card>
@@ -438,10 +539,81 @@ export default function UploadSection({ onUploadSuccess }: UploadSectionProps) {
             </div>
           </div>
           <p className="text-xs text-muted-foreground mt-3">
-            Maximum file size: 50MB per file
+            Maximum file size: {maxUploadMb}MB per file. Large files upload in parts and resume after a dropped connection.
           </p>
         </CardContent>
       </Card>
     </div>
   );
 }
+
+// Re-render on an interval so countdowns stay live; pass null to pause
+function useNow(intervalMs: number | null) {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    if (intervalMs === null) return;
+    setNow(new Date());
+    const timer = setInterval(() => setNow(new Date()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
+
+function formatCountdown(ms: number) {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${days > 0 ? `${days}d ` : ""}${hours}h ${minutes}m ${seconds}s`;
+}
+
+interface DeadlineCountdownProps {
+  assignment: Assignment;
+  now: Date;
+  isAdmin: boolean;
+}
+
+function DeadlineCountdown({ assignment, now, isAdmin }: DeadlineCountdownProps) {
+  const { state, minutesLate } = getSubmissionStatus(assignment, now);
+  const formatDate = (date: Date | string) => new Date(date).toLocaleString();
+
+  let message: string;
+  let className: string;
+
+  if (state === "not-open") {
+    message = `Opens in ${formatCountdown(new Date(assignment.openAt!).getTime() - now.getTime())}`;
+    className = "bg-blue-50 text-blue-700 border-blue-200 dark:bg-blue-950 dark:text-blue-300 dark:border-blue-900";
+  } else if (state === "closed") {
+    message = `Submissions closed at ${formatDate(assignment.cutoffAt!)}`;
+    className = "bg-destructive/10 text-destructive border-destructive/20";
+  } else if (state === "late") {
+    message = assignment.cutoffAt
+      ? `Past due by ${formatMinutes(minutesLate)}. Late uploads accepted for ${formatCountdown(new Date(assignment.cutoffAt).getTime() - now.getTime())}`
+      : `Past due by ${formatMinutes(minutesLate)}. Uploads will be marked late`;
+    className = "bg-orange-50 text-orange-700 border-orange-200 dark:bg-orange-950 dark:text-orange-300 dark:border-orange-900";
+  } else if (assignment.dueAt) {
+    const remaining = new Date(assignment.dueAt).getTime() - now.getTime();
+    message = `Due in ${formatCountdown(remaining)} (${formatDate(assignment.dueAt)})`;
+    className = remaining < 24 * 60 * 60 * 1000
+      ? "bg-orange-50 text-orange-700 border-orange-200 dark:bg-orange-950 dark:text-orange-300 dark:border-orange-900"
+      : "bg-green-50 text-green-700 border-green-200 dark:bg-green-950 dark:text-green-300 dark:border-green-900";
+  } else {
+    message = "No deadline set";
+    className = "bg-muted text-muted-foreground border-border";
+  }
+
+  return (
+    <div className={`flex items-start gap-2 px-3 py-2 rounded-md text-sm border ${className}`}>
+      <Clock className="w-4 h-4 mt-0.5 flex-shrink-0" />
+      <div>
+        <div>{message}</div>
+        {isAdmin && state !== "open" && (
+          <div className="text-xs opacity-80">Deadlines do not apply to your uploads.</div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { Menu, Key, LogOut } from "lucide-react";
+import { Menu, Key, LogOut, Users } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -9,15 +9,21 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import ChangePasswordModal from "@/components/change-password-modal";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import TeamMembersModal from "@/components/team-members-modal";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 
 export default function UserMenu() {
   const [showChangePassword, setShowChangePassword] = useState(false);
+  const [showTeamMembers, setShowTeamMembers] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const { data: user } = useQuery<{ teamNumber: number }>({
+    queryKey: ["/api/user"],
+  });
+
   const logoutMutation = useMutation({
     mutationFn: async () => {
       const response = await apiRequest("POST", "/api/logout", {});
@@ -55,6 +61,10 @@ export default function UserMenu() {
           </Button>
         </DropdownMenuTrigger>
         <DropdownMenuContent align="end" className="w-48">
+          <DropdownMenuItem onClick={() => setShowTeamMembers(true)}>
+            <Users className="w-4 h-4 mr-2" />
+            Team Members
+          </DropdownMenuItem>
           <DropdownMenuItem onClick={() => setShowChangePassword(true)}>
             <Key className="w-4 h-4 mr-2" />
             Change Password
@@ -75,6 +85,14 @@ export default function UserMenu() {
         open={showChangePassword} 
         onOpenChange={setShowChangePassword} 
       />
+
+      {user && (
+        <TeamMembersModal
+          open={showTeamMembers}
+          onOpenChange={setShowTeamMembers}
+          teamNumber={user.teamNumber}
+        />
+      )}
     </>
   );
 }
\ No newline at end of file
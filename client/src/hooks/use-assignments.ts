@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Assignment } from "@shared/schema";
+
+// Assignments are admin-managed, so components resolve titles by id instead of hardcoding them
+export function useAssignments() {
+  const { data: assignments = [], isLoading } = useQuery<Assignment[]>({
+    queryKey: ["/api/assignments"],
+  });
+
+  const activeAssignments = assignments.filter(assignment => assignment.isArchived !== "true");
+
+  const getAssignment = (id: string) => assignments.find(assignment => assignment.id === id);
+
+  const getAssignmentTitle = (id: string) => getAssignment(id)?.title ?? "Unknown assignment";
+
+  return { assignments, activeAssignments, isLoading, getAssignment, getAssignmentTitle };
+}
@@ -0,0 +1,30 @@
+import { useQuery } from "@tanstack/react-query";
+
+export interface CourseSummary {
+  id: string;
+  name: string;
+  section: string | null;
+  maxTeams: number;
+  isArchived: boolean;
+  createdAt: string;
+  joinCode?: string; // staff only
+}
+
+export const formatCourseName = (course: Pick<CourseSummary, "name" | "section">) =>
+  course.section ? `${course.name} · ${course.section}` : course.name;
+
+// Staff get every course back; teams only get their own
+export function useCourses() {
+  const { data: user } = useQuery<{ courseId?: string | null }>({
+    queryKey: ["/api/user"],
+  });
+
+  const { data: courses = [], isLoading } = useQuery<CourseSummary[]>({
+    queryKey: ["/api/courses"],
+    enabled: !!user,
+  });
+
+  const activeCourse = courses.find(course => course.id === user?.courseId);
+
+  return { courses, activeCourse, isLoading };
+}
@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query";
+import type { CommentView, CommentVisibility } from "@shared/schema";
+
+export interface FileComments {
+  comments: CommentView[];
+  canComment: boolean;
+  visibilities: CommentVisibility[]; // choices for new threads, most open first
+}
+
+// Comments on a file version; refetched on open since other teams and staff add to them
+export function useFileComments(fileId: string) {
+  return useQuery<FileComments>({
+    queryKey: ["/api/files", fileId, "comments"],
+    staleTime: 0,
+  });
+}
@@ -0,0 +1,40 @@
+import { useQuery } from "@tanstack/react-query";
+import type { File, PeerReviewAnswer, PeerReviewQuestion } from "@shared/schema";
+
+export interface AssignedPeerReview {
+  id: string;
+  assignmentId: string;
+  revieweeTeamNumber: number;
+  answers: PeerReviewAnswer[];
+  submittedAt: string | null;
+  questions: PeerReviewQuestion[];
+  dueAt: string | null;
+  isOpen: boolean;
+  files: File[]; // the reviewed team's latest submission
+}
+
+export interface ReceivedPeerReviews {
+  assignmentId: string;
+  questions: PeerReviewQuestion[];
+  reviews: PeerReviewAnswer[][]; // one answer list per anonymous reviewer
+}
+
+// Peer reviews a team has to write and, once released, the reviews of its own work
+export function usePeerReviews(enabled = true) {
+  const assigned = useQuery<AssignedPeerReview[]>({
+    queryKey: ["/api/peer-reviews"],
+    enabled,
+    staleTime: 0,
+  });
+  const received = useQuery<ReceivedPeerReviews[]>({
+    queryKey: ["/api/peer-reviews/received"],
+    enabled,
+    staleTime: 0,
+  });
+
+  return {
+    assigned: assigned.data ?? [],
+    received: received.data ?? [],
+    isLoading: assigned.isLoading || received.isLoading,
+  };
+}
@@ -0,0 +1,12 @@
+import { useQuery } from "@tanstack/react-query";
+import type { PreviewStatus } from "@shared/previews";
+
+// Server-side preview state for a file, polled while the conversion is still running
+export function usePreview(fileId: string | undefined, enabled = true) {
+  return useQuery<PreviewStatus>({
+    queryKey: ["/api/files", fileId, "preview"],
+    enabled: !!fileId && enabled,
+    staleTime: 0,
+    refetchInterval: query => query.state.data?.status === "pending" ? 2000 : false,
+  });
+}
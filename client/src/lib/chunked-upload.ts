@@ -0,0 +1,166 @@
+import { apiRequest } from "@/lib/queryClient";
+
+interface UploadStatus {
+  id: string;
+  size: number;
+  receivedBytes: number;
+  chunkSize: number;
+}
+
+export interface ChunkedUploadCallbacks {
+  onProgress: (uploadedBytes: number) => void;
+  onRetry: (attempt: number, maxAttempts: number) => void;
+}
+
+const MAX_ATTEMPTS = 5;
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly body: any) {
+    super(message);
+  }
+}
+
+class PausedError extends Error {}
+
+// Upload ids are remembered per file, so picking the same file again after a reload resumes it
+function resumeKey(file: File) {
+  return `chunked-upload:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+export function forgetUpload(file: File) {
+  localStorage.removeItem(resumeKey(file));
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Network drops and server hiccups are worth retrying; a rejected upload is not
+function isRetryable(error: unknown) {
+  return !(error instanceof HttpError) || error.status >= 500 || error.status === 408 || error.status === 429;
+}
+
+/**
+ * Sends files to the server in chunks. Each file gets an upload id from the server;
+ * after a dropped connection, a pause or a page reload, uploading resumes from the last
+ * byte the server has. Call `pause` and `resume` from the UI while `upload` runs.
+ */
+export class ChunkedUploader {
+  private paused = false;
+  private waiting: Array<() => void> = [];
+  private request: XMLHttpRequest | null = null;
+
+  get isPaused() {
+    return this.paused;
+  }
+
+  pause() {
+    this.paused = true;
+    this.request?.abort();
+  }
+
+  resume() {
+    this.paused = false;
+    this.waiting.splice(0).forEach(resolve => resolve());
+  }
+
+  private async waitWhilePaused() {
+    while (this.paused) {
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+  }
+
+  /**
+   * Upload one file and return its upload id, ready to pass to /api/files/upload/complete.
+   */
+  async upload(file: File, { onProgress, onRetry }: ChunkedUploadCallbacks): Promise<string> {
+    let status = await this.start(file);
+    let attempt = 0;
+
+    while (status.receivedBytes < file.size) {
+      onProgress(status.receivedBytes);
+      await this.waitWhilePaused();
+
+      const offset = status.receivedBytes;
+      try {
+        status = await this.sendChunk(status.id, offset, file.slice(offset, offset + status.chunkSize), sent => onProgress(offset + sent));
+        attempt = 0;
+      } catch (error) {
+        if (error instanceof PausedError) continue;
+        if (error instanceof HttpError && error.status === 409 && typeof error.body?.receivedBytes === "number") {
+          // The server has a different amount than we thought; carry on from there
+          status = { ...status, receivedBytes: error.body.receivedBytes };
+          continue;
+        }
+        if (error instanceof HttpError && error.status === 404) {
+          // The upload expired on the server, so start this file again
+          forgetUpload(file);
+          status = await this.start(file);
+          continue;
+        }
+        if (!isRetryable(error) || ++attempt >= MAX_ATTEMPTS) throw error;
+
+        onRetry(attempt, MAX_ATTEMPTS - 1);
+        await sleep(1000 * 2 ** (attempt - 1));
+        status = await this.getStatus(status.id).catch(() => status);
+      }
+    }
+
+    onProgress(file.size);
+    return status.id;
+  }
+
+  private async start(file: File): Promise<UploadStatus> {
+    const savedId = localStorage.getItem(resumeKey(file));
+    if (savedId) {
+      const saved = await this.getStatus(savedId).catch(() => null);
+      if (saved && saved.size === file.size) return saved;
+      forgetUpload(file);
+    }
+
+    const created: UploadStatus = await apiRequest("POST", "/api/uploads", {
+      fileName: file.name,
+      fileSize: file.size,
+      mimeType: file.type,
+    });
+    localStorage.setItem(resumeKey(file), created.id);
+    return created;
+  }
+
+  private async getStatus(id: string): Promise<UploadStatus> {
+    return await apiRequest("GET", `/api/uploads/${id}`);
+  }
+
+  // XMLHttpRequest rather than fetch so progress within a chunk can be shown
+  private sendChunk(id: string, offset: number, chunk: Blob, onSent: (bytes: number) => void): Promise<UploadStatus> {
+    return new Promise((resolve, reject) => {
+      const request = new XMLHttpRequest();
+      this.request = request;
+      request.open("PUT", `/api/uploads/${id}?offset=${offset}`);
+      request.withCredentials = true;
+      request.setRequestHeader("Content-Type", "application/octet-stream");
+      request.upload.onprogress = event => onSent(event.loaded);
+      request.onload = () => {
+        this.request = null;
+        let body: any = null;
+        try {
+          body = JSON.parse(request.responseText);
+        } catch {
+          // Not every error response is JSON
+        }
+        if (request.status >= 200 && request.status < 300) {
+          resolve(body);
+        } else {
+          reject(new HttpError(request.status, body?.message || `Upload failed (${request.status})`, body));
+        }
+      };
+      request.onerror = () => {
+        this.request = null;
+        reject(new Error("Network connection lost"));
+      };
+      request.onabort = () => {
+        this.request = null;
+        reject(new PausedError("Upload paused"));
+      };
+      request.send(chunk);
+    });
+  }
+}
@@ -4,3 +4,15 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// <input type="datetime-local"> works in local time without a timezone suffix
+export function toDateTimeInputValue(date: Date | string | null) {
+  if (!date) return ""
+  const d = new Date(date)
+  const pad = (n: number) => n.toString().padStart(2, "0")
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`
+}
+
+export function fromDateTimeInputValue(value: string) {
+  return value ? new Date(value).toISOString() : null
+}
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { GraduationCap, KeyRound, LoaderIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { isStaffRole, staffRoleLabels } from "@shared/permissions";
+
+interface AcceptInviteProps {
+  params: { token: string };
+}
+
+interface Invite {
+  email: string;
+  displayName: string | null;
+  role: string;
+}
+
+export default function AcceptInvite({ params }: AcceptInviteProps) {
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const { data: invite, isLoading, error } = useQuery<Invite>({
+    queryKey: ["/api/staff/invite", params.token],
+    retry: false,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (password: string) => {
+      return await apiRequest("POST", `/api/staff/invite/${params.token}`, { password });
+    },
+    onSuccess: (data: any) => {
+      toast({
+        title: "Success!",
+        description: data.message,
+      });
+      setLocation("/");
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Could Not Set Password",
+        description: error.message || "Failed to set password",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password !== confirmPassword) {
+      toast({
+        variant: "destructive",
+        title: "Password Mismatch",
+        description: "Password and confirm password must match",
+      });
+      return;
+    }
+
+    acceptMutation.mutate(password);
+  };
+
+  return (
+    <div className="bg-background min-h-screen flex items-center justify-center font-inter p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto w-16 h-16 bg-primary rounded-lg flex items-center justify-center mb-4">
+            <GraduationCap className="text-primary-foreground text-2xl" />
+          </div>
+          <CardTitle className="text-2xl font-bold text-foreground">Join the Staff</CardTitle>
+          <p className="text-muted-foreground">Assignment Hub</p>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <LoaderIcon className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : error || !invite ? (
+            <div className="text-center space-y-4">
+              <p className="text-muted-foreground">This invite link is invalid or has expired. Ask an instructor for a new one.</p>
+              <Button variant="outline" onClick={() => setLocation("/")}>Back to login</Button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <p className="text-sm text-muted-foreground text-center">
+                {invite.displayName ? `${invite.displayName}, choose` : "Choose"} a password for <span className="text-foreground font-medium">{invite.email}</span>
+                {isStaffRole(invite.role) && ` (${staffRoleLabels[invite.role]})`}.
+              </p>
+
+              <div className="space-y-2">
+                <Label htmlFor="invitePassword">Password</Label>
+                <Input
+                  id="invitePassword"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Create strong password (12+ chars)"
+                  required
+                />
+                <div className="text-xs text-muted-foreground">
+                  Must include: uppercase, lowercase, number, special character
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="inviteConfirmPassword">Confirm Password</Label>
+                <Input
+                  id="inviteConfirmPassword"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  placeholder="Confirm your password"
+                  required
+                />
+              </div>
+
+              <Button type="submit" className="w-full" disabled={acceptMutation.isPending}>
+                {acceptMutation.isPending ? (
+                  <LoaderIcon className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <KeyRound className="w-4 h-4 mr-2" />
+                )}
+                Set Password
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -11,6 +11,10 @@ import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { useAssignments } from "@/hooks/use-assignments";
+import AdminRosterImport from "@/components/admin-roster-import";
+import { hasPermission, type Permission } from "@shared/permissions";
+import type { TeamMember } from "@shared/schema";
 
 interface Team {
   teamNumber: number;
@@ -19,11 +23,12 @@ interface Team {
   lastLogin?: string;
   createdAt?: string;
   isActive: boolean;
+  members: TeamMember[];
 }
 
 interface AssignmentSetting {
   id?: string;
-  assignment: string;
+  assignmentId: string;
   isOpenView: string;
   updatedAt?: string;
 }
@@ -35,6 +40,11 @@ export default function AdminSettings() {
   const [location, setLocation] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { getAssignment } = useAssignments();
+
+  const { data: user } = useQuery<{ role?: string }>({
+    queryKey: ["/api/user"]
+  });
 
   // Fetch teams
   const { data: teams = [], isLoading: teamsLoading, error: teamsError } = useQuery({
@@ -123,14 +133,14 @@ export default function AdminSettings() {
     },
   });
 
-  // Reset server mutation
-  const resetServerMutation = useMutation({
+  // Close term mutation: the server archives the course before clearing it
+  const closeTermMutation = useMutation({
     mutationFn: async ({ adminPassword, confirmText }: { adminPassword: string; confirmText: string }) => {
-      return await apiRequest("POST", "/api/admin/reset-server", { adminPassword, confirmText });
+      return await apiRequest("POST", "/api/admin/close-term", { adminPassword, confirmText });
     },
     onSuccess: (data: any) => {
       toast({
-        title: "Server Reset Complete!",
+        title: "Term Closed!",
         description: data.message,
       });
       queryClient.invalidateQueries();
@@ -140,16 +150,16 @@ export default function AdminSettings() {
     onError: (error: any) => {
       toast({
         variant: "destructive",
-        title: "Reset Failed",
-        description: error.message || "Failed to reset server",
+        title: "Close Term Failed",
+        description: error.message || "Failed to close the term",
       });
     },
   });
 
   // Assignment setting toggle mutation
   const toggleAssignmentMutation = useMutation({
-    mutationFn: async ({ assignment, isOpenView }: { assignment: string; isOpenView: boolean }) => {
-      return await apiRequest("PUT", "/api/assignment-settings", { assignment, isOpenView });
+    mutationFn: async ({ assignmentId, isOpenView }: { assignmentId: string; isOpenView: boolean }) => {
+      return await apiRequest("PUT", "/api/assignment-settings", { assignmentId, isOpenView });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["assignment-settings"] });
@@ -168,7 +178,7 @@ export default function AdminSettings() {
       toast({
         variant: "destructive",
         title: "Password Required",
-        description: "Please enter admin password",
+        description: "Please enter your password",
       });
       return;
     }
@@ -180,40 +190,44 @@ export default function AdminSettings() {
       toast({
         variant: "destructive",
         title: "Password Required",
-        description: "Please enter admin password",
+        description: "Please enter your password",
       });
       return;
     }
     deleteTeamMutation.mutate({ teamNumber, adminPassword });
   };
 
-  const handleResetServer = () => {
+  const handleCloseTerm = () => {
     if (!adminPassword) {
       toast({
         variant: "destructive",
         title: "Password Required",
-        description: "Please enter admin password",
+        description: "Please enter your password",
       });
       return;
     }
-    if (confirmText !== "RESET ALL DATA") {
+    if (confirmText !== "CLOSE TERM") {
       toast({
         variant: "destructive",
         title: "Confirmation Required",
-        description: 'Please type "RESET ALL DATA" to confirm',
+        description: 'Please type "CLOSE TERM" to confirm',
       });
       return;
     }
-    resetServerMutation.mutate({ adminPassword, confirmText });
+    closeTermMutation.mutate({ adminPassword, confirmText });
   };
 
-  const sidebarItems = [
-    { id: "assignments", label: "Assignment Settings", icon: Settings },
-    { id: "teams", label: "Team Management", icon: Users },
+  const allSidebarItems: { id: string; label: string; icon: typeof Settings; permission?: Permission }[] = [
+    { id: "assignments", label: "Assignment Settings", icon: Settings, permission: "assignments.visibility" },
+    { id: "teams", label: "Team Management", icon: Users, permission: "teams.view" },
     { id: "maintenance", label: "System Info", icon: Database },
-    { id: "danger", label: "Danger Zone", icon: AlertTriangle },
+    { id: "danger", label: "Danger Zone", icon: AlertTriangle, permission: "server.reset" },
   ];
 
+  const sidebarItems = allSidebarItems.filter(item => !item.permission || hasPermission(user, item.permission));
+  const currentSection = sidebarItems.some(item => item.id === activeSection) ? activeSection : sidebarItems[0]?.id;
+  const canManageTeams = hasPermission(user, "teams.manage");
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -242,7 +256,7 @@ export default function AdminSettings() {
                   key={item.id}
                   onClick={() => setActiveSection(item.id)}
                   className={`w-full flex items-center justify-between px-3 py-2.5 text-left rounded-lg transition-colors ${
-                    activeSection === item.id
+                    currentSection === item.id
                       ? "bg-accent text-accent-foreground"
                       : "hover:bg-accent/50 text-muted-foreground hover:text-foreground"
                   }`}
@@ -261,7 +275,7 @@ export default function AdminSettings() {
         {/* Main Content */}
         <div className="flex-1 overflow-auto bg-background">
           <div className="p-8 max-w-4xl">
-            {activeSection === "assignments" && (
+            {currentSection === "assignments" && (
               <div className="space-y-6">
                 <div>
                   <h2 className="text-2xl font-semibold mb-2 text-foreground">Assignment Visibility</h2>
@@ -279,9 +293,9 @@ export default function AdminSettings() {
                 ) : (
                   <div className="space-y-4">
                     {assignments.map((setting) => (
-                      <div key={setting.assignment} className="flex items-center justify-between p-4 bg-card rounded-lg border border-border">
+                      <div key={setting.assignmentId} className="flex items-center justify-between p-4 bg-card rounded-lg border border-border">
                         <div className="flex-1">
-                          <h3 className="font-medium text-foreground">{setting.assignment}</h3>
+                          <h3 className="font-medium text-foreground">{getAssignment(setting.assignmentId)?.title}</h3>
                           <p className="text-sm text-muted-foreground">
                             {setting.isOpenView === "true" ? "Teams can see each other's files" : "Teams can only see their own files"}
                           </p>
@@ -290,7 +304,7 @@ export default function AdminSettings() {
                           checked={setting.isOpenView === "true"}
                           onCheckedChange={(checked) =>
                             toggleAssignmentMutation.mutate({
-                              assignment: setting.assignment,
+                              assignmentId: setting.assignmentId,
                               isOpenView: checked
                             })
                           }
@@ -302,15 +316,17 @@ export default function AdminSettings() {
               </div>
             )}
 
-            {activeSection === "teams" && (
+            {currentSection === "teams" && (
               <div className="space-y-6">
                 <div>
                   <h2 className="text-2xl font-semibold mb-2 text-foreground">Team Management</h2>
                   <p className="text-muted-foreground mb-6">
-                    Manage registered teams. Delete team files or entire teams as needed.
+                    Manage registered teams and their members. Delete team files or entire teams as needed.
                   </p>
                 </div>
 
+                {canManageTeams && <AdminRosterImport />}
+
                 {teamsLoading ? (
                   <div className="text-muted-foreground">Loading teams...</div>
                 ) : teams.length === 0 ? (
@@ -334,7 +350,13 @@ export default function AdminSettings() {
                               {team.lastLogin ? `Last login: ${new Date(team.lastLogin).toLocaleDateString()}` : "Never logged in"}
                               {team.createdAt && ` • Registered: ${new Date(team.createdAt).toLocaleDateString()}`}
                             </div>
+                            <div className="text-sm text-foreground mt-1">
+                              {team.members.length > 0
+                                ? team.members.map(member => member.rollNumber ? `${member.name} (${member.rollNumber})` : member.name).join(", ")
+                                : <span className="text-muted-foreground">No members listed</span>}
+                            </div>
                           </div>
+                          {canManageTeams && (
                           <div className="flex items-center space-x-2">
                             <Dialog>
                               <DialogTrigger asChild>
@@ -349,16 +371,16 @@ export default function AdminSettings() {
                                 </DialogHeader>
                                 <div className="space-y-4">
                                   <p className="text-sm text-muted-foreground">
-                                    This will permanently delete all files uploaded by {team.teamName}. This action cannot be undone.
+                                    This moves all files uploaded by {team.teamName} to the trash, where they can be restored until they are purged.
                                   </p>
                                   <div className="space-y-2">
-                                    <Label htmlFor="adminPassword">Admin Password</Label>
+                                    <Label htmlFor="adminPassword">Your Password</Label>
                                     <Input
                                       id="adminPassword"
                                       type="password"
                                       value={adminPassword}
                                       onChange={(e) => setAdminPassword(e.target.value)}
-                                      placeholder="Enter admin password"
+                                      placeholder="Enter your password"
                                     />
                                   </div>
                                 </div>
@@ -392,17 +414,17 @@ export default function AdminSettings() {
                                   <div className="flex items-center space-x-2 p-3 bg-destructive/10 rounded border border-destructive/20">
                                     <AlertTriangle className="h-4 w-4 text-destructive" />
                                     <p className="text-sm text-destructive font-medium">
-                                      This will permanently delete the team, all their files, and their account. This action cannot be undone.
+                                      This moves the team, all their files, and their account to the trash, where they can be restored until they are purged.
                                     </p>
                                   </div>
                                   <div className="space-y-2">
-                                    <Label htmlFor="adminPassword">Admin Password</Label>
+                                    <Label htmlFor="adminPassword">Your Password</Label>
                                     <Input
                                       id="adminPassword"
                                       type="password"
                                       value={adminPassword}
                                       onChange={(e) => setAdminPassword(e.target.value)}
-                                      placeholder="Enter admin password"
+                                      placeholder="Enter your password"
                                     />
                                   </div>
                                 </div>
@@ -421,6 +443,7 @@ export default function AdminSettings() {
                               </DialogContent>
                             </Dialog>
                           </div>
+                          )}
                         </div>
                       </div>
                     ))}
@@ -429,7 +452,7 @@ export default function AdminSettings() {
               </div>
             )}
 
-            {activeSection === "maintenance" && (
+            {currentSection === "maintenance" && (
               <div className="space-y-6">
                 <div>
                   <h2 className="text-2xl font-semibold mb-2 text-foreground">System Information</h2>
@@ -466,7 +489,7 @@ export default function AdminSettings() {
               </div>
             )}
 
-            {activeSection === "danger" && (
+            {currentSection === "danger" && (
               <div className="space-y-6">
                 <div>
                   <h2 className="text-2xl font-semibold mb-2 text-destructive">Danger Zone</h2>
@@ -479,11 +502,12 @@ export default function AdminSettings() {
                   <div className="flex items-start space-x-3">
                     <Shield className="h-5 w-5 text-destructive mt-0.5" />
                     <div className="flex-1">
-                      <h3 className="font-medium text-foreground mb-2">Reset Server for New Semester</h3>
+                      <h3 className="font-medium text-foreground mb-2">Close Term</h3>
                       <p className="text-sm text-muted-foreground mb-4">
-                        This will permanently delete ALL data:
+                        Saves a downloadable archive of the current course, then deletes its data for the next class (other courses are not affected):
                       </p>
                       <ul className="text-sm text-muted-foreground list-disc list-inside space-y-1 mb-4">
+                        <li>An archive of every upload, team, roster, grade and setting is saved first, under Term Archives</li>
                         <li>All uploaded files (from all teams and admin)</li>
                         <li>All team accounts and registrations</li>
                         <li>Reset all assignment settings to closed</li>
@@ -494,39 +518,39 @@ export default function AdminSettings() {
                         <DialogTrigger asChild>
                           <Button variant="destructive">
                             <Trash2 className="h-4 w-4 mr-2" />
-                            Reset Server
+                            Close Term
                           </Button>
                         </DialogTrigger>
                         <DialogContent className="max-w-md">
                           <DialogHeader>
-                            <DialogTitle className="text-destructive">Reset Server for New Semester</DialogTitle>
+                            <DialogTitle className="text-destructive">Close Term</DialogTitle>
                           </DialogHeader>
                           <div className="space-y-4">
                             <div className="flex items-center space-x-2 p-3 bg-destructive/10 rounded border border-destructive/20">
                               <AlertTriangle className="h-4 w-4 text-destructive" />
                               <p className="text-sm text-destructive font-medium">
-                                This action cannot be undone!
+                                Only the archive is kept. Everything else is deleted.
                               </p>
                             </div>
                             
                             <div className="space-y-2">
-                              <Label htmlFor="resetAdminPassword">Admin Password</Label>
+                              <Label htmlFor="resetAdminPassword">Your Password</Label>
                               <Input
                                 id="resetAdminPassword"
                                 type="password"
                                 value={adminPassword}
                                 onChange={(e) => setAdminPassword(e.target.value)}
-                                placeholder="Enter admin password"
+                                placeholder="Enter your password"
                               />
                             </div>
 
                             <div className="space-y-2">
-                              <Label htmlFor="confirmText">Type "RESET ALL DATA" to confirm</Label>
+                              <Label htmlFor="confirmText">Type "CLOSE TERM" to confirm</Label>
                               <Input
                                 id="confirmText"
                                 value={confirmText}
                                 onChange={(e) => setConfirmText(e.target.value)}
-                                placeholder="RESET ALL DATA"
+                                placeholder="CLOSE TERM"
                               />
                             </div>
                           </div>
@@ -539,10 +563,10 @@ export default function AdminSettings() {
                             </Button>
                             <Button 
                               variant="destructive" 
-                              onClick={handleResetServer}
-                              disabled={resetServerMutation.isPending}
+                              onClick={handleCloseTerm}
+                              disabled={closeTermMutation.isPending}
                             >
-                              {resetServerMutation.isPending ? "Resetting..." : "Reset Server"}
+                              {closeTermMutation.isPending ? "Archiving and closing..." : "Close Term"}
                             </Button>
                           </DialogFooter>
                         </DialogContent>
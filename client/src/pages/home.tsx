@@ -1,29 +1,53 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
-import { GraduationCap, Upload, Grid3X3, Settings, LogOut } from "lucide-react";
+import { GraduationCap, Upload, Grid3X3, Settings, LogOut, Presentation, Search, X, MessagesSquare } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { ThemeToggle } from "@/components/theme-toggle";
 import UploadSection from "@/components/upload-section";
 import FileGallery from "@/components/file-gallery";
 import OtherTeamFiles from "@/components/other-team-files";
+import FileSearchResults from "@/components/file-search-results";
 import AdminFilesManager from "@/components/admin-files-manager";
+import PeerReviews from "@/components/peer-reviews";
 import AdminSettingsModal from "@/components/admin-settings-modal";
 import UserMenu from "@/components/user-menu";
+import CourseSwitcher from "@/components/course-switcher";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { useCourses, formatCourseName } from "@/hooks/use-courses";
+import { hasPermission, isStaffRole, staffRoleLabels } from "@shared/permissions";
 
 export default function Home() {
-  const [currentView, setCurrentView] = useState<"upload" | "team-files" | "other-files" | "admin-files">("upload");
+  const [currentView, setCurrentView] = useState<"upload" | "team-files" | "other-files" | "peer-reviews" | "admin-files">("upload");
   const [showAdminModal, setShowAdminModal] = useState(false);
+  const [searchInput, setSearchInput] = useState("");
+  const [searchQuery, setSearchQuery] = useState("");
   const [location, setLocation] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   // Get current user info
-  const { data: user } = useQuery<{ teamNumber: number; isAdmin: boolean }>({
+  const { data: user } = useQuery<{ teamNumber: number; isAdmin: boolean; role?: string; teamName?: string; courseId?: string | null }>({
     queryKey: ["/api/user"]
   });
+  const { activeCourse, isLoading: coursesLoading } = useCourses();
+
+  // Observers are read-only staff, so they land on the files view instead of uploading
+  const canUpload = !user?.isAdmin || hasPermission(user, "files.upload");
+  const view = currentView === "upload" && !canUpload ? "team-files" : currentView;
+
+  // Search once typing pauses rather than on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearchQuery(searchInput.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const clearSearch = () => {
+    setSearchInput("");
+    setSearchQuery("");
+  };
 
   const logoutMutation = useMutation({
     mutationFn: async () => {
@@ -59,22 +83,50 @@ export default function Home() {
                 <GraduationCap className="text-primary-foreground text-xl" />
               </div>
               <div>
-                <h1 className="text-xl font-semibold text-foreground">Product Marketing</h1>
+                <h1 className="text-xl font-semibold text-foreground">{activeCourse ? formatCourseName(activeCourse) : "Assignment Hub"}</h1>
                 <p className="text-sm text-muted-foreground">
-                  Assignment Hub {user && `- ${user.isAdmin ? 'Admin' : `Team ${user.teamNumber}`}`}
+                  Assignment Hub {user && `- ${user.isAdmin ? `${user.teamName || 'Staff'}${isStaffRole(user.role) ? ` (${staffRoleLabels[user.role]})` : ''}` : `Team ${user.teamNumber}`}`}
                 </p>
               </div>
             </div>
             
             <div className="flex items-center space-x-4">
+              {user?.courseId && (
+                <div className="relative hidden md:block">
+                  <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    value={searchInput}
+                    onChange={(e) => setSearchInput(e.target.value)}
+                    onKeyDown={(e) => e.key === "Escape" && clearSearch()}
+                    placeholder="Search files and contents"
+                    className="w-56 lg:w-72 pl-8 pr-8"
+                    aria-label="Search files"
+                  />
+                  {searchInput && (
+                    <button
+                      type="button"
+                      onClick={clearSearch}
+                      className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                      title="Clear search"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {/* Staff work across courses */}
+              {user?.isAdmin && <CourseSwitcher />}
+
               {/* View Toggle */}
               <div className="flex bg-muted rounded-lg p-1">
+                {canUpload && (
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => setCurrentView("upload")}
+                  onClick={() => { clearSearch(); setCurrentView("upload"); }}
                   className={`px-3 py-1.5 text-sm font-medium rounded-md ${
-                    currentView === "upload" 
+                    view === "upload" 
                       ? "bg-background text-foreground shadow-sm" 
                       : "text-muted-foreground hover:text-foreground"
                   }`}
@@ -82,12 +134,13 @@ export default function Home() {
                   <Upload className="w-4 h-4 mr-2" />
                   Upload
                 </Button>
+                )}
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => setCurrentView("team-files")}
+                  onClick={() => { clearSearch(); setCurrentView("team-files"); }}
                   className={`px-3 py-1.5 text-sm font-medium rounded-md ${
-                    currentView === "team-files" 
+                    view === "team-files" 
                       ? "bg-background text-foreground shadow-sm" 
                       : "text-muted-foreground hover:text-foreground"
                   }`}
@@ -99,9 +152,9 @@ export default function Home() {
                   <Button
                     variant="ghost"
                     size="sm"
-                    onClick={() => setCurrentView("admin-files")}
+                    onClick={() => { clearSearch(); setCurrentView("admin-files"); }}
                     className={`px-3 py-1.5 text-sm font-medium rounded-md ${
-                      currentView === "admin-files" 
+                      view === "admin-files" 
                         ? "bg-background text-foreground shadow-sm" 
                         : "text-muted-foreground hover:text-foreground"
                     }`}
@@ -113,9 +166,9 @@ export default function Home() {
                   <Button
                     variant="ghost"
                     size="sm"
-                    onClick={() => setCurrentView("other-files")}
+                    onClick={() => { clearSearch(); setCurrentView("other-files"); }}
                     className={`px-3 py-1.5 text-sm font-medium rounded-md opacity-75 ${
-                      currentView === "other-files" 
+                      view === "other-files" 
                         ? "bg-background text-foreground shadow-sm" 
                         : "text-muted-foreground hover:text-foreground"
                     }`}
@@ -124,6 +177,21 @@ export default function Home() {
                     Other Team Files
                   </Button>
                 )}
+                {!user?.isAdmin && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => { clearSearch(); setCurrentView("peer-reviews"); }}
+                    className={`px-3 py-1.5 text-sm font-medium rounded-md ${
+                      view === "peer-reviews" 
+                        ? "bg-background text-foreground shadow-sm" 
+                        : "text-muted-foreground hover:text-foreground"
+                    }`}
+                  >
+                    <MessagesSquare className="w-4 h-4 mr-2" />
+                    Peer Reviews
+                  </Button>
+                )}
               </div>
               
               {/* Theme Toggle */}
@@ -144,6 +212,18 @@ export default function Home() {
                     Logout
                   </Button>
                   
+                  {hasPermission(user, "files.viewAll") && user.courseId && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setLocation("/present")}
+                      className="p-2 text-muted-foreground hover:text-foreground rounded-lg hover:bg-accent"
+                      title="Presentation Mode"
+                    >
+                      <Presentation className="text-lg" />
+                    </Button>
+                  )}
+
                   <Button
                     variant="ghost"
                     size="sm"
@@ -166,29 +246,59 @@ export default function Home() {
       </header>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {currentView === "upload" && (
+        {user && !user.courseId && !coursesLoading ? (
+          <div className="text-center py-16 bg-card rounded-lg border border-border animate-fade-in">
+            <GraduationCap className="w-10 h-10 mx-auto mb-4 text-muted-foreground" />
+            <h2 className="text-lg font-semibold text-foreground mb-2">No course selected</h2>
+            <p className="text-muted-foreground mb-4">
+              {hasPermission(user, "courses.manage")
+                ? "Create your first course to start adding assignments and inviting teams."
+                : "Choose a course from the header, or ask an instructor to create one."}
+            </p>
+            {hasPermission(user, "courses.manage") && (
+              <Button onClick={() => setShowAdminModal(true)}>
+                <Settings className="w-4 h-4 mr-2" />
+                Open Settings → Courses
+              </Button>
+            )}
+          </div>
+        ) : searchQuery ? (
+          <div className="animate-fade-in">
+            <FileSearchResults query={searchQuery} />
+          </div>
+        ) : (
+        <>
+        {view === "upload" && (
           <div className="animate-fade-in">
             <UploadSection onUploadSuccess={() => setCurrentView(user?.isAdmin ? "admin-files" : "team-files")} />
           </div>
         )}
         
-        {currentView === "team-files" && (
+        {view === "team-files" && (
           <div className="animate-fade-in">
             <FileGallery onUploadClick={() => setCurrentView("upload")} />
           </div>
         )}
         
-        {currentView === "other-files" && (
+        {view === "other-files" && (
           <div className="animate-fade-in">
             <OtherTeamFiles />
           </div>
         )}
         
-        {currentView === "admin-files" && (
+        {view === "peer-reviews" && (
+          <div className="animate-fade-in">
+            <PeerReviews />
+          </div>
+        )}
+        
+        {view === "admin-files" && (
           <div className="animate-fade-in">
             <AdminFilesManager />
           </div>
         )}
+        </>
+        )}
       </main>
 
       <AdminSettingsModal 
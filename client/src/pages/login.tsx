@@ -5,29 +5,42 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { formatCourseName } from "@/hooks/use-courses";
 
 interface LoginProps {
   onLoginSuccess: (user: { teamNumber: number; isAdmin: boolean }) => void;
 }
 
 export default function Login({ onLoginSuccess }: LoginProps) {
+  const [courseId, setCourseId] = useState("");
+  const [joinCode, setJoinCode] = useState("");
   const [teamNumber, setTeamNumber] = useState("");
   const [teamName, setTeamName] = useState("");
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
+  const [staffEmail, setStaffEmail] = useState("");
   const [adminPassword, setAdminPassword] = useState("");
   const [isRegistering, setIsRegistering] = useState(false);
   const [existingTeamName, setExistingTeamName] = useState("");
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  // Team numbers are per course, so teams pick their course before signing in
+  const { data: courses = [] } = useQuery<{ id: string; name: string; section: string | null; maxTeams: number }[]>({
+    queryKey: ["/api/courses/public"],
+  });
+  const selectedCourseId = courseId || (courses.length === 1 ? courses[0].id : "");
+  const maxTeams = courses.find(course => course.id === selectedCourseId)?.maxTeams;
+
   const teamLoginMutation = useMutation({
-    mutationFn: async ({ teamNumber, password }: { teamNumber: string; password: string }) => {
+    mutationFn: async ({ courseId, teamNumber, password }: { courseId: string; teamNumber: string; password: string }) => {
       console.log('Attempting login with team:', teamNumber, 'password length:', password.length);
       const response = await apiRequest("POST", "/api/login", { 
+        courseId,
         teamNumber: parseInt(teamNumber), 
         password 
       });
@@ -51,8 +64,9 @@ export default function Login({ onLoginSuccess }: LoginProps) {
   });
 
   const registrationMutation = useMutation({
-    mutationFn: async ({ teamNumber, teamName, password }: { teamNumber: string; teamName?: string; password: string }) => {
+    mutationFn: async ({ joinCode, teamNumber, teamName, password }: { joinCode: string; teamNumber: string; teamName?: string; password: string }) => {
       const response = await apiRequest("POST", "/api/register", { 
+        joinCode,
         teamNumber: parseInt(teamNumber), 
         teamName: teamName?.trim() || "", 
         password 
@@ -64,9 +78,12 @@ export default function Login({ onLoginSuccess }: LoginProps) {
       const regTeamName = data?.team?.teamName;
       toast({
         title: "Registration Successful!",
-        description: `Team ${regTeamNumber}${regTeamName ? ` (${regTeamName})` : ''} has been registered. You can now log in.`,
+        description: `Team ${regTeamNumber}${regTeamName ? ` (${regTeamName})` : ''} has been registered${data?.team?.courseName ? ` in ${data.team.courseName}` : ''}. You can now log in.`,
       });
       setIsRegistering(false);
+      // Sign in to the course that was just joined
+      if (data?.team?.courseId) setCourseId(data.team.courseId);
+      setJoinCode("");
       // Clear registration form
       setTeamName("");
       setPassword("");
@@ -82,22 +99,22 @@ export default function Login({ onLoginSuccess }: LoginProps) {
   });
 
   const adminLoginMutation = useMutation({
-    mutationFn: async ({ password }: { password: string }) => {
-      const response = await apiRequest("POST", "/api/admin-login", { password });
+    mutationFn: async ({ email, password }: { email: string; password: string }) => {
+      const response = await apiRequest("POST", "/api/admin-login", { email, password });
       return response;
     },
     onSuccess: (data: any) => {
       toast({
         title: "Success!",
-        description: "Admin login successful",
+        description: "Staff login successful",
       });
       onLoginSuccess(data.user);
     },
     onError: (error: any) => {
       toast({
         variant: "destructive",
-        title: "Admin Login Failed",
-        description: error.message || "Invalid admin password",
+        title: "Staff Login Failed",
+        description: error.message || "Invalid email or password",
       });
     },
   });
@@ -129,6 +146,15 @@ export default function Login({ onLoginSuccess }: LoginProps) {
   const handleTeamLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     
+    if (!selectedCourseId) {
+      toast({
+        variant: "destructive",
+        title: "Missing Information",
+        description: "Please choose your course",
+      });
+      return;
+    }
+
     if (!password) {
       toast({
         variant: "destructive",
@@ -148,36 +174,37 @@ export default function Login({ onLoginSuccess }: LoginProps) {
     }
 
     const teamNum = parseInt(teamNumber);
-    if (isNaN(teamNum) || teamNum < 1 || teamNum > 9) {
+    if (isNaN(teamNum) || teamNum < 1 || (maxTeams !== undefined && teamNum > maxTeams)) {
       toast({
         variant: "destructive",
         title: "Invalid Team Number",
-        description: "Team number must be between 1 and 9",
+        description: `Team number must be between 1 and ${maxTeams}`,
       });
       return;
     }
 
-    teamLoginMutation.mutate({ teamNumber, password });
+    teamLoginMutation.mutate({ courseId: selectedCourseId, teamNumber, password });
   };
 
   const handleTeamRegistration = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!teamNumber || !password || !confirmPassword) {
+    if (!joinCode.trim() || !teamNumber || !password || !confirmPassword) {
       toast({
         variant: "destructive",
         title: "Missing Information",
-        description: "Please fill in team number, password, and confirm password",
+        description: "Please fill in join code, team number, password, and confirm password",
       });
       return;
     }
 
+    // The course's team count is checked by the server once the join code is resolved
     const teamNum = parseInt(teamNumber);
-    if (isNaN(teamNum) || teamNum < 1 || teamNum > 9) {
+    if (isNaN(teamNum) || teamNum < 1) {
       toast({
         variant: "destructive",
         title: "Invalid Team Number",
-        description: "Team number must be between 1 and 9",
+        description: "Team number must be 1 or higher",
       });
       return;
     }
@@ -209,22 +236,22 @@ export default function Login({ onLoginSuccess }: LoginProps) {
       return;
     }
 
-    registrationMutation.mutate({ teamNumber, teamName: teamName?.trim() || "", password });
+    registrationMutation.mutate({ joinCode: joinCode.trim(), teamNumber, teamName: teamName?.trim() || "", password });
   };
 
   const handleAdminLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!adminPassword) {
+    if (!staffEmail || !adminPassword) {
       toast({
         variant: "destructive",
-        title: "Missing Password",
-        description: "Please enter the admin password",
+        title: "Missing Information",
+        description: "Please enter your email and password",
       });
       return;
     }
 
-    adminLoginMutation.mutate({ password: adminPassword });
+    adminLoginMutation.mutate({ email: staffEmail.trim(), password: adminPassword });
   };
 
   return (
@@ -234,14 +261,14 @@ export default function Login({ onLoginSuccess }: LoginProps) {
           <div className="mx-auto w-16 h-16 bg-primary rounded-lg flex items-center justify-center mb-4">
             <GraduationCap className="text-primary-foreground text-2xl" />
           </div>
-          <CardTitle className="text-2xl font-bold text-foreground">Product Marketing</CardTitle>
-          <p className="text-muted-foreground">Assignment Hub</p>
+          <CardTitle className="text-2xl font-bold text-foreground">Assignment Hub</CardTitle>
+          <p className="text-muted-foreground">Sign in to your course</p>
         </CardHeader>
         <CardContent>
           <Tabs defaultValue="team" className="w-full">
             <TabsList className="grid w-full grid-cols-2">
               <TabsTrigger value="team">Team Login</TabsTrigger>
-              <TabsTrigger value="admin">W.'s Login</TabsTrigger>
+              <TabsTrigger value="admin">Staff Login</TabsTrigger>
             </TabsList>
             
             <TabsContent value="team" className="mt-6">
@@ -269,16 +296,30 @@ export default function Login({ onLoginSuccess }: LoginProps) {
                 {!isRegistering ? (
                   // Login Form
                   <form onSubmit={handleTeamLogin} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="course">Course</Label>
+                      <Select value={selectedCourseId} onValueChange={setCourseId}>
+                        <SelectTrigger id="course">
+                          <SelectValue placeholder={courses.length === 0 ? "No open courses" : "Choose your course"} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {courses.map(course => (
+                            <SelectItem key={course.id} value={course.id}>{formatCourseName(course)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
                     <div className="space-y-2">
                       <Label htmlFor="teamNumber">Team Number</Label>
                       <Input
                         id="teamNumber"
                         type="number"
                         min="1"
-                        max="9"
+                        max={maxTeams}
                         value={teamNumber}
                         onChange={(e) => handleTeamNumberChange(e.target.value)}
-                        placeholder="Team number (1-9)"
+                        placeholder={maxTeams ? `Team number (1-${maxTeams})` : "Team number"}
                         required
                       />
                     </div>
@@ -316,16 +357,27 @@ export default function Login({ onLoginSuccess }: LoginProps) {
                 ) : (
                   // Registration Form
                   <form onSubmit={handleTeamRegistration} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="regJoinCode">Course Join Code *</Label>
+                      <Input
+                        id="regJoinCode"
+                        value={joinCode}
+                        onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+                        placeholder="Code from your instructor"
+                        className="font-mono tracking-wider"
+                        required
+                      />
+                    </div>
+
                     <div className="space-y-2">
                       <Label htmlFor="regTeamNumber">Team Number *</Label>
                       <Input
                         id="regTeamNumber"
                         type="number"
                         min="1"
-                        max="9"
                         value={teamNumber}
                         onChange={(e) => handleTeamNumberChange(e.target.value)}
-                        placeholder="Choose team number (1-9)"
+                        placeholder="Your team number from your instructor"
                         required
                       />
                     </div>
@@ -393,13 +445,25 @@ export default function Login({ onLoginSuccess }: LoginProps) {
             <TabsContent value="admin" className="mt-6">
               <form onSubmit={handleAdminLogin} className="space-y-4">
                 <div className="space-y-2">
-                  <Label htmlFor="adminPassword">W.'s Password</Label>
+                  <Label htmlFor="staffEmail">Email</Label>
+                  <Input
+                    id="staffEmail"
+                    type="email"
+                    value={staffEmail}
+                    onChange={(e) => setStaffEmail(e.target.value)}
+                    placeholder="you@school.edu"
+                    required
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="adminPassword">Password</Label>
                   <Input
                     id="adminPassword"
                     type="password"
                     value={adminPassword}
                     onChange={(e) => setAdminPassword(e.target.value)}
-                    placeholder="Enter W.'s password"
+                    placeholder="Enter your password"
                     required
                   />
                 </div>
@@ -417,7 +481,7 @@ export default function Login({ onLoginSuccess }: LoginProps) {
                   ) : (
                     <>
                       <LogIn className="w-4 h-4 mr-2" />
-                      Login as W.
+                      Staff Login
                     </>
                   )}
                 </Button>
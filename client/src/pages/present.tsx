@@ -0,0 +1,726 @@
+import { useEffect, useRef, useState } from "react";
+import { useLocation, useParams } from "wouter";
+import { ArrowDown, ArrowLeft, ArrowUp, Download, ExternalLink, LoaderIcon, Pause, Play, Presentation, Shuffle, SortAsc, Timer, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { toDateTimeInputValue, fromDateTimeInputValue } from "@/lib/utils";
+import { useAssignments } from "@/hooks/use-assignments";
+import { usePreview } from "@/hooks/use-preview";
+import { hasPermission } from "@shared/permissions";
+import { getPreviewKind } from "@shared/previews";
+import { formatElapsed, getPlannedSlots, getTimerState, mergeRunningOrder, shuffleRunningOrder, type PlannedSlot } from "@shared/presentations";
+import type { File, PresentationLog } from "@shared/schema";
+
+interface Team {
+  teamNumber: number;
+  teamName: string;
+}
+
+// Dates arrive as JSON strings
+interface ScheduleData {
+  teamOrder: number[];
+  slotMinutes: number;
+  bufferMinutes: number;
+  warningMinutes: number;
+  startsAt: string | null;
+}
+
+interface PresentationData {
+  schedule: ScheduleData;
+  logs: PresentationLog[];
+}
+
+interface ScheduleSettings {
+  slotMinutes: string;
+  bufferMinutes: string;
+  warningMinutes: string;
+  startsAt: string; // datetime-local value
+}
+
+const imageTypes = [".jpg", ".jpeg", ".png", ".gif", ".bmp", ".webp", ".svg"];
+
+function toSettings(schedule: ScheduleData): ScheduleSettings {
+  return {
+    slotMinutes: String(schedule.slotMinutes),
+    bufferMinutes: String(schedule.bufferMinutes),
+    warningMinutes: String(schedule.warningMinutes),
+    startsAt: toDateTimeInputValue(schedule.startsAt),
+  };
+}
+
+function formatClock(date: Date | string) {
+  return new Date(date).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+/**
+ * Presentation mode: set the running order and time slots for an assignment, then show each
+ * team's latest files full-screen with slide-by-slide navigation and a countdown per slot.
+ * The schedule is shared by all staff; start and end times are recorded as teams present.
+ */
+export default function Present() {
+  const { assignmentId } = useParams<{ assignmentId?: string }>();
+  const [, setLocation] = useLocation();
+  const { activeAssignments, getAssignment, isLoading: assignmentsLoading } = useAssignments();
+  const [order, setOrder] = useState<number[]>([]);
+  const [settings, setSettings] = useState<ScheduleSettings | null>(null);
+  const [startIndex, setStartIndex] = useState<number | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: user } = useQuery<{ role?: string }>({
+    queryKey: ["/api/user"]
+  });
+  const canPresent = hasPermission(user, "files.viewAll");
+  const canManage = hasPermission(user, "presentations.manage");
+
+  const presentationKey = ["/api/admin/assignments", assignmentId, "presentation"];
+  const { data: presentation } = useQuery<PresentationData>({
+    queryKey: presentationKey,
+    enabled: canPresent && !!assignmentId,
+  });
+  const schedule = presentation?.schedule;
+  const logs = presentation?.logs ?? [];
+
+  const { data: teams = [] } = useQuery<Team[]>({
+    queryKey: ["/api/admin/teams"],
+    enabled: canPresent,
+  });
+  const { data: files = [], isLoading: filesLoading } = useQuery<File[]>({
+    queryKey: ["/api/files"],
+    enabled: canPresent,
+  });
+
+  // Each team presents its latest files for the assignment, in label order
+  const filesByTeam = new Map<number, File[]>();
+  for (const file of files) {
+    if (file.assignmentId !== assignmentId || file.teamNumber === 0 || file.isLatestVersion !== "true") continue;
+    filesByTeam.set(file.teamNumber, [...(filesByTeam.get(file.teamNumber) ?? []), file]);
+  }
+  filesByTeam.forEach(teamFiles => teamFiles.sort((a, b) => a.label.localeCompare(b.label)));
+
+  const teamNumbers = Array.from(new Set([...teams.map(team => team.teamNumber), ...Array.from(filesByTeam.keys())]));
+  const teamKey = teamNumbers.sort((a, b) => a - b).join(",");
+
+  useEffect(() => {
+    if (schedule) setOrder(mergeRunningOrder(schedule.teamOrder, teamNumbers));
+  }, [schedule, teamKey]);
+
+  // Saving the order refetches the schedule; unsaved time settings survive unless the saved ones changed
+  const savedSettingsKey = schedule ? JSON.stringify(toSettings(schedule)) : "";
+  useEffect(() => {
+    if (schedule) setSettings(toSettings(schedule));
+  }, [savedSettingsKey]);
+
+  const scheduleMutation = useMutation({
+    mutationFn: async (update: Omit<ScheduleData, "startsAt"> & { startsAt: string | null }) => {
+      return await apiRequest("PUT", `/api/admin/assignments/${assignmentId}/presentation/schedule`, update);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: presentationKey });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Schedule Failed",
+        description: error.message || "Failed to save presentation schedule",
+      });
+      queryClient.invalidateQueries({ queryKey: presentationKey });
+    },
+  });
+
+  const currentMutation = useMutation({
+    mutationFn: async (teamNumber: number | null) => {
+      return await apiRequest("PUT", `/api/admin/assignments/${assignmentId}/presentation/current`, { teamNumber });
+    },
+    onSuccess: (updatedLogs: PresentationLog[]) => {
+      queryClient.setQueryData<PresentationData>(presentationKey, current => current && { ...current, logs: updatedLogs });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Timing Not Recorded",
+        description: error.message || "Failed to record presentation time",
+      });
+    },
+  });
+
+  const clearLogMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("DELETE", `/api/admin/assignments/${assignmentId}/presentation/logs`);
+    },
+    onSuccess: (data: { message: string }) => {
+      toast({ title: "Success!", description: data.message });
+      queryClient.invalidateQueries({ queryKey: presentationKey });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Clear Failed",
+        description: error.message || "Failed to clear presentation log",
+      });
+    },
+  });
+
+  // Order changes save straight away; the time settings keep what was last saved
+  const saveOrder = (newOrder: number[]) => {
+    setOrder(newOrder);
+    if (schedule) scheduleMutation.mutate({ ...schedule, teamOrder: newOrder });
+  };
+
+  const saveSettings = () => {
+    if (!settings) return;
+    scheduleMutation.mutate({
+      teamOrder: order,
+      slotMinutes: Number(settings.slotMinutes),
+      bufferMinutes: Number(settings.bufferMinutes),
+      warningMinutes: Number(settings.warningMinutes),
+      startsAt: fromDateTimeInputValue(settings.startsAt),
+    }, {
+      onSuccess: () => toast({ title: "Success!", description: "Presentation schedule saved" }),
+    });
+  };
+
+  const settingsDirty = !!settings && JSON.stringify(settings) !== savedSettingsKey;
+  const plannedSlots: PlannedSlot[] = schedule?.startsAt
+    ? getPlannedSlots(new Date(schedule.startsAt), order, schedule.slotMinutes, schedule.bufferMinutes)
+    : [];
+  const getPlannedSlot = (teamNumber: number) => plannedSlots.find(slot => slot.teamNumber === teamNumber);
+
+  const moveTeam = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= order.length) return;
+    const newOrder = [...order];
+    [newOrder[index], newOrder[target]] = [newOrder[target], newOrder[index]];
+    saveOrder(newOrder);
+  };
+
+  const getTeamName = (teamNumber: number) => teams.find(team => team.teamNumber === teamNumber)?.teamName || `Team ${teamNumber}`;
+
+  if (user && !canPresent) {
+    return (
+      <div className="bg-background min-h-screen flex items-center justify-center text-muted-foreground">
+        Presentation mode is only available to staff.
+      </div>
+    );
+  }
+
+  const assignment = assignmentId ? getAssignment(assignmentId) : undefined;
+
+  if (startIndex !== null && assignment && schedule) {
+    return (
+      <PresentationStage
+        assignmentId={assignment.id}
+        order={order}
+        filesByTeam={filesByTeam}
+        getTeamName={getTeamName}
+        getPlannedSlot={getPlannedSlot}
+        slotMinutes={schedule.slotMinutes}
+        warningMinutes={schedule.warningMinutes}
+        startIndex={startIndex}
+        onPresenting={canManage ? teamNumber => currentMutation.mutate(teamNumber) : undefined}
+        onExit={() => setStartIndex(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="bg-background min-h-screen font-inter">
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="sm" onClick={() => setLocation(assignment ? "/present" : "/")}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+          <h1 className="text-2xl font-semibold text-foreground">
+            {assignment ? `Present: ${assignment.title}` : "Presentation Mode"}
+          </h1>
+        </div>
+
+        {!assignmentId ? (
+          <Card>
+            <CardContent className="p-6">
+              <p className="text-muted-foreground mb-4">Choose the assignment being presented in class.</p>
+              {assignmentsLoading ? (
+                <div className="text-muted-foreground">Loading assignments...</div>
+              ) : activeAssignments.length === 0 ? (
+                <div className="text-muted-foreground">No assignments yet</div>
+              ) : (
+                <div className="divide-y divide-border">
+                  {activeAssignments.map(item => (
+                    <button
+                      key={item.id}
+                      type="button"
+                      onClick={() => setLocation(`/present/${item.id}`)}
+                      className="w-full flex items-center justify-between py-3 text-left hover:text-primary"
+                    >
+                      <span className="font-medium">{item.title}</span>
+                      <Presentation className="w-4 h-4 text-muted-foreground" />
+                    </button>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ) : !assignment && !assignmentsLoading ? (
+          <div className="text-muted-foreground">Assignment not found</div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              <Button onClick={() => setStartIndex(0)} disabled={order.length === 0 || filesLoading || !schedule}>
+                <Play className="w-4 h-4 mr-2" />
+                Start Presenting
+              </Button>
+              <Button variant="outline" onClick={() => saveOrder(shuffleRunningOrder(order))} disabled={!canManage}>
+                <Shuffle className="w-4 h-4 mr-2" />
+                Shuffle
+              </Button>
+              <Button variant="outline" onClick={() => saveOrder([...order].sort((a, b) => a - b))} disabled={!canManage}>
+                <SortAsc className="w-4 h-4 mr-2" />
+                Team Order
+              </Button>
+            </div>
+
+            {settings && (
+              <Card>
+                <CardContent className="p-4">
+                  <h2 className="font-medium text-foreground mb-3">Time Slots</h2>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                    <div>
+                      <Label htmlFor="slot-minutes" className="text-xs text-muted-foreground">Minutes per team</Label>
+                      <Input id="slot-minutes" type="number" min={1} value={settings.slotMinutes} disabled={!canManage}
+                        onChange={(e) => setSettings({ ...settings, slotMinutes: e.target.value })} />
+                    </div>
+                    <div>
+                      <Label htmlFor="buffer-minutes" className="text-xs text-muted-foreground">Changeover minutes</Label>
+                      <Input id="buffer-minutes" type="number" min={0} value={settings.bufferMinutes} disabled={!canManage}
+                        onChange={(e) => setSettings({ ...settings, bufferMinutes: e.target.value })} />
+                    </div>
+                    <div>
+                      <Label htmlFor="warning-minutes" className="text-xs text-muted-foreground">Warn with minutes left</Label>
+                      <Input id="warning-minutes" type="number" min={0} value={settings.warningMinutes} disabled={!canManage}
+                        onChange={(e) => setSettings({ ...settings, warningMinutes: e.target.value })} />
+                    </div>
+                    <div>
+                      <Label htmlFor="starts-at" className="text-xs text-muted-foreground">First slot starts</Label>
+                      <Input id="starts-at" type="datetime-local" value={settings.startsAt} disabled={!canManage}
+                        onChange={(e) => setSettings({ ...settings, startsAt: e.target.value })} />
+                    </div>
+                  </div>
+                  {canManage && (
+                    <div className="flex justify-end mt-3">
+                      <Button size="sm" onClick={saveSettings} disabled={!settingsDirty || scheduleMutation.isPending}>
+                        {scheduleMutation.isPending && <LoaderIcon className="w-4 h-4 mr-2 animate-spin" />}
+                        Save schedule
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardContent className="p-4">
+                <h2 className="font-medium text-foreground mb-2">Running Order</h2>
+                {order.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No teams in this course yet</p>
+                ) : (
+                  <div className="divide-y divide-border">
+                    {order.map((teamNumber, index) => {
+                      const teamFiles = filesByTeam.get(teamNumber) ?? [];
+                      const slot = getPlannedSlot(teamNumber);
+                      return (
+                        <div key={teamNumber} className="flex items-center gap-3 py-2">
+                          <span className="w-6 text-right text-sm text-muted-foreground">{index + 1}.</span>
+                          {slot && (
+                            <span className="text-sm font-mono text-muted-foreground whitespace-nowrap">
+                              {formatClock(slot.start)}–{formatClock(slot.end)}
+                            </span>
+                          )}
+                          <Badge variant="outline">Team {teamNumber}</Badge>
+                          <span className="flex-1 min-w-0 truncate text-foreground">{getTeamName(teamNumber)}</span>
+                          <span className={`text-sm ${teamFiles.length ? "text-muted-foreground" : "text-orange-600"}`}>
+                            {teamFiles.length ? `${teamFiles.length} file${teamFiles.length === 1 ? "" : "s"}` : "No submission"}
+                          </span>
+                          <Button variant="ghost" size="sm" onClick={() => moveTeam(index, -1)} disabled={!canManage || index === 0} title="Move up">
+                            <ArrowUp className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => moveTeam(index, 1)} disabled={!canManage || index === order.length - 1} title="Move down">
+                            <ArrowDown className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setStartIndex(index)} title="Start from this team">
+                            <Play className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <PresentationLogCard
+              assignmentId={assignmentId}
+              logs={logs}
+              slotMinutes={schedule?.slotMinutes ?? 0}
+              getTeamName={getTeamName}
+              getPlannedSlot={getPlannedSlot}
+              canManage={canManage}
+              onClear={() => clearLogMutation.mutate()}
+              isClearing={clearLogMutation.isPending}
+            />
+
+            <p className="text-xs text-muted-foreground">
+              While presenting: → / Space / Page Down next slide, ← / Page Up previous slide, N / P next or previous team,
+              T pause the timer, F toggle full screen, Esc back to this list.
+            </p>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+interface PresentationLogCardProps {
+  assignmentId: string;
+  logs: PresentationLog[];
+  slotMinutes: number;
+  getTeamName: (teamNumber: number) => string;
+  getPlannedSlot: (teamNumber: number) => PlannedSlot | undefined;
+  canManage: boolean;
+  onClear: () => void;
+  isClearing: boolean;
+}
+
+// Recorded start and end times, for reviewing after class
+function PresentationLogCard({ assignmentId, logs, slotMinutes, getTeamName, getPlannedSlot, canManage, onClear, isClearing }: PresentationLogCardProps) {
+  const slotMs = slotMinutes * 60 * 1000;
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <h2 className="font-medium text-foreground">Presentation Log</h2>
+          {logs.length > 0 && (
+            <div className="flex gap-2">
+              {canManage && (
+                <Button variant="ghost" size="sm" onClick={() => {
+                  if (confirm("Clear all recorded times for this assignment? The schedule is kept.")) onClear();
+                }} disabled={isClearing}>
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Clear
+                </Button>
+              )}
+              <Button variant="outline" size="sm" asChild>
+                <a href={`/api/admin/assignments/${assignmentId}/presentation/log.csv`} download>
+                  <Download className="w-4 h-4 mr-2" />
+                  Export CSV
+                </a>
+              </Button>
+            </div>
+          )}
+        </div>
+        {logs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Start and end times are recorded here as teams present.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="py-1 font-normal">Team</th>
+                <th className="py-1 font-normal">Planned</th>
+                <th className="py-1 font-normal">Actual</th>
+                <th className="py-1 font-normal text-right">Duration</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {logs.map(log => {
+                const slot = getPlannedSlot(log.teamNumber);
+                const durationMs = log.endedAt ? new Date(log.endedAt).getTime() - new Date(log.startedAt).getTime() : null;
+                const over = durationMs !== null && durationMs > slotMs;
+                return (
+                  <tr key={log.id}>
+                    <td className="py-1 text-foreground">Team {log.teamNumber} · {getTeamName(log.teamNumber)}</td>
+                    <td className="py-1 font-mono text-muted-foreground">{slot ? `${formatClock(slot.start)}–${formatClock(slot.end)}` : "—"}</td>
+                    <td className="py-1 font-mono">{formatClock(log.startedAt)}–{log.endedAt ? formatClock(log.endedAt) : "now"}</td>
+                    <td className={`py-1 font-mono text-right ${over ? "text-red-600" : ""}`}>
+                      {durationMs === null ? "In progress" : formatElapsed(durationMs)}
+                      {over && ` (+${formatElapsed(durationMs! - slotMs)})`}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface PresentationStageProps {
+  assignmentId: string;
+  order: number[];
+  filesByTeam: Map<number, File[]>;
+  getTeamName: (teamNumber: number) => string;
+  getPlannedSlot: (teamNumber: number) => PlannedSlot | undefined;
+  slotMinutes: number;
+  warningMinutes: number;
+  startIndex: number;
+  // Records who is presenting; null once the stage closes. Left out for staff who can only watch
+  onPresenting?: (teamNumber: number | null) => void;
+  onExit: () => void;
+}
+
+const timerColors = {
+  normal: "text-white",
+  warning: "text-amber-400",
+  over: "text-red-500",
+};
+
+function PresentationStage({ assignmentId, order, filesByTeam, getTeamName, getPlannedSlot, slotMinutes, warningMinutes, startIndex, onPresenting, onExit }: PresentationStageProps) {
+  const [teamIndex, setTeamIndex] = useState(startIndex);
+  const [fileIndex, setFileIndex] = useState(0);
+  const [slide, setSlide] = useState(1);
+  const [timer, setTimer] = useState({ startedAt: Date.now() as number | null, elapsedBefore: 0 });
+  const [now, setNow] = useState(Date.now());
+  const stageRef = useRef<HTMLDivElement>(null);
+
+  const teamNumber = order[teamIndex];
+  const teamFiles = filesByTeam.get(teamNumber) ?? [];
+  const file = teamFiles[fileIndex];
+  const type = file?.fileType.toLowerCase() ?? "";
+  const isImage = imageTypes.includes(type);
+  const { data: preview } = usePreview(file?.id, !!file && getPreviewKind(type) === "slides");
+  const slideCount = preview?.status === "ready" && preview.kind === "slides" ? preview.slideCount : 1;
+  const nextTeamNumber = order[teamIndex + 1];
+
+  const elapsed = timer.elapsedBefore + (timer.startedAt ? now - timer.startedAt : 0);
+  const { remainingMs, level } = getTimerState(elapsed, slotMinutes, warningMinutes);
+  const plannedSlot = getPlannedSlot(teamNumber);
+
+  useEffect(() => {
+    onPresenting?.(teamNumber);
+  }, [teamNumber]);
+
+  // Closing the stage ends the last entry; keepalive lets that request outlive a closed tab too
+  useEffect(() => {
+    if (!onPresenting) return;
+    const endOnClose = () => {
+      fetch(`/api/admin/assignments/${assignmentId}/presentation/current`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ teamNumber: null }),
+        credentials: "include",
+        keepalive: true,
+      }).catch(() => {});
+    };
+    window.addEventListener("pagehide", endOnClose);
+    return () => {
+      window.removeEventListener("pagehide", endOnClose);
+      onPresenting(null);
+    };
+  }, []);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Full screen is requested right after the click that opened the stage
+  useEffect(() => {
+    stageRef.current?.requestFullscreen?.().catch(() => {});
+    return () => {
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    };
+  }, []);
+
+  const goToTeam = (index: number) => {
+    if (index < 0 || index >= order.length) return;
+    setTeamIndex(index);
+    setFileIndex(0);
+    setSlide(1);
+    setTimer({ startedAt: Date.now(), elapsedBefore: 0 });
+  };
+
+  const nextSlide = () => {
+    if (slide < slideCount) {
+      setSlide(slide + 1);
+    } else if (fileIndex < teamFiles.length - 1) {
+      setFileIndex(fileIndex + 1);
+      setSlide(1);
+    }
+  };
+
+  const previousSlide = () => {
+    if (slide > 1) {
+      setSlide(slide - 1);
+    } else if (fileIndex > 0) {
+      setFileIndex(fileIndex - 1);
+      setSlide(1);
+    }
+  };
+
+  const toggleTimer = () => {
+    setTimer(current => current.startedAt
+      ? { startedAt: null, elapsedBefore: current.elapsedBefore + Date.now() - current.startedAt }
+      : { startedAt: Date.now(), elapsedBefore: current.elapsedBefore });
+  };
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {});
+    } else {
+      stageRef.current?.requestFullscreen?.().catch(() => {});
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      switch (e.key) {
+        case 'ArrowRight':
+        case 'PageDown':
+        case ' ':
+          if (e.shiftKey && e.key === 'ArrowRight') goToTeam(teamIndex + 1);
+          else nextSlide();
+          break;
+        case 'ArrowLeft':
+        case 'PageUp':
+          if (e.shiftKey && e.key === 'ArrowLeft') goToTeam(teamIndex - 1);
+          else previousSlide();
+          break;
+        case 'n':
+        case 'N':
+          goToTeam(teamIndex + 1);
+          break;
+        case 'p':
+        case 'P':
+          goToTeam(teamIndex - 1);
+          break;
+        case 't':
+        case 'T':
+          toggleTimer();
+          break;
+        case 'f':
+        case 'F':
+          toggleFullscreen();
+          break;
+        case 'Escape':
+          // In full screen the browser uses Esc to leave full screen first
+          if (!document.fullscreenElement) onExit();
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Fetch the next slide ahead of time so advancing is instant
+  useEffect(() => {
+    if (file && slideCount > 1 && slide < slideCount) {
+      new Image().src = `/api/files/${file.id}/preview/slides/${slide + 1}`;
+    }
+  }, [file?.id, slide, slideCount]);
+
+  const renderContent = () => {
+    if (!file) {
+      return (
+        <div className="text-center text-white">
+          <p className="text-5xl font-semibold mb-4">{getTeamName(teamNumber)}</p>
+          <p className="text-xl text-white/60">No submission for this assignment</p>
+        </div>
+      );
+    }
+
+    const downloadUrl = `/api/files/${file.id}/download`;
+    if (isImage) {
+      return <img src={downloadUrl} alt={file.originalName} className="max-w-full max-h-full object-contain" draggable={false} />;
+    }
+
+    if (preview?.status === "ready" && preview.kind === "slides") {
+      return (
+        <img
+          src={`/api/files/${file.id}/preview/slides/${Math.min(slide, slideCount)}`}
+          alt={`Slide ${slide} of ${file.originalName}`}
+          className="max-w-full max-h-full object-contain"
+          draggable={false}
+        />
+      );
+    }
+
+    if (preview?.status === "pending" || (getPreviewKind(type) === "slides" && !preview)) {
+      return (
+        <div className="text-center text-white/70">
+          <LoaderIcon className="w-10 h-10 mx-auto mb-4 animate-spin" />
+          <p>Preparing slides for {file.originalName}...</p>
+        </div>
+      );
+    }
+
+    // Without slide images a PDF still shows in the browser's own viewer
+    if (type === ".pdf") {
+      return <iframe src={`${downloadUrl}#toolbar=0`} className="w-full h-full bg-white" title={file.originalName} />;
+    }
+
+    return (
+      <div className="text-center text-white">
+        <p className="text-3xl font-semibold mb-2">{file.originalName}</p>
+        <p className="text-white/60 mb-6">This file can't be shown in presentation mode</p>
+        <Button variant="secondary" onClick={() => window.open(downloadUrl, '_blank')}>
+          <ExternalLink className="w-4 h-4 mr-2" />
+          Open File
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div ref={stageRef} className="fixed inset-0 bg-black flex flex-col select-none">
+      {/* How much of the slot is used, so the time left is readable from the back of the room */}
+      <div className="h-1.5 bg-neutral-800">
+        <div
+          className={`h-full transition-[width] ${level === "over" ? "bg-red-500" : level === "warning" ? "bg-amber-400" : "bg-emerald-500"}`}
+          style={{ width: `${Math.min(100, (elapsed / (slotMinutes * 60 * 1000)) * 100)}%` }}
+        />
+      </div>
+      <div className="flex-1 min-h-0 flex items-center justify-center">
+        {renderContent()}
+      </div>
+
+      <div className="flex items-center gap-6 px-6 py-3 bg-neutral-900 text-white text-sm">
+        <div className="flex-1 min-w-0 truncate">
+          <span className="font-semibold">Team {teamNumber} · {getTeamName(teamNumber)}</span>
+          {file && (
+            <span className="text-white/60">
+              {" "}— {file.label}{teamFiles.length > 1 && ` (${fileIndex + 1}/${teamFiles.length})`}
+            </span>
+          )}
+        </div>
+        {file && slideCount > 1 && (
+          <span className="text-white/60">Slide {Math.min(slide, slideCount)} / {slideCount}</span>
+        )}
+        {plannedSlot && (
+          <span className="text-white/60 font-mono">Slot {formatClock(plannedSlot.start)}–{formatClock(plannedSlot.end)}</span>
+        )}
+        <button type="button" onClick={toggleTimer} className={`flex items-center gap-2 font-mono text-lg ${timerColors[level]}`} title="Pause or resume the timer (T)">
+          {timer.startedAt ? <Timer className="w-4 h-4" /> : <Pause className="w-4 h-4 text-orange-400" />}
+          <span>{formatElapsed(elapsed)}</span>
+          <span className="text-sm">
+            {level === "over" ? `${formatElapsed(-remainingMs)} over` : `${formatElapsed(remainingMs)} left`}
+          </span>
+        </button>
+        <span className="text-white/60 truncate max-w-xs">
+          {nextTeamNumber !== undefined ? `Next up: Team ${nextTeamNumber} · ${getTeamName(nextTeamNumber)}` : "Last team"}
+        </span>
+      </div>
+    </div>
+  );
+}
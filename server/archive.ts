@@ -0,0 +1,322 @@
+import JSZip from "jszip";
+import { randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { Course, File, TermArchive } from "@shared/schema";
+import { contentKey, hashFile, uploadStagingDir, type BlobStore, type BlobStream } from "./blob-store";
+import { formatCsv } from "./csv";
+import { openWhenRead, safeName, uniquePath, versionedFileName } from "./zip";
+import type { CourseRecords, IStorage } from "./storage";
+
+const ARCHIVE_FORMAT = "assignmenthub-term-archive";
+const ARCHIVE_VERSION = 1;
+const MANIFEST_NAME = "manifest.json";
+
+// Imports are read into memory in one piece, so they're capped well below what a server can hold
+export const MAX_ARCHIVE_IMPORT_SIZE = 2 * 1024 * 1024 * 1024;
+
+// An upload as listed in the manifest; archivePath is null when its stored contents were already gone
+type ArchivedFile = File & { archivePath: string | null };
+
+/**
+ * manifest.json: every record the course held, so the archive can be read on its own or
+ * restored into another instance. Team password hashes and reset tokens are left out.
+ */
+export interface ArchiveManifest extends Omit<CourseRecords, "files"> {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  createdAt: Date;
+  createdBy: string | null;
+  files: ArchivedFile[];
+}
+
+export interface RestoredArchive {
+  course: Course;
+  files: File[];
+  teamCount: number;
+  missingFiles: number; // listed in the manifest but not in the ZIP
+}
+
+// Timestamps come back from JSON as strings; every timestamp column is named *At, lastLogin or tokenExpiry
+function reviveDates(key: string, value: unknown) {
+  if (typeof value === "string" && (/At$/.test(key) || key === "lastLogin" || key === "tokenExpiry")) {
+    return new Date(value);
+  }
+  return value;
+}
+
+async function collectCourseRecords(storage: IStorage, course: Course): Promise<CourseRecords> {
+  const assignments = await storage.getAssignments(course.id);
+  const files = await storage.getAllFiles(course.id);
+
+  const rubricCriteria = [];
+  const presentationSchedules = [];
+  for (const assignment of assignments) {
+    rubricCriteria.push(...await storage.getRubricCriteria(assignment.id));
+    const schedule = await storage.getPresentationSchedule(assignment.id);
+    if (schedule) presentationSchedules.push(schedule);
+  }
+
+  const comments = [];
+  for (const file of files) {
+    comments.push(...await storage.getComments(file.id));
+  }
+
+  return {
+    course,
+    assignments,
+    assignmentSettings: await storage.getAssignmentSettings(course.id),
+    rubricCriteria,
+    users: (await storage.getAllUsers(course.id)).filter(user => user.role === "team"),
+    teamMembers: await storage.getTeamMembers(course.id),
+    files,
+    grades: await storage.getGrades(course.id),
+    presentationSchedules,
+    presentationLogs: await storage.getPresentationLogs(course.id),
+    peerReviewRounds: await storage.getPeerReviewRounds(course.id),
+    peerReviews: await storage.getPeerReviews(course.id),
+    comments,
+  };
+}
+
+/**
+ * Term archives: a ZIP of a course's uploads, laid out as files/<assignment>/<team>/, with
+ * manifest.json holding every record and files.csv and teams.csv for reading in a spreadsheet.
+ * Finished ZIPs are kept in the blob store next to the uploads.
+ */
+export class TermArchiveService {
+  constructor(private readonly blobStore: BlobStore, private readonly storage: IStorage) {}
+
+  async create(course: Course, createdBy: string | null): Promise<TermArchive> {
+    const records = await collectCourseRecords(this.storage, course);
+    const assignmentFolders = new Map<string, string>();
+    const usedFolders = new Set<string>();
+    for (const assignment of records.assignments) {
+      assignmentFolders.set(assignment.id, uniquePath(usedFolders, safeName(assignment.title)));
+    }
+    const teamNames = new Map(records.users.map(user => [user.teamNumber, user.teamName]));
+    const teamFolder = (teamNumber: number) => {
+      if (teamNumber === 0) return "Staff";
+      const name = teamNames.get(teamNumber);
+      return safeName(name ? `Team ${teamNumber} - ${name}` : `Team ${teamNumber}`);
+    };
+
+    const zip = new JSZip();
+    const usedPaths = new Set<string>();
+    const missing = new Set<string>(); // ids of files whose blob was already gone
+    const files: ArchivedFile[] = [];
+
+    // Uploads are already compressed formats for the most part, so they're stored as they are
+    for (const file of records.files) {
+      const assignmentFolder = assignmentFolders.get(file.assignmentId) ?? "Unknown assignment";
+      const archivePath = uniquePath(usedPaths, `files/${assignmentFolder}/${teamFolder(file.teamNumber)}/${versionedFileName(file)}`);
+      files.push({ ...file, archivePath });
+
+      zip.file(archivePath, openWhenRead(async () => {
+        const blob = await this.blobStore.getStream(file.fileName);
+        if (blob) return blob.stream;
+        missing.add(file.id);
+        return Readable.from([]);
+      }), { binary: true, date: new Date(file.uploadedAt), compression: "STORE" });
+    }
+
+    // Added last so they're written after every upload, once missing blobs are known
+    const archivedFiles = () => files.map(file => missing.has(file.id) ? { ...file, archivePath: null } : file);
+    const text = (build: () => string) => openWhenRead(async () => Readable.from([Buffer.from(build())]));
+    const createdAt = new Date();
+
+    zip.file(MANIFEST_NAME, text(() => {
+      const manifest: ArchiveManifest = {
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        createdAt,
+        createdBy,
+        ...records,
+        users: records.users.map(user => ({ ...user, passwordHash: null, passwordResetToken: null, tokenExpiry: null })),
+        files: archivedFiles(),
+      };
+      return JSON.stringify(manifest, null, 2);
+    }), { binary: true, date: createdAt });
+
+    zip.file("files.csv", text(() => {
+      const assignmentTitles = new Map(records.assignments.map(assignment => [assignment.id, assignment.title]));
+      return formatCsv([
+        ["Assignment", "Team", "Team Name", "Label", "File Name", "Version", "Latest Version", "Size (bytes)", "Uploaded At", "Uploaded By", "Minutes Late", "Visible", "Path in Archive"],
+        ...archivedFiles().map(file => [
+          assignmentTitles.get(file.assignmentId) ?? "",
+          file.teamNumber === 0 ? "Staff" : file.teamNumber,
+          teamNames.get(file.teamNumber) ?? "",
+          file.label,
+          file.originalName,
+          file.version,
+          file.isLatestVersion === "true" ? "Yes" : "No",
+          file.fileSize,
+          new Date(file.uploadedAt).toISOString(),
+          file.uploadedByName,
+          file.minutesLate,
+          file.isVisible === "true" ? "Yes" : "No",
+          file.archivePath ?? "(missing)",
+        ]),
+      ]);
+    }), { binary: true, date: createdAt });
+
+    zip.file("teams.csv", text(() => {
+      const teamNumbers = Array.from(new Set([
+        ...records.users.map(user => user.teamNumber!),
+        ...records.teamMembers.map(member => member.teamNumber),
+      ])).sort((a, b) => a - b);
+      return formatCsv([
+        ["Team", "Team Name", "Members", "Emails", "Registered", "Last Login"],
+        ...teamNumbers.map(teamNumber => {
+          const user = records.users.find(u => u.teamNumber === teamNumber);
+          const members = records.teamMembers.filter(member => member.teamNumber === teamNumber);
+          return [
+            teamNumber,
+            user?.teamName ?? "",
+            members.map(member => member.name).join("; "),
+            members.map(member => member.email).filter(Boolean).join("; "),
+            user ? new Date(user.createdAt).toISOString() : "",
+            user?.lastLogin ? new Date(user.lastLogin).toISOString() : "",
+          ];
+        }),
+      ]);
+    }), { binary: true, date: createdAt });
+
+    await fs.promises.mkdir(uploadStagingDir, { recursive: true });
+    const stagedPath = path.join(uploadStagingDir, `archive-${randomUUID()}.zip`);
+    try {
+      await pipeline(
+        zip.generateNodeStream({ type: "nodebuffer", streamFiles: true, compression: "DEFLATE" }),
+        fs.createWriteStream(stagedPath),
+      );
+      const { size } = await fs.promises.stat(stagedPath);
+      const fileName = `archive-${randomUUID()}.zip`;
+      await this.blobStore.putFile(fileName, stagedPath, "application/zip");
+
+      return await this.storage.createTermArchive({
+        courseId: course.id,
+        courseName: course.section ? `${course.name} · ${course.section}` : course.name,
+        fileName,
+        fileSize: size,
+        fileCount: files.length - missing.size,
+        teamCount: records.users.length,
+        createdBy,
+      });
+    } finally {
+      await fs.promises.rm(stagedPath, { force: true });
+    }
+  }
+
+  getStream(archive: TermArchive): Promise<BlobStream | null> {
+    return this.blobStore.getStream(archive.fileName);
+  }
+
+  /**
+   * Restore an archive as a new course with a new join code. Every record gets a fresh id, so
+   * an archive can be restored next to the course it came from. Teams come back without
+   * passwords and sign in again by registering with the new join code. Returns null when the
+   * ZIP isn't a term archive this version can read.
+   */
+  async restore(zipPath: string, joinCode: string): Promise<RestoredArchive | null> {
+    let zip: JSZip;
+    let manifest: ArchiveManifest;
+    try {
+      zip = await JSZip.loadAsync(await fs.promises.readFile(zipPath));
+      const entry = zip.file(MANIFEST_NAME);
+      if (!entry) return null;
+      manifest = JSON.parse(await entry.async("string"), reviveDates);
+    } catch {
+      return null;
+    }
+    if (manifest?.format !== ARCHIVE_FORMAT || manifest.version !== ARCHIVE_VERSION) return null;
+
+    const ids = new Map<string, string>();
+    const newId = (id: string) => {
+      let mapped = ids.get(id);
+      if (!mapped) {
+        mapped = randomUUID();
+        ids.set(id, mapped);
+      }
+      return mapped;
+    };
+    const courseId = newId(manifest.course.id);
+
+    await fs.promises.mkdir(uploadStagingDir, { recursive: true });
+    const files: File[] = [];
+    for (const { archivePath, ...file } of manifest.files) {
+      const entry = archivePath ? zip.file(archivePath) : null;
+      if (!entry) continue;
+
+      // Stored by content like any upload, so restoring next to the original shares its blobs
+      const stagedPath = path.join(uploadStagingDir, `restore-${randomUUID()}`);
+      let fileName: string;
+      let contentHash: string;
+      try {
+        await pipeline(entry.nodeStream("nodebuffer"), fs.createWriteStream(stagedPath));
+        contentHash = await hashFile(stagedPath);
+        fileName = contentKey(contentHash);
+        await this.blobStore.putFile(fileName, stagedPath);
+      } finally {
+        await fs.promises.rm(stagedPath, { force: true });
+      }
+
+      files.push({
+        ...file,
+        id: newId(file.id),
+        courseId,
+        assignmentId: newId(file.assignmentId),
+        uploadedByMemberId: file.uploadedByMemberId && newId(file.uploadedByMemberId),
+        fileName,
+        contentHash,
+      });
+    }
+    const restoredFileIds = new Set(files.map(file => file.id));
+
+    const course = await this.storage.restoreCourse({
+      course: { ...manifest.course, id: courseId, joinCode },
+      assignments: manifest.assignments.map(assignment => ({ ...assignment, id: newId(assignment.id), courseId })),
+      assignmentSettings: manifest.assignmentSettings.map(setting => ({ ...setting, id: newId(setting.id), assignmentId: newId(setting.assignmentId) })),
+      rubricCriteria: manifest.rubricCriteria.map(criterion => ({ ...criterion, id: newId(criterion.id), assignmentId: newId(criterion.assignmentId) })),
+      users: manifest.users.map(user => ({ ...user, id: newId(user.id), courseId, passwordHash: null, passwordResetToken: null, tokenExpiry: null })),
+      teamMembers: manifest.teamMembers.map(member => ({ ...member, id: newId(member.id), courseId })),
+      files,
+      grades: manifest.grades.map(grade => ({
+        ...grade,
+        id: newId(grade.id),
+        courseId,
+        assignmentId: newId(grade.assignmentId),
+        scores: grade.scores.map(score => ({ ...score, criterionId: newId(score.criterionId) })),
+      })),
+      presentationSchedules: manifest.presentationSchedules.map(schedule => ({ ...schedule, id: newId(schedule.id), courseId, assignmentId: newId(schedule.assignmentId) })),
+      presentationLogs: manifest.presentationLogs.map(log => ({ ...log, id: newId(log.id), courseId, assignmentId: newId(log.assignmentId) })),
+      peerReviewRounds: manifest.peerReviewRounds.map(round => ({ ...round, id: newId(round.id), courseId, assignmentId: newId(round.assignmentId) })),
+      peerReviews: manifest.peerReviews.map(review => ({
+        ...review,
+        id: newId(review.id),
+        courseId,
+        roundId: newId(review.roundId),
+        assignmentId: newId(review.assignmentId),
+      })),
+      // Staff accounts differ between instances, so comments keep their author's name but not the account
+      comments: manifest.comments
+        .filter(comment => restoredFileIds.has(newId(comment.fileId)))
+        .map(comment => ({
+          ...comment,
+          id: newId(comment.id),
+          courseId,
+          fileId: newId(comment.fileId),
+          parentId: comment.parentId && newId(comment.parentId),
+          authorUserId: null,
+        })),
+    });
+
+    return {
+      course,
+      files,
+      teamCount: manifest.users.length,
+      missingFiles: manifest.files.length - files.length,
+    };
+  }
+}
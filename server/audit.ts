@@ -0,0 +1,59 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+
+// Never copied into the audit log, wherever they appear in a snapshot
+const SECRET_FIELDS = new Set(["password", "passwordHash", "currentPassword", "newPassword", "confirmPassword", "passwordResetToken", "token"]);
+
+export interface AuditEntry {
+  action: string;
+  targetType: string;
+  targetId?: string | null;
+  teamNumber?: number | null;
+  summary: string;
+  before?: unknown;
+  after?: unknown;
+  courseId?: string | null; // defaults to the actor's active course
+  actor?: SessionUserLike; // for requests made before signing in, e.g. registering
+}
+
+// The parts of a session user the log needs; staff have an id, teams only a number
+interface SessionUserLike {
+  id?: string;
+  role?: string;
+  teamNumber?: number | null;
+  teamName?: string | null;
+  courseId?: string | null;
+}
+
+// A plain JSON copy of a record with secrets left out
+export function auditSnapshot(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  return JSON.parse(JSON.stringify(value, (key, field) => SECRET_FIELDS.has(key) ? undefined : field));
+}
+
+/**
+ * Add an event to the audit log for the signed-in user, or for the scheduler when there is no
+ * request. A failed write is logged rather than thrown, so it never undoes the change it describes.
+ */
+export async function recordAudit(req: Request | null, entry: AuditEntry): Promise<void> {
+  const user = (entry.actor ?? req?.user) as SessionUserLike | undefined;
+  try {
+    await storage.createAuditEvent({
+      courseId: entry.courseId !== undefined ? entry.courseId : user?.courseId ?? null,
+      actorUserId: user?.id ?? null,
+      actorRole: !user ? "system" : user.id ? user.role ?? "instructor" : "team",
+      actorTeamNumber: user && !user.id ? user.teamNumber ?? null : null,
+      actorName: !user ? "Scheduler" : user.teamName || `Team ${user.teamNumber}`,
+      action: entry.action,
+      targetType: entry.targetType,
+      targetId: entry.targetId ?? null,
+      teamNumber: entry.teamNumber ?? null,
+      summary: entry.summary,
+      before: auditSnapshot(entry.before),
+      after: auditSnapshot(entry.after),
+      ipAddress: req?.ip ?? null,
+    });
+  } catch (error) {
+    console.error('Audit log error:', error);
+  }
+}
@@ -1,5 +1,5 @@
 import bcrypt from 'bcryptjs';
-import { randomUUID } from 'crypto';
+import { randomUUID, randomInt } from 'crypto';
 
 export class AuthService {
   private static SALT_ROUNDS = 12;
@@ -25,6 +25,18 @@ export class AuthService {
     return randomUUID();
   }
 
+  /**
+   * Generate a course join code (no 0/O or 1/I so it can be read aloud in class)
+   */
+  static generateJoinCode(length: number = 6): string {
+    const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+    let code = '';
+    for (let i = 0; i < length; i++) {
+      code += alphabet[randomInt(alphabet.length)];
+    }
+    return code;
+  }
+
   /**
    * Validate password strength
    */
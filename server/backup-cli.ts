@@ -0,0 +1,79 @@
+import { config } from "dotenv";
+import { createBlobStore } from "./blob-store";
+import { BackupService, getBackupDir } from "./backup";
+import { describeStorage, storage } from "./storage";
+
+// Same settings as the server, so the command backs up whatever the server is using
+config({ path: "AssignmentHub.env" });
+
+const USAGE = `Usage: npm run backup -- <command>
+
+  create              Take a backup into BACKUP_DIR (the default command)
+  list                List the backups in BACKUP_DIR
+  verify <zip>        Check a backup's checksums without changing anything
+  restore <zip> --yes Replace everything stored with a backup; stop the server first`;
+
+function formatSize(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+async function main(args: string[]): Promise<number> {
+  const [command = "create", zipPath] = args.filter(arg => !arg.startsWith("--"));
+  const backups = new BackupService(createBlobStore(), storage, getBackupDir());
+
+  // A separate process can't see the server's memory, so there would be nothing to back up
+  if ((command === "create" || command === "restore") && describeStorage() === "memory") {
+    console.error("Storage is in memory, so there is nothing to back up or restore into. Set DATABASE_URL, or STORAGE_MODE=file.");
+    return 1;
+  }
+
+  switch (command) {
+    case "create": {
+      const backup = await backups.create("command", null);
+      console.log(`Backed up ${backup.recordCount} records and ${backup.fileCount} file${backup.fileCount === 1 ? "" : "s"} to ${backups.zipPath(backup.id)} (${formatSize(backup.size)})`);
+      if (backup.missingFiles > 0) {
+        console.warn(`${backup.missingFiles} files referenced by records were already missing from the blob store`);
+      }
+      return 0;
+    }
+
+    case "list": {
+      const list = await backups.list();
+      if (list.length === 0) console.log(`No backups in ${getBackupDir()}`);
+      for (const backup of list) {
+        console.log(`${backup.id}  ${backup.trigger.padEnd(9)}  ${backup.recordCount} records, ${backup.fileCount} file${backup.fileCount === 1 ? "" : "s"}, ${formatSize(backup.size)}`);
+      }
+      return 0;
+    }
+
+    case "verify":
+    case "restore": {
+      if (!zipPath) {
+        console.error(USAGE);
+        return 1;
+      }
+      if (command === "restore" && !args.includes("--yes")) {
+        console.error(`Restoring replaces every course, account and file record with the backup's. Run again with --yes to go ahead.`);
+        return 1;
+      }
+
+      const result = command === "verify" ? await backups.verify(zipPath) : await backups.restore(zipPath);
+      if ("error" in result) {
+        console.error(result.error);
+        return 1;
+      }
+      const { backup } = result;
+      console.log(`${command === "verify" ? "Checksums match" : "Restored"}: backup taken ${new Date(backup.createdAt).toISOString()} with ${backup.courseCount} course${backup.courseCount === 1 ? "" : "s"}, ${backup.recordCount} records and ${backup.fileCount} file${backup.fileCount === 1 ? "" : "s"}`);
+      return 0;
+    }
+
+    default:
+      console.error(USAGE);
+      return 1;
+  }
+}
+
+main(process.argv.slice(2)).then(code => process.exit(code), error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,438 @@
+import JSZip from "jszip";
+import { createHash, randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { hashFile, uploadStagingDir, type BlobStore } from "./blob-store";
+import { openWhenRead } from "./zip";
+import { recordAudit } from "./audit";
+import { log } from "./vite";
+import { describeStorage, snapshotCollections, snapshotReplacer, snapshotReviver, type IStorage, type StorageSnapshot } from "./storage";
+
+const BACKUP_FORMAT = "assignmenthub-backup";
+const BACKUP_VERSION = 1;
+const MANIFEST_NAME = "manifest.json";
+const DATA_NAME = "data.json";
+const BACKUP_ID = /^backup-[0-9TZ-]+-[0-9a-f]{8}$/;
+const DEFAULT_RETENTION = 7;
+const SCHEDULE_CHECK_INTERVAL_MS = 10 * 60 * 1000;
+
+// Restores read the whole ZIP into memory, like term archive imports
+export const MAX_BACKUP_RESTORE_SIZE = 2 * 1024 * 1024 * 1024;
+
+export type BackupTrigger = "manual" | "scheduled" | "command";
+
+// Kept next to each ZIP as <id>.json, so listing backups never has to open them
+export interface BackupInfo {
+  id: string;
+  createdAt: Date;
+  trigger: BackupTrigger;
+  createdBy: string | null;
+  storage: string; // where the records came from: postgres, file or memory
+  size: number;
+  sha256: string; // of the whole ZIP
+  recordCount: number;
+  fileCount: number; // stored files, counted once however many records share them
+  missingFiles: number; // referenced by a record but already gone from the blob store
+}
+
+export interface BackupSummary {
+  createdAt: Date;
+  courseCount: number;
+  recordCount: number;
+  fileCount: number;
+}
+
+export interface BackupSchedule {
+  intervalHours: number | null; // null when scheduled backups are off
+  retention: number;
+}
+
+interface BackupBlob {
+  key: string;
+  size: number;
+  sha256: string;
+}
+
+/**
+ * manifest.json: checksums for data.json and for every stored file under blobs/<key>. It is
+ * written after them, so a restore can tell a damaged or unfinished backup from a good one.
+ */
+interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: Date;
+  storage: string;
+  data: { size: number; sha256: string };
+  blobs: BackupBlob[];
+  missingBlobs: string[];
+}
+
+interface OpenedBackup {
+  zip: JSZip;
+  manifest: BackupManifest;
+  snapshot: StorageSnapshot;
+}
+
+// BACKUP_INTERVAL_HOURS turns scheduled backups on; BACKUP_RETENTION is how many of them are kept
+export function getBackupSchedule(): BackupSchedule {
+  const intervalHours = parseFloat(process.env.BACKUP_INTERVAL_HOURS || "");
+  const retention = parseInt(process.env.BACKUP_RETENTION || "", 10);
+  return {
+    intervalHours: intervalHours > 0 ? intervalHours : null,
+    retention: retention > 0 ? retention : DEFAULT_RETENTION,
+  };
+}
+
+// Outside the blob store and the database on purpose: a backup has to outlive both
+export function getBackupDir(): string {
+  return path.resolve(process.env.BACKUP_DIR || path.join(process.cwd(), "backups"));
+}
+
+// Passes a stream through unchanged and reports its SHA-256 and length once it has all been read
+function withChecksum(source: NodeJS.ReadableStream, onEnd: (sha256: string, size: number) => void): Readable {
+  const hash = createHash("sha256");
+  let size = 0;
+  const through = new Transform({
+    transform(chunk, _encoding, callback) {
+      hash.update(chunk);
+      size += chunk.length;
+      callback(null, chunk);
+    },
+    flush(callback) {
+      onEnd(hash.digest("hex"), size);
+      callback();
+    },
+  });
+  // A read error destroys the pass-through, which is where the reader sees it
+  pipeline(source, through).catch(() => {});
+  return through;
+}
+
+function sha256Of(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+// A damaged entry can fail to inflate at all, which counts as a checksum mismatch
+async function readEntry(zip: JSZip, name: string): Promise<Buffer | null> {
+  try {
+    return await zip.file(name)?.async("nodebuffer") ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function countRecords(snapshot: StorageSnapshot): number {
+  return snapshotCollections.reduce((sum, name) => sum + snapshot[name].length, 0);
+}
+
+/**
+ * Backups of everything the server stores: every IStorage record, read in one consistent
+ * snapshot, plus the stored files those records point at, in one ZIP under BACKUP_DIR.
+ * Uploads are stored by content and never change, so the only way the two could drift is a
+ * blob being deleted while it's copied; deletions wait for the backup through whenIdle().
+ */
+export class BackupService {
+  private busy = false;
+  private deferred: (() => Promise<void>)[] = [];
+
+  constructor(private readonly blobStore: BlobStore, private readonly storage: IStorage, private readonly backupDir: string) {}
+
+  get isBusy(): boolean {
+    return this.busy;
+  }
+
+  // Runs the task now, or once the backup or restore in progress has finished
+  async whenIdle(task: () => Promise<void>): Promise<void> {
+    if (!this.busy) return task();
+    this.deferred.push(task);
+  }
+
+  private async exclusive<T>(task: () => Promise<T>): Promise<T> {
+    if (this.busy) throw new Error("A backup or restore is already running");
+    this.busy = true;
+    try {
+      return await task();
+    } finally {
+      this.busy = false;
+      for (const deferredTask of this.deferred.splice(0)) {
+        await deferredTask().catch(error => console.error('Deferred task error:', error));
+      }
+    }
+  }
+
+  zipPath(id: string): string {
+    return path.join(this.backupDir, `${id}.zip`);
+  }
+
+  private infoPath(id: string): string {
+    return path.join(this.backupDir, `${id}.json`);
+  }
+
+  // Newest first
+  async list(): Promise<BackupInfo[]> {
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(this.backupDir);
+    } catch (error: any) {
+      if (error.code === "ENOENT") return [];
+      throw error;
+    }
+
+    const backups: BackupInfo[] = [];
+    for (const name of names.filter(name => name.endsWith(".json"))) {
+      try {
+        backups.push(JSON.parse(await fs.promises.readFile(path.join(this.backupDir, name), "utf8"), snapshotReviver));
+      } catch (error) {
+        console.error(`Unreadable backup details: ${name}`, error);
+      }
+    }
+    return backups.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async get(id: string): Promise<BackupInfo | undefined> {
+    if (!BACKUP_ID.test(id)) return undefined;
+    try {
+      await fs.promises.access(this.zipPath(id));
+      return JSON.parse(await fs.promises.readFile(this.infoPath(id), "utf8"), snapshotReviver);
+    } catch {
+      return undefined;
+    }
+  }
+
+  getStream(backup: BackupInfo): Readable {
+    return fs.createReadStream(this.zipPath(backup.id));
+  }
+
+  async delete(backup: BackupInfo): Promise<void> {
+    await fs.promises.rm(this.zipPath(backup.id), { force: true });
+    await fs.promises.rm(this.infoPath(backup.id), { force: true });
+  }
+
+  async create(trigger: BackupTrigger, createdBy: string | null): Promise<BackupInfo> {
+    return this.exclusive(async () => {
+      const snapshot = await this.storage.getSnapshot();
+      const createdAt = new Date();
+      // Serialized straight away, before a later change to a record could reach it
+      const data = Buffer.from(JSON.stringify(snapshot, snapshotReplacer));
+      const storage = describeStorage();
+      const id = `backup-${createdAt.toISOString().replace(/[:.]/g, "-")}-${randomUUID().slice(0, 8)}`;
+
+      const zip = new JSZip();
+      zip.file(DATA_NAME, data, { binary: true, date: createdAt });
+
+      // Term archive ZIPs and trashed uploads are in the blob store too, so they're kept along with the uploads
+      const keys = Array.from(new Set([
+        ...snapshot.files.map(file => file.fileName),
+        ...snapshot.termArchives.map(archive => archive.fileName),
+        ...snapshot.trashItems.flatMap(item => item.fileNames),
+      ])).sort();
+      const blobs: BackupBlob[] = [];
+      const missingBlobs: string[] = [];
+      for (const key of keys) {
+        zip.file(`blobs/${key}`, openWhenRead(async () => {
+          const blob = await this.blobStore.getStream(key);
+          if (!blob) {
+            missingBlobs.push(key);
+            return Readable.from([]);
+          }
+          return withChecksum(blob.stream, (sha256, size) => blobs.push({ key, size, sha256 }));
+        }), { binary: true, date: createdAt, compression: "STORE" });
+      }
+
+      // Added last so it's written once every checksum is known
+      zip.file(MANIFEST_NAME, openWhenRead(async () => {
+        const manifest: BackupManifest = {
+          format: BACKUP_FORMAT,
+          version: BACKUP_VERSION,
+          createdAt,
+          storage,
+          data: { size: data.length, sha256: createHash("sha256").update(data).digest("hex") },
+          blobs,
+          missingBlobs,
+        };
+        return Readable.from([Buffer.from(JSON.stringify(manifest, snapshotReplacer, 2))]);
+      }), { binary: true, date: createdAt });
+
+      await fs.promises.mkdir(this.backupDir, { recursive: true });
+      const partialPath = `${this.zipPath(id)}.partial`;
+      let sha256 = "";
+      let size = 0;
+      try {
+        await pipeline(
+          withChecksum(zip.generateNodeStream({ type: "nodebuffer", streamFiles: true, compression: "DEFLATE" }), (hash, length) => {
+            sha256 = hash;
+            size = length;
+          }),
+          fs.createWriteStream(partialPath),
+        );
+        await fs.promises.rename(partialPath, this.zipPath(id));
+      } catch (error) {
+        await fs.promises.rm(partialPath, { force: true });
+        throw error;
+      }
+
+      const backup: BackupInfo = {
+        id,
+        createdAt,
+        trigger,
+        createdBy,
+        storage,
+        size,
+        sha256,
+        recordCount: countRecords(snapshot),
+        fileCount: blobs.length,
+        missingFiles: missingBlobs.length,
+      };
+      await fs.promises.writeFile(this.infoPath(id), JSON.stringify(backup, snapshotReplacer, 2));
+      return backup;
+    });
+  }
+
+  // Drop scheduled backups beyond the newest `retention`; ones taken by hand are kept until deleted
+  async prune(retention: number): Promise<BackupInfo[]> {
+    const expired = (await this.list()).filter(backup => backup.trigger === "scheduled").slice(retention);
+    for (const backup of expired) {
+      await this.delete(backup);
+    }
+    return expired;
+  }
+
+  /**
+   * Read a backup and check it against its checksums without changing anything. When the
+   * backup was taken here, its ZIP is first compared with the checksum recorded at the time.
+   */
+  private async open(zipPath: string, expectedSha256?: string): Promise<OpenedBackup | { error: string }> {
+    const { size } = await fs.promises.stat(zipPath);
+    if (size > MAX_BACKUP_RESTORE_SIZE) {
+      return { error: "Backups over 2GB can't be restored here; use the command line" };
+    }
+    if (expectedSha256 && await hashFile(zipPath) !== expectedSha256) {
+      return { error: "The backup file has changed since it was taken" };
+    }
+
+    let zip: JSZip;
+    let manifest: BackupManifest;
+    try {
+      zip = await JSZip.loadAsync(await fs.promises.readFile(zipPath));
+      const entry = zip.file(MANIFEST_NAME);
+      if (!entry) return { error: "This ZIP isn't a backup" };
+      manifest = JSON.parse(await entry.async("string"), snapshotReviver);
+    } catch {
+      return { error: "This file isn't a readable backup" };
+    }
+    if (manifest?.format !== BACKUP_FORMAT) return { error: "This ZIP isn't a backup" };
+    if (manifest.version !== BACKUP_VERSION) return { error: `Backup version ${manifest.version} can't be restored by this server` };
+
+    const data = await readEntry(zip, DATA_NAME);
+    if (!data || sha256Of(data) !== manifest.data.sha256) {
+      return { error: "The backup's records don't match their checksum" };
+    }
+    const snapshot: StorageSnapshot = JSON.parse(data.toString("utf8"), snapshotReviver);
+    snapshot.trashItems ??= []; // backups taken before there was a trash
+    if (snapshotCollections.some(name => !Array.isArray(snapshot[name]))) {
+      return { error: "The backup's records are incomplete" };
+    }
+
+    for (const blob of manifest.blobs) {
+      const contents = await readEntry(zip, `blobs/${blob.key}`);
+      if (!contents || sha256Of(contents) !== blob.sha256) {
+        return { error: `Stored file ${blob.key} doesn't match its checksum` };
+      }
+    }
+
+    // Every record has to point at a file in the backup, or one that was already gone when it was taken
+    const stored = new Set([...manifest.blobs.map(blob => blob.key), ...manifest.missingBlobs]);
+    const unbacked = [
+      ...snapshot.files.map(file => file.fileName),
+      ...snapshot.termArchives.map(archive => archive.fileName),
+      ...snapshot.trashItems.flatMap(item => item.fileNames),
+    ].find(fileName => !stored.has(fileName));
+    if (unbacked) {
+      return { error: `The backup doesn't include stored file ${unbacked}` };
+    }
+
+    return { zip, manifest, snapshot };
+  }
+
+  private summarize({ manifest, snapshot }: OpenedBackup): BackupSummary {
+    return {
+      createdAt: manifest.createdAt,
+      courseCount: snapshot.courses.length,
+      recordCount: countRecords(snapshot),
+      fileCount: manifest.blobs.length,
+    };
+  }
+
+  async verify(zipPath: string, expectedSha256?: string): Promise<{ backup: BackupSummary } | { error: string }> {
+    const opened = await this.open(zipPath, expectedSha256);
+    return "error" in opened ? opened : { backup: this.summarize(opened) };
+  }
+
+  /**
+   * Replace everything stored with a backup. Nothing is changed unless every checksum matches.
+   * Stored files go back first, so no restored record points at a file that isn't there yet;
+   * files the current records use but the backup doesn't are left in the blob store.
+   */
+  async restore(zipPath: string, expectedSha256?: string): Promise<{ backup: BackupSummary } | { error: string }> {
+    return this.exclusive(async () => {
+      const opened = await this.open(zipPath, expectedSha256);
+      if ("error" in opened) return opened;
+
+      await fs.promises.mkdir(uploadStagingDir, { recursive: true });
+      for (const blob of opened.manifest.blobs) {
+        const stagedPath = path.join(uploadStagingDir, `backup-${randomUUID()}`);
+        try {
+          await fs.promises.writeFile(stagedPath, await opened.zip.file(`blobs/${blob.key}`)!.async("nodebuffer"));
+          await this.blobStore.putFile(blob.key, stagedPath, blob.key.endsWith(".zip") ? "application/zip" : undefined);
+        } finally {
+          await fs.promises.rm(stagedPath, { force: true });
+        }
+      }
+
+      await this.storage.restoreSnapshot(opened.snapshot);
+      return { backup: this.summarize(opened) };
+    });
+  }
+}
+
+/**
+ * Take a scheduled backup whenever the newest one is older than the interval, then drop the
+ * oldest beyond the retention count. Checked every few minutes rather than on a fixed timer, so
+ * a backup that fell due while the server was down is taken soon after it starts.
+ */
+export function startBackupScheduler(backups: BackupService, schedule: BackupSchedule): () => void {
+  const intervalMs = (schedule.intervalHours ?? 0) * 60 * 60 * 1000;
+
+  const run = async () => {
+    if (backups.isBusy) return;
+    const latest = (await backups.list()).find(backup => backup.trigger === "scheduled");
+    if (latest && Date.now() - new Date(latest.createdAt).getTime() < intervalMs) return;
+
+    const backup = await backups.create("scheduled", null);
+    const expired = await backups.prune(schedule.retention);
+    await recordAudit(null, {
+      action: "backup.create",
+      targetType: "backup",
+      targetId: backup.id,
+      summary: `Backed up the server as scheduled: ${backup.recordCount} records and ${backup.fileCount} file${backup.fileCount === 1 ? "" : "s"}`
+        + (expired.length > 0 ? `; removed ${expired.length} older ${expired.length === 1 ? "backup" : "backups"}` : ""),
+      after: backup,
+      courseId: null,
+    });
+    log(`Backup ${backup.id} taken (${backup.recordCount} records, ${backup.fileCount} file${backup.fileCount === 1 ? "" : "s"})`, "backup");
+  };
+
+  const check = () => {
+    run().catch(error => {
+      console.error("Backup scheduler error:", error);
+    });
+  };
+
+  check();
+  const timer = setInterval(check, SCHEDULE_CHECK_INTERVAL_MS);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,125 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { Readable } from "stream";
+import { S3BlobStore } from "./s3";
+
+export interface BlobStream {
+  stream: Readable;
+  size: number | null;
+}
+
+/**
+ * Where uploaded file contents live. Keys are the `fileName` stored on each file record;
+ * metadata stays in IStorage.
+ */
+export interface BlobStore {
+  readonly name: string;
+  // Takes ownership of a staged upload: the file at filePath is moved or removed once stored
+  putFile(key: string, filePath: string, contentType?: string): Promise<void>;
+  // Null when nothing is stored under the key
+  getStream(key: string): Promise<BlobStream | null>;
+  // Deleting a missing key is not an error
+  delete(key: string): Promise<void>;
+}
+
+// Multer writes here first; routes hand each file to the blob store once the upload is accepted
+export const uploadStagingDir = path.join(os.tmpdir(), "assignmenthub-uploads");
+
+/**
+ * SHA-256 of a staged upload, streamed so large files aren't read into memory.
+ */
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash("sha256");
+    fs.createReadStream(filePath)
+      .on("data", chunk => hash.update(chunk))
+      .on("end", () => resolve(hash.digest("hex")))
+      .on("error", reject);
+  });
+}
+
+// Uploads are stored by content, so identical files share one blob
+export function contentKey(contentHash: string): string {
+  return `sha256-${contentHash}`;
+}
+
+function assertSafeKey(key: string) {
+  if (!key || path.basename(key) !== key || key === "." || key === "..") {
+    throw new Error(`Invalid blob key: ${key}`);
+  }
+}
+
+export class LocalBlobStore implements BlobStore {
+  readonly name = "local";
+
+  constructor(private readonly rootDir: string) {
+    fs.mkdirSync(rootDir, { recursive: true });
+  }
+
+  private resolve(key: string): string {
+    assertSafeKey(key);
+    return path.join(this.rootDir, key);
+  }
+
+  async putFile(key: string, filePath: string): Promise<void> {
+    const target = this.resolve(key);
+    try {
+      await fs.promises.rename(filePath, target);
+    } catch (error: any) {
+      // The staging directory can be on another filesystem
+      if (error.code !== "EXDEV") throw error;
+      await fs.promises.copyFile(filePath, target);
+      await fs.promises.unlink(filePath);
+    }
+  }
+
+  async getStream(key: string): Promise<BlobStream | null> {
+    const filePath = this.resolve(key);
+    try {
+      const { size } = await fs.promises.stat(filePath);
+      return { stream: fs.createReadStream(filePath), size };
+    } catch (error: any) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.promises.unlink(this.resolve(key));
+    } catch (error: any) {
+      if (error.code !== "ENOENT") throw error;
+    }
+  }
+}
+
+/**
+ * Pick the blob store from BLOB_STORE: "s3" for S3-compatible object storage, otherwise
+ * local disk under UPLOADS_DIR (default ./uploads).
+ */
+export function createBlobStore(): BlobStore {
+  const backend = process.env.BLOB_STORE?.trim().toLowerCase() || "local";
+
+  if (backend === "s3") {
+    const region = process.env.S3_REGION || "us-east-1";
+    const bucket = process.env.S3_BUCKET;
+    const accessKeyId = process.env.S3_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID;
+    const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY;
+    if (!bucket || !accessKeyId || !secretAccessKey) {
+      throw new Error("BLOB_STORE=s3 needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY");
+    }
+
+    const prefix = process.env.S3_PREFIX ? `${process.env.S3_PREFIX.replace(/\/+$/, "")}/` : "";
+    const endpoint = process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`;
+    console.log(`📦 Storing uploaded files in S3 bucket ${bucket} at ${endpoint}`);
+    return new S3BlobStore({ endpoint, region, bucket, accessKeyId, secretAccessKey, prefix });
+  }
+
+  if (backend !== "local") {
+    throw new Error(`Unknown BLOB_STORE "${backend}"; use "local" or "s3"`);
+  }
+
+  return new LocalBlobStore(path.resolve(process.env.UPLOADS_DIR || path.join(process.cwd(), "uploads")));
+}
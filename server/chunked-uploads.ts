@@ -0,0 +1,119 @@
+import { randomUUID } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+
+export interface ChunkedUpload {
+  id: string;
+  owner: string; // who may add chunks and complete the upload; see routes
+  courseId: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  receivedBytes: number;
+  createdAt: string;
+}
+
+// A finished upload in the same shape multer gives for staged files
+export interface StagedUpload {
+  path: string;
+  originalname: string;
+  mimetype: string;
+  size: number;
+}
+
+type NewChunkedUpload = Omit<ChunkedUpload, "id" | "receivedBytes" | "createdAt">;
+
+// Uploads nobody has touched for a day are treated as abandoned
+const ABANDONED_AFTER = 24 * 60 * 60 * 1000;
+const UPLOAD_ID = /^[0-9a-f-]{36}$/;
+
+/**
+ * In-progress chunked uploads, kept next to the multer staging files. Each upload is a
+ * `.part` file holding the bytes received so far plus a `.json` file with its details,
+ * so an upload can be resumed by id after a dropped connection or a server restart.
+ * The part file's size is the source of truth for how much has arrived.
+ */
+export class ChunkedUploadStore {
+  constructor(private readonly dir: string) {}
+
+  private partPath(id: string) {
+    return path.join(this.dir, `${id}.part`);
+  }
+
+  private infoPath(id: string) {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  async create(details: NewChunkedUpload): Promise<ChunkedUpload> {
+    await fs.mkdir(this.dir, { recursive: true });
+    await this.pruneAbandoned();
+
+    const upload: ChunkedUpload = { ...details, id: randomUUID(), receivedBytes: 0, createdAt: new Date().toISOString() };
+    const { receivedBytes, ...info } = upload;
+    await fs.writeFile(this.partPath(upload.id), "");
+    await fs.writeFile(this.infoPath(upload.id), JSON.stringify(info));
+    return upload;
+  }
+
+  async get(id: string): Promise<ChunkedUpload | null> {
+    if (!UPLOAD_ID.test(id)) return null;
+    try {
+      const info = JSON.parse(await fs.readFile(this.infoPath(id), "utf8"));
+      const { size: receivedBytes } = await fs.stat(this.partPath(id));
+      return { ...info, receivedBytes };
+    } catch (error: any) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Write a chunk at `offset`, which may not be past the bytes already received. Resending
+   * a chunk that partly arrived overwrites it, so clients can retry without bookkeeping.
+   * Returns the new number of bytes received.
+   */
+  async writeChunk(upload: ChunkedUpload, offset: number, data: Buffer): Promise<number> {
+    const handle = await fs.open(this.partPath(upload.id), "r+");
+    try {
+      await handle.truncate(offset);
+      await handle.write(data, 0, data.length, offset);
+    } finally {
+      await handle.close();
+    }
+    return offset + data.length;
+  }
+
+  /**
+   * Hand a fully received upload over as a staged file. The upload id stops working and
+   * the caller owns the returned file.
+   */
+  async take(upload: ChunkedUpload): Promise<StagedUpload> {
+    await fs.unlink(this.infoPath(upload.id));
+    return {
+      path: this.partPath(upload.id),
+      originalname: upload.originalName,
+      mimetype: upload.mimeType,
+      size: upload.size,
+    };
+  }
+
+  async discard(id: string): Promise<void> {
+    await Promise.all([this.partPath(id), this.infoPath(id)].map(file => fs.unlink(file).catch(error => {
+      if (error.code !== "ENOENT") throw error;
+    })));
+  }
+
+  private async pruneAbandoned() {
+    const cutoff = Date.now() - ABANDONED_AFTER;
+    const names = await fs.readdir(this.dir);
+    for (const name of names.filter(name => name.endsWith(".part"))) {
+      const id = name.slice(0, -".part".length);
+      try {
+        const { mtimeMs } = await fs.stat(this.partPath(id));
+        if (mtimeMs < cutoff) await this.discard(id);
+      } catch (error) {
+        console.error(`Failed to remove abandoned upload ${id}`, error);
+      }
+    }
+  }
+}
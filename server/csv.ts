@@ -0,0 +1,59 @@
+/**
+ * Split CSV text into rows of fields. Handles quoted fields with embedded commas,
+ * doubled quotes and line breaks, which spreadsheet exports produce for names.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(fields => fields.some(value => value.trim() !== ""));
+}
+
+/**
+ * Format rows as CSV text, quoting any field that needs it. Text that a spreadsheet would
+ * run as a formula (team names, labels, answers are all typed by users) gets a leading `'`
+ * so it opens as plain text; numbers are left as they are.
+ */
+export function formatCsv(rows: (string | number | null | undefined)[][]): string {
+  const escape = (value: string | number | null | undefined) => {
+    let text = value === null || value === undefined ? "" : String(value);
+    if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map(row => row.map(escape).join(",")).join("\r\n") + "\r\n";
+}
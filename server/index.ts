@@ -2,6 +2,7 @@ import express, { type Request, Response, NextFunction } from "express";
 import { config } from "dotenv";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startOpenViewScheduler } from "./scheduler";
 
 // Load environment variables from AssignmentHub.env file
 config({ path: "AssignmentHub.env" });
@@ -69,4 +70,7 @@ app.use((req, res, next) => {
   log(`serving on port ${port}`);
 });
 
+  // Apply scheduled open view reveal/hide times
+  startOpenViewScheduler();
+
 })();
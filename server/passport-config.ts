@@ -2,30 +2,38 @@ import passport from 'passport';
 import { Strategy as LocalStrategy } from 'passport-local';
 import { storage } from './storage';
 import { AuthService } from './auth';
+import { isStaffRole } from '@shared/permissions';
+import type { User } from '@shared/schema';
 
-// Configure Passport Local Strategy for team login
+// Configure Passport Local Strategy for team login; team numbers are only unique within a course
 passport.use('team-login', new LocalStrategy(
   {
     usernameField: 'teamNumber',
-    passwordField: 'password'
+    passwordField: 'password',
+    passReqToCallback: true
   },
-  async (teamNumber, password, done) => {
+  async (req, teamNumber, password, done) => {
     try {
       const teamNum = parseInt(teamNumber);
-      if (isNaN(teamNum) || teamNum < 1 || teamNum > 9) {
+      const course = typeof req.body.courseId === "string" ? await storage.getCourse(req.body.courseId) : undefined;
+      if (!course || course.isArchived === "true") {
+        return done(null, false, { message: 'Please choose your course' });
+      }
+
+      if (isNaN(teamNum) || teamNum < 1 || teamNum > course.maxTeams) {
         return done(null, false, { message: 'Invalid team number' });
       }
 
       // Try database authentication first
-      const user = await storage.getUserByTeam(teamNum);
+      const user = await storage.getUserByTeam(course.id, teamNum);
       
       if (user && user.passwordHash) {
         // Database authentication
         const isValid = await AuthService.verifyPassword(password, user.passwordHash);
         if (isValid && user.isActive === "true") {
           // Update last login
-          await storage.updateUserLogin(teamNum);
-          return done(null, { teamNumber: user.teamNumber, isAdmin: false, teamName: user.teamName });
+          await storage.updateUserLogin(course.id, teamNum);
+          return done(null, { teamNumber: user.teamNumber, isAdmin: false, teamName: user.teamName, courseId: course.id });
         }
       } else if (teamNum) {
         // Fallback to environment variable authentication
@@ -37,14 +45,15 @@ passport.use('team-login', new LocalStrategy(
           let envUser = user;
           if (!envUser) {
             envUser = await storage.createUser({
+              courseId: course.id,
               teamNumber: teamNum,
               isAdmin: "false",
               isActive: "true"
             });
           }
           
-          await storage.updateUserLogin(teamNum);
-          return done(null, { teamNumber: envUser.teamNumber, isAdmin: false, teamName: envUser.teamName });
+          await storage.updateUserLogin(course.id, teamNum);
+          return done(null, { teamNumber: envUser.teamNumber, isAdmin: false, teamName: envUser.teamName, courseId: course.id });
         }
       }
       
@@ -55,19 +64,61 @@ passport.use('team-login', new LocalStrategy(
   }
 ));
 
-// Configure Passport Local Strategy for admin login
+// Session shape for staff accounts; staff act as team 0 for their own uploads in whichever course they have selected
+export function toStaffSessionUser(user: User, courseId: string | null) {
+  return {
+    id: user.id,
+    teamNumber: 0,
+    isAdmin: true,
+    role: user.role,
+    teamName: user.displayName || user.email,
+    email: user.email,
+    courseId,
+  };
+}
+
+// Staff start in the first active course until they switch
+async function getDefaultCourseId(): Promise<string | null> {
+  const courses = await storage.getCourses();
+  return courses.find(course => course.isArchived !== "true")?.id ?? courses[0]?.id ?? null;
+}
+
+// Configure Passport Local Strategy for staff login
 passport.use('admin-login', new LocalStrategy(
   {
-    usernameField: 'password',
+    usernameField: 'email',
     passwordField: 'password'
   },
-  async (password, _, done) => {
+  async (email, password, done) => {
     try {
-      const expectedPassword = process.env.ADMIN_PASSWORD;
-      if (expectedPassword && password === expectedPassword) {
-        return done(null, { teamNumber: 0, isAdmin: true, teamName: "Admin" });
+      const normalizedEmail = email.trim().toLowerCase();
+      const user = await storage.getUserByEmail(normalizedEmail);
+
+      if (user && isStaffRole(user.role) && user.passwordHash) {
+        const isValid = await AuthService.verifyPassword(password, user.passwordHash);
+        if (isValid && user.isActive === "true") {
+          await storage.updateStaffUser(user.id, { lastLogin: new Date() });
+          return done(null, toStaffSessionUser(user, await getDefaultCourseId()));
+        }
+      } else if (!user) {
+        // Bootstrap: until a staff account exists, ADMIN_PASSWORD signs in and becomes the first instructor
+        const expectedPassword = process.env.ADMIN_PASSWORD;
+        const staff = await storage.getStaffUsers();
+        
+        if (staff.length === 0 && expectedPassword && password === expectedPassword) {
+          const instructor = await storage.createUser({
+            email: normalizedEmail,
+            displayName: normalizedEmail.split("@")[0],
+            role: "instructor",
+            passwordHash: await AuthService.hashPassword(password),
+            isAdmin: "true",
+            isActive: "true",
+          });
+          return done(null, toStaffSessionUser(instructor, await getDefaultCourseId()));
+        }
       }
-      return done(null, false, { message: 'Invalid admin password' });
+
+      return done(null, false, { message: 'Invalid email or password' });
     } catch (error) {
       return done(error);
     }
@@ -79,9 +130,21 @@ passport.serializeUser((user: any, done) => {
   done(null, user);
 });
 
-// Deserialize user from session
-passport.deserializeUser((user: any, done) => {
-  done(null, user);
+// Deserialize user from session; staff accounts are re-read so role changes and deactivation apply immediately
+passport.deserializeUser(async (user: any, done) => {
+  try {
+    if (!user.id) {
+      return done(null, user);
+    }
+
+    const staffUser = await storage.getUser(user.id);
+    if (!staffUser || staffUser.isActive !== "true" || !isStaffRole(staffUser.role)) {
+      return done(null, false);
+    }
+    done(null, toStaffSessionUser(staffUser, user.courseId ?? null));
+  } catch (error) {
+    done(error);
+  }
 });
 
 export default passport;
\ No newline at end of file
@@ -0,0 +1,253 @@
+import { execFile } from "child_process";
+import { createWriteStream } from "fs";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { pipeline } from "stream/promises";
+import { promisify } from "util";
+import ExcelJS from "exceljs";
+import mammoth from "mammoth";
+import type { File } from "@shared/schema";
+import { getPreviewKind, type PreviewKind, type PreviewManifest, type PreviewStatus, type SheetPreview } from "@shared/previews";
+import type { BlobStore, BlobStream } from "./blob-store";
+
+const run = promisify(execFile);
+
+// Keeps a huge workbook from turning into a huge JSON response
+const MAX_SHEETS = 10;
+const MAX_SHEET_ROWS = 200;
+const MAX_SHEET_COLUMNS = 30;
+const CONVERSION_TIMEOUT = 2 * 60 * 1000;
+
+// Stored documents are shown in a sandboxed frame; this keeps scripts and remote content out as well
+export const DOCUMENT_PREVIEW_CSP = "default-src 'none'; img-src data:; style-src 'unsafe-inline'";
+
+/**
+ * Converts presentations, PDFs, Word documents and spreadsheets into something the browser
+ * can show: slide images (via LibreOffice and pdftoppm), HTML (mammoth) or sheet tables (ExcelJS).
+ *
+ * Results are stored in the blob store next to the original, under keys derived from its
+ * blob key, so identical uploads share one preview. The manifest is written last; until it
+ * exists a preview is pending. Conversions run one at a time so they don't starve requests.
+ */
+export class PreviewService {
+  private queue: Promise<void> = Promise.resolve();
+  private pending = new Map<string, Promise<void>>();
+  private toolAvailable = new Map<string, Promise<boolean>>();
+
+  constructor(private readonly blobStore: BlobStore) {}
+
+  private manifestKey(fileName: string) {
+    return `${fileName}.preview.json`;
+  }
+
+  private documentKey(fileName: string) {
+    return `${fileName}.preview.html`;
+  }
+
+  private slideKey(fileName: string, slide: number) {
+    return `${fileName}.preview-slide-${slide}.png`;
+  }
+
+  /**
+   * Current preview state for a file. Files without a preview yet (uploaded before previews
+   * existed, or interrupted by a restart) are queued for conversion.
+   */
+  async getStatus(file: File): Promise<PreviewStatus> {
+    const kind = getPreviewKind(file.fileType);
+    if (!kind) return { status: "unsupported" };
+
+    const manifest = await this.readManifest(file.fileName);
+    if (manifest) return manifest;
+
+    if (kind === "slides" && !(await this.canConvertSlides(file.fileType))) {
+      return { status: "unavailable", message: isPdf(file.fileType)
+        ? "Slide previews need pdftoppm (poppler) installed on the server"
+        : "Slide previews need LibreOffice installed on the server" };
+    }
+    this.request(file);
+    return { status: "pending" };
+  }
+
+  // Queue a conversion unless one is already stored or running; resolves once it has finished either way
+  request(file: File): Promise<void> {
+    const kind = getPreviewKind(file.fileType);
+    if (!kind) return Promise.resolve();
+
+    const running = this.pending.get(file.fileName);
+    if (running) return running;
+
+    const conversion = this.queue
+      .then(() => this.convert(file, kind))
+      .catch(error => console.error(`Preview conversion failed for ${file.originalName}:`, error))
+      .finally(() => this.pending.delete(file.fileName));
+    this.pending.set(file.fileName, conversion);
+    this.queue = conversion;
+    return conversion;
+  }
+
+  getDocument(fileName: string): Promise<BlobStream | null> {
+    return this.blobStore.getStream(this.documentKey(fileName));
+  }
+
+  getSlide(fileName: string, slide: number): Promise<BlobStream | null> {
+    return this.blobStore.getStream(this.slideKey(fileName, slide));
+  }
+
+  // Called once the original blob is deleted
+  async delete(fileName: string) {
+    const manifest = await this.readManifest(fileName);
+    if (!manifest || manifest.status !== "ready") {
+      await this.blobStore.delete(this.manifestKey(fileName));
+      return;
+    }
+
+    if (manifest.kind === "slides") {
+      for (let slide = 1; slide <= manifest.slideCount; slide++) {
+        await this.blobStore.delete(this.slideKey(fileName, slide));
+      }
+    }
+    if (manifest.kind === "document") {
+      await this.blobStore.delete(this.documentKey(fileName));
+    }
+    await this.blobStore.delete(this.manifestKey(fileName));
+  }
+
+  private async readManifest(fileName: string): Promise<PreviewManifest | null> {
+    const blob = await this.blobStore.getStream(this.manifestKey(fileName));
+    if (!blob) return null;
+
+    let json = "";
+    for await (const chunk of blob.stream) json += chunk;
+    return JSON.parse(json);
+  }
+
+  private isInstalled(command: string, versionFlag: string): Promise<boolean> {
+    if (!this.toolAvailable.has(command)) {
+      this.toolAvailable.set(command, run(command, [versionFlag], { timeout: 30000 }).then(() => true, () => false));
+    }
+    return this.toolAvailable.get(command)!;
+  }
+
+  // PDFs only need pdftoppm; presentations go through LibreOffice first
+  private async canConvertSlides(fileType: string): Promise<boolean> {
+    if (!(await this.isInstalled(pdftoppmPath(), "-v"))) return false;
+    return isPdf(fileType) || this.isInstalled(libreOfficePath(), "--version");
+  }
+
+  private async convert(file: File, kind: PreviewKind) {
+    if (await this.readManifest(file.fileName)) return;
+    if (kind === "slides" && !(await this.canConvertSlides(file.fileType))) return;
+
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "assignmenthub-preview-"));
+    try {
+      const blob = await this.blobStore.getStream(file.fileName);
+      if (!blob) return;
+      const sourcePath = path.join(workDir, `source${file.fileType.toLowerCase()}`);
+      await pipeline(blob.stream, createWriteStream(sourcePath));
+
+      let manifest: PreviewManifest;
+      try {
+        if (kind === "slides") {
+          manifest = { status: "ready", kind, slideCount: await this.convertSlides(file.fileName, sourcePath, workDir) };
+        } else if (kind === "document") {
+          await this.putText(this.documentKey(file.fileName), await convertDocument(sourcePath, file.originalName), workDir, "text/html");
+          manifest = { status: "ready", kind };
+        } else {
+          manifest = { status: "ready", kind, sheets: await convertSheets(sourcePath) };
+        }
+      } catch (error) {
+        // Damaged or unusual files are not retried on every view
+        console.error(`Could not convert ${file.originalName} for preview:`, error);
+        manifest = { status: "failed", message: "This file couldn't be converted for preview" };
+      }
+
+      await this.putText(this.manifestKey(file.fileName), JSON.stringify(manifest), workDir, "application/json");
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  private async convertSlides(fileName: string, sourcePath: string, workDir: string): Promise<number> {
+    const pdfPath = sourcePath.replace(/\.[^.]+$/, ".pdf");
+    if (pdfPath !== sourcePath) {
+      // A private profile lets conversions run while someone has LibreOffice open on the server
+      const profile = `file://${path.join(workDir, "profile")}`;
+      await run(libreOfficePath(), [`-env:UserInstallation=${profile}`, "--headless", "--convert-to", "pdf", "--outdir", workDir, sourcePath], { timeout: CONVERSION_TIMEOUT });
+    }
+
+    await run(pdftoppmPath(), ["-png", "-scale-to", "1600", pdfPath, path.join(workDir, "slide")], { timeout: CONVERSION_TIMEOUT });
+
+    // pdftoppm pads page numbers to the width of the last one (slide-01.png ... slide-12.png)
+    const slides = (await fs.readdir(workDir))
+      .filter(name => /^slide-\d+\.png$/.test(name))
+      .sort((a, b) => parseInt(a.slice(6)) - parseInt(b.slice(6)));
+    if (slides.length === 0) throw new Error("Conversion produced no slides");
+
+    for (let index = 0; index < slides.length; index++) {
+      await this.blobStore.putFile(this.slideKey(fileName, index + 1), path.join(workDir, slides[index]), "image/png");
+    }
+    return slides.length;
+  }
+
+  private async putText(key: string, text: string, workDir: string, contentType: string) {
+    const filePath = path.join(workDir, key);
+    await fs.writeFile(filePath, text);
+    await this.blobStore.putFile(key, filePath, contentType);
+  }
+}
+
+function isPdf(fileType: string) {
+  return fileType.toLowerCase() === ".pdf";
+}
+
+function libreOfficePath() {
+  return process.env.LIBREOFFICE_PATH || "soffice";
+}
+
+function pdftoppmPath() {
+  return process.env.PDFTOPPM_PATH || "pdftoppm";
+}
+
+function escapeHtml(text: string) {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+async function convertDocument(sourcePath: string, title: string): Promise<string> {
+  const { value } = await mammoth.convertToHtml({ path: sourcePath });
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; line-height: 1.5; max-width: 50rem; margin: 0 auto; padding: 2rem; color: #1f2937; background: #fff; }
+img { max-width: 100%; height: auto; }
+table { border-collapse: collapse; margin: 1rem 0; }
+td, th { border: 1px solid #d1d5db; padding: 0.25rem 0.5rem; vertical-align: top; }
+</style></head>
+<body>${value}</body></html>`;
+}
+
+async function convertSheets(sourcePath: string): Promise<SheetPreview[]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.readFile(sourcePath);
+
+  return workbook.worksheets.slice(0, MAX_SHEETS).map(worksheet => {
+    const rowCount = Math.min(worksheet.rowCount, MAX_SHEET_ROWS);
+    const columnCount = Math.min(worksheet.columnCount, MAX_SHEET_COLUMNS);
+    const rows: string[][] = [];
+    for (let row = 1; row <= rowCount; row++) {
+      const cells: string[] = [];
+      for (let column = 1; column <= columnCount; column++) {
+        cells.push(worksheet.getRow(row).getCell(column).text ?? "");
+      }
+      rows.push(cells);
+    }
+
+    // Trailing empty rows are common in exported sheets
+    while (rows.length > 0 && rows[rows.length - 1].every(cell => !cell)) rows.pop();
+    return {
+      name: worksheet.name,
+      rows,
+      truncated: worksheet.rowCount > MAX_SHEET_ROWS || worksheet.columnCount > MAX_SHEET_COLUMNS,
+    };
+  });
+}
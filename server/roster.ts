@@ -0,0 +1,70 @@
+import { insertTeamMemberSchema, type InsertTeamMember } from "@shared/schema";
+import { parseCsv } from "./csv";
+
+export interface RosterRow {
+  teamNumber: number;
+  member: InsertTeamMember;
+}
+
+export interface ParsedRoster {
+  rows: RosterRow[];
+  errors: string[];
+}
+
+// Header names accepted for each roster column (compared lowercased, spaces and underscores removed)
+const columnAliases: Record<"team" | "name" | "email" | "roll", string[]> = {
+  team: ["team", "teamnumber", "teamno", "group"],
+  name: ["name", "studentname", "fullname", "member"],
+  email: ["email", "emailaddress", "mail"],
+  roll: ["roll", "rollnumber", "rollno", "studentid", "id"],
+};
+
+/**
+ * Parse a roster CSV with a header row naming at least the team and name columns.
+ * Rows that fail validation are reported by line number rather than aborting the import.
+ */
+export function parseRosterCsv(text: string, maxTeams: number): ParsedRoster {
+  const [header, ...lines] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!header) {
+    return { rows: [], errors: ["The file is empty"] };
+  }
+
+  const normalized = header.map(value => value.trim().toLowerCase().replace(/[\s_]/g, ""));
+  const columnIndex = (column: keyof typeof columnAliases) =>
+    normalized.findIndex(value => columnAliases[column].includes(value));
+
+  const teamIndex = columnIndex("team");
+  const nameIndex = columnIndex("name");
+  const emailIndex = columnIndex("email");
+  const rollIndex = columnIndex("roll");
+
+  if (teamIndex === -1 || nameIndex === -1) {
+    return { rows: [], errors: ["The header row must include team and name columns"] };
+  }
+
+  const rows: RosterRow[] = [];
+  const errors: string[] = [];
+
+  lines.forEach((fields, index) => {
+    const line = index + 2; // 1-based, after the header
+    const teamNumber = Number(fields[teamIndex]?.trim());
+    if (!Number.isInteger(teamNumber) || teamNumber < 1 || teamNumber > maxTeams) {
+      errors.push(`Line ${line}: team must be a number between 1 and ${maxTeams}`);
+      return;
+    }
+
+    const result = insertTeamMemberSchema.safeParse({
+      name: fields[nameIndex] ?? "",
+      email: emailIndex === -1 ? null : fields[emailIndex] ?? null,
+      rollNumber: rollIndex === -1 ? null : fields[rollIndex] ?? null,
+    });
+    if (!result.success) {
+      errors.push(`Line ${line}: ${result.error.issues.map(issue => issue.message).join(", ")}`);
+      return;
+    }
+
+    rows.push({ teamNumber, member: result.data });
+  });
+
+  return { rows, errors };
+}
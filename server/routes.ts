@@ -1,37 +1,58 @@
-import type { Express, Request, Response } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertFileSchema, registerUserSchema } from "@shared/schema";
+import { storage, type AuditEventFilter } from "./storage";
+import { insertFileSchema, registerUserSchema, inviteStaffSchema, updateStaffSchema, type File, type User, type Course, type TrashItem, insertAssignmentSchema, updateAssignmentSchema, assignmentScheduleSchema, insertCourseSchema, updateCourseSchema, insertTeamMemberSchema, updateTeamMemberSchema, rubricSchema, saveGradeSchema, savePresentationScheduleSchema, type PresentationSchedule, createCommentSchema, updateCommentSchema, type Comment, type CommentView, type CommentVisibility, savePeerReviewRoundSchema, savePeerReviewSchema, type PeerReviewQuestion } from "@shared/schema";
+import { getSubmissionStatus, validateAssignmentSchedule } from "@shared/deadlines";
+import { describeUploader } from "@shared/duplicates";
+import { isOpenViewAt } from "@shared/open-view";
+import { getGradeTotal, getRubricMaxPoints, validateGradeScores } from "@shared/grading";
+import { hasPermission, type Permission } from "@shared/permissions";
+import { DEFAULT_PRESENTATION_SCHEDULE, formatElapsed, getPlannedSlots, mergeRunningOrder } from "@shared/presentations";
+import { assignReviewers, formatPeerReviewAnswer, validatePeerReviewAnswers } from "@shared/peer-review";
 import { AuthService } from "./auth";
+import { applyDueOpenViewTransitions } from "./scheduler";
+import { recordAudit } from "./audit";
+import { parseRosterCsv } from "./roster";
+import { formatCsv } from "./csv";
+import { createSessionManager, SESSION_MAX_AGE, type ActiveSession } from "./sessions";
+import { createBlobStore, uploadStagingDir, hashFile, contentKey } from "./blob-store";
+import { ChunkedUploadStore, type StagedUpload } from "./chunked-uploads";
+import { PreviewService, DOCUMENT_PREVIEW_CSP } from "./previews";
+import { ThumbnailService } from "./thumbnails";
+import { TextExtractionService } from "./text-extraction";
+import { MAX_ARCHIVE_IMPORT_SIZE, TermArchiveService } from "./archive";
+import { BackupService, getBackupDir, getBackupSchedule, MAX_BACKUP_RESTORE_SIZE, startBackupScheduler } from "./backup";
+import { getTrashRetentionDays, moveTeamToTrash, moveToTrash, restoreFromTrash, startTrashPurger } from "./trash";
+import { MAX_ZIP_DOWNLOAD_IDS, openWhenRead, safeName, uniquePath, versionedFileName } from "./zip";
+import { isAllowedUploadType, MAX_DIRECT_UPLOAD_SIZE, MAX_UPLOAD_SIZE, UPLOAD_CHUNK_SIZE } from "@shared/uploads";
 import multer from "multer";
+import JSZip from "jszip";
 import path from "path";
+import { randomUUID } from "crypto";
 import fs from "fs/promises";
+import { Readable } from "stream";
 import session from "express-session";
-import MemoryStore from "memorystore";
 import passport from './passport-config';
 
-// Configure session store
-const MemoryStoreConstructor = MemoryStore(session);
-
 // Extend Request type to include user session
 declare module "express-session" {
   interface SessionData {
     user?: {
       teamNumber: number;
       isAdmin: boolean;
+      courseId?: string | null;
     };
+    signedInAt?: string; // shown in the admin session list
+    userAgent?: string;
   }
 }
 
-// Configure multer for file uploads
-const uploadsDir = path.join(process.cwd(), 'uploads');
-
-// Ensure uploads directory exists
-fs.mkdir(uploadsDir, { recursive: true }).catch(console.error);
+// Configure multer for file uploads; files are staged locally until the route hands them to the blob store
+fs.mkdir(uploadStagingDir, { recursive: true }).catch(console.error);
 
 const storage_multer = multer.diskStorage({
   destination: function (req, file, cb) {
-    cb(null, uploadsDir);
+    cb(null, uploadStagingDir);
   },
   filename: function (req, file, cb) {
     const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
@@ -39,29 +60,43 @@ const storage_multer = multer.diskStorage({
   }
 });
 
+// Term archives being imported; only checked for being a ZIP here, the service reads the manifest
+const archiveUpload = multer({
+  dest: uploadStagingDir,
+  limits: {
+    fileSize: MAX_ARCHIVE_IMPORT_SIZE,
+  },
+  fileFilter: function (req, file, cb) {
+    if (path.extname(file.originalname).toLowerCase() === ".zip") {
+      cb(null, true);
+    } else {
+      cb(new Error('Term archives are ZIP files.'));
+    }
+  }
+});
+
+// Backups being restored from an upload; the service checks the manifest and checksums
+const backupUpload = multer({
+  dest: uploadStagingDir,
+  limits: {
+    fileSize: MAX_BACKUP_RESTORE_SIZE,
+  },
+  fileFilter: function (req, file, cb) {
+    if (path.extname(file.originalname).toLowerCase() === ".zip") {
+      cb(null, true);
+    } else {
+      cb(new Error('Backups are ZIP files.'));
+    }
+  }
+});
+
 const upload = multer({
   storage: storage_multer,
   limits: {
-    fileSize: 50 * 1024 * 1024, // 50MB limit
+    fileSize: MAX_DIRECT_UPLOAD_SIZE,
   },
   fileFilter: function (req, file, cb) {
-    const allowedTypes = [
-      // Images
-      '.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', '.svg',
-      // Documents
-      '.pdf', '.doc', '.docx', '.txt', '.rtf',
-      // Spreadsheets
-      '.xls', '.xlsx', '.csv',
-      // Presentations
-      '.ppt', '.pptx',
-      // Archives
-      '.zip', '.rar', '.7z',
-      // Other common formats
-      '.json', '.xml', '.html', '.css', '.js', '.ts'
-    ];
-    const ext = path.extname(file.originalname).toLowerCase();
-    
-    if (allowedTypes.includes(ext)) {
+    if (isAllowedUploadType(file.originalname)) {
       cb(null, true);
     } else {
       cb(new Error('File type not supported. Please check the supported file types in the upload interface.'));
@@ -70,18 +105,38 @@ const upload = multer({
 });
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  const blobStore = createBlobStore();
+  const chunkedUploads = new ChunkedUploadStore(path.join(uploadStagingDir, "chunked"));
+  const previews = new PreviewService(blobStore);
+  const thumbnails = new ThumbnailService(blobStore, previews);
+  const textExtraction = new TextExtractionService(blobStore, storage);
+  const termArchives = new TermArchiveService(blobStore, storage);
+  const backups = new BackupService(blobStore, storage, getBackupDir());
+  const backupSchedule = getBackupSchedule();
+  if (backupSchedule.intervalHours) {
+    startBackupScheduler(backups, backupSchedule);
+  }
+  const trashRetentionDays = getTrashRetentionDays();
+  startTrashPurger(purgeTrashItem, trashRetentionDays);
+
+  // Files stored before search read their contents are indexed in the background
+  (async () => {
+    for (const course of await storage.getCourses()) {
+      await textExtraction.backfill(await storage.getAllFiles(course.id));
+    }
+  })().catch(error => console.error('Search index backfill failed:', error));
+
   // Configure session middleware
+  const sessions = createSessionManager();
   app.use(session({
     secret: process.env.SESSION_SECRET || "your-secret-key",
     resave: false,
     saveUninitialized: false,
-    store: new MemoryStoreConstructor({
-      checkPeriod: 86400000 // prune expired entries every 24h
-    }),
+    store: sessions.store,
     cookie: {
       secure: false, // set to true in production with HTTPS
       httpOnly: true,
-      maxAge: 24 * 60 * 60 * 1000 // 24 hours
+      maxAge: SESSION_MAX_AGE
     }
   }));
 
@@ -98,12 +153,164 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }
   
-  function requireAdmin(req: Request, res: Response, next: Function) {
-    if (req.isAuthenticated() && req.user && (req.user as any).isAdmin) {
+  function requirePermission(permission: Permission) {
+    return (req: Request, res: Response, next: Function) => {
+      if (req.isAuthenticated() && hasPermission(req.user as any, permission)) {
+        next();
+      } else {
+        res.status(403).json({ message: "You don't have permission to do that" });
+      }
+    };
+  }
+
+  // Course-owned data is always read and written within the signed-in user's active course
+  function requireCourse(req: Request, res: Response, next: Function) {
+    if ((req.user as any)?.courseId) {
       next();
     } else {
-      res.status(403).json({ message: "Admin access required" });
+      res.status(409).json({ message: "Select a course first" });
+    }
+  }
+
+  // Destructive actions ask staff to re-enter their own password
+  async function verifyStaffPassword(user: any, password: unknown): Promise<boolean> {
+    if (!user?.id || typeof password !== "string" || !password) return false;
+    const staffUser = await storage.getUser(user.id);
+    return !!staffUser?.passwordHash && await AuthService.verifyPassword(password, staffUser.passwordHash);
+  }
+
+  // Remove staged uploads that were rejected; files already handed to the blob store are gone by now
+  async function discardStagedUploads(files: StagedUpload[]) {
+    await Promise.all(files.map(file => fs.unlink(file.path).catch(error => {
+      if (error.code !== "ENOENT") console.error(error);
+    })));
+  }
+
+  // Tasks that count a blob's references and then act on the count run one at a time per blob,
+  // so an upload can't reuse a blob that a removal has just found unused and is deleting
+  const blobLocks = new Map<string, Promise<unknown>>();
+  function withBlobLock<T>(fileName: string, task: () => Promise<T>): Promise<T> {
+    const run = (blobLocks.get(fileName) ?? Promise.resolve()).then(task);
+    const settled = run.catch(() => {});
+    blobLocks.set(fileName, settled);
+    settled.then(() => {
+      if (blobLocks.get(fileName) === settled) blobLocks.delete(fileName);
+    });
+    return run;
+  }
+
+  // Identical uploads share one blob, so it is only removed along with the last file row or trash
+  // item using it. A backup in progress may still be copying it, in which case it goes once the backup is done.
+  async function removeBlobIfUnused(fileName: string) {
+    await backups.whenIdle(() => withBlobLock(fileName, async () => {
+      if (await storage.getFileReferenceCount(fileName) > 0) return;
+      try {
+        await blobStore.delete(fileName);
+        await previews.delete(fileName);
+        await thumbnails.delete(fileName);
+        await storage.deleteFileText(fileName);
+      } catch (error) {
+        console.error(`Failed to delete stored file: ${fileName}`, error);
+      }
+    }));
+  }
+
+  // For deletions that skip the trash, like closing a term
+  async function deleteFileAndBlob(file: File): Promise<boolean> {
+    const deleted = await storage.deleteFile(file.id);
+    if (deleted) await removeBlobIfUnused(file.fileName);
+    return deleted;
+  }
+
+  // Deleting a trash item for good is the point where its files' blobs can go
+  async function purgeTrashItem(item: TrashItem) {
+    if (!(await storage.deleteTrashItem(item.id))) return;
+    for (const fileName of item.fileNames) {
+      await removeBlobIfUnused(fileName);
+    }
+  }
+
+  function recordSignIn(req: Request) {
+    req.session.signedInAt = new Date().toISOString();
+    req.session.userAgent = req.get("user-agent")?.slice(0, 200);
+  }
+
+  // Staff sessions are shown in every course; team sessions only in their own
+  function isSessionInCourse(active: ActiveSession, courseId: string | null | undefined): boolean {
+    return active.role !== "team" || (!!courseId && active.courseId === courseId);
+  }
+
+  // Sign a team out everywhere, e.g. after its account is deleted or its password leaked
+  async function revokeTeamSessions(courseId: string, teamNumber?: number): Promise<number> {
+    const teamSessions = (await sessions.listSessions()).filter(active =>
+      active.role === "team" && active.courseId === courseId &&
+      (teamNumber === undefined || active.teamNumber === teamNumber)
+    );
+    for (const active of teamSessions) {
+      await sessions.revokeSession(active.id);
+    }
+    return teamSessions.length;
+  }
+
+  // Teams see their own files, visible admin files, other teams' files in open view assignments,
+  // and the submissions they were assigned to peer review
+  async function canViewFile(user: any, file: File): Promise<boolean> {
+    return await canBrowseFile(user, file) || await isReviewingFile(user, file);
+  }
+
+  async function canBrowseFile(user: any, file: File): Promise<boolean> {
+    if (hasPermission(user, "files.viewAll") || file.teamNumber === user.teamNumber) return true;
+    if (file.teamNumber === 0) return file.isVisible === "true";
+    const assignmentSetting = await storage.getAssignmentSetting(file.assignmentId);
+    return !!assignmentSetting && isOpenViewAt(assignmentSetting);
+  }
+
+  // Review access only lets a team look: commenting would tell the reviewed team who the reviewer is
+  async function isReviewingFile(user: any, file: File): Promise<boolean> {
+    if (user.isAdmin || file.teamNumber === 0) return false;
+    const reviews = await storage.getPeerReviews(user.courseId, { reviewerTeamNumber: user.teamNumber, revieweeTeamNumber: file.teamNumber });
+    return reviews.some(review => review.assignmentId === file.assignmentId);
+  }
+
+  // Staff read every comment; teams read open comments plus private feedback on their own files
+  function canReadComment(user: any, file: File, comment: Comment): boolean {
+    if (hasPermission(user, "files.viewAll")) return true;
+    return comment.visibility === "everyone" || (comment.visibility === "team" && file.teamNumber === user.teamNumber);
+  }
+
+  // Team accounts are shared, so any member of the authoring team counts as the author
+  function isCommentAuthor(user: any, comment: Comment): boolean {
+    return user.isAdmin ? comment.authorUserId === user.id : comment.authorTeamNumber === user.teamNumber;
+  }
+
+  // Visibilities the user may pick when starting a thread on a file; none when they can't comment
+  async function commentVisibilitiesFor(user: any, file: File): Promise<CommentVisibility[]> {
+    if (user.isAdmin) {
+      if (!hasPermission(user, "comments.manage")) return [];
+      return file.teamNumber === 0 ? ["everyone", "staff"] : ["everyone", "team", "staff"];
     }
+    if (file.teamNumber === user.teamNumber) return ["everyone", "team"];
+    return await canBrowseFile(user, file) ? ["everyone"] : [];
+  }
+
+  function toCommentView(user: any, file: File, comment: Comment): CommentView {
+    const isAuthor = isCommentAuthor(user, comment);
+    const canManage = hasPermission(user, "comments.manage");
+    return {
+      ...comment,
+      canEdit: isAuthor,
+      canDelete: isAuthor || canManage,
+      canResolve: !comment.parentId && (isAuthor || canManage || (!user.isAdmin && file.teamNumber === user.teamNumber)),
+    };
+  }
+
+  // A comment and its file, or null when the signed-in user can't see them
+  async function getVisibleComment(user: any, id: string): Promise<{ comment: Comment; file: File } | null> {
+    const comment = await storage.getComment(id);
+    if (!comment || comment.courseId !== user.courseId) return null;
+    const file = await storage.getFileById(user.courseId, comment.fileId);
+    if (!file || !(await canViewFile(user, file)) || !canReadComment(user, file, comment)) return null;
+    return { comment, file };
   }
   
   // Team registration
@@ -117,17 +324,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const { teamNumber, teamName, password } = result.data;
+      const { teamNumber, teamName, password, joinCode } = result.data;
+
+      const course = await storage.getCourseByJoinCode(joinCode);
+      if (!course || course.isArchived === "true") {
+        return res.status(404).json({ message: "No open course matches that join code" });
+      }
+
+      if (teamNumber > course.maxTeams) {
+        return res.status(400).json({ message: `Team number must be between 1 and ${course.maxTeams}` });
+      }
 
       // Check if team number is already taken
-      const existingUser = await storage.getUserByTeam(teamNumber);
+      const existingUser = await storage.getUserByTeam(course.id, teamNumber);
       if (existingUser && existingUser.passwordHash) {
         return res.status(409).json({ message: "Team number already registered" });
       }
 
       // Check if team name is available (only if team name is provided)
       if (teamName && teamName.trim()) {
-        const isTeamNameAvailable = await storage.checkTeamNameAvailable(teamName);
+        const isTeamNameAvailable = await storage.checkTeamNameAvailable(course.id, teamName);
         if (!isTeamNameAvailable) {
           return res.status(409).json({ message: "Team name already taken" });
         }
@@ -160,11 +376,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let user;
       if (existingUser) {
         // Update existing user with new registration data
-        await storage.updateUserPassword(teamNumber, passwordHash);
-        user = await storage.getUserByTeam(teamNumber);
+        await storage.updateUserPassword(course.id, teamNumber, passwordHash);
+        user = await storage.getUserByTeam(course.id, teamNumber);
       } else {
         // Create new user
         user = await storage.createUser({
+          courseId: course.id,
           teamNumber,
           teamName: teamName?.trim() || null,
           passwordHash,
@@ -173,11 +390,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      await recordAudit(req, {
+        action: "team.register",
+        targetType: "team",
+        targetId: user?.id,
+        teamNumber,
+        summary: existingUser ? `Registered Team ${teamNumber}, which was on the roster` : `Registered Team ${teamNumber}`,
+        after: user,
+        courseId: course.id,
+        actor: { teamNumber, teamName: user?.teamName },
+      });
+
       res.status(201).json({ 
         message: "Team registered successfully",
         team: {
           teamNumber: user?.teamNumber,
-          teamName: user?.teamName
+          teamName: user?.teamName,
+          courseId: course.id,
+          courseName: course.name
         }
       });
     } catch (error) {
@@ -196,10 +426,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: info?.message || "Invalid credentials" });
       }
       
-      req.logIn(user, (err) => {
+      req.logIn(user, async (err) => {
         if (err) {
           return res.status(500).json({ message: "Login error" });
         }
+        recordSignIn(req);
+        await recordAudit(req, { action: "auth.login", targetType: "session", targetId: req.sessionID, summary: "Signed in" });
         return res.json({ 
           message: "Login successful", 
           user: user
@@ -215,13 +447,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(500).json({ message: "Admin login error" });
       }
       if (!user) {
-        return res.status(401).json({ message: info?.message || "Invalid admin password" });
+        return res.status(401).json({ message: info?.message || "Invalid email or password" });
       }
       
-      req.logIn(user, (err) => {
+      req.logIn(user, async (err) => {
         if (err) {
           return res.status(500).json({ message: "Login error" });
         }
+        recordSignIn(req);
+        await recordAudit(req, { action: "auth.login", targetType: "session", targetId: req.sessionID, summary: "Signed in" });
         return res.json({ 
           message: "Admin login successful", 
           user: user
@@ -241,57 +475,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 
   // Get all teams (admin only)
-  app.get("/api/admin/teams", requireAdmin, async (req, res) => {
-    console.log('DEBUG: Teams endpoint called');
+  app.get("/api/admin/teams", requirePermission("teams.view"), requireCourse, async (req, res) => {
     try {
-      console.log('DEBUG: About to call storage.getAllUsers()');
       let users = [];
       
       try {
-        users = await storage.getAllUsers();
-        console.log('DEBUG: Raw users from storage:', users);
-        console.log('DEBUG: Users is array?', Array.isArray(users));
-      } catch (error) {
-        console.log('DEBUG: No users found, returning empty array:', (error as Error).message);
+        users = await storage.getAllUsers((req.user as any).courseId);
+      } catch {
         return res.json([]);
       }
       
       if (!Array.isArray(users)) {
-        console.error('DEBUG: Users is not an array!');
         return res.json([]);
       }
       
+      const members = await storage.getTeamMembers((req.user as any).courseId);
+      const membersOf = (teamNumber: number) => members.filter(member => member.teamNumber === teamNumber);
+
       const teams = users
-        .filter(user => user.teamNumber !== 0) // Exclude admin
+        .filter(user => user.role === "team" && user.teamNumber !== null) // Exclude staff accounts
         .map(user => ({
-          teamNumber: user.teamNumber,
+          teamNumber: user.teamNumber!,
           teamName: user.teamName || `Team ${user.teamNumber}`,
           hasPassword: !!user.passwordHash,
           lastLogin: user.lastLogin,
-          createdAt: user.createdAt,
-          isActive: user.isActive === "true"
+          createdAt: user.createdAt as Date | null,
+          isActive: user.isActive === "true",
+          members: membersOf(user.teamNumber!)
         }));
-      console.log('DEBUG: Processed teams:', teams);
+
+      // Imported rosters can name teams that have not registered yet
+      const rosterOnlyTeams = Array.from(new Set(members.map(member => member.teamNumber)))
+        .filter(teamNumber => !teams.some(team => team.teamNumber === teamNumber))
+        .map(teamNumber => ({
+          teamNumber,
+          teamName: `Team ${teamNumber}`,
+          hasPassword: false,
+          lastLogin: null,
+          createdAt: null,
+          isActive: true,
+          members: membersOf(teamNumber)
+        }));
+      teams.push(...rosterOnlyTeams);
+      teams.sort((a, b) => a.teamNumber - b.teamNumber);
       res.json(teams);
     } catch (error) {
-      console.error('DEBUG: Teams endpoint error:', error);
+      console.error('Get teams error:', error);
       res.status(500).json({ message: "Failed to retrieve teams", error: (error as Error).message });
     }
   });
 
   // Delete all files for a specific team (admin only)
-  app.delete("/api/admin/teams/:teamNumber/files", requireAdmin, async (req, res) => {
+  app.delete("/api/admin/teams/:teamNumber/files", requirePermission("teams.manage"), requireCourse, async (req, res) => {
     try {
       const { adminPassword } = req.body;
       const teamNumber = parseInt(req.params.teamNumber);
-      const expectedPassword = process.env.ADMIN_PASSWORD || process.env.ADMIN_DELETE_PASSWORD;
-      
-      if (!expectedPassword) {
-        return res.status(500).json({ message: "Admin password not configured" });
-      }
 
-      if (adminPassword !== expectedPassword) {
-        return res.status(401).json({ message: "Invalid admin password" });
+      if (!(await verifyStaffPassword(req.user, adminPassword))) {
+        return res.status(401).json({ message: "Invalid password" });
       }
 
       if (isNaN(teamNumber)) {
@@ -299,26 +540,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Get all files for the team
-      const teamFiles = await storage.getFilesByTeam(teamNumber);
-      
-      // Delete files from disk and database
-      const uploadDir = path.join(process.cwd(), 'uploads');
-      let deletedCount = 0;
-      
-      for (const file of teamFiles) {
-        const filePath = path.join(uploadDir, file.fileName);
-        try {
-          await fs.unlink(filePath);
-        } catch (error) {
-          console.error(`Failed to delete file from disk: ${file.fileName}`, error);
-        }
-        
-        const deleted = await storage.deleteFile(file.id);
-        if (deleted) deletedCount++;
+      const teamFiles = await storage.getFilesByTeam((req.user as any).courseId, teamNumber);
+      const deletedCount = teamFiles.length;
+      if (deletedCount > 0) {
+        await moveToTrash((req.user as any).courseId, req.user as any, {
+          kind: "files",
+          teamNumber,
+          summary: `${deletedCount} file${deletedCount === 1 ? "" : "s"} of Team ${teamNumber}`,
+          files: teamFiles,
+        });
       }
 
+      await recordAudit(req, {
+        action: "team.deleteFiles",
+        targetType: "team",
+        teamNumber,
+        summary: `Moved ${deletedCount} file${deletedCount === 1 ? "" : "s"} of Team ${teamNumber} to the trash`,
+        before: teamFiles,
+      });
+
       res.json({ 
-        message: `Deleted ${deletedCount} files for Team ${teamNumber}`,
+        message: `Moved ${deletedCount} files for Team ${teamNumber} to the trash`,
         deletedCount
       });
     } catch (error) {
@@ -328,43 +570,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete team (admin only)
-  app.delete("/api/admin/teams/:teamNumber", requireAdmin, async (req, res) => {
+  app.delete("/api/admin/teams/:teamNumber", requirePermission("teams.manage"), requireCourse, async (req, res) => {
     try {
       const { adminPassword } = req.body;
       const teamNumber = parseInt(req.params.teamNumber);
-      const expectedPassword = process.env.ADMIN_PASSWORD || process.env.ADMIN_DELETE_PASSWORD;
-      
-      if (!expectedPassword) {
-        return res.status(500).json({ message: "Admin password not configured" });
-      }
+      const courseId = (req.user as any).courseId;
 
-      if (adminPassword !== expectedPassword) {
-        return res.status(401).json({ message: "Invalid admin password" });
+      if (!(await verifyStaffPassword(req.user, adminPassword))) {
+        return res.status(401).json({ message: "Invalid password" });
       }
 
       if (isNaN(teamNumber) || teamNumber === 0) {
         return res.status(400).json({ message: "Invalid team number" });
       }
 
-      // First delete all team files
-      const teamFiles = await storage.getFilesByTeam(teamNumber);
-      const uploadDir = path.join(process.cwd(), 'uploads');
-      
-      for (const file of teamFiles) {
-        const filePath = path.join(uploadDir, file.fileName);
-        try {
-          await fs.unlink(filePath);
-        } catch (error) {
-          console.error(`Failed to delete file from disk: ${file.fileName}`, error);
-        }
-        await storage.deleteFile(file.id);
-      }
-
-      // Delete team user (if exists in database)
-      await storage.deleteUser(teamNumber);
+      // The team, its roster, files, grades and reviews go to the trash together
+      const item = await moveTeamToTrash(courseId, teamNumber, req.user as any);
+      const { team: teamUser, members: teamMembers, files: teamFiles } = item.records;
+      await revokeTeamSessions(courseId, teamNumber);
+
+      await recordAudit(req, {
+        action: "team.delete",
+        targetType: "team",
+        targetId: teamUser?.id,
+        teamNumber,
+        summary: `Moved Team ${teamNumber} with ${teamFiles.length} file${teamFiles.length === 1 ? "" : "s"} to the trash`,
+        before: { team: teamUser ?? null, members: teamMembers, files: teamFiles },
+      });
 
       res.json({ 
-        message: `Team ${teamNumber} deleted successfully`,
+        message: `Team ${teamNumber} moved to the trash`,
         filesDeleted: teamFiles.length
       });
     } catch (error) {
@@ -373,21 +608,187 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Reset server for new semester (admin only)
-  app.post("/api/admin/reset-server", requireAdmin, async (req, res) => {
+  // Team rosters: teams maintain their own members, staff can edit any team's
+  function canAccessRoster(user: any, teamNumber: number, permission: Permission): boolean {
+    return user.isAdmin ? hasPermission(user, permission) : user.teamNumber === teamNumber;
+  }
+
+  async function parseRosterTeam(req: Request): Promise<number | null> {
+    const teamNumber = parseInt(req.params.teamNumber);
+    const course = await storage.getCourse((req.user as any).courseId);
+    return course && !isNaN(teamNumber) && teamNumber >= 1 && teamNumber <= course.maxTeams ? teamNumber : null;
+  }
+
+  app.get("/api/teams/:teamNumber/members", requireAuth, requireCourse, async (req, res) => {
     try {
-      const { adminPassword, confirmText } = req.body;
-      const expectedPassword = process.env.ADMIN_PASSWORD || process.env.ADMIN_DELETE_PASSWORD;
-      
-      if (!expectedPassword) {
-        return res.status(500).json({ message: "Admin password not configured" });
+      const teamNumber = await parseRosterTeam(req);
+      if (teamNumber === null) {
+        return res.status(400).json({ message: "Invalid team number" });
+      }
+      if (!canAccessRoster(req.user, teamNumber, "teams.view")) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      res.json(await storage.getTeamMembers((req.user as any).courseId, teamNumber));
+    } catch (error) {
+      console.error('Team members error:', error);
+      res.status(500).json({ message: "Failed to retrieve team members" });
+    }
+  });
+
+  app.post("/api/teams/:teamNumber/members", requireAuth, requireCourse, async (req, res) => {
+    try {
+      const teamNumber = await parseRosterTeam(req);
+      if (teamNumber === null) {
+        return res.status(400).json({ message: "Invalid team number" });
+      }
+      if (!canAccessRoster(req.user, teamNumber, "teams.manage")) {
+        return res.status(403).json({ message: "Can only edit your own team" });
+      }
+
+      const result = insertTeamMemberSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid member data", 
+          errors: result.error.issues.map(issue => issue.message)
+        });
+      }
+
+      const member = await storage.createTeamMember((req.user as any).courseId, teamNumber, result.data);
+      await recordAudit(req, {
+        action: "member.add",
+        targetType: "member",
+        targetId: member.id,
+        teamNumber,
+        summary: `Added ${member.name} to Team ${teamNumber}`,
+        after: member,
+      });
+      res.status(201).json(member);
+    } catch (error) {
+      console.error('Add team member error:', error);
+      res.status(500).json({ message: "Failed to add team member" });
+    }
+  });
+
+  app.put("/api/teams/:teamNumber/members/:id", requireAuth, requireCourse, async (req, res) => {
+    try {
+      const member = await storage.getTeamMember((req.user as any).courseId, req.params.id);
+      if (!member || member.teamNumber !== parseInt(req.params.teamNumber)) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+      if (!canAccessRoster(req.user, member.teamNumber, "teams.manage")) {
+        return res.status(403).json({ message: "Can only edit your own team" });
+      }
+
+      const result = updateTeamMemberSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid member data", 
+          errors: result.error.issues.map(issue => issue.message)
+        });
+      }
+
+      const updated = await storage.updateTeamMember(member.id, result.data);
+      await recordAudit(req, {
+        action: "member.update",
+        targetType: "member",
+        targetId: member.id,
+        teamNumber: member.teamNumber,
+        summary: `Updated ${member.name} on Team ${member.teamNumber}`,
+        before: member,
+        after: updated,
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error('Update team member error:', error);
+      res.status(500).json({ message: "Failed to update team member" });
+    }
+  });
+
+  app.delete("/api/teams/:teamNumber/members/:id", requireAuth, requireCourse, async (req, res) => {
+    try {
+      const member = await storage.getTeamMember((req.user as any).courseId, req.params.id);
+      if (!member || member.teamNumber !== parseInt(req.params.teamNumber)) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+      if (!canAccessRoster(req.user, member.teamNumber, "teams.manage")) {
+        return res.status(403).json({ message: "Can only edit your own team" });
+      }
+
+      await storage.deleteTeamMember(member.id);
+      await recordAudit(req, {
+        action: "member.remove",
+        targetType: "member",
+        targetId: member.id,
+        teamNumber: member.teamNumber,
+        summary: `Removed ${member.name} from Team ${member.teamNumber}`,
+        before: member,
+      });
+      res.json({ message: `${member.name} removed from Team ${member.teamNumber}` });
+    } catch (error) {
+      console.error('Delete team member error:', error);
+      res.status(500).json({ message: "Failed to remove team member" });
+    }
+  });
+
+  // Import rosters from CSV; every team named in the file has its members replaced
+  app.post("/api/admin/teams/members/import", requirePermission("teams.manage"), requireCourse, async (req, res) => {
+    try {
+      const courseId = (req.user as any).courseId;
+      const course = await storage.getCourse(courseId);
+      if (!course) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+      if (typeof req.body.csv !== "string" || !req.body.csv.trim()) {
+        return res.status(400).json({ message: "Choose a CSV file to import" });
+      }
+
+      const { rows, errors } = parseRosterCsv(req.body.csv, course.maxTeams);
+      if (errors.length > 0) {
+        return res.status(400).json({ message: "The roster has errors; nothing was imported", errors });
+      }
+      if (rows.length === 0) {
+        return res.status(400).json({ message: "The roster has no members" });
+      }
+
+      const teamNumbers = Array.from(new Set(rows.map(row => row.teamNumber))).sort((a, b) => a - b);
+      const previousMembers = (await storage.getTeamMembers(courseId)).filter(member => teamNumbers.includes(member.teamNumber));
+      for (const teamNumber of teamNumbers) {
+        await storage.replaceTeamMembers(courseId, teamNumber, rows
+          .filter(row => row.teamNumber === teamNumber)
+          .map(row => row.member));
       }
 
-      if (adminPassword !== expectedPassword) {
-        return res.status(401).json({ message: "Invalid admin password" });
+      await recordAudit(req, {
+        action: "roster.import",
+        targetType: "roster",
+        summary: `Imported ${rows.length} members for teams ${teamNumbers.join(", ")}`,
+        before: previousMembers,
+        after: rows.map(row => ({ teamNumber: row.teamNumber, ...row.member })),
+      });
+
+      res.json({ 
+        message: `Imported ${rows.length} members across ${teamNumbers.length} teams`,
+        membersImported: rows.length,
+        teamsUpdated: teamNumbers
+      });
+    } catch (error) {
+      console.error('Roster import error:', error);
+      res.status(500).json({ message: "Failed to import roster" });
+    }
+  });
+
+  // Close the term: archive the course, then clear it for the next class
+  app.post("/api/admin/close-term", requirePermission("server.reset"), requireCourse, async (req, res) => {
+    try {
+      const { adminPassword, confirmText } = req.body;
+      const courseId = (req.user as any).courseId;
+
+      if (!(await verifyStaffPassword(req.user, adminPassword))) {
+        return res.status(401).json({ message: "Invalid password" });
       }
 
-      if (confirmText !== "RESET ALL DATA") {
+      if (confirmText !== "CLOSE TERM") {
         return res.status(400).json({ message: "Confirmation text incorrect" });
       }
 
@@ -397,16 +798,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let hasAssignments = false;
 
       try {
-        allFiles = await storage.getAllFiles();
+        allFiles = await storage.getAllFiles(courseId);
       } catch (error) {
         console.log('No files to delete or error fetching files:', (error as Error).message);
         allFiles = [];
       }
 
       try {
-        allUsers = await storage.getAllUsers();
-        // Filter out admin from count
-        allUsers = allUsers.filter(user => user.teamNumber !== 0);
+        allUsers = await storage.getAllUsers(courseId);
+        // Staff accounts survive a reset; only team accounts are removed
+        allUsers = allUsers.filter(user => user.role === "team");
       } catch (error) {
         console.log('No users to delete or error fetching users:', (error as Error).message);
         allUsers = [];
@@ -414,15 +815,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Check if assignment settings exist
       try {
-        const assignments = await storage.getAllAssignmentSettings();
+        const assignments = await storage.getAssignmentSettings(courseId);
         hasAssignments = assignments && assignments.length > 0;
       } catch (error) {
         console.log('No assignment settings to reset or error fetching settings:', (error as Error).message);
         hasAssignments = false;
       }
 
+      const rosterMembers = await storage.getTeamMembers(courseId);
+
       // If everything is empty, return early with appropriate message
-      if (allFiles.length === 0 && allUsers.length === 0 && !hasAssignments) {
+      if (allFiles.length === 0 && allUsers.length === 0 && rosterMembers.length === 0 && !hasAssignments) {
         return res.json({ 
           message: "No data to reset - server is already clean",
           filesDeleted: 0,
@@ -432,24 +835,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      // Nothing is cleared unless the archive was stored
+      const course = await storage.getCourse(courseId);
+      let archive;
+      try {
+        archive = await termArchives.create(course!, (req.user as any).teamName ?? null);
+      } catch (error) {
+        console.error('Term archive error:', error);
+        return res.status(500).json({ message: "Failed to archive the course; nothing was deleted" });
+      }
+      await recordAudit(req, {
+        action: "archive.create",
+        targetType: "archive",
+        targetId: archive.id,
+        summary: `Archived ${archive.courseName} before closing the term: ${archive.fileCount} files, ${archive.teamCount} teams`,
+        after: archive,
+      });
+
       let filesDeleted = 0;
       let usersDeleted = 0;
       let assignmentsReset = 0;
 
       // Delete files if any exist
       if (allFiles.length > 0) {
-        const uploadDir = path.join(process.cwd(), 'uploads');
-        
         for (const file of allFiles) {
-          const filePath = path.join(uploadDir, file.fileName);
-          try {
-            await fs.unlink(filePath);
-            filesDeleted++;
-          } catch (error) {
-            console.error(`Failed to delete file from disk: ${file.fileName}`, error);
-          }
           try {
-            await storage.deleteFile(file.id);
+            if (await deleteFileAndBlob(file)) filesDeleted++;
           } catch (error) {
             console.error(`Failed to delete file from database: ${file.id}`, error);
           }
@@ -460,7 +871,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (allUsers.length > 0) {
         for (const user of allUsers) {
           try {
-            const deleted = await storage.deleteUser(user.teamNumber);
+            const deleted = await storage.deleteUser(courseId, user.teamNumber);
             if (deleted) usersDeleted++;
           } catch (error) {
             console.error(`Failed to delete user ${user.teamNumber}:`, error);
@@ -468,16 +879,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      // Clear team rosters, including teams that never registered, their grades, presentation times
+      // and peer reviews; review forms are kept for the next class
+      for (const member of rosterMembers) {
+        await storage.deleteTeamMember(member.id);
+      }
+      await storage.deleteGrades(courseId);
+      await storage.deletePresentationLogs(courseId);
+      await storage.deletePeerReviews(courseId);
+      for (const round of await storage.getPeerReviewRounds(courseId)) {
+        await storage.updatePeerReviewRound(round.id, { status: "draft", isReleased: "false" });
+      }
+      await revokeTeamSessions(courseId);
+
       // Reset assignment settings to closed (preserve the settings, just reset flags)
       if (hasAssignments) {
-        const existingAssignments = await storage.getAllAssignmentSettings();
+        const existingAssignments = await storage.getAssignmentSettings(courseId);
         
         for (const setting of existingAssignments) {
           try {
-            await storage.updateAssignmentSetting(setting.assignment, false);
+            await storage.updateAssignmentSetting(setting.assignmentId, false);
+            await storage.updateAssignmentSchedule(setting.assignmentId, { revealAt: null, hideAt: null });
+            await storage.updateAssignment(courseId, setting.assignmentId, { gradesReleased: "false" });
             assignmentsReset++;
           } catch (error) {
-            console.error(`Failed to reset assignment setting: ${setting.assignment}`, error);
+            console.error(`Failed to reset assignment setting: ${setting.assignmentId}`, error);
           }
         }
       }
@@ -489,294 +915,2826 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (assignmentsReset > 0) actions.push(`${assignmentsReset} assignments reset`);
 
       const message = actions.length > 0 
-        ? `Server reset successful: ${actions.join(', ')}`
-        : "Server reset completed - no data needed to be cleared";
+        ? `Term closed and archived: ${actions.join(', ')}`
+        : "Term archived - no data needed to be cleared";
+
+      await recordAudit(req, {
+        action: "course.reset",
+        targetType: "course",
+        targetId: courseId,
+        summary: `Reset the course: ${filesDeleted} files, ${usersDeleted} teams and ${rosterMembers.length} roster members deleted, ${assignmentsReset} assignments closed`,
+        before: { teams: allUsers, members: rosterMembers, files: allFiles },
+      });
 
       res.json({ 
         message,
+        archive,
         filesDeleted,
         usersDeleted,
         assignmentsReset,
         details: actions.length > 0 ? `Processed: ${actions.join(', ')}` : "No data required processing"
       });
     } catch (error) {
-      console.error('Server reset error:', error);
-      res.status(500).json({ message: "Failed to reset server" });
+      console.error('Close term error:', error);
+      res.status(500).json({ message: "Failed to close the term" });
     }
   });
 
-  // Change password
-  app.put("/api/user/password", requireAuth, async (req, res) => {
+  // Staff accounts (instructors only)
+  const STAFF_INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+  const toStaffSummary = (user: User) => ({
+    id: user.id,
+    email: user.email,
+    displayName: user.displayName,
+    role: user.role,
+    isActive: user.isActive === "true",
+    invitePending: !!user.passwordResetToken,
+    hasPassword: !!user.passwordHash,
+    lastLogin: user.lastLogin,
+    createdAt: user.createdAt,
+  });
+
+  const inviteUrlFor = (req: Request, token: string) => `${req.protocol}://${req.get("host")}/staff/invite/${token}`;
+
+  app.get("/api/admin/staff", requirePermission("staff.manage"), async (req, res) => {
     try {
-      const { currentPassword, newPassword } = req.body;
-      const user = req.user as any;
+      const staff = await storage.getStaffUsers();
+      res.json(staff.map(toStaffSummary));
+    } catch (error) {
+      console.error('Get staff error:', error);
+      res.status(500).json({ message: "Failed to retrieve staff" });
+    }
+  });
 
-      if (!currentPassword || !newPassword) {
-        return res.status(400).json({ message: "Current and new password required" });
+  app.post("/api/admin/staff", requirePermission("staff.manage"), async (req, res) => {
+    try {
+      const result = inviteStaffSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid staff details", 
+          errors: result.error.issues.map(issue => issue.message)
+        });
       }
 
-      // Get user from database
-      const dbUser = await storage.getUserByTeam(user.teamNumber);
-      if (!dbUser) {
-        return res.status(404).json({ message: "User not found" });
+      const existing = await storage.getUserByEmail(result.data.email);
+      if (existing) {
+        return res.status(409).json({ message: "An account with this email already exists" });
       }
 
-      // Verify current password (support both database and environment auth)
-      let currentPasswordValid = false;
-      if (dbUser.passwordHash) {
-        // Database authentication
-        currentPasswordValid = await AuthService.verifyPassword(currentPassword, dbUser.passwordHash);
-      } else {
-        // Environment authentication fallback
-        const teamPasswordKey = `TEAM_${user.teamNumber}_PASSWORD`;
-        const expectedPassword = process.env[teamPasswordKey];
-        currentPasswordValid = currentPassword === expectedPassword;
-      }
+      const token = AuthService.generateResetToken();
+      const user = await storage.createUser({
+        ...result.data,
+        isAdmin: "true",
+        isActive: "true",
+        passwordResetToken: token,
+        tokenExpiry: new Date(Date.now() + STAFF_INVITE_TTL_MS),
+      });
 
-      if (!currentPasswordValid) {
-        return res.status(401).json({ message: "Current password is incorrect" });
+      await recordAudit(req, {
+        action: "staff.invite",
+        targetType: "staff",
+        targetId: user.id,
+        summary: `Invited ${user.email} as ${user.role}`,
+        after: toStaffSummary(user),
+        courseId: null,
+      });
+
+      res.status(201).json({ 
+        message: `Invitation created for ${user.email}`,
+        staff: toStaffSummary(user),
+        inviteUrl: inviteUrlFor(req, token)
+      });
+    } catch (error) {
+      console.error('Invite staff error:', error);
+      res.status(500).json({ message: "Failed to invite staff member" });
+    }
+  });
+
+  // Issue a fresh invite link, which also serves as a password reset for existing staff
+  app.post("/api/admin/staff/:id/invite", requirePermission("staff.manage"), async (req, res) => {
+    try {
+      const staffUser = await storage.getUser(req.params.id);
+      if (!staffUser || staffUser.role === "team") {
+        return res.status(404).json({ message: "Staff member not found" });
       }
 
-      // Validate new password strength
-      const passwordValidation = AuthService.validatePassword(newPassword);
-      if (!passwordValidation.isValid) {
+      const token = AuthService.generateResetToken();
+      await storage.updateStaffUser(staffUser.id, {
+        passwordResetToken: token,
+        tokenExpiry: new Date(Date.now() + STAFF_INVITE_TTL_MS),
+      });
+
+      await recordAudit(req, {
+        action: "staff.reinvite",
+        targetType: "staff",
+        targetId: staffUser.id,
+        summary: `Created a new invite link for ${staffUser.email}`,
+        courseId: null,
+      });
+
+      res.json({ message: `New invite link for ${staffUser.email}`, inviteUrl: inviteUrlFor(req, token) });
+    } catch (error) {
+      console.error('Reissue invite error:', error);
+      res.status(500).json({ message: "Failed to create invite link" });
+    }
+  });
+
+  app.put("/api/admin/staff/:id", requirePermission("staff.manage"), async (req, res) => {
+    try {
+      const result = updateStaffSchema.safeParse(req.body);
+      if (!result.success) {
         return res.status(400).json({ 
-          message: "New password does not meet requirements", 
-          errors: passwordValidation.errors 
+          message: "Invalid staff update", 
+          errors: result.error.issues.map(issue => issue.message)
         });
       }
 
-      // Hash and update password
-      const newPasswordHash = await AuthService.hashPassword(newPassword);
-      await storage.updateUserPassword(user.teamNumber, newPasswordHash);
+      const staffUser = await storage.getUser(req.params.id);
+      if (!staffUser || staffUser.role === "team") {
+        return res.status(404).json({ message: "Staff member not found" });
+      }
 
-      res.json({ message: "Password updated successfully" });
+      if (staffUser.id === (req.user as any).id) {
+        return res.status(400).json({ message: "You can't change your own role or deactivate yourself" });
+      }
+
+      // Keep at least one active instructor so the course can still be administered
+      const losesInstructor = staffUser.role === "instructor" && staffUser.isActive === "true" &&
+        ((result.data.role && result.data.role !== "instructor") || result.data.isActive === "false");
+      if (losesInstructor) {
+        const staff = await storage.getStaffUsers();
+        const activeInstructors = staff.filter(user => user.role === "instructor" && user.isActive === "true");
+        if (activeInstructors.length <= 1) {
+          return res.status(400).json({ message: "At least one active instructor is required" });
+        }
+      }
+
+      const updated = await storage.updateStaffUser(staffUser.id, result.data);
+      await recordAudit(req, {
+        action: "staff.update",
+        targetType: "staff",
+        targetId: staffUser.id,
+        summary: `Updated ${staffUser.email}`,
+        before: toStaffSummary(staffUser),
+        after: toStaffSummary(updated!),
+        courseId: null,
+      });
+      res.json(toStaffSummary(updated!));
     } catch (error) {
-      console.error('Password change error:', error);
-      res.status(500).json({ message: "Failed to update password" });
+      console.error('Update staff error:', error);
+      res.status(500).json({ message: "Failed to update staff member" });
+    }
+  });
+
+  // Signed-in devices, so a leaked password can be locked out without waiting for the session to expire
+  app.get("/api/admin/sessions", requirePermission("sessions.manage"), async (req, res) => {
+    try {
+      const courseId = (req.user as any).courseId;
+      const active = (await sessions.listSessions())
+        .filter(entry => isSessionInCourse(entry, courseId))
+        .map(entry => ({ ...entry, isCurrent: entry.id === req.sessionID }));
+
+      res.json({ persistent: sessions.persistent, sessions: active });
+    } catch (error) {
+      console.error('List sessions error:', error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  app.delete("/api/admin/sessions/:id", requirePermission("sessions.manage"), async (req, res) => {
+    try {
+      if (req.params.id === req.sessionID) {
+        return res.status(400).json({ message: "Use Logout to end your own session" });
+      }
+
+      const courseId = (req.user as any).courseId;
+      const target = (await sessions.listSessions()).find(entry => entry.id === req.params.id);
+      if (!target || !isSessionInCourse(target, courseId)) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      await sessions.revokeSession(target.id);
+      await recordAudit(req, {
+        action: "session.revoke",
+        targetType: "session",
+        targetId: target.id,
+        teamNumber: target.role === "team" ? target.teamNumber : null,
+        summary: `Signed out a session of ${target.role === "team" ? `Team ${target.teamNumber}` : target.email}`,
+        before: target,
+      });
+      res.json({ message: "Session signed out" });
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      res.status(500).json({ message: "Failed to sign out session" });
+    }
+  });
+
+  app.delete("/api/admin/teams/:teamNumber/sessions", requirePermission("sessions.manage"), requireCourse, async (req, res) => {
+    try {
+      const teamNumber = parseInt(req.params.teamNumber);
+      if (isNaN(teamNumber) || teamNumber < 1) {
+        return res.status(400).json({ message: "Invalid team number" });
+      }
+
+      const revoked = await revokeTeamSessions((req.user as any).courseId, teamNumber);
+      await recordAudit(req, {
+        action: "team.signOut",
+        targetType: "team",
+        teamNumber,
+        summary: `Signed out ${revoked} session${revoked === 1 ? "" : "s"} of Team ${teamNumber}`,
+      });
+      res.json({ message: `Signed out ${revoked} session${revoked === 1 ? "" : "s"} for Team ${teamNumber}`, revoked });
+    } catch (error) {
+      console.error('Revoke team sessions error:', error);
+      res.status(500).json({ message: "Failed to sign out team" });
+    }
+  });
+
+  // Audit log (instructors only). Actors are filtered as "team:<number>", "user:<staff id>" or "system"
+  function parseAuditFilter(query: Request["query"]): AuditEventFilter {
+    const filter: AuditEventFilter = {};
+    const teamNumber = parseInt(String(query.teamNumber ?? ""));
+    if (!isNaN(teamNumber)) filter.teamNumber = teamNumber;
+    if (typeof query.action === "string" && query.action) filter.action = query.action;
+
+    const actor = typeof query.actor === "string" ? query.actor : "";
+    if (actor === "system") {
+      filter.actorRole = "system";
+    } else if (actor.startsWith("team:")) {
+      filter.actorTeamNumber = parseInt(actor.slice(5));
+    } else if (actor.startsWith("user:")) {
+      filter.actorUserId = actor.slice(5);
+    }
+    return filter;
+  }
+
+  app.get("/api/admin/audit-events", requirePermission("audit.view"), requireCourse, async (req, res) => {
+    try {
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? "")) || 100, 1), 1000);
+      const events = await storage.getAuditEvents((req.user as any).courseId, { ...parseAuditFilter(req.query), limit: limit + 1 });
+      res.json({ events: events.slice(0, limit), hasMore: events.length > limit });
+    } catch (error) {
+      console.error('Audit log error:', error);
+      res.status(500).json({ message: "Failed to retrieve audit log" });
+    }
+  });
+
+  // Everyone who has acted in the course and every action recorded, for the filter dropdowns
+  app.get("/api/admin/audit-events/filters", requirePermission("audit.view"), requireCourse, async (req, res) => {
+    try {
+      const events = await storage.getAuditEvents((req.user as any).courseId);
+      const actors = new Map<string, string>();
+      for (const event of events) {
+        const value = event.actorUserId ? `user:${event.actorUserId}` : event.actorTeamNumber !== null ? `team:${event.actorTeamNumber}` : "system";
+        if (!actors.has(value)) actors.set(value, event.actorTeamNumber !== null ? `Team ${event.actorTeamNumber}: ${event.actorName}` : event.actorName);
+      }
+
+      res.json({
+        actors: Array.from(actors, ([value, label]) => ({ value, label })).sort((a, b) => a.label.localeCompare(b.label, undefined, { numeric: true })),
+        actions: Array.from(new Set(events.map(event => event.action))).sort(),
+      });
+    } catch (error) {
+      console.error('Audit log filters error:', error);
+      res.status(500).json({ message: "Failed to retrieve audit log filters" });
+    }
+  });
+
+  app.get("/api/admin/audit-events/export.csv", requirePermission("audit.view"), requireCourse, async (req, res) => {
+    try {
+      const events = await storage.getAuditEvents((req.user as any).courseId, parseAuditFilter(req.query));
+      const rows: (string | number | null)[][] = [[
+        "Time", "Actor", "Actor Role", "Actor Team", "Action", "Target Type", "Target Id", "Team", "Summary", "IP Address", "Before", "After",
+      ]];
+      for (const event of events) {
+        rows.push([
+          new Date(event.createdAt).toISOString(),
+          event.actorName,
+          event.actorRole,
+          event.actorTeamNumber,
+          event.action,
+          event.targetType,
+          event.targetId,
+          event.teamNumber,
+          event.summary,
+          event.ipAddress,
+          event.before === null ? null : JSON.stringify(event.before),
+          event.after === null ? null : JSON.stringify(event.after),
+        ]);
+      }
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', 'attachment; filename="audit-log.csv"');
+      res.send(formatCsv(rows));
+    } catch (error) {
+      console.error('Audit log export error:', error);
+      res.status(500).json({ message: "Failed to export audit log" });
+    }
+  });
+
+  // Invite acceptance (no login; the token is the credential)
+  app.get("/api/staff/invite/:token", async (req, res) => {
+    try {
+      const staffUser = await storage.getUserByResetToken(req.params.token);
+      if (!staffUser || !staffUser.tokenExpiry || staffUser.tokenExpiry.getTime() < Date.now()) {
+        return res.status(404).json({ message: "This invite link is invalid or has expired" });
+      }
+
+      res.json({ email: staffUser.email, displayName: staffUser.displayName, role: staffUser.role });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to check invite" });
+    }
+  });
+
+  app.post("/api/staff/invite/:token", async (req, res) => {
+    try {
+      const { password } = req.body;
+      const staffUser = await storage.getUserByResetToken(req.params.token);
+      if (!staffUser || !staffUser.tokenExpiry || staffUser.tokenExpiry.getTime() < Date.now()) {
+        return res.status(404).json({ message: "This invite link is invalid or has expired" });
+      }
+
+      const passwordValidation = AuthService.validatePassword(password || "");
+      if (!passwordValidation.isValid) {
+        return res.status(400).json({ 
+          message: "Password does not meet requirements", 
+          errors: passwordValidation.errors 
+        });
+      }
+
+      await storage.updateStaffUser(staffUser.id, {
+        passwordHash: await AuthService.hashPassword(password),
+        passwordResetToken: null,
+        tokenExpiry: null,
+      });
+
+      await recordAudit(req, {
+        action: "staff.setPassword",
+        targetType: "staff",
+        targetId: staffUser.id,
+        summary: `Set a password from an invite link for ${staffUser.email}`,
+        courseId: null,
+        actor: { id: staffUser.id, role: staffUser.role, teamName: staffUser.displayName || staffUser.email },
+      });
+
+      res.json({ message: "Password set. You can now sign in with your email." });
+    } catch (error) {
+      console.error('Accept invite error:', error);
+      res.status(500).json({ message: "Failed to set password" });
+    }
+  });
+
+  // Courses
+  const toCourseSummary = (course: Course, includeJoinCode: boolean) => ({
+    id: course.id,
+    name: course.name,
+    section: course.section,
+    maxTeams: course.maxTeams,
+    isArchived: course.isArchived === "true",
+    createdAt: course.createdAt,
+    ...(includeJoinCode && { joinCode: course.joinCode }),
+  });
+
+  async function generateUniqueJoinCode(): Promise<string> {
+    for (;;) {
+      const joinCode = AuthService.generateJoinCode();
+      if (!(await storage.getCourseByJoinCode(joinCode))) return joinCode;
+    }
+  }
+
+  // Persist a new active course in the staff member's session
+  function switchCourse(req: Request, courseId: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      req.logIn({ ...(req.user as any), courseId }, { session: true, keepSessionInfo: true }, (err) => err ? reject(err) : resolve());
+    });
+  }
+
+  // Open courses for the team login picker (no login required, so no join codes)
+  app.get("/api/courses/public", async (req, res) => {
+    try {
+      const courses = await storage.getCourses();
+      res.json(courses
+        .filter(course => course.isArchived !== "true")
+        .map(course => ({ id: course.id, name: course.name, section: course.section, maxTeams: course.maxTeams })));
+    } catch (error) {
+      console.error('Public courses error:', error);
+      res.status(500).json({ message: "Failed to retrieve courses" });
+    }
+  });
+
+  // Staff see every course; teams only see their own
+  app.get("/api/courses", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.isAdmin) {
+        const courses = await storage.getCourses();
+        return res.json(courses.map(course => toCourseSummary(course, true)));
+      }
+
+      const course = user.courseId ? await storage.getCourse(user.courseId) : undefined;
+      res.json(course ? [toCourseSummary(course, false)] : []);
+    } catch (error) {
+      console.error('Courses error:', error);
+      res.status(500).json({ message: "Failed to retrieve courses" });
+    }
+  });
+
+  app.put("/api/user/course", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (!user.isAdmin) {
+        return res.status(403).json({ message: "Teams belong to a single course" });
+      }
+
+      const course = typeof req.body.courseId === "string" ? await storage.getCourse(req.body.courseId) : undefined;
+      if (!course) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+
+      await switchCourse(req, course.id);
+      res.json({ message: `Switched to ${course.name}`, user: req.user });
+    } catch (error) {
+      console.error('Switch course error:', error);
+      res.status(500).json({ message: "Failed to switch course" });
+    }
+  });
+
+  app.post("/api/admin/courses", requirePermission("courses.manage"), async (req, res) => {
+    try {
+      const result = insertCourseSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid course data", 
+          errors: result.error.issues.map(issue => issue.message)
+        });
+      }
+
+      const course = await storage.createCourse({ ...result.data, joinCode: await generateUniqueJoinCode() });
+      await recordAudit(req, {
+        action: "course.create",
+        targetType: "course",
+        targetId: course.id,
+        summary: `Created course ${course.name}`,
+        after: course,
+        courseId: course.id,
+      });
+
+      // The first course becomes active straight away
+      if (!(req.user as any).courseId) {
+        await switchCourse(req, course.id);
+      }
+
+      res.status(201).json(toCourseSummary(course, true));
+    } catch (error) {
+      console.error('Create course error:', error);
+      res.status(500).json({ message: "Failed to create course" });
+    }
+  });
+
+  app.put("/api/admin/courses/:id", requirePermission("courses.manage"), async (req, res) => {
+    try {
+      const result = updateCourseSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid course data", 
+          errors: result.error.issues.map(issue => issue.message)
+        });
+      }
+
+      const course = await storage.getCourse(req.params.id);
+      const updated = await storage.updateCourse(req.params.id, result.data);
+      if (!updated) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+
+      await recordAudit(req, {
+        action: "course.update",
+        targetType: "course",
+        targetId: updated.id,
+        summary: `Updated course ${updated.name}`,
+        before: course,
+        after: updated,
+        courseId: updated.id,
+      });
+
+      res.json(toCourseSummary(updated, true));
+    } catch (error) {
+      console.error('Update course error:', error);
+      res.status(500).json({ message: "Failed to update course" });
+    }
+  });
+
+  // Replace a leaked join code; registered teams are unaffected
+  app.post("/api/admin/courses/:id/join-code", requirePermission("courses.manage"), async (req, res) => {
+    try {
+      const updated = await storage.updateCourse(req.params.id, { joinCode: await generateUniqueJoinCode() });
+      if (!updated) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+
+      await recordAudit(req, {
+        action: "course.joinCode",
+        targetType: "course",
+        targetId: updated.id,
+        summary: `Replaced the join code of ${updated.name}`,
+        courseId: updated.id,
+      });
+
+      res.json(toCourseSummary(updated, true));
+    } catch (error) {
+      console.error('Regenerate join code error:', error);
+      res.status(500).json({ message: "Failed to create a new join code" });
+    }
+  });
+
+  // Term archives (instructors only); archives from every course are listed, since courses can be restored elsewhere
+  app.get("/api/admin/archives", requirePermission("archives.manage"), async (req, res) => {
+    try {
+      res.json(await storage.getTermArchives());
+    } catch (error) {
+      console.error('Get term archives error:', error);
+      res.status(500).json({ message: "Failed to retrieve term archives" });
+    }
+  });
+
+  // Archive the active course without clearing anything
+  app.post("/api/admin/archives", requirePermission("archives.manage"), requireCourse, async (req, res) => {
+    try {
+      const course = await storage.getCourse((req.user as any).courseId);
+      if (!course) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+
+      const archive = await termArchives.create(course, (req.user as any).teamName ?? null);
+      await recordAudit(req, {
+        action: "archive.create",
+        targetType: "archive",
+        targetId: archive.id,
+        summary: `Archived ${archive.courseName}: ${archive.fileCount} files, ${archive.teamCount} teams`,
+        after: archive,
+      });
+
+      res.status(201).json(archive);
+    } catch (error) {
+      console.error('Create term archive error:', error);
+      res.status(500).json({ message: "Failed to archive the course" });
+    }
+  });
+
+  app.get("/api/admin/archives/:id/download", requirePermission("archives.manage"), async (req, res) => {
+    try {
+      const archive = await storage.getTermArchive(req.params.id);
+      const blob = archive && await termArchives.getStream(archive);
+      if (!archive || !blob) {
+        return res.status(404).json({ message: "Archive not found" });
+      }
+
+      const date = new Date(archive.createdAt).toISOString().slice(0, 10);
+      // Course names are free text; res.attachment falls back to a UTF-8 filename* where latin1 won't do
+      res.attachment(`${archive.courseName} archive ${date}.zip`.replace(/[\\/]/g, "_"));
+      res.setHeader('Content-Type', 'application/zip');
+      if (blob.size !== null) res.setHeader('Content-Length', blob.size);
+      blob.stream.on('error', (error) => {
+        console.error('Archive download stream error:', error);
+        res.destroy(error);
+      });
+      blob.stream.pipe(res);
+    } catch (error) {
+      console.error('Archive download error:', error);
+      res.status(500).json({ message: "Failed to download archive" });
+    }
+  });
+
+  // Restore an archive, from this instance or another, as a new course
+  app.post("/api/admin/archives/import", requirePermission("archives.manage"), archiveUpload.single("archive"), async (req, res) => {
+    const uploaded = req.file;
+    if (!uploaded) {
+      return res.status(400).json({ message: "No archive uploaded" });
+    }
+
+    try {
+      const restored = await termArchives.restore(uploaded.path, await generateUniqueJoinCode());
+      if (!restored) {
+        return res.status(400).json({ message: "This file isn't a term archive that can be imported" });
+      }
+
+      for (const file of restored.files) {
+        thumbnails.request(file);
+        textExtraction.request(file);
+      }
+
+      const { course, files, teamCount, missingFiles } = restored;
+      await recordAudit(req, {
+        action: "course.import",
+        targetType: "course",
+        targetId: course.id,
+        summary: `Imported ${course.name} from ${uploaded.originalname}: ${files.length} ${files.length === 1 ? "file" : "files"}, ${teamCount} ${teamCount === 1 ? "team" : "teams"}`,
+        after: course,
+        courseId: course.id,
+      });
+
+      // On a fresh instance the restored course becomes active straight away
+      if (!(req.user as any).courseId) {
+        await switchCourse(req, course.id);
+      }
+
+      res.status(201).json({
+        message: missingFiles > 0
+          ? `Imported ${course.name}; ${missingFiles} files listed in the archive were missing from it`
+          : `Imported ${course.name}`,
+        course: toCourseSummary(course, true),
+        filesRestored: files.length,
+        teamsRestored: teamCount,
+        missingFiles,
+      });
+    } catch (error) {
+      console.error('Import term archive error:', error);
+      res.status(500).json({ message: "Failed to import archive" });
+    } finally {
+      await discardStagedUploads([uploaded]);
+    }
+  });
+
+  // Backups of the whole server: every course, staff account and stored file
+  app.get("/api/admin/backups", requirePermission("backups.manage"), async (req, res) => {
+    try {
+      res.json({ backups: await backups.list(), schedule: backupSchedule, isRunning: backups.isBusy });
+    } catch (error) {
+      console.error('List backups error:', error);
+      res.status(500).json({ message: "Failed to retrieve backups" });
+    }
+  });
+
+  app.post("/api/admin/backups", requirePermission("backups.manage"), async (req, res) => {
+    try {
+      if (backups.isBusy) {
+        return res.status(409).json({ message: "A backup or restore is already running" });
+      }
+
+      const backup = await backups.create("manual", (req.user as any).teamName ?? null);
+      await recordAudit(req, {
+        action: "backup.create",
+        targetType: "backup",
+        targetId: backup.id,
+        summary: `Backed up the server: ${backup.recordCount} records and ${backup.fileCount} file${backup.fileCount === 1 ? "" : "s"}`,
+        after: backup,
+        courseId: null,
+      });
+      res.status(201).json(backup);
+    } catch (error) {
+      console.error('Create backup error:', error);
+      res.status(500).json({ message: "Failed to create backup" });
+    }
+  });
+
+  app.get("/api/admin/backups/:id/download", requirePermission("backups.manage"), async (req, res) => {
+    try {
+      const backup = await backups.get(req.params.id);
+      if (!backup) {
+        return res.status(404).json({ message: "Backup not found" });
+      }
+
+      res.setHeader('Content-Disposition', `attachment; filename="${backup.id}.zip"`);
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Length', backup.size);
+      const stream = backups.getStream(backup);
+      stream.on('error', (error) => {
+        console.error('Backup download stream error:', error);
+        res.destroy(error);
+      });
+      stream.pipe(res);
+    } catch (error) {
+      console.error('Backup download error:', error);
+      res.status(500).json({ message: "Failed to download backup" });
+    }
+  });
+
+  app.delete("/api/admin/backups/:id", requirePermission("backups.manage"), async (req, res) => {
+    try {
+      if (!(await verifyStaffPassword(req.user, req.body.adminPassword))) {
+        return res.status(401).json({ message: "Invalid password" });
+      }
+
+      const backup = await backups.get(req.params.id);
+      if (!backup) {
+        return res.status(404).json({ message: "Backup not found" });
+      }
+
+      await backups.delete(backup);
+      await recordAudit(req, {
+        action: "backup.delete",
+        targetType: "backup",
+        targetId: backup.id,
+        summary: `Deleted backup ${backup.id}`,
+        before: backup,
+        courseId: null,
+      });
+      res.json({ message: "Backup deleted" });
+    } catch (error) {
+      console.error('Delete backup error:', error);
+      res.status(500).json({ message: "Failed to delete backup" });
+    }
+  });
+
+  // Replaces everything stored, so it asks for a password and a typed confirmation like closing a term
+  async function restoreBackup(req: Request, res: Response, zipPath: string, source: string, expectedSha256?: string) {
+    const { adminPassword, confirmText } = req.body;
+    if (!(await verifyStaffPassword(req.user, adminPassword))) {
+      return res.status(401).json({ message: "Invalid password" });
+    }
+    if (confirmText !== "RESTORE BACKUP") {
+      return res.status(400).json({ message: "Confirmation text incorrect" });
+    }
+    if (backups.isBusy) {
+      return res.status(409).json({ message: "A backup or restore is already running" });
+    }
+
+    const result = await backups.restore(zipPath, expectedSha256);
+    if ("error" in result) {
+      return res.status(400).json({ message: result.error });
+    }
+
+    // Team sessions aren't checked against stored accounts, so everyone else signs in again
+    for (const active of await sessions.listSessions()) {
+      if (active.id !== req.sessionID) await sessions.revokeSession(active.id);
+    }
+
+    const courses = await storage.getCourses();
+    const user = req.user as any;
+    if (courses.length > 0 && !courses.some(course => course.id === user.courseId)) {
+      await switchCourse(req, courses[0].id);
+    }
+    for (const course of courses) {
+      for (const file of await storage.getAllFiles(course.id)) {
+        thumbnails.request(file);
+      }
+    }
+
+    // Written after restoring, so the restored audit log keeps a record of it
+    const { backup } = result;
+    await recordAudit(req, {
+      action: "backup.restore",
+      targetType: "backup",
+      summary: `Restored the server from ${source}, taken ${new Date(backup.createdAt).toISOString()}: ${backup.courseCount} ${backup.courseCount === 1 ? "course" : "courses"}, ${backup.recordCount} records and ${backup.fileCount} ${backup.fileCount === 1 ? "file" : "files"}`,
+      after: backup,
+      courseId: null,
+    });
+    res.json({ message: `Restored ${backup.courseCount} ${backup.courseCount === 1 ? "course" : "courses"} and ${backup.fileCount} ${backup.fileCount === 1 ? "file" : "files"}`, backup });
+  }
+
+  app.post("/api/admin/backups/:id/restore", requirePermission("backups.manage"), async (req, res) => {
+    try {
+      const backup = await backups.get(req.params.id);
+      if (!backup) {
+        return res.status(404).json({ message: "Backup not found" });
+      }
+      await restoreBackup(req, res, backups.zipPath(backup.id), backup.id, backup.sha256);
+    } catch (error) {
+      console.error('Restore backup error:', error);
+      res.status(500).json({ message: "Failed to restore backup" });
+    }
+  });
+
+  // A backup from another server, or one downloaded earlier
+  app.post("/api/admin/backups/restore", requirePermission("backups.manage"), backupUpload.single("backup"), async (req, res) => {
+    const uploaded = req.file;
+    if (!uploaded) {
+      return res.status(400).json({ message: "No backup uploaded" });
+    }
+
+    try {
+      await restoreBackup(req, res, uploaded.path, uploaded.originalname);
+    } catch (error) {
+      console.error('Restore backup error:', error);
+      res.status(500).json({ message: "Failed to restore backup" });
+    } finally {
+      await discardStagedUploads([uploaded]);
+    }
+  });
+
+  // Change password
+  app.put("/api/user/password", requireAuth, async (req, res) => {
+    try {
+      const { currentPassword, newPassword } = req.body;
+      const user = req.user as any;
+
+      if (!currentPassword || !newPassword) {
+        return res.status(400).json({ message: "Current and new password required" });
+      }
+
+      // Get user from database (staff accounts are keyed by id rather than team)
+      const dbUser = user.id ? await storage.getUser(user.id) : await storage.getUserByTeam(user.courseId, user.teamNumber);
+      if (!dbUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      // Verify current password (support both database and environment auth)
+      let currentPasswordValid = false;
+      if (dbUser.passwordHash) {
+        // Database authentication
+        currentPasswordValid = await AuthService.verifyPassword(currentPassword, dbUser.passwordHash);
+      } else {
+        // Environment authentication fallback
+        const teamPasswordKey = `TEAM_${user.teamNumber}_PASSWORD`;
+        const expectedPassword = process.env[teamPasswordKey];
+        currentPasswordValid = currentPassword === expectedPassword;
+      }
+
+      if (!currentPasswordValid) {
+        return res.status(401).json({ message: "Current password is incorrect" });
+      }
+
+      // Validate new password strength
+      const passwordValidation = AuthService.validatePassword(newPassword);
+      if (!passwordValidation.isValid) {
+        return res.status(400).json({ 
+          message: "New password does not meet requirements", 
+          errors: passwordValidation.errors 
+        });
+      }
+
+      // Hash and update password
+      const newPasswordHash = await AuthService.hashPassword(newPassword);
+      if (user.id) {
+        await storage.updateStaffUser(user.id, { passwordHash: newPasswordHash });
+      } else {
+        await storage.updateUserPassword(user.courseId, user.teamNumber, newPasswordHash);
+      }
+
+      await recordAudit(req, {
+        action: "auth.password",
+        targetType: user.id ? "staff" : "team",
+        targetId: dbUser.id,
+        teamNumber: user.id ? null : user.teamNumber,
+        summary: "Changed password",
+      });
+
+      res.json({ message: "Password updated successfully" });
+    } catch (error) {
+      console.error('Password change error:', error);
+      res.status(500).json({ message: "Failed to update password" });
     }
   });
   
   // Logout
-  app.post("/api/logout", (req, res) => {
+  app.post("/api/logout", async (req, res) => {
+    if (req.user) {
+      await recordAudit(req, { action: "auth.logout", targetType: "session", targetId: req.sessionID, summary: "Signed out" });
+    }
     req.logout((err) => {
       if (err) {
         return res.status(500).json({ message: "Logout failed" });
       }
-      res.json({ message: "Logout successful" });
-    });
+      res.json({ message: "Logout successful" });
+    });
+  });
+  
+  // Assignment settings routes
+  app.get("/api/assignment-settings", requireAuth, requireCourse, async (req, res) => {
+    try {
+      const user = req.user as any;
+      let settings: any[] = [];
+      
+      try {
+        settings = await storage.getAssignmentSettings(user.courseId);
+      } catch (error) {
+        console.log('No assignment settings found, returning empty array:', (error as Error).message);
+        settings = [];
+      }
+      
+      // Report the open view status as of now, including scheduled transitions not yet applied
+      const now = new Date();
+      const effectiveSettings = settings.map(setting => ({
+        ...setting,
+        isOpenView: isOpenViewAt(setting, now) ? "true" : "false"
+      }));
+      
+      if (user.isAdmin) {
+        // Admin gets all settings
+        res.json(effectiveSettings);
+      } else {
+        // Students only get the assignment names and open view status (not edit capabilities)
+        res.json(effectiveSettings.map(setting => ({
+          assignmentId: setting.assignmentId,
+          isOpenView: setting.isOpenView
+        })));
+      }
+    } catch (error) {
+      console.error('Assignment settings error:', error);
+      res.status(500).json({ message: "Failed to retrieve assignment settings", error: (error as Error).message });
+    }
+  });
+  
+  app.put("/api/assignment-settings", requirePermission("assignments.visibility"), requireCourse, async (req, res) => {
+    try {
+      const { assignmentId, isOpenView } = req.body;
+      
+      if (!assignmentId || typeof isOpenView !== "boolean") {
+        return res.status(400).json({ message: "Assignment and isOpenView required" });
+      }
+
+      const assignment = await storage.getAssignment((req.user as any).courseId, assignmentId);
+      if (!assignment) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+      
+      // Settle any scheduled change that has fallen due so it can't override this manual one
+      await applyDueOpenViewTransitions();
+      const previous = await storage.getAssignmentSetting(assignmentId);
+      const setting = await storage.updateAssignmentSetting(assignmentId, isOpenView);
+      await recordAudit(req, {
+        action: "assignment.openView",
+        targetType: "assignment",
+        targetId: assignmentId,
+        summary: `${isOpenView ? "Opened" : "Closed"} ${assignment.title} for peer viewing`,
+        before: previous,
+        after: setting,
+      });
+      res.json(setting);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update assignment setting" });
+    }
+  });
+
+  // Schedule open view reveal/hide times (admin only)
+  app.put("/api/assignment-settings/schedule", requirePermission("assignments.visibility"), requireCourse, async (req, res) => {
+    try {
+      const result = assignmentScheduleSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid schedule", 
+          errors: result.error.issues.map(issue => issue.message)
+        });
+      }
+
+      const { assignmentId, revealAt, hideAt } = result.data;
+      if (revealAt && hideAt && hideAt <= revealAt) {
+        return res.status(400).json({ message: "Close time must be after the reveal time" });
+      }
+
+      const assignment = await storage.getAssignment((req.user as any).courseId, assignmentId);
+      if (!assignment) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+
+      const previous = await storage.getAssignmentSetting(assignmentId);
+      const setting = await storage.updateAssignmentSchedule(assignmentId, { revealAt, hideAt });
+      await recordAudit(req, {
+        action: "assignment.openViewSchedule",
+        targetType: "assignment",
+        targetId: assignmentId,
+        summary: `Scheduled peer viewing of ${assignment.title}`,
+        before: previous,
+        after: setting,
+      });
+      res.json(setting);
+    } catch (error) {
+      console.error('Assignment schedule error:', error);
+      res.status(500).json({ message: "Failed to update assignment schedule" });
+    }
+  });
+
+  // Assignment list (all authenticated users, used to resolve titles and populate dropdowns)
+  app.get("/api/assignments", requireAuth, requireCourse, async (req, res) => {
+    try {
+      const assignments = await storage.getAssignments((req.user as any).courseId);
+      res.json(assignments);
+    } catch (error) {
+      console.error('Assignments error:', error);
+      res.status(500).json({ message: "Failed to retrieve assignments" });
+    }
+  });
+
+  // Assignment management (admin only)
+  app.get("/api/admin/assignments", requirePermission("assignments.manage"), requireCourse, async (req, res) => {
+    try {
+      const assignments = await storage.getAssignments((req.user as any).courseId);
+      res.json(assignments);
+    } catch (error) {
+      console.error('Admin assignments error:', error);
+      res.status(500).json({ message: "Failed to retrieve assignments" });
+    }
+  });
+
+  app.post("/api/admin/assignments", requirePermission("assignments.manage"), requireCourse, async (req, res) => {
+    try {
+      const result = insertAssignmentSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid assignment data", 
+          errors: result.error.issues.map(issue => issue.message)
+        });
+      }
+
+      const scheduleError = validateAssignmentSchedule({
+        openAt: result.data.openAt ?? null,
+        dueAt: result.data.dueAt ?? null,
+        cutoffAt: result.data.cutoffAt ?? null,
+      });
+      if (scheduleError) {
+        return res.status(400).json({ message: scheduleError });
+      }
+
+      const assignment = await storage.createAssignment((req.user as any).courseId, result.data);
+      // Every assignment starts closed for peer viewing
+      await storage.updateAssignmentSetting(assignment.id, false);
+      await recordAudit(req, {
+        action: "assignment.create",
+        targetType: "assignment",
+        targetId: assignment.id,
+        summary: `Created assignment ${assignment.title}`,
+        after: assignment,
+      });
+
+      res.status(201).json(assignment);
+    } catch (error) {
+      console.error('Create assignment error:', error);
+      res.status(500).json({ message: "Failed to create assignment" });
+    }
+  });
+
+  // Reorder assignments (registered before /:id so "order" is not treated as an id)
+  app.put("/api/admin/assignments/order", requirePermission("assignments.manage"), requireCourse, async (req, res) => {
+    try {
+      const { ids } = req.body;
+      const courseId = (req.user as any).courseId;
+
+      if (!Array.isArray(ids) || ids.some(id => typeof id !== "string")) {
+        return res.status(400).json({ message: "An ordered list of assignment ids is required" });
+      }
+
+      const existing = await storage.getAssignments(courseId);
+      const existingIds = new Set(existing.map(assignment => assignment.id));
+      if (ids.length !== existing.length || !ids.every(id => existingIds.has(id))) {
+        return res.status(400).json({ message: "Order must list every assignment exactly once" });
+      }
+
+      const assignments = await storage.reorderAssignments(courseId, ids);
+      await recordAudit(req, {
+        action: "assignment.reorder",
+        targetType: "assignment",
+        summary: "Reordered assignments",
+        before: existing.map(assignment => assignment.id),
+        after: ids,
+      });
+      res.json(assignments);
+    } catch (error) {
+      console.error('Reorder assignments error:', error);
+      res.status(500).json({ message: "Failed to reorder assignments" });
+    }
+  });
+
+  app.put("/api/admin/assignments/:id", requirePermission("assignments.manage"), requireCourse, async (req, res) => {
+    try {
+      const courseId = (req.user as any).courseId;
+      const result = updateAssignmentSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid assignment data", 
+          errors: result.error.issues.map(issue => issue.message)
+        });
+      }
+
+      const existing = await storage.getAssignment(courseId, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+
+      // Validate the schedule as it will be after the update, not just the fields sent
+      const scheduleError = validateAssignmentSchedule({
+        openAt: result.data.openAt !== undefined ? result.data.openAt : existing.openAt,
+        dueAt: result.data.dueAt !== undefined ? result.data.dueAt : existing.dueAt,
+        cutoffAt: result.data.cutoffAt !== undefined ? result.data.cutoffAt : existing.cutoffAt,
+      });
+      if (scheduleError) {
+        return res.status(400).json({ message: scheduleError });
+      }
+
+      const updated = await storage.updateAssignment(courseId, req.params.id, result.data);
+      if (!updated) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+
+      const archiving = existing.isArchived !== updated.isArchived;
+      await recordAudit(req, {
+        action: archiving ? (updated.isArchived === "true" ? "assignment.archive" : "assignment.unarchive") : "assignment.update",
+        targetType: "assignment",
+        targetId: updated.id,
+        summary: `${archiving ? (updated.isArchived === "true" ? "Archived" : "Unarchived") : "Updated"} assignment ${updated.title}`,
+        before: existing,
+        after: updated,
+      });
+
+      res.json(updated);
+    } catch (error) {
+      console.error('Update assignment error:', error);
+      res.status(500).json({ message: "Failed to update assignment" });
+    }
+  });
+
+  app.delete("/api/admin/assignments/:id", requirePermission("assignments.manage"), requireCourse, async (req, res) => {
+    try {
+      const courseId = (req.user as any).courseId;
+      const assignment = await storage.getAssignment(courseId, req.params.id);
+      if (!assignment) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+
+      // Assignments with uploads can only be archived, so existing files keep their assignment
+      const assignmentFiles = await storage.getFilesByAssignment(courseId, assignment.id);
+      if (assignmentFiles.length > 0) {
+        return res.status(409).json({ 
+          message: `Assignment has ${assignmentFiles.length} uploaded file(s). Archive it instead of deleting.` 
+        });
+      }
+
+      await storage.deleteAssignment(assignment.id);
+      await recordAudit(req, {
+        action: "assignment.delete",
+        targetType: "assignment",
+        targetId: assignment.id,
+        summary: `Deleted assignment ${assignment.title}`,
+        before: assignment,
+      });
+      res.json({ message: "Assignment deleted successfully" });
+    } catch (error) {
+      console.error('Delete assignment error:', error);
+      res.status(500).json({ message: "Failed to delete assignment" });
+    }
+  });
+
+  // Rubrics are visible to everyone in the course so teams know how they will be graded
+  app.get("/api/assignments/:id/rubric", requireAuth, requireCourse, async (req, res) => {
+    try {
+      const assignment = await storage.getAssignment((req.user as any).courseId, req.params.id);
+      if (!assignment) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+
+      const criteria = await storage.getRubricCriteria(assignment.id);
+      res.json({ criteria, maxPoints: getRubricMaxPoints(criteria) });
+    } catch (error) {
+      console.error('Rubric error:', error);
+      res.status(500).json({ message: "Failed to retrieve rubric" });
+    }
+  });
+
+  // Replace an assignment's rubric; criteria sent back with their id keep their saved scores
+  app.put("/api/admin/assignments/:id/rubric", requirePermission("assignments.manage"), requireCourse, async (req, res) => {
+    try {
+      const assignment = await storage.getAssignment((req.user as any).courseId, req.params.id);
+      if (!assignment) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+
+      const result = rubricSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid rubric", 
+          errors: result.error.issues.map(issue => issue.message)
+        });
+      }
+
+      const previous = await storage.getRubricCriteria(assignment.id);
+      const criteria = await storage.replaceRubricCriteria(assignment.id, result.data.criteria);
+      await recordAudit(req, {
+        action: "assignment.rubric",
+        targetType: "assignment",
+        targetId: assignment.id,
+        summary: `Saved the rubric of ${assignment.title}`,
+        before: previous,
+        after: criteria,
+      });
+      res.json({ criteria, maxPoints: getRubricMaxPoints(criteria) });
+    } catch (error) {
+      console.error('Update rubric error:', error);
+      res.status(500).json({ message: "Failed to save rubric" });
+    }
+  });
+
+  app.get("/api/admin/assignments/:id/grades", requirePermission("grades.view"), requireCourse, async (req, res) => {
+    try {
+      const courseId = (req.user as any).courseId;
+      const assignment = await storage.getAssignment(courseId, req.params.id);
+      if (!assignment) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+
+      res.json(await storage.getGrades(courseId, assignment.id));
+    } catch (error) {
+      console.error('Grades error:', error);
+      res.status(500).json({ message: "Failed to retrieve grades" });
+    }
+  });
+
+  app.put("/api/admin/assignments/:id/grades/:teamNumber", requirePermission("grades.edit"), requireCourse, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const assignment = await storage.getAssignment(user.courseId, req.params.id);
+      if (!assignment) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+
+      const teamNumber = parseInt(req.params.teamNumber);
+      if (isNaN(teamNumber) || teamNumber < 1) {
+        return res.status(400).json({ message: "Invalid team number" });
+      }
+
+      const result = saveGradeSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid grade", 
+          errors: result.error.issues.map(issue => issue.message)
+        });
+      }
+
+      const criteria = await storage.getRubricCriteria(assignment.id);
+      if (criteria.length === 0) {
+        return res.status(400).json({ message: "Add a rubric to this assignment before grading" });
+      }
+
+      const scoreError = validateGradeScores(criteria, result.data.scores);
+      if (scoreError) {
+        return res.status(400).json({ message: scoreError });
+      }
+
+      const previous = await storage.getGrade(assignment.id, teamNumber);
+      const grade = await storage.saveGrade(user.courseId, assignment.id, teamNumber, { ...result.data, gradedBy: user.teamName });
+      await recordAudit(req, {
+        action: "grade.save",
+        targetType: "grade",
+        targetId: grade.id,
+        teamNumber,
+        summary: `Graded Team ${teamNumber} for ${assignment.title}`,
+        before: previous,
+        after: grade,
+      });
+      res.json(grade);
+    } catch (error) {
+      console.error('Save grade error:', error);
+      res.status(500).json({ message: "Failed to save grade" });
+    }
+  });
+
+  app.put("/api/admin/assignments/:id/release-grades", requirePermission("grades.release"), requireCourse, async (req, res) => {
+    try {
+      const { released } = req.body;
+      if (released !== "true" && released !== "false") {
+        return res.status(400).json({ message: "Invalid release setting" });
+      }
+
+      const updated = await storage.updateAssignment((req.user as any).courseId, req.params.id, { gradesReleased: released });
+      if (!updated) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+
+      await recordAudit(req, {
+        action: "grade.release",
+        targetType: "assignment",
+        targetId: updated.id,
+        summary: `${released === "true" ? "Released" : "Hid"} grades for ${updated.title}`,
+        after: { gradesReleased: released },
+      });
+
+      res.json(updated);
+    } catch (error) {
+      console.error('Release grades error:', error);
+      res.status(500).json({ message: "Failed to update grade release" });
+    }
+  });
+
+  // A team's grades for assignments whose grades have been released
+  app.get("/api/grades", requireAuth, requireCourse, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.isAdmin) {
+        return res.status(403).json({ message: "Staff view grades from the grade sheet" });
+      }
+
+      const assignments = await storage.getAssignments(user.courseId);
+      const teamGrades = [];
+      for (const assignment of assignments.filter(a => a.gradesReleased === "true")) {
+        const grade = await storage.getGrade(assignment.id, user.teamNumber);
+        if (!grade) continue;
+
+        const criteria = await storage.getRubricCriteria(assignment.id);
+        teamGrades.push({
+          assignmentId: assignment.id,
+          criteria,
+          scores: grade.scores,
+          feedback: grade.feedback,
+          total: getGradeTotal(criteria, grade.scores),
+          maxPoints: getRubricMaxPoints(criteria),
+          updatedAt: grade.updatedAt,
+        });
+      }
+
+      res.json(teamGrades);
+    } catch (error) {
+      console.error('Team grades error:', error);
+      res.status(500).json({ message: "Failed to retrieve grades" });
+    }
+  });
+
+  // Gradebook: one row per team, one total column per graded assignment
+  app.get("/api/admin/gradebook.csv", requirePermission("grades.view"), requireCourse, async (req, res) => {
+    try {
+      const courseId = (req.user as any).courseId;
+      const course = await storage.getCourse(courseId);
+      const assignments = await storage.getAssignments(courseId);
+      const courseGrades = await storage.getGrades(courseId);
+      const users = (await storage.getAllUsers(courseId)).filter(user => user.role === "team");
+      const members = await storage.getTeamMembers(courseId);
+
+      const rubrics = [];
+      for (const assignment of assignments) {
+        const criteria = await storage.getRubricCriteria(assignment.id);
+        if (criteria.length > 0) rubrics.push({ assignment, criteria });
+      }
+
+      const teamNumbers = Array.from(new Set([
+        ...users.map(user => user.teamNumber!),
+        ...courseGrades.map(grade => grade.teamNumber),
+      ])).sort((a, b) => a - b);
+
+      const rows: (string | number | null)[][] = [[
+        "Team",
+        "Team Name",
+        "Members",
+        ...rubrics.map(({ assignment, criteria }) => `${assignment.title} (/${getRubricMaxPoints(criteria)})`),
+        "Total",
+      ]];
+
+      for (const teamNumber of teamNumbers) {
+        const totals = rubrics.map(({ assignment, criteria }) => {
+          const grade = courseGrades.find(g => g.assignmentId === assignment.id && g.teamNumber === teamNumber);
+          return grade ? getGradeTotal(criteria, grade.scores) : null;
+        });
+        rows.push([
+          teamNumber,
+          users.find(user => user.teamNumber === teamNumber)?.teamName || `Team ${teamNumber}`,
+          members.filter(member => member.teamNumber === teamNumber).map(member => member.name).join("; "),
+          ...totals,
+          totals.reduce<number>((sum, total) => sum + (total ?? 0), 0),
+        ]);
+      }
+
+      const fileName = `gradebook-${(course?.name ?? "course").replace(/[^a-z0-9]+/gi, "-").toLowerCase()}.csv`;
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.send(formatCsv(rows));
+    } catch (error) {
+      console.error('Gradebook export error:', error);
+      res.status(500).json({ message: "Failed to export gradebook" });
+    }
+  });
+
+  // An assignment's presentation schedule (defaults until one is saved) and the times recorded so far
+  app.get("/api/admin/assignments/:id/presentation", requirePermission("files.viewAll"), requireCourse, async (req, res) => {
+    try {
+      const courseId = (req.user as any).courseId;
+      const assignment = await storage.getAssignment(courseId, req.params.id);
+      if (!assignment) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+
+      const schedule = await storage.getPresentationSchedule(assignment.id);
+      res.json({
+        schedule: schedule ?? { ...DEFAULT_PRESENTATION_SCHEDULE, assignmentId: assignment.id },
+        logs: await storage.getPresentationLogs(courseId, assignment.id),
+      });
+    } catch (error) {
+      console.error('Presentation schedule error:', error);
+      res.status(500).json({ message: "Failed to retrieve presentation schedule" });
+    }
+  });
+
+  app.put("/api/admin/assignments/:id/presentation/schedule", requirePermission("presentations.manage"), requireCourse, async (req, res) => {
+    try {
+      const courseId = (req.user as any).courseId;
+      const assignment = await storage.getAssignment(courseId, req.params.id);
+      if (!assignment) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+
+      const result = savePresentationScheduleSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid presentation schedule", 
+          errors: result.error.issues.map(issue => issue.message)
+        });
+      }
+
+      const previous = await storage.getPresentationSchedule(assignment.id);
+      const schedule = await storage.savePresentationSchedule(courseId, assignment.id, result.data);
+      await recordAudit(req, {
+        action: "presentation.schedule",
+        targetType: "assignment",
+        targetId: assignment.id,
+        summary: `Saved the presentation schedule of ${assignment.title}`,
+        before: previous,
+        after: schedule,
+      });
+      res.json(schedule);
+    } catch (error) {
+      console.error('Save presentation schedule error:', error);
+      res.status(500).json({ message: "Failed to save presentation schedule" });
+    }
+  });
+
+  // Record who is presenting now: the previous team's entry ends, and a new one starts unless teamNumber is null
+  app.put("/api/admin/assignments/:id/presentation/current", requirePermission("presentations.manage"), requireCourse, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const assignment = await storage.getAssignment(user.courseId, req.params.id);
+      if (!assignment) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+
+      const { teamNumber } = req.body;
+      if (teamNumber !== null && (!Number.isInteger(teamNumber) || teamNumber < 1)) {
+        return res.status(400).json({ message: "Invalid team number" });
+      }
+
+      await storage.endPresentationLogs(assignment.id);
+      if (teamNumber !== null) {
+        await storage.startPresentationLog(user.courseId, assignment.id, teamNumber, user.teamName);
+      }
+      await recordAudit(req, {
+        action: "presentation.current",
+        targetType: "assignment",
+        targetId: assignment.id,
+        teamNumber,
+        summary: teamNumber !== null ? `Started Team ${teamNumber}'s presentation of ${assignment.title}` : `Ended presentations of ${assignment.title}`,
+      });
+      res.json(await storage.getPresentationLogs(user.courseId, assignment.id));
+    } catch (error) {
+      console.error('Presentation log error:', error);
+      res.status(500).json({ message: "Failed to record presentation time" });
+    }
+  });
+
+  // Clears recorded times, e.g. after a rehearsal; the schedule itself is kept
+  app.delete("/api/admin/assignments/:id/presentation/logs", requirePermission("presentations.manage"), requireCourse, async (req, res) => {
+    try {
+      const courseId = (req.user as any).courseId;
+      const assignment = await storage.getAssignment(courseId, req.params.id);
+      if (!assignment) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+
+      const logs = await storage.getPresentationLogs(courseId, assignment.id);
+      const deleted = await storage.deletePresentationLogs(courseId, { assignmentId: assignment.id });
+      await recordAudit(req, {
+        action: "presentation.clearLog",
+        targetType: "assignment",
+        targetId: assignment.id,
+        summary: `Cleared ${deleted} recorded presentation${deleted === 1 ? "" : "s"} of ${assignment.title}`,
+        before: logs,
+      });
+      res.json({ message: `Cleared ${deleted} recorded presentation${deleted === 1 ? "" : "s"}`, deleted });
+    } catch (error) {
+      console.error('Clear presentation log error:', error);
+      res.status(500).json({ message: "Failed to clear presentation log" });
+    }
+  });
+
+  // Presentation log: planned against actual times, one row per recorded presentation
+  app.get("/api/admin/assignments/:id/presentation/log.csv", requirePermission("files.viewAll"), requireCourse, async (req, res) => {
+    try {
+      const courseId = (req.user as any).courseId;
+      const assignment = await storage.getAssignment(courseId, req.params.id);
+      if (!assignment) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+
+      const schedule: Omit<PresentationSchedule, "id" | "courseId" | "assignmentId" | "updatedAt"> =
+        (await storage.getPresentationSchedule(assignment.id)) ?? DEFAULT_PRESENTATION_SCHEDULE;
+      const logs = await storage.getPresentationLogs(courseId, assignment.id);
+      const users = (await storage.getAllUsers(courseId)).filter(user => user.role === "team");
+
+      const teamNumbers = Array.from(new Set([...users.map(user => user.teamNumber!), ...logs.map(log => log.teamNumber)]));
+      const order = mergeRunningOrder(schedule.teamOrder, teamNumbers);
+      const planned = schedule.startsAt
+        ? getPlannedSlots(new Date(schedule.startsAt), order, schedule.slotMinutes, schedule.bufferMinutes)
+        : [];
+      const slotMs = schedule.slotMinutes * 60 * 1000;
+
+      const rows: (string | number | null)[][] = [[
+        "Slot", "Team", "Team Name", "Planned Start", "Planned End", "Actual Start", "Actual End", "Duration", "Over Slot By", "Recorded By",
+      ]];
+      for (const log of logs) {
+        const slot = planned.find(p => p.teamNumber === log.teamNumber);
+        const durationMs = log.endedAt ? new Date(log.endedAt).getTime() - new Date(log.startedAt).getTime() : null;
+        rows.push([
+          order.includes(log.teamNumber) ? order.indexOf(log.teamNumber) + 1 : null,
+          log.teamNumber,
+          users.find(user => user.teamNumber === log.teamNumber)?.teamName || `Team ${log.teamNumber}`,
+          slot ? slot.start.toISOString() : null,
+          slot ? slot.end.toISOString() : null,
+          new Date(log.startedAt).toISOString(),
+          log.endedAt ? new Date(log.endedAt).toISOString() : null,
+          durationMs === null ? null : formatElapsed(durationMs),
+          durationMs !== null && durationMs > slotMs ? formatElapsed(durationMs - slotMs) : null,
+          log.loggedBy,
+        ]);
+      }
+
+      const fileName = `presentations-${assignment.title.replace(/[^a-z0-9]+/gi, "-").toLowerCase()}.csv`;
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.send(formatCsv(rows));
+    } catch (error) {
+      console.error('Presentation log export error:', error);
+      res.status(500).json({ message: "Failed to export presentation log" });
+    }
+  });
+
+  // Audit summaries name the assignment a peer review round belongs to
+  async function getAssignmentTitle(courseId: string, assignmentId: string): Promise<string> {
+    return (await storage.getAssignment(courseId, assignmentId))?.title ?? "an assignment";
+  }
+
+  // Teams with a submission for an assignment, the pool peer reviews are drawn from
+  async function getSubmittingTeams(courseId: string, assignmentId: string): Promise<number[]> {
+    const submissions = await storage.getFilesByAssignment(courseId, assignmentId);
+    return Array.from(new Set(submissions.filter(file => file.teamNumber !== 0).map(file => file.teamNumber)))
+      .sort((a, b) => a - b);
+  }
+
+  app.get("/api/admin/assignments/:id/peer-review", requirePermission("reviews.view"), requireCourse, async (req, res) => {
+    try {
+      const courseId = (req.user as any).courseId;
+      const assignment = await storage.getAssignment(courseId, req.params.id);
+      if (!assignment) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+
+      const round = await storage.getPeerReviewRound(assignment.id);
+      res.json({
+        round: round ?? null,
+        reviews: round ? await storage.getPeerReviews(courseId, { roundId: round.id }) : [],
+        submittingTeams: await getSubmittingTeams(courseId, assignment.id),
+      });
+    } catch (error) {
+      console.error('Peer review error:', error);
+      res.status(500).json({ message: "Failed to retrieve peer review" });
+    }
+  });
+
+  // Save the review form; it's fixed once any review has been submitted against it
+  app.put("/api/admin/assignments/:id/peer-review", requirePermission("reviews.manage"), requireCourse, async (req, res) => {
+    try {
+      const courseId = (req.user as any).courseId;
+      const assignment = await storage.getAssignment(courseId, req.params.id);
+      if (!assignment) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+
+      const result = savePeerReviewRoundSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({
+          message: "Invalid review form",
+          errors: result.error.issues.map(issue => issue.message)
+        });
+      }
+
+      const questions: PeerReviewQuestion[] = result.data.questions.map(question => ({
+        id: question.id ?? randomUUID(),
+        prompt: question.prompt,
+        type: question.type,
+        maxRating: question.type === "rating" ? question.maxRating ?? 5 : null,
+        isRequired: question.isRequired,
+      }));
+      if (new Set(questions.map(question => question.id)).size !== questions.length) {
+        return res.status(400).json({ message: "Each question can only appear once" });
+      }
+
+      const existing = await storage.getPeerReviewRound(assignment.id);
+      if (existing && JSON.stringify(existing.questions) !== JSON.stringify(questions)) {
+        const reviews = await storage.getPeerReviews(courseId, { roundId: existing.id });
+        if (reviews.some(review => review.submittedAt)) {
+          return res.status(409).json({ message: "Reviews have already been submitted with this form, so its questions can't change" });
+        }
+      }
+
+      const round = await storage.savePeerReviewRound(courseId, assignment.id, {
+        questions,
+        reviewsPerTeam: result.data.reviewsPerTeam,
+        dueAt: result.data.dueAt ?? null,
+      });
+      await recordAudit(req, {
+        action: "peerReview.saveForm",
+        targetType: "peerReviewRound",
+        targetId: round.id,
+        summary: `Saved the peer review form of ${assignment.title}`,
+        before: existing,
+        after: round,
+      });
+      res.json(round);
+    } catch (error) {
+      console.error('Save peer review error:', error);
+      res.status(500).json({ message: "Failed to save review form" });
+    }
+  });
+
+  // Assign reviewers among the teams that submitted, and open the round
+  app.post("/api/admin/assignments/:id/peer-review/assign", requirePermission("reviews.manage"), requireCourse, async (req, res) => {
+    try {
+      const courseId = (req.user as any).courseId;
+      const round = await storage.getPeerReviewRound(req.params.id);
+      if (!round || round.courseId !== courseId) {
+        return res.status(404).json({ message: "Save a review form first" });
+      }
+
+      const existing = await storage.getPeerReviews(courseId, { roundId: round.id });
+      if (existing.some(review => review.submittedAt)) {
+        return res.status(409).json({ message: "Reviews have already been submitted; reassigning would discard them" });
+      }
+
+      const teams = await getSubmittingTeams(courseId, round.assignmentId);
+      if (teams.length < 2) {
+        return res.status(400).json({ message: "At least two teams need a submission before reviewers can be assigned" });
+      }
+
+      const reviews = await storage.assignPeerReviews(round, assignReviewers(teams, round.reviewsPerTeam));
+      const updated = await storage.updatePeerReviewRound(round.id, { status: "open" });
+      await recordAudit(req, {
+        action: "peerReview.assign",
+        targetType: "peerReviewRound",
+        targetId: round.id,
+        summary: `Assigned ${reviews.length} peer reviews for ${await getAssignmentTitle(courseId, round.assignmentId)}`,
+        before: existing,
+        after: reviews,
+      });
+      res.json({ round: updated, reviews });
+    } catch (error) {
+      console.error('Assign peer reviews error:', error);
+      res.status(500).json({ message: "Failed to assign reviewers" });
+    }
+  });
+
+  app.put("/api/admin/assignments/:id/peer-review/status", requirePermission("reviews.manage"), requireCourse, async (req, res) => {
+    try {
+      const { status } = req.body;
+      if (status !== "open" && status !== "closed") {
+        return res.status(400).json({ message: "Invalid review status" });
+      }
+
+      const round = await storage.getPeerReviewRound(req.params.id);
+      if (!round || round.courseId !== (req.user as any).courseId) {
+        return res.status(404).json({ message: "Peer review not found" });
+      }
+      if (round.status === "draft") {
+        return res.status(400).json({ message: "Assign reviewers to open the round" });
+      }
+
+      const updated = await storage.updatePeerReviewRound(round.id, { status });
+      await recordAudit(req, {
+        action: "peerReview.status",
+        targetType: "peerReviewRound",
+        targetId: round.id,
+        summary: `${status === "open" ? "Reopened" : "Closed"} peer reviews for ${await getAssignmentTitle(round.courseId, round.assignmentId)}`,
+        before: { status: round.status },
+        after: { status },
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error('Peer review status error:', error);
+      res.status(500).json({ message: "Failed to update peer review" });
+    }
+  });
+
+  app.put("/api/admin/assignments/:id/peer-review/release", requirePermission("reviews.manage"), requireCourse, async (req, res) => {
+    try {
+      const { released } = req.body;
+      if (released !== "true" && released !== "false") {
+        return res.status(400).json({ message: "Invalid release setting" });
+      }
+
+      const round = await storage.getPeerReviewRound(req.params.id);
+      if (!round || round.courseId !== (req.user as any).courseId) {
+        return res.status(404).json({ message: "Peer review not found" });
+      }
+
+      const updated = await storage.updatePeerReviewRound(round.id, { isReleased: released });
+      await recordAudit(req, {
+        action: "peerReview.release",
+        targetType: "peerReviewRound",
+        targetId: round.id,
+        summary: `${released === "true" ? "Released" : "Hid"} peer reviews for ${await getAssignmentTitle(round.courseId, round.assignmentId)}`,
+        before: { isReleased: round.isReleased },
+        after: { isReleased: released },
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error('Release peer reviews error:', error);
+      res.status(500).json({ message: "Failed to update review release" });
+    }
+  });
+
+  app.delete("/api/admin/assignments/:id/peer-review", requirePermission("reviews.manage"), requireCourse, async (req, res) => {
+    try {
+      const round = await storage.getPeerReviewRound(req.params.id);
+      if (!round || round.courseId !== (req.user as any).courseId) {
+        return res.status(404).json({ message: "Peer review not found" });
+      }
+
+      const reviews = await storage.getPeerReviews(round.courseId, { roundId: round.id });
+      await storage.deletePeerReviewRound(round.id);
+      await recordAudit(req, {
+        action: "peerReview.delete",
+        targetType: "peerReviewRound",
+        targetId: round.id,
+        summary: `Deleted the peer review round of ${await getAssignmentTitle(round.courseId, round.assignmentId)}`,
+        before: { round, reviews },
+      });
+      res.json({ message: "Peer review deleted" });
+    } catch (error) {
+      console.error('Delete peer review error:', error);
+      res.status(500).json({ message: "Failed to delete peer review" });
+    }
+  });
+
+  // Every assigned review with its reviewer, one column per question
+  app.get("/api/admin/assignments/:id/peer-review/export.csv", requirePermission("reviews.view"), requireCourse, async (req, res) => {
+    try {
+      const courseId = (req.user as any).courseId;
+      const assignment = await storage.getAssignment(courseId, req.params.id);
+      const round = assignment && await storage.getPeerReviewRound(assignment.id);
+      if (!assignment || !round) {
+        return res.status(404).json({ message: "Peer review not found" });
+      }
+
+      const reviews = await storage.getPeerReviews(courseId, { roundId: round.id });
+      const users = (await storage.getAllUsers(courseId)).filter(user => user.role === "team");
+      const teamName = (teamNumber: number) => users.find(user => user.teamNumber === teamNumber)?.teamName || `Team ${teamNumber}`;
+
+      const rows: (string | number | null)[][] = [[
+        "Reviewer Team", "Reviewer Name", "Reviewed Team", "Reviewed Name", "Status", "Submitted At",
+        ...round.questions.map(question => question.prompt),
+      ]];
+      for (const review of reviews) {
+        rows.push([
+          review.reviewerTeamNumber,
+          teamName(review.reviewerTeamNumber),
+          review.revieweeTeamNumber,
+          teamName(review.revieweeTeamNumber),
+          review.submittedAt ? "Submitted" : review.answers.length > 0 ? "In progress" : "Not started",
+          review.submittedAt ? new Date(review.submittedAt).toISOString() : null,
+          ...round.questions.map(question =>
+            formatPeerReviewAnswer(question, review.answers.find(answer => answer.questionId === question.id)) || null
+          ),
+        ]);
+      }
+
+      const fileName = `peer-reviews-${assignment.title.replace(/[^a-z0-9]+/gi, "-").toLowerCase()}.csv`;
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.send(formatCsv(rows));
+    } catch (error) {
+      console.error('Peer review export error:', error);
+      res.status(500).json({ message: "Failed to export peer reviews" });
+    }
+  });
+
+  // Reviews the signed-in team has been assigned, with the form and the submission to review
+  app.get("/api/peer-reviews", requireAuth, requireCourse, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.isAdmin) {
+        return res.status(403).json({ message: "Staff see peer reviews in the admin settings" });
+      }
+
+      const rounds = await storage.getPeerReviewRounds(user.courseId);
+      const assigned = [];
+      for (const review of await storage.getPeerReviews(user.courseId, { reviewerTeamNumber: user.teamNumber })) {
+        const round = rounds.find(r => r.id === review.roundId);
+        if (!round || round.status === "draft") continue;
+
+        const files = (await storage.getFilesByAssignment(user.courseId, review.assignmentId))
+          .filter(file => file.teamNumber === review.revieweeTeamNumber && file.isLatestVersion === "true")
+          .sort((a, b) => a.label.localeCompare(b.label));
+        assigned.push({
+          id: review.id,
+          assignmentId: review.assignmentId,
+          revieweeTeamNumber: review.revieweeTeamNumber,
+          answers: review.answers,
+          submittedAt: review.submittedAt,
+          questions: round.questions,
+          dueAt: round.dueAt,
+          isOpen: round.status === "open",
+          files,
+        });
+      }
+
+      res.json(assigned);
+    } catch (error) {
+      console.error('Team peer reviews error:', error);
+      res.status(500).json({ message: "Failed to retrieve peer reviews" });
+    }
+  });
+
+  // Submitted reviews of the signed-in team's work from released rounds, without who wrote them
+  app.get("/api/peer-reviews/received", requireAuth, requireCourse, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (user.isAdmin) {
+        return res.status(403).json({ message: "Staff see peer reviews in the admin settings" });
+      }
+
+      const rounds = (await storage.getPeerReviewRounds(user.courseId)).filter(round => round.isReleased === "true");
+      const received = [];
+      for (const round of rounds) {
+        const reviews = (await storage.getPeerReviews(user.courseId, { roundId: round.id, revieweeTeamNumber: user.teamNumber }))
+          .filter(review => review.submittedAt)
+          .sort((a, b) => a.id.localeCompare(b.id)); // random ids, so the order says nothing about the reviewers
+        if (reviews.length === 0) continue;
+
+        received.push({
+          assignmentId: round.assignmentId,
+          questions: round.questions,
+          reviews: reviews.map(review => review.answers),
+        });
+      }
+
+      res.json(received);
+    } catch (error) {
+      console.error('Received peer reviews error:', error);
+      res.status(500).json({ message: "Failed to retrieve peer reviews" });
+    }
+  });
+
+  // Save a draft or submit; submitted reviews can be revised while the round is open
+  app.put("/api/peer-reviews/:id", requireAuth, requireCourse, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const review = await storage.getPeerReview(req.params.id);
+      if (!review || user.isAdmin || review.courseId !== user.courseId || review.reviewerTeamNumber !== user.teamNumber) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+
+      const round = (await storage.getPeerReviewRounds(user.courseId)).find(r => r.id === review.roundId);
+      if (round?.status !== "open") {
+        return res.status(409).json({ message: "This review round is closed" });
+      }
+
+      const result = savePeerReviewSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({
+          message: "Invalid review",
+          errors: result.error.issues.map(issue => issue.message)
+        });
+      }
+
+      const { answers, submit } = result.data;
+      const error = validatePeerReviewAnswers(round.questions, answers, submit || !!review.submittedAt);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+
+      const saved = await storage.savePeerReview(review.id, answers, submit ? new Date() : review.submittedAt);
+      await recordAudit(req, {
+        action: submit ? "peerReview.submit" : "peerReview.saveDraft",
+        targetType: "peerReview",
+        targetId: review.id,
+        teamNumber: review.revieweeTeamNumber,
+        summary: `${submit ? "Submitted" : "Saved a draft of"} a review of Team ${review.revieweeTeamNumber} for ${await getAssignmentTitle(user.courseId, review.assignmentId)}`,
+        before: review,
+        after: saved,
+      });
+      res.json(saved);
+    } catch (error) {
+      console.error('Save peer review error:', error);
+      res.status(500).json({ message: "Failed to save review" });
+    }
+  });
+
+  // Get all files (with permission checks)
+  app.get("/api/files", requireAuth, requireCourse, async (req, res) => {
+    try {
+      const { team, type, assignmentId, search, versions } = req.query;
+      const user = req.user as any;
+      
+      // Search results come back best match first, with the matching passage of each file's text
+      const searchQuery = typeof search === "string" ? search.trim() : "";
+      let files;
+      if (searchQuery) {
+        files = await storage.searchFiles(user.courseId, searchQuery);
+      } else if (team) {
+        files = await storage.getFilesByTeam(user.courseId, parseInt(team as string));
+      } else if (type) {
+        files = await storage.getFilesByType(user.courseId, type as string);
+      } else if (assignmentId) {
+        files = await storage.getFilesByAssignment(user.courseId, assignmentId as string);
+      } else {
+        files = await storage.getAllFiles(user.courseId);
+      }
+
+      // Superseded versions are only listed when asked for
+      if (versions !== "all") {
+        files = files.filter(file => file.isLatestVersion === "true");
+      }
+      
+      // Filter files based on permissions
+      if (!hasPermission(user, "files.viewAll")) {
+        // Students can only see files from assignments marked as "open view" or their own team's files
+        const assignmentSettings = await storage.getAssignmentSettings(user.courseId);
+        const now = new Date();
+        const openAssignments = assignmentSettings
+          .filter(setting => isOpenViewAt(setting, now))
+          .map(setting => setting.assignmentId);
+        
+        files = files.filter(file => {
+          const isOwnFile = file.teamNumber === user.teamNumber;
+          
+          // For admin files (team 0): ONLY check individual visibility, ignore assignment settings
+          if (file.teamNumber === 0) {
+            const shouldShow = file.isVisible === "true";
+            console.log(`DEBUG: Admin file ${file.id} visibility=${file.isVisible} -> ${shouldShow ? 'SHOW' : 'HIDE'}`);
+            return shouldShow;
+          }
+          
+          // For other team files: check if assignment is open
+          const isOtherTeamInOpenAssignment = openAssignments.includes(file.assignmentId);
+          const shouldShow = isOwnFile || isOtherTeamInOpenAssignment;
+          console.log(`DEBUG: Team ${file.teamNumber} file ${file.id} -> ${shouldShow ? 'SHOW' : 'HIDE'}`);
+          return shouldShow;
+        });
+        
+        console.log(`DEBUG: Final files for team ${user.teamNumber}:`, files.map(f => ({ id: f.id, team: f.teamNumber, visible: f.isVisible })));
+      }
+      
+      res.json(files);
+    } catch (error) {
+      console.error('List files error:', error);
+      res.status(500).json({ message: "Failed to retrieve files" });
+    }
+  });
+
+  /**
+   * Validate staged uploads against the target assignment and record them as one new
+   * version. Used by both the single-request and the chunked upload routes; staged files
+   * are stored or discarded whatever the outcome.
+   */
+  async function saveStagedUploads(req: Request, res: Response, files: StagedUpload[]) {
+    try {
+      const { label, assignmentId, tags, description, isVisible, memberId } = req.body;
+      const user = req.user as any;
+
+      if (user.isAdmin && !hasPermission(user, "files.upload")) {
+        await discardStagedUploads(files);
+        return res.status(403).json({ message: "You don't have permission to upload files" });
+      }
+
+      const assignment = assignmentId ? await storage.getAssignment(user.courseId, assignmentId) : undefined;
+      if (!assignment || assignment.isArchived === "true") {
+        // Clean up uploaded files when the target assignment is not accepting submissions
+        await discardStagedUploads(files);
+        return res.status(400).json({ message: assignment ? "Assignment is archived" : "Assignment not found" });
+      }
+
+      // Deadlines apply to team submissions only; admin files can be posted at any time
+      const submission = getSubmissionStatus(assignment);
+      if (!user.isAdmin && (submission.state === "not-open" || submission.state === "closed")) {
+        await discardStagedUploads(files);
+        return res.status(403).json({ 
+          message: submission.state === "not-open"
+            ? `Submissions for this assignment open at ${new Date(assignment.openAt!).toLocaleString()}`
+            : `The submission cutoff for this assignment passed at ${new Date(assignment.cutoffAt!).toLocaleString()}. Late uploads are no longer accepted.`
+        });
+      }
+      const isLate = !user.isAdmin && submission.state === "late";
+
+      // Teams share one login, so record which member is uploading; staff are recorded by name
+      const member = !user.isAdmin && memberId ? await storage.getTeamMember(user.courseId, memberId) : undefined;
+      if (member && member.teamNumber !== user.teamNumber) {
+        await discardStagedUploads(files);
+        return res.status(400).json({ message: "That member is not on your team" });
+      }
+      if (!user.isAdmin && memberId && !member) {
+        await discardStagedUploads(files);
+        return res.status(400).json({ message: "Team member not found" });
+      }
+      
+      // Admin users get assigned to Team 0, others use their actual team number
+      const teamNumber = user.isAdmin ? 0 : user.teamNumber;
+      
+      // Parse tags if it's a string
+      let parsedTags = [];
+      if (tags) {
+        parsedTags = typeof tags === 'string' ? tags.split(',').map(tag => tag.trim()) : tags;
+      }
+
+      const uploadedFiles = [];
+      // Files uploaded together share one version number
+      let version: number | undefined;
+
+      for (const file of files) {
+        const contentHash = await hashFile(file.path);
+        const fileData = {
+          label,
+          originalName: file.originalname,
+          contentHash,
+          fileType: path.extname(file.originalname),
+          fileSize: file.size,
+          courseId: user.courseId,
+          teamNumber: teamNumber,
+          assignmentId: assignment.id,
+          tags: parsedTags,
+          description: description || null,
+          isVisible: user.isAdmin ? (isVisible || "true") : "true",
+          isLate: isLate ? "true" : "false",
+          minutesLate: isLate ? submission.minutesLate : 0,
+          uploadedByMemberId: member?.id ?? null,
+          uploadedByName: user.isAdmin ? user.teamName : member?.name ?? null,
+        };
+
+        const result = insertFileSchema.safeParse(fileData);
+        if (!result.success) {
+          // Clean up uploaded file on validation error
+          await discardStagedUploads(files);
+          return res.status(400).json({ message: "Invalid file data", errors: result.error.issues });
+        }
+
+        if (version === undefined) {
+          const previousVersions = await storage.getFileVersions(teamNumber, assignment.id, result.data.label);
+          version = (previousVersions[0]?.version ?? 0) + 1;
+        }
+
+        // Content already stored for another upload is reused rather than stored again
+        const fileName = contentKey(contentHash);
+        const savedFile = await withBlobLock(fileName, async () => {
+          if (await storage.getFileReferenceCount(fileName) > 0) {
+            await fs.unlink(file.path);
+          } else {
+            await blobStore.putFile(fileName, file.path, file.mimetype);
+          }
+          return storage.createFile({ ...result.data, version, fileName });
+        });
+        uploadedFiles.push(savedFile);
+        // Presentations and documents are converted in the background so they preview inline
+        previews.request(savedFile);
+        thumbnails.request(savedFile);
+        textExtraction.request(savedFile);
+      }
+
+      if (uploadedFiles.length > 0) {
+        await storage.syncLatestFileVersion(teamNumber, assignment.id, label);
+      }
+
+      await recordAudit(req, {
+        action: "file.upload",
+        targetType: "file",
+        targetId: uploadedFiles.length === 1 ? uploadedFiles[0].id : null,
+        teamNumber,
+        summary: `Uploaded ${uploadedFiles.map(file => file.originalName).join(", ")} as "${label}" v${version} for ${assignment.title}`,
+        after: uploadedFiles,
+      });
+
+      res.json({ message: "Files uploaded successfully", files: uploadedFiles });
+    } catch (error) {
+      await discardStagedUploads(files);
+      console.error('Upload error:', error);
+      res.status(500).json({ message: "Failed to upload files" });
+    }
+  }
+
+  // Upload files (require authentication)
+  app.post("/api/files/upload", requireAuth, requireCourse, upload.array('files', 10), async (req, res) => {
+    const files = (req.files as Express.Multer.File[]) ?? [];
+    if (files.length === 0) {
+      return res.status(400).json({ message: "No files uploaded" });
+    }
+    await saveStagedUploads(req, res, files);
+  });
+
+  // Chunked uploads belong to the signed-in team, or to one staff member, within a course
+  function getUploadOwner(user: any): string {
+    return user.isAdmin ? `staff:${user.id}` : `team:${user.teamNumber}`;
+  }
+
+  async function getOwnChunkedUpload(user: any, id: string) {
+    const upload = await chunkedUploads.get(id);
+    return upload && upload.courseId === user.courseId && upload.owner === getUploadOwner(user) ? upload : null;
+  }
+
+  function describeChunkedUpload(upload: { id: string; originalName: string; size: number; receivedBytes: number }) {
+    return {
+      id: upload.id,
+      fileName: upload.originalName,
+      size: upload.size,
+      receivedBytes: upload.receivedBytes,
+      chunkSize: UPLOAD_CHUNK_SIZE,
+    };
+  }
+
+  // Start a chunked upload; the returned id is used to send chunks and to resume later
+  app.post("/api/uploads", requireAuth, requireCourse, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const { fileName, fileSize, mimeType } = req.body;
+
+      if (user.isAdmin && !hasPermission(user, "files.upload")) {
+        return res.status(403).json({ message: "You don't have permission to upload files" });
+      }
+      if (typeof fileName !== "string" || !fileName.trim()) {
+        return res.status(400).json({ message: "File name is required" });
+      }
+      if (!isAllowedUploadType(fileName)) {
+        return res.status(400).json({ message: "File type not supported. Please check the supported file types in the upload interface." });
+      }
+      if (!Number.isSafeInteger(fileSize) || fileSize <= 0) {
+        return res.status(400).json({ message: "File size is required" });
+      }
+      if (fileSize > MAX_UPLOAD_SIZE) {
+        return res.status(413).json({ message: `Files can be at most ${MAX_UPLOAD_SIZE / 1024 / 1024}MB` });
+      }
+
+      const upload = await chunkedUploads.create({
+        owner: getUploadOwner(user),
+        courseId: user.courseId,
+        originalName: path.basename(fileName),
+        mimeType: typeof mimeType === "string" && mimeType ? mimeType : "application/octet-stream",
+        size: fileSize,
+      });
+      res.status(201).json(describeChunkedUpload(upload));
+    } catch (error) {
+      console.error('Upload error:', error);
+      res.status(500).json({ message: "Failed to start upload" });
+    }
+  });
+
+  // How much of an upload has arrived, so a client can resume where it left off
+  app.get("/api/uploads/:id", requireAuth, requireCourse, async (req, res) => {
+    try {
+      const upload = await getOwnChunkedUpload(req.user, req.params.id);
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      res.json(describeChunkedUpload(upload));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve upload" });
+    }
+  });
+
+  // Send one chunk as the raw request body, starting at ?offset=
+  app.put("/api/uploads/:id", requireAuth, requireCourse, express.raw({ type: "application/octet-stream", limit: UPLOAD_CHUNK_SIZE }), async (req, res) => {
+    try {
+      const upload = await getOwnChunkedUpload(req.user, req.params.id);
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      const offset = Number(req.query.offset);
+      const chunk = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      if (!Number.isSafeInteger(offset) || offset < 0 || chunk.length === 0) {
+        return res.status(400).json({ message: "Send a chunk with an offset" });
+      }
+      // A gap means an earlier chunk was lost; tell the client where to pick up
+      if (offset > upload.receivedBytes) {
+        return res.status(409).json({ message: "Chunk is out of order", receivedBytes: upload.receivedBytes });
+      }
+      if (offset + chunk.length > upload.size) {
+        return res.status(400).json({ message: "Chunk runs past the end of the file" });
+      }
+
+      const receivedBytes = await chunkedUploads.writeChunk(upload, offset, chunk);
+      res.json(describeChunkedUpload({ ...upload, receivedBytes }));
+    } catch (error) {
+      console.error('Upload error:', error);
+      res.status(500).json({ message: "Failed to save chunk" });
+    }
+  });
+
+  app.delete("/api/uploads/:id", requireAuth, requireCourse, async (req, res) => {
+    try {
+      const upload = await getOwnChunkedUpload(req.user, req.params.id);
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      await chunkedUploads.discard(upload.id);
+      res.json({ message: "Upload cancelled" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to cancel upload" });
+    }
+  });
+
+  // Finish chunked uploads; they are saved together exactly like a single-request upload
+  app.post("/api/files/upload/complete", requireAuth, requireCourse, async (req, res) => {
+    try {
+      const { uploadIds } = req.body;
+      if (!Array.isArray(uploadIds) || uploadIds.length === 0 || uploadIds.length > 10) {
+        return res.status(400).json({ message: "Send between 1 and 10 upload ids" });
+      }
+      if (new Set(uploadIds).size !== uploadIds.length) {
+        return res.status(400).json({ message: "Each upload id can only be sent once" });
+      }
+
+      const uploads = [];
+      for (const id of uploadIds) {
+        const upload = typeof id === "string" ? await getOwnChunkedUpload(req.user, id) : null;
+        if (!upload) {
+          return res.status(404).json({ message: "Upload not found" });
+        }
+        if (upload.receivedBytes !== upload.size) {
+          return res.status(409).json({ message: `${upload.originalName} has not finished uploading`, id: upload.id, receivedBytes: upload.receivedBytes });
+        }
+        uploads.push(upload);
+      }
+
+      // Uploads already taken belong to this request, so a failure part way must remove them
+      const files: StagedUpload[] = [];
+      try {
+        for (const upload of uploads) {
+          files.push(await chunkedUploads.take(upload));
+        }
+      } catch (error) {
+        await discardStagedUploads(files);
+        throw error;
+      }
+      await saveStagedUploads(req, res, files);
+    } catch (error) {
+      console.error('Upload error:', error);
+      res.status(500).json({ message: "Failed to upload files" });
+    }
+  });
+
+  // Several files as one ZIP, streamed as it's built: every file of an assignment or a team,
+  // or an explicit list of ids. Lists are all-or-nothing, like downloading each file in turn;
+  // filters quietly leave out what the user can't see.
+  app.get("/api/files/download.zip", requireAuth, requireCourse, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const { assignmentId, teamNumber, ids, versions } = req.query;
+      const team = typeof teamNumber === "string" && teamNumber !== "" ? parseInt(teamNumber) : null;
+      if (team !== null && isNaN(team)) {
+        return res.status(400).json({ message: "Invalid team number" });
+      }
+
+      let files: File[];
+      if (typeof ids === "string" && ids !== "") {
+        const fileIds = Array.from(new Set(ids.split(",").map(id => id.trim()).filter(Boolean)));
+        if (fileIds.length > MAX_ZIP_DOWNLOAD_IDS) {
+          return res.status(400).json({ message: `At most ${MAX_ZIP_DOWNLOAD_IDS} files can be downloaded at once` });
+        }
+        files = [];
+        for (const id of fileIds) {
+          const file = await storage.getFileById(user.courseId, id);
+          if (!file) {
+            return res.status(404).json({ message: "File not found" });
+          }
+          if (!(await canViewFile(user, file))) {
+            return res.status(403).json({ message: "Access denied" });
+          }
+          files.push(file);
+        }
+      } else {
+        if (typeof assignmentId !== "string" && team === null) {
+          return res.status(400).json({ message: "Choose an assignment, a team or a list of files" });
+        }
+        files = team !== null
+          ? await storage.getFilesByTeam(user.courseId, team)
+          : await storage.getFilesByAssignment(user.courseId, assignmentId as string);
+        if (typeof assignmentId === "string") {
+          files = files.filter(file => file.assignmentId === assignmentId);
+        }
+        if (versions !== "all") {
+          files = files.filter(file => file.isLatestVersion === "true");
+        }
+        const visible: File[] = [];
+        for (const file of files) {
+          if (await canViewFile(user, file)) visible.push(file);
+        }
+        files = visible;
+      }
+
+      if (files.length === 0) {
+        return res.status(404).json({ message: "No files to download" });
+      }
+
+      const assignments = await storage.getAssignments(user.courseId);
+      const assignmentTitles = new Map(assignments.map(assignment => [assignment.id, safeName(assignment.title)]));
+      files.sort((a, b) => a.teamNumber - b.teamNumber || new Date(a.uploadedAt).getTime() - new Date(b.uploadedAt).getTime());
+
+      const zip = new JSZip();
+      const usedPaths = new Set<string>();
+      for (const file of files) {
+        const folder = `${describeUploader(file.teamNumber)}/${assignmentTitles.get(file.assignmentId) ?? "Unknown assignment"}`;
+        const name = file.isLatestVersion === "true" ? safeName(file.originalName) : versionedFileName(file);
+        zip.file(uniquePath(usedPaths, `${folder}/${name}`), openWhenRead(async () => {
+          const blob = await blobStore.getStream(file.fileName);
+          if (blob) return blob.stream;
+          console.error(`ZIP download: ${file.id} not found in storage`);
+          return Readable.from([]);
+        }), { binary: true, date: new Date(file.uploadedAt), compression: "STORE" });
+      }
+
+      const assignmentTitle = typeof assignmentId === "string" ? assignments.find(a => a.id === assignmentId)?.title : undefined;
+      const downloadName = [team !== null ? describeUploader(team) : null, assignmentTitle]
+        .filter(Boolean).join(" - ") || "Files";
+      // res.attachment adds a UTF-8 filename* for names outside latin1, which setHeader would reject
+      res.attachment(`${downloadName.replace(/[\\/]/g, "_")}.zip`);
+      res.setHeader('Content-Type', 'application/zip');
+      const stream = zip.generateNodeStream({ type: "nodebuffer", streamFiles: true });
+      stream.on('error', (error) => {
+        console.error('ZIP download stream error:', error);
+        res.destroy(error);
+      });
+      stream.pipe(res);
+    } catch (error) {
+      console.error('ZIP download error:', error);
+      res.status(500).json({ message: "Failed to download files" });
+    }
+  });
+
+  // Serve uploaded files (with permission check)
+  app.get("/api/files/:id/download", requireAuth, requireCourse, async (req, res) => {
+    try {
+      const file = await storage.getFileById((req.user as any).courseId, req.params.id);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      
+      // Check permission to download file
+      if (!(await canViewFile(req.user, file))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const blob = await blobStore.getStream(file.fileName);
+      if (!blob) {
+        return res.status(404).json({ message: "File not found in storage" });
+      }
+
+      res.setHeader('Content-Disposition', `attachment; filename="${file.originalName}"`);
+      res.setHeader('Content-Type', 'application/octet-stream');
+      if (blob.size !== null) res.setHeader('Content-Length', blob.size);
+      blob.stream.on('error', (error) => {
+        console.error('Download stream error:', error);
+        res.destroy(error);
+      });
+      blob.stream.pipe(res);
+    } catch (error) {
+      console.error('Download error:', error);
+      res.status(500).json({ message: "Failed to download file" });
+    }
+  });
+
+  // Preview state for presentations, Word documents and spreadsheets; "pending" while converting
+  app.get("/api/files/:id/preview", requireAuth, requireCourse, async (req, res) => {
+    try {
+      const file = await storage.getFileById((req.user as any).courseId, req.params.id);
+      if (!file || !(await canViewFile(req.user, file))) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      res.json(await previews.getStatus(file));
+    } catch (error) {
+      console.error('Preview error:', error);
+      res.status(500).json({ message: "Failed to retrieve preview" });
+    }
+  });
+
+  // Converted Word document, shown in a sandboxed frame
+  app.get("/api/files/:id/preview/document", requireAuth, requireCourse, async (req, res) => {
+    try {
+      const file = await storage.getFileById((req.user as any).courseId, req.params.id);
+      if (!file || !(await canViewFile(req.user, file))) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const blob = await previews.getDocument(file.fileName);
+      if (!blob) {
+        return res.status(404).json({ message: "Preview not found" });
+      }
+
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      res.setHeader('Content-Security-Policy', DOCUMENT_PREVIEW_CSP);
+      res.setHeader('Cache-Control', 'private, max-age=3600');
+      blob.stream.on('error', (error) => res.destroy(error));
+      blob.stream.pipe(res);
+    } catch (error) {
+      console.error('Preview error:', error);
+      res.status(500).json({ message: "Failed to retrieve preview" });
+    }
+  });
+
+  // One slide of a converted presentation, numbered from 1
+  app.get("/api/files/:id/preview/slides/:slide", requireAuth, requireCourse, async (req, res) => {
+    try {
+      const file = await storage.getFileById((req.user as any).courseId, req.params.id);
+      if (!file || !(await canViewFile(req.user, file))) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const slide = parseInt(req.params.slide);
+      const blob = Number.isInteger(slide) && slide > 0 ? await previews.getSlide(file.fileName, slide) : null;
+      if (!blob) {
+        return res.status(404).json({ message: "Slide not found" });
+      }
+
+      res.setHeader('Content-Type', 'image/png');
+      // Previews are stored by content, so a slide URL never changes what it shows
+      res.setHeader('Cache-Control', 'private, max-age=86400');
+      if (blob.size !== null) res.setHeader('Content-Length', blob.size);
+      blob.stream.on('error', (error) => res.destroy(error));
+      blob.stream.pipe(res);
+    } catch (error) {
+      console.error('Preview error:', error);
+      res.status(500).json({ message: "Failed to retrieve slide" });
+    }
   });
-  
-  // Assignment settings routes
-  app.get("/api/assignment-settings", requireAuth, async (req, res) => {
+
+  // Gallery card image; 404 while it is being generated or for types without one, and the card shows an icon
+  app.get("/api/files/:id/thumbnail", requireAuth, requireCourse, async (req, res) => {
     try {
-      const user = req.user as any;
-      let settings: any[] = [];
-      
-      try {
-        settings = await storage.getAssignmentSettings();
-      } catch (error) {
-        console.log('No assignment settings found, returning empty array:', (error as Error).message);
-        settings = [];
+      const file = await storage.getFileById((req.user as any).courseId, req.params.id);
+      if (!file || !(await canViewFile(req.user, file))) {
+        return res.status(404).json({ message: "File not found" });
       }
-      
-      if (user.isAdmin) {
-        // Admin gets all settings
-        res.json(settings);
-      } else {
-        // Students only get the assignment names and open view status (not edit capabilities)
-        res.json(settings.map(setting => ({
-          assignment: setting.assignment,
-          isOpenView: setting.isOpenView
-        })));
+
+      // Blob keys are content hashes, so the key doubles as a validator that never goes stale
+      const etag = `"${file.fileName}"`;
+      res.setHeader('Cache-Control', 'private, max-age=604800');
+      res.setHeader('ETag', etag);
+      if (req.headers['if-none-match'] === etag) {
+        return res.status(304).end();
       }
+
+      const blob = await thumbnails.get(file);
+      if (!blob) {
+        res.removeHeader('Cache-Control');
+        res.removeHeader('ETag');
+        return res.status(404).json({ message: "Thumbnail not available" });
+      }
+
+      res.setHeader('Content-Type', 'image/webp');
+      if (blob.size !== null) res.setHeader('Content-Length', blob.size);
+      blob.stream.on('error', (error) => res.destroy(error));
+      blob.stream.pipe(res);
     } catch (error) {
-      console.error('Assignment settings error:', error);
-      res.status(500).json({ message: "Failed to retrieve assignment settings", error: (error as Error).message });
+      console.error('Thumbnail error:', error);
+      res.status(500).json({ message: "Failed to retrieve thumbnail" });
     }
   });
-  
-  app.put("/api/assignment-settings", requireAdmin, async (req, res) => {
+
+  // List every version of the submission a file belongs to, newest first
+  app.get("/api/files/:id/versions", requireAuth, requireCourse, async (req, res) => {
     try {
-      const { assignment, isOpenView } = req.body;
-      
-      if (!assignment || typeof isOpenView !== "boolean") {
-        return res.status(400).json({ message: "Assignment and isOpenView required" });
+      const file = await storage.getFileById((req.user as any).courseId, req.params.id);
+      if (!file || !(await canViewFile(req.user, file))) {
+        return res.status(404).json({ message: "File not found" });
       }
-      
-      const setting = await storage.updateAssignmentSetting(assignment, isOpenView);
-      res.json(setting);
+
+      const versions = await storage.getFileVersions(file.teamNumber, file.assignmentId, file.label);
+      const visibleVersions = [];
+      for (const version of versions) {
+        if (await canViewFile(req.user, version)) {
+          visibleVersions.push(version);
+        }
+      }
+
+      res.json(visibleVersions);
     } catch (error) {
-      res.status(500).json({ message: "Failed to update assignment setting" });
+      console.error('File versions error:', error);
+      res.status(500).json({ message: "Failed to retrieve file versions" });
     }
   });
 
-  // Get all files (with permission checks)
-  app.get("/api/files", requireAuth, async (req, res) => {
+  // Restore an older version by re-submitting its files as the newest version
+  app.post("/api/files/:id/restore", requireAuth, requireCourse, async (req, res) => {
     try {
-      const { team, type, assignment, search } = req.query;
       const user = req.user as any;
-      
-      let files;
-      if (search) {
-        files = await storage.searchFiles(search as string);
-      } else if (team) {
-        files = await storage.getFilesByTeam(parseInt(team as string));
-      } else if (type) {
-        files = await storage.getFilesByType(type as string);
-      } else if (assignment) {
-        files = await storage.getFilesByAssignment(assignment as string);
-      } else {
-        files = await storage.getAllFiles();
+      const file = await storage.getFileById(user.courseId, req.params.id);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
       }
-      
-      // Filter files based on permissions
-      if (!user.isAdmin) {
-        // Students can only see files from assignments marked as "open view" or their own team's files
-        const assignmentSettings = await storage.getAssignmentSettings();
-        const openAssignments = assignmentSettings
-          .filter(setting => setting.isOpenView === "true")
-          .map(setting => setting.assignment);
-        
-        files = files.filter(file => {
-          const isOwnFile = file.teamNumber === user.teamNumber;
-          
-          // For admin files (team 0): ONLY check individual visibility, ignore assignment settings
-          if (file.teamNumber === 0) {
-            const shouldShow = file.isVisible === "true";
-            console.log(`DEBUG: Admin file ${file.id} visibility=${file.isVisible} -> ${shouldShow ? 'SHOW' : 'HIDE'}`);
-            return shouldShow;
-          }
-          
-          // For other team files: check if assignment is open
-          const isOtherTeamInOpenAssignment = openAssignments.includes(file.assignment);
-          const shouldShow = isOwnFile || isOtherTeamInOpenAssignment;
-          console.log(`DEBUG: Team ${file.teamNumber} file ${file.id} -> ${shouldShow ? 'SHOW' : 'HIDE'}`);
-          return shouldShow;
+
+      const canRestore = user.isAdmin ? hasPermission(user, "files.edit") : file.teamNumber === user.teamNumber;
+      if (!canRestore) {
+        return res.status(403).json({ message: "Can only restore your own files" });
+      }
+
+      const assignment = await storage.getAssignment(user.courseId, file.assignmentId);
+      if (!assignment || assignment.isArchived === "true") {
+        return res.status(400).json({ message: assignment ? "Assignment is archived" : "Assignment not found" });
+      }
+
+      // A restore counts as a new submission, so team deadlines apply
+      const submission = getSubmissionStatus(assignment);
+      if (!user.isAdmin && (submission.state === "not-open" || submission.state === "closed")) {
+        return res.status(403).json({ message: "Submissions for this assignment are closed" });
+      }
+
+      const versions = await storage.getFileVersions(file.teamNumber, file.assignmentId, file.label);
+      if (file.isLatestVersion === "true") {
+        return res.status(400).json({ message: "This is already the latest version" });
+      }
+
+      const newVersion = versions[0].version + 1;
+      const restoredFiles = [];
+
+      // Restored versions point at the same blob as the version they copy
+      for (const source of versions.filter(version => version.version === file.version)) {
+        const isLate = user.isAdmin ? source.isLate === "true" : submission.state === "late";
+        const restored = await storage.createFile({
+          label: source.label,
+          originalName: source.originalName,
+          fileName: source.fileName,
+          contentHash: source.contentHash,
+          fileType: source.fileType,
+          fileSize: source.fileSize,
+          courseId: source.courseId,
+          teamNumber: source.teamNumber,
+          assignmentId: source.assignmentId,
+          tags: source.tags,
+          description: source.description,
+          isVisible: source.isVisible,
+          isLate: isLate ? "true" : "false",
+          minutesLate: user.isAdmin ? source.minutesLate : (isLate ? submission.minutesLate : 0),
+          version: newVersion,
+          restoredFromVersion: source.version,
+          uploadedByMemberId: source.uploadedByMemberId,
+          uploadedByName: source.uploadedByName,
         });
-        
-        console.log(`DEBUG: Final files for team ${user.teamNumber}:`, files.map(f => ({ id: f.id, team: f.teamNumber, visible: f.isVisible })));
+        restoredFiles.push(restored);
       }
-      
-      res.json(files);
+
+      await storage.syncLatestFileVersion(file.teamNumber, file.assignmentId, file.label);
+
+      await recordAudit(req, {
+        action: "file.restore",
+        targetType: "file",
+        targetId: file.id,
+        teamNumber: file.teamNumber,
+        summary: `Restored "${file.label}" v${file.version} as v${newVersion}`,
+        before: versions[0],
+        after: restoredFiles,
+      });
+
+      res.json({ message: `Version ${file.version} restored as version ${newVersion}`, files: restoredFiles });
     } catch (error) {
-      res.status(500).json({ message: "Failed to retrieve files" });
+      console.error('Restore version error:', error);
+      res.status(500).json({ message: "Failed to restore version" });
     }
   });
 
-  // Upload files (require authentication)
-  app.post("/api/files/upload", requireAuth, upload.array('files', 10), async (req, res) => {
+  // Comments on a file version, oldest first; the client groups replies under their threads
+  app.get("/api/files/:id/comments", requireAuth, requireCourse, async (req, res) => {
     try {
-      if (!req.files || req.files.length === 0) {
-        return res.status(400).json({ message: "No files uploaded" });
+      const user = req.user as any;
+      const file = await storage.getFileById(user.courseId, req.params.id);
+      if (!file || !(await canViewFile(user, file))) {
+        return res.status(404).json({ message: "File not found" });
       }
 
-      const { label, assignment, tags, description, isVisible } = req.body;
+      const fileComments = (await storage.getComments(file.id))
+        .filter(comment => canReadComment(user, file, comment))
+        .map(comment => toCommentView(user, file, comment));
+      const visibilities = await commentVisibilitiesFor(user, file);
+
+      res.json({ comments: fileComments, canComment: visibilities.length > 0, visibilities });
+    } catch (error) {
+      console.error('Get comments error:', error);
+      res.status(500).json({ message: "Failed to retrieve comments" });
+    }
+  });
+
+  // Teams comment wherever they can see the file, so peers only while its assignment is in open view
+  app.post("/api/files/:id/comments", requireAuth, requireCourse, async (req, res) => {
+    try {
       const user = req.user as any;
-      
-      // Admin users get assigned to Team 0, others use their actual team number
-      const teamNumber = user.isAdmin ? 0 : user.teamNumber;
-      
-      // Parse tags if it's a string
-      let parsedTags = [];
-      if (tags) {
-        parsedTags = typeof tags === 'string' ? tags.split(',').map(tag => tag.trim()) : tags;
+      const file = await storage.getFileById(user.courseId, req.params.id);
+      if (!file || !(await canViewFile(user, file))) {
+        return res.status(404).json({ message: "File not found" });
       }
 
-      const files = req.files as Express.Multer.File[];
-      const uploadedFiles = [];
-
-      for (const file of files) {
-        const fileData = {
-          label,
-          originalName: file.originalname,
-          fileName: file.filename,
-          fileType: path.extname(file.originalname),
-          fileSize: file.size,
-          teamNumber: teamNumber,
-          assignment,
-          tags: parsedTags,
-          description: description || null,
-          isVisible: user.isAdmin ? (isVisible || "true") : "true",
-        };
+      const visibilities = await commentVisibilitiesFor(user, file);
+      if (visibilities.length === 0) {
+        return res.status(403).json({ message: "You don't have permission to do that" });
+      }
 
-        const result = insertFileSchema.safeParse(fileData);
-        if (!result.success) {
-          // Clean up uploaded file on validation error
-          await fs.unlink(file.path).catch(console.error);
-          return res.status(400).json({ message: "Invalid file data", errors: result.error.issues });
+      const result = createCommentSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.issues[0].message });
+      }
+      const { body, page, parentId, visibility = "everyone" } = result.data;
+
+      // Replies join their thread's root and share its visibility
+      let thread: Comment | undefined;
+      if (parentId) {
+        const parent = await getVisibleComment(user, parentId);
+        if (!parent || parent.file.id !== file.id) {
+          return res.status(404).json({ message: "Comment not found" });
+        }
+        thread = parent.comment.parentId ? await storage.getComment(parent.comment.parentId) : parent.comment;
+        if (!thread) {
+          return res.status(404).json({ message: "Comment not found" });
         }
+      } else if (!visibilities.includes(visibility)) {
+        return res.status(403).json({ message: "You can't post comments with that visibility" });
+      }
 
-        const savedFile = await storage.createFile({ ...result.data, fileName: file.filename });
-        uploadedFiles.push(savedFile);
+      const comment = await storage.createComment({
+        courseId: user.courseId,
+        fileId: file.id,
+        parentId: thread?.id ?? null,
+        page: thread ? thread.page : page ?? null,
+        body,
+        visibility: thread ? thread.visibility : visibility,
+        authorUserId: user.isAdmin ? user.id : null,
+        authorTeamNumber: user.isAdmin ? 0 : user.teamNumber,
+        authorName: user.teamName || `Team ${user.teamNumber}`,
+      });
+
+      // A reply reopens a resolved thread, since it usually means there's more to discuss
+      if (thread?.isResolved === "true") {
+        await storage.updateComment(thread.id, { isResolved: "false", resolvedBy: null });
       }
 
-      res.json({ message: "Files uploaded successfully", files: uploadedFiles });
+      await recordAudit(req, {
+        action: "comment.create",
+        targetType: "comment",
+        targetId: comment.id,
+        teamNumber: file.teamNumber,
+        summary: `${thread ? "Replied to a comment" : "Commented"} on "${file.label}"`,
+        after: comment,
+      });
+
+      res.status(201).json(toCommentView(user, file, comment));
     } catch (error) {
-      console.error('Upload error:', error);
-      res.status(500).json({ message: "Failed to upload files" });
+      console.error('Create comment error:', error);
+      res.status(500).json({ message: "Failed to post comment" });
     }
   });
 
-  // Serve uploaded files (with permission check)
-  app.get("/api/files/:id/download", requireAuth, async (req, res) => {
+  app.put("/api/comments/:id", requireAuth, requireCourse, async (req, res) => {
     try {
-      const file = await storage.getFileById(req.params.id);
-      if (!file) {
-        return res.status(404).json({ message: "File not found" });
+      const user = req.user as any;
+      const visible = await getVisibleComment(user, req.params.id);
+      if (!visible) {
+        return res.status(404).json({ message: "Comment not found" });
       }
-      
+      if (!isCommentAuthor(user, visible.comment)) {
+        return res.status(403).json({ message: "Only the author can edit a comment" });
+      }
+
+      const result = updateCommentSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.issues[0].message });
+      }
+
+      const updated = await storage.updateComment(visible.comment.id, { body: result.data.body });
+      if (!updated) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      await recordAudit(req, {
+        action: "comment.update",
+        targetType: "comment",
+        targetId: updated.id,
+        teamNumber: visible.file.teamNumber,
+        summary: `Edited a comment on "${visible.file.label}"`,
+        before: visible.comment,
+        after: updated,
+      });
+      res.json(toCommentView(user, visible.file, updated));
+    } catch (error) {
+      console.error('Update comment error:', error);
+      res.status(500).json({ message: "Failed to update comment" });
+    }
+  });
+
+  // Resolve or reopen a thread; the file's team can resolve feedback it has dealt with
+  app.put("/api/comments/:id/resolve", requireAuth, requireCourse, async (req, res) => {
+    try {
       const user = req.user as any;
-      
-      // Check permission to download file
-      if (!user.isAdmin) {
-        const assignmentSetting = await storage.getAssignmentSetting(file.assignment);
-        const isOpenView = assignmentSetting && assignmentSetting.isOpenView === "true";
-        
-        if (file.teamNumber !== user.teamNumber && !isOpenView && !(file.teamNumber === 0 && file.isVisible === "true")) {
-          return res.status(403).json({ message: "Access denied" });
-        }
+      const visible = await getVisibleComment(user, req.params.id);
+      if (!visible) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (!toCommentView(user, visible.file, visible.comment).canResolve) {
+        return res.status(403).json({ message: "You don't have permission to do that" });
       }
 
-      const filePath = path.join(uploadsDir, file.fileName);
-      
-      // Check if file exists on disk
-      try {
-        await fs.access(filePath);
-      } catch {
-        return res.status(404).json({ message: "File not found on disk" });
+      const { isResolved } = req.body;
+      if (isResolved !== "true" && isResolved !== "false") {
+        return res.status(400).json({ message: "isResolved must be \"true\" or \"false\"" });
       }
 
-      res.setHeader('Content-Disposition', `attachment; filename="${file.originalName}"`);
-      res.setHeader('Content-Type', 'application/octet-stream');
-      res.sendFile(filePath);
+      const updated = await storage.updateComment(visible.comment.id, {
+        isResolved,
+        resolvedBy: isResolved === "true" ? user.teamName || `Team ${user.teamNumber}` : null,
+      });
+      if (!updated) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      await recordAudit(req, {
+        action: isResolved === "true" ? "comment.resolve" : "comment.reopen",
+        targetType: "comment",
+        targetId: updated.id,
+        teamNumber: visible.file.teamNumber,
+        summary: `${isResolved === "true" ? "Resolved" : "Reopened"} a comment thread on "${visible.file.label}"`,
+      });
+      res.json(toCommentView(user, visible.file, updated));
     } catch (error) {
-      res.status(500).json({ message: "Failed to download file" });
+      console.error('Resolve comment error:', error);
+      res.status(500).json({ message: "Failed to update comment" });
     }
   });
 
-  // Admin delete all files
-  app.delete("/api/files/all", requireAdmin, async (req, res) => {
+  // Deleting a thread's first comment removes its replies too
+  app.delete("/api/comments/:id", requireAuth, requireCourse, async (req, res) => {
     try {
-      const files = await storage.getAllFiles();
-      
-      // Delete all files from disk
-      for (const file of files) {
-        const filePath = path.join(uploadsDir, file.fileName);
-        try {
-          await fs.unlink(filePath);
-        } catch (error) {
-          console.error(`Failed to delete file from disk: ${file.fileName}`, error);
+      const user = req.user as any;
+      const visible = await getVisibleComment(user, req.params.id);
+      if (!visible) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (!toCommentView(user, visible.file, visible.comment).canDelete) {
+        return res.status(403).json({ message: "You don't have permission to do that" });
+      }
+
+      const replies = (await storage.getComments(visible.file.id)).filter(comment => comment.parentId === visible.comment.id);
+      await storage.deleteComment(visible.comment.id);
+      await recordAudit(req, {
+        action: "comment.delete",
+        targetType: "comment",
+        targetId: visible.comment.id,
+        teamNumber: visible.file.teamNumber,
+        summary: `Deleted a comment${replies.length > 0 ? ` and ${replies.length} ${replies.length === 1 ? "reply" : "replies"}` : ""} on "${visible.file.label}"`,
+        before: [visible.comment, ...replies],
+      });
+      res.json({ message: "Comment deleted" });
+    } catch (error) {
+      console.error('Delete comment error:', error);
+      res.status(500).json({ message: "Failed to delete comment" });
+    }
+  });
+
+  // Delete a selection of files as one trash item, so they can be restored together
+  app.delete("/api/files", requirePermission("files.delete"), requireCourse, async (req, res) => {
+    try {
+      const { adminPassword, ids } = req.body;
+      const courseId = (req.user as any).courseId;
+
+      if (!(await verifyStaffPassword(req.user, adminPassword))) {
+        return res.status(401).json({ message: "Invalid password" });
+      }
+
+      if (!Array.isArray(ids) || ids.length === 0 || ids.some(id => typeof id !== "string")) {
+        return res.status(400).json({ message: "Choose the files to delete" });
+      }
+
+      const selected: File[] = [];
+      for (const id of Array.from(new Set<string>(ids))) {
+        const file = await storage.getFileById(courseId, id);
+        if (!file) {
+          return res.status(404).json({ message: "File not found" });
         }
+        selected.push(file);
       }
-      
-      // Clear all files from storage
-      for (const file of files) {
-        await storage.deleteFile(file.id);
+
+      const teamNumbers = new Set(selected.map(file => file.teamNumber));
+      const teamNumber = teamNumbers.size === 1 ? selected[0].teamNumber : null;
+      const description = `${selected.length} file${selected.length === 1 ? "" : "s"}${teamNumber !== null ? ` of ${describeUploader(teamNumber)}` : ""}`;
+      await moveToTrash(courseId, req.user as any, { kind: "files", teamNumber, summary: description, files: selected });
+
+      await recordAudit(req, {
+        action: "file.deleteSelected",
+        targetType: "file",
+        teamNumber,
+        summary: `Moved ${description} to the trash`,
+        before: selected,
+      });
+
+      res.json({ message: `Moved ${description} to the trash`, deletedCount: selected.length });
+    } catch (error) {
+      console.error('Delete selected files error:', error);
+      res.status(500).json({ message: "Failed to delete files" });
+    }
+  });
+
+  // Admin delete all files
+  app.delete("/api/files/all", requirePermission("files.delete"), requireCourse, async (req, res) => {
+    try {
+      const files = await storage.getAllFiles((req.user as any).courseId);
+      if (files.length > 0) {
+        await moveToTrash((req.user as any).courseId, req.user as any, {
+          kind: "files",
+          teamNumber: null,
+          summary: `All ${files.length} files in the course`,
+          files,
+        });
       }
+
+      await recordAudit(req, {
+        action: "file.deleteAll",
+        targetType: "file",
+        summary: `Moved all ${files.length} files in the course to the trash`,
+        before: files,
+      });
       
       res.json({ 
-        message: "All files deleted successfully", 
+        message: "All files moved to the trash", 
         deletedCount: files.length 
       });
     } catch (error) {
@@ -786,15 +3744,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update file visibility (admin only)
-  app.put("/api/files/:id/visibility", requireAuth, async (req, res) => {
+  app.put("/api/files/:id/visibility", requireAuth, requireCourse, async (req, res) => {
     try {
       const user = req.user as any;
-      if (!user.isAdmin) {
-        return res.status(403).json({ message: "Admin access required" });
+      if (!hasPermission(user, "files.edit")) {
+        return res.status(403).json({ message: "You don't have permission to do that" });
       }
 
       const { isVisible } = req.body;
-      const file = await storage.getFileById(req.params.id);
+      const file = await storage.getFileById(user.courseId, req.params.id);
       
       if (!file) {
         return res.status(404).json({ message: "File not found" });
@@ -811,6 +3769,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "File not found" });
       }
 
+      await recordAudit(req, {
+        action: "file.visibility",
+        targetType: "file",
+        targetId: file.id,
+        teamNumber: file.teamNumber,
+        summary: `${String(isVisible) === "true" ? "Showed" : "Hid"} "${file.label}"`,
+        before: { isVisible: file.isVisible },
+        after: { isVisible: updated.isVisible },
+      });
+
       res.json({ message: "File visibility updated successfully" });
     } catch (error) {
       res.status(500).json({ message: "Failed to update file visibility" });
@@ -818,18 +3786,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update file details (admin only for their files)
-  app.put("/api/files/:id", requireAuth, async (req, res) => {
+  app.put("/api/files/:id", requireAuth, requireCourse, async (req, res) => {
     try {
       const user = req.user as any;
       const { label, description, tags } = req.body;
-      const file = await storage.getFileById(req.params.id);
+      const file = await storage.getFileById(user.courseId, req.params.id);
       
       if (!file) {
         return res.status(404).json({ message: "File not found" });
       }
 
-      // Only allow admin to modify their own files (team 0) or let users modify their own files
-      if (file.teamNumber !== user.teamNumber && !(user.isAdmin && file.teamNumber === 0)) {
+      // Staff with edit permission may modify staff files (team 0); teams may modify their own files
+      const canEdit = user.isAdmin
+        ? hasPermission(user, "files.edit") && file.teamNumber === 0
+        : file.teamNumber === user.teamNumber;
+      if (!canEdit) {
         return res.status(403).json({ message: "Can only modify your own files" });
       }
 
@@ -838,6 +3809,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "File not found" });
       }
 
+      // Renaming a submission keeps its earlier versions attached to it
+      if (label && label !== file.label) {
+        const otherVersions = await storage.getFileVersions(file.teamNumber, file.assignmentId, file.label);
+        for (const version of otherVersions) {
+          await storage.updateFileDetails(version.id, { label });
+        }
+        await storage.syncLatestFileVersion(file.teamNumber, file.assignmentId, label);
+      }
+
+      await recordAudit(req, {
+        action: "file.update",
+        targetType: "file",
+        targetId: file.id,
+        teamNumber: file.teamNumber,
+        summary: `Edited the details of "${file.label}"`,
+        before: file,
+        after: updated,
+      });
+
       res.json({ message: "File updated successfully", file: updated });
     } catch (error) {
       res.status(500).json({ message: "Failed to update file" });
@@ -845,41 +3835,148 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin delete file
-  app.delete("/api/files/:id", async (req, res) => {
+  app.delete("/api/files/:id", requirePermission("files.delete"), requireCourse, async (req, res) => {
     try {
       const { adminPassword } = req.body;
-      const expectedPassword = process.env.ADMIN_PASSWORD || process.env.ADMIN_DELETE_PASSWORD;
-      
-      if (!expectedPassword) {
-        return res.status(500).json({ message: "Admin password not configured" });
-      }
 
-      if (adminPassword !== expectedPassword) {
-        return res.status(401).json({ message: "Invalid admin password" });
+      if (!(await verifyStaffPassword(req.user, adminPassword))) {
+        return res.status(401).json({ message: "Invalid password" });
       }
 
-      const file = await storage.getFileById(req.params.id);
+      const file = await storage.getFileById((req.user as any).courseId, req.params.id);
       if (!file) {
         return res.status(404).json({ message: "File not found" });
       }
 
-      // Delete file from disk
-      const filePath = path.join(uploadsDir, file.fileName);
-      try {
-        await fs.unlink(filePath);
-      } catch (error) {
-        console.error('Failed to delete file from disk:', error);
+      // Deleting the latest version makes the previous one current again
+      await moveToTrash((req.user as any).courseId, req.user as any, {
+        kind: "files",
+        teamNumber: file.teamNumber,
+        summary: `"${file.label}" v${file.version} (${file.originalName})`,
+        files: [file],
+      });
+
+      await recordAudit(req, {
+        action: "file.delete",
+        targetType: "file",
+        targetId: file.id,
+        teamNumber: file.teamNumber,
+        summary: `Moved "${file.label}" v${file.version} (${file.originalName}) to the trash`,
+        before: file,
+      });
+
+      res.json({ message: "File moved to the trash" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete file" });
+    }
+  });
+
+  // Trash: deleted files and teams, listed without their records' secrets
+  app.get("/api/admin/trash", requirePermission("trash.manage"), requireCourse, async (req, res) => {
+    try {
+      const items = await storage.getTrashItems((req.user as any).courseId);
+      res.json({
+        retentionDays: trashRetentionDays,
+        items: items.map(item => ({
+          id: item.id,
+          kind: item.kind,
+          teamNumber: item.teamNumber,
+          summary: item.summary,
+          fileCount: item.fileCount,
+          deletedBy: item.deletedBy,
+          deletedAt: item.deletedAt,
+          expiresAt: new Date(new Date(item.deletedAt).getTime() + trashRetentionDays * 24 * 60 * 60 * 1000),
+          files: item.records.files.map(file => ({
+            id: file.id,
+            label: file.label,
+            originalName: file.originalName,
+            version: file.version,
+            teamNumber: file.teamNumber,
+            fileSize: file.fileSize,
+          })),
+        })),
+      });
+    } catch (error) {
+      console.error('Get trash error:', error);
+      res.status(500).json({ message: "Failed to retrieve trash" });
+    }
+  });
+
+  app.post("/api/admin/trash/:id/restore", requirePermission("trash.manage"), requireCourse, async (req, res) => {
+    try {
+      const item = await storage.getTrashItem((req.user as any).courseId, req.params.id);
+      if (!item) {
+        return res.status(404).json({ message: "Not in the trash" });
       }
 
-      // Delete from storage
-      const deleted = await storage.deleteFile(req.params.id);
-      if (!deleted) {
-        return res.status(404).json({ message: "File not found" });
+      const result = await restoreFromTrash(item);
+      if ("error" in result) {
+        return res.status(409).json({ message: result.error });
       }
 
-      res.json({ message: "File deleted successfully" });
+      await recordAudit(req, {
+        action: "trash.restore",
+        targetType: "trash",
+        targetId: item.id,
+        teamNumber: item.teamNumber,
+        summary: `Restored ${item.summary} from the trash`,
+        after: result.records,
+      });
+      res.json({ message: `Restored ${item.summary}` });
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete file" });
+      console.error('Restore from trash error:', error);
+      res.status(500).json({ message: "Failed to restore from the trash" });
+    }
+  });
+
+  app.delete("/api/admin/trash/:id", requirePermission("trash.manage"), requireCourse, async (req, res) => {
+    try {
+      if (!(await verifyStaffPassword(req.user, req.body.adminPassword))) {
+        return res.status(401).json({ message: "Invalid password" });
+      }
+
+      const item = await storage.getTrashItem((req.user as any).courseId, req.params.id);
+      if (!item) {
+        return res.status(404).json({ message: "Not in the trash" });
+      }
+
+      await purgeTrashItem(item);
+      await recordAudit(req, {
+        action: "trash.purge",
+        targetType: "trash",
+        targetId: item.id,
+        teamNumber: item.teamNumber,
+        summary: `Deleted ${item.summary} from the trash for good`,
+      });
+      res.json({ message: `Deleted ${item.summary} for good` });
+    } catch (error) {
+      console.error('Purge trash item error:', error);
+      res.status(500).json({ message: "Failed to delete from the trash" });
+    }
+  });
+
+  // Empty the course's trash
+  app.delete("/api/admin/trash", requirePermission("trash.manage"), requireCourse, async (req, res) => {
+    try {
+      if (!(await verifyStaffPassword(req.user, req.body.adminPassword))) {
+        return res.status(401).json({ message: "Invalid password" });
+      }
+
+      const items = await storage.getTrashItems((req.user as any).courseId);
+      for (const item of items) {
+        await purgeTrashItem(item);
+      }
+
+      await recordAudit(req, {
+        action: "trash.empty",
+        targetType: "trash",
+        summary: `Emptied the trash of ${items.length} item${items.length === 1 ? "" : "s"}`,
+        before: items.map(item => ({ id: item.id, summary: item.summary, deletedBy: item.deletedBy, deletedAt: item.deletedAt })),
+      });
+      res.json({ message: `Emptied the trash of ${items.length} item${items.length === 1 ? "" : "s"}`, purgedCount: items.length });
+    } catch (error) {
+      console.error('Empty trash error:', error);
+      res.status(500).json({ message: "Failed to empty the trash" });
     }
   });
 
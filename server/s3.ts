@@ -0,0 +1,180 @@
+import { createHash, createHmac } from "crypto";
+import fs from "fs";
+import http, { type IncomingMessage } from "http";
+import https from "https";
+import type { Readable } from "stream";
+import type { BlobStore, BlobStream } from "./blob-store";
+
+export interface S3Config {
+  endpoint: string; // e.g. https://s3.us-east-1.amazonaws.com or http://localhost:9000 for MinIO
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  prefix: string;
+}
+
+// Bodies are streamed rather than hashed up front, which S3 and MinIO both accept when signed as unsigned
+const UNSIGNED_PAYLOAD = "UNSIGNED-PAYLOAD";
+
+function sha256Hex(value: string): string {
+  return createHash("sha256").update(value, "utf8").digest("hex");
+}
+
+function hmac(key: Buffer | string, value: string): Buffer {
+  return createHmac("sha256", key).update(value, "utf8").digest();
+}
+
+// RFC 3986 encoding per path segment, as SigV4 expects; slashes between segments are kept
+function encodePath(pathname: string): string {
+  return pathname
+    .split("/")
+    .map(segment => encodeURIComponent(segment).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`))
+    .join("/");
+}
+
+interface SignInput {
+  method: string;
+  host: string;
+  path: string; // already encoded
+  headers: Record<string, string>;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  date?: Date;
+}
+
+/**
+ * AWS Signature Version 4 for S3. Every header passed in is signed, so only pass
+ * headers that won't be changed on the way out (not Content-Length).
+ */
+export function signS3Request({ method, host, path, headers, region, accessKeyId, secretAccessKey, date = new Date() }: SignInput): Record<string, string> {
+  const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const day = amzDate.slice(0, 8);
+  const signed: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value.trim()])),
+    host,
+    "x-amz-date": amzDate,
+  };
+  signed["x-amz-content-sha256"] ??= UNSIGNED_PAYLOAD;
+
+  const headerNames = Object.keys(signed).sort();
+  const canonicalRequest = [
+    method,
+    path,
+    "",
+    ...headerNames.map(name => `${name}:${signed[name]}`),
+    "",
+    headerNames.join(";"),
+    signed["x-amz-content-sha256"],
+  ].join("\n");
+
+  const scope = `${day}/${region}/s3/aws4_request`;
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${secretAccessKey}`, day), region), "s3"), "aws4_request");
+  const signature = createHmac("sha256", signingKey).update(stringToSign, "utf8").digest("hex");
+
+  return {
+    ...signed,
+    authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${headerNames.join(";")}, Signature=${signature}`,
+  };
+}
+
+function readBody(response: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    response.setEncoding("utf8");
+    response.on("data", chunk => { body += chunk; });
+    response.on("end", () => resolve(body));
+    response.on("error", reject);
+  });
+}
+
+/**
+ * Blob store for AWS S3 or any S3-compatible service such as MinIO. Objects are addressed
+ * path-style (endpoint/bucket/key) so custom endpoints work without DNS for the bucket.
+ */
+export class S3BlobStore implements BlobStore {
+  readonly name = "s3";
+  private readonly endpoint: URL;
+
+  constructor(private readonly config: S3Config) {
+    this.endpoint = new URL(config.endpoint);
+  }
+
+  private objectPath(key: string): string {
+    const basePath = this.endpoint.pathname.replace(/\/+$/, "");
+    return encodePath(`${basePath}/${this.config.bucket}/${this.config.prefix}${key}`);
+  }
+
+  private request(method: string, key: string, headers: Record<string, string> = {}, body?: Readable, contentLength?: number): Promise<IncomingMessage> {
+    const path = this.objectPath(key);
+    const signedHeaders = signS3Request({
+      method,
+      host: this.endpoint.host,
+      path,
+      headers,
+      region: this.config.region,
+      accessKeyId: this.config.accessKeyId,
+      secretAccessKey: this.config.secretAccessKey,
+    });
+    const transport = this.endpoint.protocol === "https:" ? https : http;
+
+    return new Promise((resolve, reject) => {
+      const req = transport.request({
+        method,
+        protocol: this.endpoint.protocol,
+        hostname: this.endpoint.hostname,
+        port: this.endpoint.port || undefined,
+        path,
+        headers: { ...signedHeaders, "content-length": String(contentLength ?? 0) },
+      }, resolve);
+      req.on("error", reject);
+      if (body) {
+        body.on("error", error => req.destroy(error));
+        body.pipe(req);
+      } else {
+        req.end();
+      }
+    });
+  }
+
+  private async expectOk(response: IncomingMessage, action: string, key: string) {
+    const body = await readBody(response);
+    if ((response.statusCode ?? 500) >= 300) {
+      throw new Error(`S3 ${action} failed for ${key}: ${response.statusCode} ${body.slice(0, 300)}`);
+    }
+  }
+
+  async putFile(key: string, filePath: string, contentType?: string): Promise<void> {
+    const { size } = await fs.promises.stat(filePath);
+    const headers: Record<string, string> = contentType ? { "content-type": contentType } : {};
+    const response = await this.request("PUT", key, headers, fs.createReadStream(filePath), size);
+    await this.expectOk(response, "upload", key);
+    await fs.promises.unlink(filePath);
+  }
+
+  async getStream(key: string): Promise<BlobStream | null> {
+    const response = await this.request("GET", key);
+    if (response.statusCode === 404) {
+      response.resume();
+      return null;
+    }
+    if (response.statusCode !== 200) {
+      await this.expectOk(response, "download", key);
+    }
+
+    const contentLength = response.headers["content-length"];
+    return { stream: response, size: contentLength ? parseInt(contentLength) : null };
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request("DELETE", key);
+    // S3 answers 204 whether or not the object existed
+    if (response.statusCode === 404) {
+      response.resume();
+      return;
+    }
+    await this.expectOk(response, "delete", key);
+  }
+}
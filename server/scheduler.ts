@@ -0,0 +1,72 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+import { recordAudit } from "./audit";
+import { getOpenViewTransitions, isOpenViewAt } from "@shared/open-view";
+import type { Assignment } from "@shared/schema";
+
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+
+// Settings only carry the assignment id; the audit log also wants its course and title
+async function findAssignment(assignmentId: string): Promise<Assignment | undefined> {
+  for (const course of await storage.getCourses()) {
+    const assignment = await storage.getAssignment(course.id, assignmentId);
+    if (assignment) return assignment;
+  }
+  return undefined;
+}
+
+/**
+ * Store any scheduled open-view transitions that are due and clear them from the schedule.
+ * Permission checks evaluate the schedule themselves, so this only keeps the stored flag in step.
+ */
+export async function applyDueOpenViewTransitions(now: Date = new Date()): Promise<number> {
+  const settings = await storage.getAllAssignmentSettings();
+  let applied = 0;
+
+  for (const setting of settings) {
+    const transitions = getOpenViewTransitions(setting);
+    const due = transitions.filter(transition => transition.at.getTime() <= now.getTime());
+    if (due.length === 0) continue;
+
+    const isOpenView = isOpenViewAt(setting, now);
+    await storage.updateAssignmentSetting(setting.assignmentId, isOpenView);
+    const updated = await storage.updateAssignmentSchedule(setting.assignmentId, {
+      revealAt: setting.revealAt && new Date(setting.revealAt).getTime() > now.getTime() ? setting.revealAt : null,
+      hideAt: setting.hideAt && new Date(setting.hideAt).getTime() > now.getTime() ? setting.hideAt : null,
+    });
+
+    const assignment = await findAssignment(setting.assignmentId);
+    await recordAudit(null, {
+      action: "assignment.openView",
+      targetType: "assignment",
+      targetId: setting.assignmentId,
+      summary: `${isOpenView ? "Opened" : "Closed"} ${assignment?.title ?? "an assignment"} for peer viewing as scheduled`,
+      before: setting,
+      after: updated,
+      courseId: assignment?.courseId ?? null,
+    });
+
+    log(`Assignment ${setting.assignmentId} is now ${isOpenView ? "open" : "closed"} for peer viewing`, "scheduler");
+    applied++;
+  }
+
+  return applied;
+}
+
+/**
+ * Apply scheduled transitions now and then on an interval. Schedules are stored with the
+ * assignment settings, so anything that fell due while the server was down is applied on start.
+ */
+export function startOpenViewScheduler(intervalMs: number = DEFAULT_INTERVAL_MS): () => void {
+  const run = () => {
+    applyDueOpenViewTransitions().catch(error => {
+      console.error("Open view scheduler error:", error);
+    });
+  };
+
+  run();
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
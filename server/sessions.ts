@@ -0,0 +1,116 @@
+import session from "express-session";
+import MemoryStore from "memorystore";
+import connectPgSimple from "connect-pg-simple";
+import type { Pool } from "pg";
+import { getDatabasePool } from "./storage";
+
+export const SESSION_MAX_AGE = 24 * 60 * 60 * 1000; // 24 hours
+
+// Matches the table connect-pg-simple creates; shared/schema.ts declares it too so db:push leaves it alone
+const SESSION_TABLE = "session";
+
+export interface ActiveSession {
+  id: string;
+  teamNumber: number;
+  teamName: string | null;
+  role: string;
+  email: string | null;
+  courseId: string | null;
+  signedInAt: string | null;
+  userAgent: string | null;
+  expiresAt: string | null;
+}
+
+export interface SessionManager {
+  store: session.Store;
+  persistent: boolean;
+  listSessions(): Promise<ActiveSession[]>;
+  revokeSession(id: string): Promise<void>;
+}
+
+// Sessions without a passport user are anonymous visitors and are not listed
+function toActiveSession(id: string, data: any, expire?: Date | string | null): ActiveSession | null {
+  const user = data?.passport?.user;
+  if (!user) return null;
+
+  const expiresAt = expire ?? data.cookie?.expires ?? null;
+  return {
+    id,
+    teamNumber: user.teamNumber ?? 0,
+    teamName: user.teamName ?? null,
+    role: user.role ?? "team",
+    email: user.email ?? null,
+    courseId: user.courseId ?? null,
+    signedInAt: data.signedInAt ?? null,
+    userAgent: data.userAgent ?? null,
+    expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+  };
+}
+
+function createPgSessionManager(pool: Pool): SessionManager {
+  const PgStore = connectPgSimple(session);
+  const store = new PgStore({
+    pool,
+    tableName: SESSION_TABLE,
+    createTableIfMissing: true,
+    pruneSessionInterval: 15 * 60, // seconds
+  });
+
+  return {
+    store,
+    persistent: true,
+    async listSessions() {
+      const result = await pool.query(
+        `SELECT sid, sess, expire FROM "${SESSION_TABLE}" WHERE expire > NOW() ORDER BY expire DESC`
+      );
+      return result.rows
+        .map(row => toActiveSession(row.sid, row.sess, row.expire))
+        .filter((active): active is ActiveSession => active !== null);
+    },
+    async revokeSession(id) {
+      await pool.query(`DELETE FROM "${SESSION_TABLE}" WHERE sid = $1`, [id]);
+    },
+  };
+}
+
+function createMemorySessionManager(): SessionManager {
+  const MemoryStoreConstructor = MemoryStore(session);
+  const store = new MemoryStoreConstructor({
+    checkPeriod: 86400000 // prune expired entries every 24h
+  });
+
+  return {
+    store,
+    persistent: false,
+    listSessions() {
+      return new Promise((resolve, reject) => {
+        store.all!((err, sessions) => {
+          if (err) return reject(err);
+          const active = Object.entries(sessions ?? {})
+            .map(([id, data]) => toActiveSession(id, data))
+            .filter((entry): entry is ActiveSession => entry !== null)
+            .filter(entry => !entry.expiresAt || new Date(entry.expiresAt) > new Date());
+          resolve(active);
+        });
+      });
+    },
+    revokeSession(id) {
+      return new Promise((resolve, reject) => {
+        store.destroy(id, (err) => err ? reject(err) : resolve());
+      });
+    },
+  };
+}
+
+/**
+ * Sessions live in Postgres whenever DBStorage is active so a restart doesn't sign
+ * everyone out; the memory store is only used alongside MemStorage.
+ */
+export function createSessionManager(): SessionManager {
+  const pool = getDatabasePool();
+  if (pool) {
+    console.log("🔐 Storing sessions in PostgreSQL");
+    return createPgSessionManager(pool);
+  }
+  return createMemorySessionManager();
+}
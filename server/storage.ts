@@ -1,81 +1,372 @@
-import { type User, type InsertUser, type File, type InsertFile, type AssignmentSettings, type InsertAssignmentSettings, files, users, assignmentSettings } from "@shared/schema";
+import { type User, type InsertUser, type File, type InsertFile, type AssignmentSettings, type InsertAssignmentSettings, type Assignment, type InsertAssignment, type UpdateAssignment, type AssignmentSchedule, type Course, type InsertCourse, type UpdateCourse, type TeamMember, type InsertTeamMember, type UpdateTeamMember, type RubricCriterion, type RubricCriterionInput, type Grade, type SaveGrade, type PresentationSchedule, type SavePresentationSchedule, type PresentationLog, type FileText, type Comment, type CommentVisibility, type PeerReviewRound, type PeerReviewQuestion, type PeerReviewStatus, type PeerReview, type PeerReviewAnswer, type AuditEvent, type TermArchive, type TrashItem, type TrashedRecords, files, users, assignmentSettings, assignments, courses, teamMembers, rubricCriteria, grades, presentationSchedules, presentationLogs, fileTexts, comments, peerReviewRounds, peerReviews, auditEvents, termArchives, trashItems } from "@shared/schema";
+import type { ReviewPair } from "@shared/peer-review";
+import { SNIPPET_MATCH_END, SNIPPET_MATCH_START, type FileSearchResult } from "@shared/search";
 import { randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+import type { Pool } from "pg";
+import { TextSearchIndex } from "./text-index";
 // Note: DB import moved inside DBStorage class to avoid connection issues in dev
-import { eq, like, or, asc } from "drizzle-orm";
+import { eq, ne, ilike, or, and, asc, desc, count, isNull, lt, arrayContains, sql } from "drizzle-orm";
 
+export type StaffUserUpdate = Partial<Pick<User, "role" | "isActive" | "passwordHash" | "passwordResetToken" | "tokenExpiry" | "lastLogin">>;
+export type CourseUpdate = UpdateCourse & { joinCode?: string };
+
+// Everything a course owns is looked up within that course; ids from another course are treated as missing
 export interface IStorage {
+  // Course operations
+  getCourses(): Promise<Course[]>;
+  getCourse(id: string): Promise<Course | undefined>;
+  getCourseByJoinCode(joinCode: string): Promise<Course | undefined>;
+  createCourse(course: InsertCourse & { joinCode: string }): Promise<Course>;
+  updateCourse(id: string, updates: CourseUpdate): Promise<Course | undefined>;
+
   // User operations
   getUser(id: string): Promise<User | undefined>;
-  getUserByTeam(teamNumber: number): Promise<User | undefined>;
-  getUserByTeamName(teamName: string): Promise<User | undefined>;
+  getUserByTeam(courseId: string, teamNumber: number): Promise<User | undefined>;
+  getUserByTeamName(courseId: string, teamName: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  updateUserLogin(teamNumber: number): Promise<void>;
-  updateUserPassword(teamNumber: number, passwordHash: string): Promise<void>;
-  checkTeamNameAvailable(teamName: string, excludeTeamNumber?: number): Promise<boolean>;
-  getAllUsers(): Promise<User[]>;
-  deleteUser(teamNumber: number): Promise<boolean>;
+  updateUserLogin(courseId: string, teamNumber: number): Promise<void>;
+  updateUserPassword(courseId: string, teamNumber: number, passwordHash: string): Promise<void>;
+  checkTeamNameAvailable(courseId: string, teamName: string, excludeTeamNumber?: number): Promise<boolean>;
+  getAllUsers(courseId: string): Promise<User[]>;
+  deleteUser(courseId: string, teamNumber: number): Promise<boolean>;
+
+  // Team roster operations
+  getTeamMembers(courseId: string, teamNumber?: number): Promise<TeamMember[]>;
+  getTeamMember(courseId: string, id: string): Promise<TeamMember | undefined>;
+  createTeamMember(courseId: string, teamNumber: number, member: InsertTeamMember): Promise<TeamMember>;
+  updateTeamMember(id: string, updates: UpdateTeamMember): Promise<TeamMember | undefined>;
+  deleteTeamMember(id: string): Promise<boolean>;
+  replaceTeamMembers(courseId: string, teamNumber: number, members: InsertTeamMember[]): Promise<TeamMember[]>;
+
+  // Staff account operations
+  getUserByEmail(email: string): Promise<User | undefined>;
+  getUserByResetToken(token: string): Promise<User | undefined>;
+  getStaffUsers(): Promise<User[]>;
+  updateStaffUser(id: string, updates: StaffUserUpdate): Promise<User | undefined>;
   
   // File operations
   createFile(file: InsertFile & { fileName: string }): Promise<File>;
-  getAllFiles(): Promise<File[]>;
-  getFileById(id: string): Promise<File | undefined>;
-  getFilesByTeam(teamNumber: number): Promise<File[]>;
-  getFilesByType(fileType: string): Promise<File[]>;
-  getFilesByAssignment(assignment: string): Promise<File[]>;
-  searchFiles(query: string): Promise<File[]>;
+  getAllFiles(courseId: string): Promise<File[]>;
+  getFileById(courseId: string, id: string): Promise<File | undefined>;
+  getFilesByTeam(courseId: string, teamNumber: number): Promise<File[]>;
+  getFilesByType(courseId: string, fileType: string): Promise<File[]>;
+  getFilesByAssignment(courseId: string, assignmentId: string): Promise<File[]>;
+  searchFiles(courseId: string, query: string): Promise<FileSearchResult[]>; // best matches first
   deleteFile(id: string): Promise<boolean>;
+  getFileReferenceCount(fileName: string): Promise<number>; // across all courses and the trash, so shared blobs are only removed once unused
   updateFileVisibility(id: string, isVisible: string): Promise<File | undefined>;
   updateFileDetails(id: string, updates: { label?: string; description?: string; tags?: string[] }): Promise<File | undefined>;
+  getFileVersions(teamNumber: number, assignmentId: string, label: string): Promise<File[]>;
+
+  // Extracted text for full-text search, keyed by blob so identical uploads share it
+  getFileText(fileName: string): Promise<FileText | undefined>;
+  saveFileText(fileName: string, content: string): Promise<FileText>;
+  deleteFileText(fileName: string): Promise<boolean>;
+  syncLatestFileVersion(teamNumber: number, assignmentId: string, label: string): Promise<void>;
   
+  // Assignment operations
+  getAssignments(courseId: string): Promise<Assignment[]>;
+  getAssignment(courseId: string, id: string): Promise<Assignment | undefined>;
+  createAssignment(courseId: string, assignment: InsertAssignment): Promise<Assignment>;
+  updateAssignment(courseId: string, id: string, updates: UpdateAssignment): Promise<Assignment | undefined>;
+  reorderAssignments(courseId: string, orderedIds: string[]): Promise<Assignment[]>;
+  deleteAssignment(id: string): Promise<boolean>;
+
+  // Assignment settings operations
+  getAssignmentSettings(courseId: string): Promise<AssignmentSettings[]>;
+  getAllAssignmentSettings(): Promise<AssignmentSettings[]>; // every course, for the scheduler
+  getAssignmentSetting(assignmentId: string): Promise<AssignmentSettings | undefined>;
+  updateAssignmentSetting(assignmentId: string, isOpenView: boolean): Promise<AssignmentSettings>;
+  updateAssignmentSchedule(assignmentId: string, schedule: AssignmentSchedule): Promise<AssignmentSettings>;
+
+  // Rubric and grade operations
+  getRubricCriteria(assignmentId: string): Promise<RubricCriterion[]>;
+  replaceRubricCriteria(assignmentId: string, criteria: RubricCriterionInput[]): Promise<RubricCriterion[]>;
+  getGrades(courseId: string, assignmentId?: string): Promise<Grade[]>;
+  getGrade(assignmentId: string, teamNumber: number): Promise<Grade | undefined>;
+  saveGrade(courseId: string, assignmentId: string, teamNumber: number, grade: SaveGrade & { gradedBy: string | null }): Promise<Grade>;
+  deleteGrades(courseId: string, teamNumber?: number): Promise<number>;
+
+  // Presentation schedule operations
+  getPresentationSchedule(assignmentId: string): Promise<PresentationSchedule | undefined>;
+  savePresentationSchedule(courseId: string, assignmentId: string, schedule: SavePresentationSchedule): Promise<PresentationSchedule>;
+  getPresentationLogs(courseId: string, assignmentId?: string): Promise<PresentationLog[]>;
+  startPresentationLog(courseId: string, assignmentId: string, teamNumber: number, loggedBy: string | null): Promise<PresentationLog>;
+  endPresentationLogs(assignmentId: string): Promise<PresentationLog[]>; // closes whichever entries are still open
+  deletePresentationLogs(courseId: string, filter?: { assignmentId?: string; teamNumber?: number }): Promise<number>;
+
+  // Comment operations
+  getComments(fileId: string): Promise<Comment[]>; // oldest first, replies included
+  getComment(id: string): Promise<Comment | undefined>;
+  createComment(comment: NewComment): Promise<Comment>;
+  updateComment(id: string, updates: { body?: string; isResolved?: string; resolvedBy?: string | null }): Promise<Comment | undefined>;
+  deleteComment(id: string): Promise<boolean>; // and its replies
+
+  // Peer review operations
+  getPeerReviewRounds(courseId: string): Promise<PeerReviewRound[]>;
+  getPeerReviewRound(assignmentId: string): Promise<PeerReviewRound | undefined>;
+  savePeerReviewRound(courseId: string, assignmentId: string, round: { questions: PeerReviewQuestion[]; reviewsPerTeam: number; dueAt: Date | null }): Promise<PeerReviewRound>;
+  updatePeerReviewRound(id: string, updates: { status?: PeerReviewStatus; isReleased?: string }): Promise<PeerReviewRound | undefined>;
+  deletePeerReviewRound(id: string): Promise<boolean>; // and its reviews
+  getPeerReviews(courseId: string, filter?: { roundId?: string; reviewerTeamNumber?: number; revieweeTeamNumber?: number }): Promise<PeerReview[]>;
+  getPeerReview(id: string): Promise<PeerReview | undefined>;
+  assignPeerReviews(round: PeerReviewRound, pairs: ReviewPair[]): Promise<PeerReview[]>; // replaces the round's earlier assignments
+  savePeerReview(id: string, answers: PeerReviewAnswer[], submittedAt: Date | null): Promise<PeerReview | undefined>;
+  deletePeerReviews(courseId: string, filter?: { teamNumber?: number }): Promise<number>; // written or received by the team
+
+  // Audit log operations; events are only ever added, never changed or removed
+  getAuditEvents(courseId: string, filter?: AuditEventFilter): Promise<AuditEvent[]>; // newest first, with events outside any course
+  createAuditEvent(event: NewAuditEvent): Promise<AuditEvent>;
+
+  // Term archive operations; the ZIPs themselves are in the blob store
+  getTermArchives(): Promise<TermArchive[]>; // newest first, from every course
+  getTermArchive(id: string): Promise<TermArchive | undefined>;
+  createTermArchive(archive: NewTermArchive): Promise<TermArchive>;
+  restoreCourse(records: CourseRecords): Promise<Course>; // adds a new course with its records exactly as given, ids included
+
+  // Trash operations; a deletion's records are kept whole until they're restored or purged
+  getTrashItems(courseId: string): Promise<TrashItem[]>; // most recently deleted first
+  getTrashItem(courseId: string, id: string): Promise<TrashItem | undefined>;
+  getExpiredTrashItems(deletedBefore: Date): Promise<TrashItem[]>; // from every course, for the purge
+  createTrashItem(item: NewTrashItem): Promise<TrashItem>;
+  restoreTrashItem(id: string, records: TrashedRecords): Promise<boolean>; // puts the records back exactly as given and removes the item
+  deleteTrashItem(id: string): Promise<boolean>;
+
+  // Backup operations, over every course and staff account at once
+  getSnapshot(): Promise<StorageSnapshot>; // every record as of a single moment
+  restoreSnapshot(snapshot: StorageSnapshot): Promise<void>; // replaces everything stored
+}
+
+// Whether each storage call changes anything. Typed against IStorage, so a new method doesn't
+// compile until it's listed here, and FileStorage saves after exactly the ones marked "write".
+const storageMethodEffects: Record<keyof IStorage, "read" | "write"> = {
+  // Course operations
+  getCourses: "read", getCourse: "read", getCourseByJoinCode: "read", createCourse: "write",
+  updateCourse: "write",
+  // User operations
+  getUser: "read", getUserByTeam: "read", getUserByTeamName: "read", createUser: "write",
+  updateUserLogin: "write", updateUserPassword: "write", checkTeamNameAvailable: "read", getAllUsers: "read",
+  deleteUser: "write",
+  // Team roster operations
+  getTeamMembers: "read", getTeamMember: "read", createTeamMember: "write", updateTeamMember: "write",
+  deleteTeamMember: "write", replaceTeamMembers: "write",
+  // Staff account operations
+  getUserByEmail: "read", getUserByResetToken: "read", getStaffUsers: "read", updateStaffUser: "write",
+  // File operations
+  createFile: "write", getAllFiles: "read", getFileById: "read", getFilesByTeam: "read",
+  getFilesByType: "read", getFilesByAssignment: "read", searchFiles: "read", deleteFile: "write",
+  getFileReferenceCount: "read", updateFileVisibility: "write", updateFileDetails: "write",
+  getFileVersions: "read",
+  // Extracted text for full-text search
+  getFileText: "read", saveFileText: "write", deleteFileText: "write", syncLatestFileVersion: "write",
+  // Assignment operations
+  getAssignments: "read", getAssignment: "read", createAssignment: "write", updateAssignment: "write",
+  reorderAssignments: "write", deleteAssignment: "write",
   // Assignment settings operations
-  getAssignmentSettings(): Promise<AssignmentSettings[]>;
-  getAllAssignmentSettings(): Promise<AssignmentSettings[]>;
-  getAssignmentSetting(assignment: string): Promise<AssignmentSettings | undefined>;
-  updateAssignmentSetting(assignment: string, isOpenView: boolean): Promise<AssignmentSettings>;
-  initializeDefaultAssignmentSettings(): Promise<void>;
+  getAssignmentSettings: "read", getAllAssignmentSettings: "read", getAssignmentSetting: "read",
+  updateAssignmentSetting: "write", updateAssignmentSchedule: "write",
+  // Rubric and grade operations
+  getRubricCriteria: "read", replaceRubricCriteria: "write", getGrades: "read", getGrade: "read",
+  saveGrade: "write", deleteGrades: "write",
+  // Presentation schedule operations
+  getPresentationSchedule: "read", savePresentationSchedule: "write", getPresentationLogs: "read",
+  startPresentationLog: "write", endPresentationLogs: "write", deletePresentationLogs: "write",
+  // Comment operations
+  getComments: "read", getComment: "read", createComment: "write", updateComment: "write",
+  deleteComment: "write",
+  // Peer review operations
+  getPeerReviewRounds: "read", getPeerReviewRound: "read", savePeerReviewRound: "write",
+  updatePeerReviewRound: "write", deletePeerReviewRound: "write", getPeerReviews: "read",
+  getPeerReview: "read", assignPeerReviews: "write", savePeerReview: "write", deletePeerReviews: "write",
+  // Audit log operations
+  getAuditEvents: "read", createAuditEvent: "write",
+  // Term archive operations
+  getTermArchives: "read", getTermArchive: "read", createTermArchive: "write", restoreCourse: "write",
+  // Trash operations
+  getTrashItems: "read", getTrashItem: "read", getExpiredTrashItems: "read", createTrashItem: "write",
+  restoreTrashItem: "write", deleteTrashItem: "write",
+  // Backup operations
+  getSnapshot: "read", restoreSnapshot: "write",
+};
+
+// Replace a map's contents with records under their key; settings are keyed by assignment, the rest by id
+function refill<T>(map: Map<string, T>, records: T[], key: (record: T) => string) {
+  map.clear();
+  records.forEach(record => map.set(key(record), record));
+}
+
+const byId = (record: { id: string }) => record.id;
+
+export interface NewComment {
+  courseId: string;
+  fileId: string;
+  parentId: string | null;
+  page: number | null;
+  body: string;
+  visibility: CommentVisibility;
+  authorUserId: string | null;
+  authorTeamNumber: number;
+  authorName: string;
+}
+
+export type NewAuditEvent = Omit<AuditEvent, "id" | "createdAt">;
+
+export type NewTermArchive = Omit<TermArchive, "id" | "createdAt">;
+
+export type NewTrashItem = Omit<TrashItem, "id" | "deletedAt">;
+
+// Everything a course owns, as written to a term archive and read back when restoring one
+export interface CourseRecords {
+  course: Course;
+  assignments: Assignment[];
+  assignmentSettings: AssignmentSettings[];
+  rubricCriteria: RubricCriterion[];
+  users: User[]; // team accounts only
+  teamMembers: TeamMember[];
+  files: File[];
+  grades: Grade[];
+  presentationSchedules: PresentationSchedule[];
+  presentationLogs: PresentationLog[];
+  peerReviewRounds: PeerReviewRound[];
+  peerReviews: PeerReview[];
+  comments: Comment[];
+}
+
+// Every stored record, as written to a backup and read back when restoring one. Login sessions
+// are not included; everyone signs in again after a restore.
+export interface StorageSnapshot {
+  courses: Course[];
+  users: User[]; // staff and teams
+  teamMembers: TeamMember[];
+  files: File[];
+  assignments: Assignment[];
+  assignmentSettings: AssignmentSettings[];
+  rubricCriteria: RubricCriterion[];
+  grades: Grade[];
+  presentationSchedules: PresentationSchedule[];
+  presentationLogs: PresentationLog[];
+  fileTexts: FileText[];
+  comments: Comment[];
+  peerReviewRounds: PeerReviewRound[];
+  peerReviews: PeerReview[];
+  auditEvents: AuditEvent[];
+  termArchives: TermArchive[];
+  trashItems: TrashItem[];
+}
+
+export const snapshotCollections: (keyof StorageSnapshot)[] = [
+  "courses", "users", "teamMembers", "files", "assignments", "assignmentSettings", "rubricCriteria", "grades",
+  "presentationSchedules", "presentationLogs", "fileTexts", "comments", "peerReviewRounds", "peerReviews",
+  "auditEvents", "termArchives", "trashItems",
+];
+
+export interface AuditEventFilter {
+  teamNumber?: number; // the team acted on or acting
+  actorUserId?: string;
+  actorTeamNumber?: number;
+  actorRole?: string;
+  action?: string;
+  limit?: number;
 }
 
 export class MemStorage implements IStorage {
-  private users: Map<string, User>;
-  private files: Map<string, File>;
-  private assignmentSettings: Map<string, AssignmentSettings>;
+  protected courses: Map<string, Course>;
+  protected users: Map<string, User>;
+  protected teamMembers: Map<string, TeamMember>;
+  protected files: Map<string, File>;
+  protected assignments: Map<string, Assignment>;
+  protected assignmentSettings: Map<string, AssignmentSettings>;
+  protected rubricCriteria: Map<string, RubricCriterion>;
+  protected grades: Map<string, Grade>;
+  protected presentationSchedules: Map<string, PresentationSchedule>;
+  protected presentationLogs: Map<string, PresentationLog>;
+  protected fileTexts: Map<string, FileText>;
+  protected comments: Map<string, Comment>;
+  protected peerReviewRounds: Map<string, PeerReviewRound>;
+  protected peerReviews: Map<string, PeerReview>;
+  protected auditEvents: Map<string, AuditEvent>;
+  protected termArchives: Map<string, TermArchive>;
+  protected trashItems: Map<string, TrashItem>;
+  protected textIndex: TextSearchIndex; // over fileTexts, keyed by blob key
 
   constructor() {
+    this.courses = new Map();
     this.users = new Map();
+    this.teamMembers = new Map();
     this.files = new Map();
+    this.assignments = new Map();
     this.assignmentSettings = new Map();
-    
-    // Initialize default assignment settings
-    const assignments = [
-      "Assignment 1 - Segmentation and Personas",
-      "Assignment 2 - Positioning", 
-      "Assignment 3 - Journey Mapping",
-      "Assignment 4 - Marketing Channels",
-      "Assignment 5 - Pricing",
-      "Assignment 6 - Distribution Channels",
-      "Assignment 7 - Acquisition",
-      "Assignment 8 - Customer Discovery",
-      "Assignment 9 - Product Validation"
-    ];
-    
-    assignments.forEach(assignment => {
-      const setting: AssignmentSettings = {
-        id: randomUUID(),
-        assignment,
-        isOpenView: "false",
-        updatedAt: new Date()
-      };
-      this.assignmentSettings.set(assignment, setting);
-    });
+    this.rubricCriteria = new Map();
+    this.grades = new Map();
+    this.presentationSchedules = new Map();
+    this.presentationLogs = new Map();
+    this.fileTexts = new Map();
+    this.comments = new Map();
+    this.peerReviewRounds = new Map();
+    this.peerReviews = new Map();
+    this.auditEvents = new Map();
+    this.termArchives = new Map();
+    this.trashItems = new Map();
+    this.textIndex = new TextSearchIndex();
+  }
+
+  // Course operations
+  async getCourses(): Promise<Course[]> {
+    return Array.from(this.courses.values()).sort(
+      (a, b) => a.name.localeCompare(b.name) || (a.section ?? "").localeCompare(b.section ?? "")
+    );
+  }
+
+  async getCourse(id: string): Promise<Course | undefined> {
+    return this.courses.get(id);
+  }
+
+  async getCourseByJoinCode(joinCode: string): Promise<Course | undefined> {
+    return Array.from(this.courses.values()).find(
+      (course) => course.joinCode.toUpperCase() === joinCode.toUpperCase(),
+    );
   }
 
+  async createCourse(insertCourse: InsertCourse & { joinCode: string }): Promise<Course> {
+    const course: Course = {
+      id: randomUUID(),
+      name: insertCourse.name,
+      section: insertCourse.section ?? null,
+      joinCode: insertCourse.joinCode,
+      maxTeams: insertCourse.maxTeams ?? 9,
+      isArchived: insertCourse.isArchived ?? "false",
+      createdAt: new Date(),
+    };
+    this.courses.set(course.id, course);
+    return course;
+  }
+
+  async updateCourse(id: string, updates: CourseUpdate): Promise<Course | undefined> {
+    const course = this.courses.get(id);
+    if (!course) return undefined;
+
+    const updatedCourse: Course = {
+      ...course,
+      ...(updates.name !== undefined && { name: updates.name }),
+      ...(updates.section !== undefined && { section: updates.section ?? null }),
+      ...(updates.joinCode !== undefined && { joinCode: updates.joinCode }),
+      ...(updates.maxTeams !== undefined && { maxTeams: updates.maxTeams }),
+      ...(updates.isArchived !== undefined && { isArchived: updates.isArchived }),
+    };
+    this.courses.set(id, updatedCourse);
+    return updatedCourse;
+  }
+
+  // User operations
   async getUser(id: string): Promise<User | undefined> {
     return this.users.get(id);
   }
 
-  async getUserByTeam(teamNumber: number): Promise<User | undefined> {
+  async getUserByTeam(courseId: string, teamNumber: number): Promise<User | undefined> {
     return Array.from(this.users.values()).find(
-      (user) => user.teamNumber === teamNumber,
+      (user) => user.courseId === courseId && user.teamNumber === teamNumber,
     );
   }
 
@@ -83,61 +374,151 @@ export class MemStorage implements IStorage {
     const id = randomUUID();
     const user: User = { 
       id,
-      teamNumber: insertUser.teamNumber,
+      courseId: insertUser.courseId ?? null,
+      teamNumber: insertUser.teamNumber ?? null,
       teamName: insertUser.teamName || null,
+      email: insertUser.email || null,
+      displayName: insertUser.displayName || null,
+      role: insertUser.role || "team",
       passwordHash: insertUser.passwordHash || null,
       isAdmin: insertUser.isAdmin || "false",
       isActive: insertUser.isActive || "true",
       createdAt: new Date(),
       lastLogin: new Date(),
-      passwordResetToken: null,
-      tokenExpiry: null
+      passwordResetToken: insertUser.passwordResetToken || null,
+      tokenExpiry: insertUser.tokenExpiry || null
     };
     this.users.set(id, user);
     return user;
   }
 
-  async updateUserLogin(teamNumber: number): Promise<void> {
-    const user = await this.getUserByTeam(teamNumber);
+  async updateUserLogin(courseId: string, teamNumber: number): Promise<void> {
+    const user = await this.getUserByTeam(courseId, teamNumber);
     if (user) {
       user.lastLogin = new Date();
       this.users.set(user.id, user);
     }
   }
 
-  async getUserByTeamName(teamName: string): Promise<User | undefined> {
+  async getUserByTeamName(courseId: string, teamName: string): Promise<User | undefined> {
     return Array.from(this.users.values()).find(
-      (user) => user.teamName === teamName,
+      (user) => user.courseId === courseId && user.teamName === teamName,
     );
   }
 
-  async updateUserPassword(teamNumber: number, passwordHash: string): Promise<void> {
-    const user = await this.getUserByTeam(teamNumber);
+  async updateUserPassword(courseId: string, teamNumber: number, passwordHash: string): Promise<void> {
+    const user = await this.getUserByTeam(courseId, teamNumber);
     if (user) {
       user.passwordHash = passwordHash;
       this.users.set(user.id, user);
     }
   }
 
-  async checkTeamNameAvailable(teamName: string, excludeTeamNumber?: number): Promise<boolean> {
+  async checkTeamNameAvailable(courseId: string, teamName: string, excludeTeamNumber?: number): Promise<boolean> {
     const existingUser = Array.from(this.users.values()).find(
-      (user) => user.teamName?.toLowerCase() === teamName.toLowerCase() && user.teamNumber !== excludeTeamNumber
+      (user) => user.courseId === courseId && user.teamName?.toLowerCase() === teamName.toLowerCase() && user.teamNumber !== excludeTeamNumber
     );
     return !existingUser;
   }
 
-  async getAllUsers(): Promise<User[]> {
-    return Array.from(this.users.values()).sort((a, b) => a.teamNumber - b.teamNumber);
+  async getAllUsers(courseId: string): Promise<User[]> {
+    return Array.from(this.users.values())
+      .filter(user => user.courseId === courseId)
+      .sort((a, b) => (a.teamNumber ?? 0) - (b.teamNumber ?? 0));
   }
 
-  async deleteUser(teamNumber: number): Promise<boolean> {
-    const user = await this.getUserByTeam(teamNumber);
+  async deleteUser(courseId: string, teamNumber: number): Promise<boolean> {
+    const user = await this.getUserByTeam(courseId, teamNumber);
     if (user) {
       return this.users.delete(user.id);
     }
     return false;
   }
 
+  async getTeamMembers(courseId: string, teamNumber?: number): Promise<TeamMember[]> {
+    return Array.from(this.teamMembers.values())
+      .filter(member => member.courseId === courseId && (teamNumber === undefined || member.teamNumber === teamNumber))
+      .sort((a, b) => a.teamNumber - b.teamNumber || a.name.localeCompare(b.name));
+  }
+
+  async getTeamMember(courseId: string, id: string): Promise<TeamMember | undefined> {
+    const member = this.teamMembers.get(id);
+    return member?.courseId === courseId ? member : undefined;
+  }
+
+  async createTeamMember(courseId: string, teamNumber: number, insertMember: InsertTeamMember): Promise<TeamMember> {
+    const member: TeamMember = {
+      id: randomUUID(),
+      courseId,
+      teamNumber,
+      name: insertMember.name,
+      email: insertMember.email ?? null,
+      rollNumber: insertMember.rollNumber ?? null,
+      createdAt: new Date(),
+    };
+    this.teamMembers.set(member.id, member);
+    return member;
+  }
+
+  async updateTeamMember(id: string, updates: UpdateTeamMember): Promise<TeamMember | undefined> {
+    const member = this.teamMembers.get(id);
+    if (!member) return undefined;
+
+    const updatedMember: TeamMember = {
+      ...member,
+      ...(updates.name !== undefined && { name: updates.name }),
+      ...(updates.email !== undefined && { email: updates.email }),
+      ...(updates.rollNumber !== undefined && { rollNumber: updates.rollNumber }),
+    };
+    this.teamMembers.set(id, updatedMember);
+    return updatedMember;
+  }
+
+  async deleteTeamMember(id: string): Promise<boolean> {
+    // Uploads keep the member's name but lose the link
+    Array.from(this.files.values())
+      .filter(file => file.uploadedByMemberId === id)
+      .forEach(file => this.files.set(file.id, { ...file, uploadedByMemberId: null }));
+    return this.teamMembers.delete(id);
+  }
+
+  async replaceTeamMembers(courseId: string, teamNumber: number, members: InsertTeamMember[]): Promise<TeamMember[]> {
+    for (const existing of await this.getTeamMembers(courseId, teamNumber)) {
+      await this.deleteTeamMember(existing.id);
+    }
+    for (const member of members) {
+      await this.createTeamMember(courseId, teamNumber, member);
+    }
+    return this.getTeamMembers(courseId, teamNumber);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.email?.toLowerCase() === email.toLowerCase(),
+    );
+  }
+
+  async getUserByResetToken(token: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.passwordResetToken === token,
+    );
+  }
+
+  async getStaffUsers(): Promise<User[]> {
+    return Array.from(this.users.values())
+      .filter(user => user.role !== "team")
+      .sort((a, b) => (a.displayName ?? "").localeCompare(b.displayName ?? ""));
+  }
+
+  async updateStaffUser(id: string, updates: StaffUserUpdate): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updatedUser = { ...user, ...updates };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
   async createFile(fileData: InsertFile & { fileName: string }): Promise<File> {
     const id = randomUUID();
     const file: File = {
@@ -146,56 +527,89 @@ export class MemStorage implements IStorage {
       description: fileData.description ?? null,
       tags: fileData.tags ?? [],
       isVisible: fileData.isVisible ?? "true",
+      isLate: fileData.isLate ?? "false",
+      minutesLate: fileData.minutesLate ?? 0,
+      version: fileData.version ?? 1,
+      isLatestVersion: fileData.isLatestVersion ?? "true",
+      restoredFromVersion: fileData.restoredFromVersion ?? null,
+      uploadedByMemberId: fileData.uploadedByMemberId ?? null,
+      uploadedByName: fileData.uploadedByName ?? null,
+      contentHash: fileData.contentHash ?? null,
       uploadedAt: new Date(),
     };
     this.files.set(id, file);
     return file;
   }
 
-  async getAllFiles(): Promise<File[]> {
-    return Array.from(this.files.values()).sort(
-      (a, b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime()
-    );
+  async getAllFiles(courseId: string): Promise<File[]> {
+    return Array.from(this.files.values())
+      .filter(file => file.courseId === courseId)
+      .sort((a, b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime());
   }
 
-  async getFileById(id: string): Promise<File | undefined> {
-    return this.files.get(id);
+  async getFileById(courseId: string, id: string): Promise<File | undefined> {
+    const file = this.files.get(id);
+    return file?.courseId === courseId ? file : undefined;
   }
 
-  async getFilesByTeam(teamNumber: number): Promise<File[]> {
+  async getFilesByTeam(courseId: string, teamNumber: number): Promise<File[]> {
     return Array.from(this.files.values())
-      .filter(file => file.teamNumber === teamNumber)
+      .filter(file => file.courseId === courseId && file.teamNumber === teamNumber)
       .sort((a, b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime());
   }
 
-  async getFilesByType(fileType: string): Promise<File[]> {
+  async getFilesByType(courseId: string, fileType: string): Promise<File[]> {
     return Array.from(this.files.values())
-      .filter(file => file.fileType.toLowerCase().includes(fileType.toLowerCase()))
+      .filter(file => file.courseId === courseId && file.fileType.toLowerCase().includes(fileType.toLowerCase()))
       .sort((a, b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime());
   }
 
-  async getFilesByAssignment(assignment: string): Promise<File[]> {
+  async getFilesByAssignment(courseId: string, assignmentId: string): Promise<File[]> {
     return Array.from(this.files.values())
-      .filter(file => file.assignment === assignment)
+      .filter(file => file.courseId === courseId && file.assignmentId === assignmentId)
       .sort((a, b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime());
   }
 
-  async searchFiles(query: string): Promise<File[]> {
+  // Label and name matches rank above details, which rank above matches only in the text
+  async searchFiles(courseId: string, query: string): Promise<FileSearchResult[]> {
     const lowerQuery = query.toLowerCase();
-    return Array.from(this.files.values())
-      .filter(file => 
-        file.label.toLowerCase().includes(lowerQuery) ||
-        file.originalName.toLowerCase().includes(lowerQuery) ||
-        file.tags.some(tag => tag.toLowerCase().includes(lowerQuery)) ||
-        (file.description && file.description.toLowerCase().includes(lowerQuery))
-      )
-      .sort((a, b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime());
+    const contentScores = this.textIndex.search(query);
+
+    const results: FileSearchResult[] = [];
+    for (const file of Array.from(this.files.values())) {
+      if (file.courseId !== courseId) continue;
+
+      const nameMatch = file.label.toLowerCase().includes(lowerQuery) || file.originalName.toLowerCase().includes(lowerQuery);
+      const detailsMatch = file.tags.some(tag => tag.toLowerCase().includes(lowerQuery)) ||
+        (!!file.description && file.description.toLowerCase().includes(lowerQuery));
+      const contentScore = contentScores.get(file.fileName);
+      if (!nameMatch && !detailsMatch && contentScore === undefined) continue;
+
+      results.push({
+        ...file,
+        searchRank: (nameMatch ? 2 : 0) + (detailsMatch ? 1 : 0) + (contentScore ?? 0),
+        searchSnippet: contentScore === undefined ? null : this.textIndex.snippet(file.fileName, query),
+      });
+    }
+
+    return results.sort((a, b) =>
+      b.searchRank - a.searchRank || new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime()
+    );
   }
 
   async deleteFile(id: string): Promise<boolean> {
+    Array.from(this.comments.values())
+      .filter(comment => comment.fileId === id)
+      .forEach(comment => this.comments.delete(comment.id));
     return this.files.delete(id);
   }
 
+  async getFileReferenceCount(fileName: string): Promise<number> {
+    const files = Array.from(this.files.values()).filter(file => file.fileName === fileName).length;
+    const trashed = Array.from(this.trashItems.values()).filter(item => item.fileNames.includes(fileName)).length;
+    return files + trashed;
+  }
+
   async updateFileVisibility(id: string, isVisible: string): Promise<File | undefined> {
     const file = this.files.get(id);
     if (!file) return undefined;
@@ -218,27 +632,155 @@ export class MemStorage implements IStorage {
     this.files.set(id, updatedFile);
     return updatedFile;
   }
+
+  async getFileVersions(teamNumber: number, assignmentId: string, label: string): Promise<File[]> {
+    return Array.from(this.files.values())
+      .filter(file => file.teamNumber === teamNumber && file.assignmentId === assignmentId && file.label === label)
+      .sort((a, b) => b.version - a.version || new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime());
+  }
+
+  async getFileText(fileName: string): Promise<FileText | undefined> {
+    return Array.from(this.fileTexts.values()).find(text => text.fileName === fileName);
+  }
+
+  async saveFileText(fileName: string, content: string): Promise<FileText> {
+    const existing = await this.getFileText(fileName);
+    const text: FileText = {
+      id: existing?.id ?? randomUUID(),
+      fileName,
+      content,
+      searchVector: null, // Postgres only
+      extractedAt: new Date(),
+    };
+    this.fileTexts.set(text.id, text);
+    this.textIndex.add(fileName, content);
+    return text;
+  }
+
+  async deleteFileText(fileName: string): Promise<boolean> {
+    const existing = await this.getFileText(fileName);
+    if (!existing) return false;
+    this.textIndex.remove(fileName);
+    return this.fileTexts.delete(existing.id);
+  }
+
+  async syncLatestFileVersion(teamNumber: number, assignmentId: string, label: string): Promise<void> {
+    const versions = await this.getFileVersions(teamNumber, assignmentId, label);
+    const latest = versions[0]?.version;
+    for (const file of versions) {
+      this.files.set(file.id, { ...file, isLatestVersion: file.version === latest ? "true" : "false" });
+    }
+  }
   
+  // Assignment operations
+  async getAssignments(courseId: string): Promise<Assignment[]> {
+    return Array.from(this.assignments.values())
+      .filter(assignment => assignment.courseId === courseId)
+      .sort((a, b) => a.order - b.order || a.title.localeCompare(b.title));
+  }
+
+  async getAssignment(courseId: string, id: string): Promise<Assignment | undefined> {
+    const assignment = this.assignments.get(id);
+    return assignment?.courseId === courseId ? assignment : undefined;
+  }
+
+  async createAssignment(courseId: string, insertAssignment: InsertAssignment): Promise<Assignment> {
+    const existing = await this.getAssignments(courseId);
+    const assignment: Assignment = {
+      id: randomUUID(),
+      courseId,
+      title: insertAssignment.title,
+      description: insertAssignment.description ?? null,
+      // New assignments go to the end of the list unless a position is given
+      order: insertAssignment.order ?? (existing.length > 0 ? Math.max(...existing.map(a => a.order)) + 1 : 0),
+      openAt: insertAssignment.openAt ?? null,
+      dueAt: insertAssignment.dueAt ?? null,
+      cutoffAt: insertAssignment.cutoffAt ?? null,
+      gradesReleased: insertAssignment.gradesReleased ?? "false",
+      isArchived: insertAssignment.isArchived ?? "false",
+      createdAt: new Date(),
+    };
+    this.assignments.set(assignment.id, assignment);
+    return assignment;
+  }
+
+  async updateAssignment(courseId: string, id: string, updates: UpdateAssignment): Promise<Assignment | undefined> {
+    const assignment = await this.getAssignment(courseId, id);
+    if (!assignment) return undefined;
+
+    const updatedAssignment: Assignment = {
+      ...assignment,
+      ...(updates.title !== undefined && { title: updates.title }),
+      ...(updates.description !== undefined && { description: updates.description ?? null }),
+      ...(updates.order !== undefined && { order: updates.order }),
+      ...(updates.openAt !== undefined && { openAt: updates.openAt }),
+      ...(updates.dueAt !== undefined && { dueAt: updates.dueAt }),
+      ...(updates.cutoffAt !== undefined && { cutoffAt: updates.cutoffAt }),
+      ...(updates.gradesReleased !== undefined && { gradesReleased: updates.gradesReleased }),
+      ...(updates.isArchived !== undefined && { isArchived: updates.isArchived }),
+    };
+    this.assignments.set(id, updatedAssignment);
+    return updatedAssignment;
+  }
+
+  async reorderAssignments(courseId: string, orderedIds: string[]): Promise<Assignment[]> {
+    orderedIds.forEach((id, index) => {
+      const assignment = this.assignments.get(id);
+      if (assignment?.courseId === courseId) {
+        this.assignments.set(id, { ...assignment, order: index });
+      }
+    });
+    return this.getAssignments(courseId);
+  }
+
+  async deleteAssignment(id: string): Promise<boolean> {
+    this.assignmentSettings.delete(id);
+    Array.from(this.rubricCriteria.values())
+      .filter(criterion => criterion.assignmentId === id)
+      .forEach(criterion => this.rubricCriteria.delete(criterion.id));
+    Array.from(this.grades.values())
+      .filter(grade => grade.assignmentId === id)
+      .forEach(grade => this.grades.delete(grade.id));
+    Array.from(this.presentationSchedules.values())
+      .filter(schedule => schedule.assignmentId === id)
+      .forEach(schedule => this.presentationSchedules.delete(schedule.id));
+    Array.from(this.presentationLogs.values())
+      .filter(log => log.assignmentId === id)
+      .forEach(log => this.presentationLogs.delete(log.id));
+    Array.from(this.peerReviewRounds.values())
+      .filter(round => round.assignmentId === id)
+      .forEach(round => this.peerReviewRounds.delete(round.id));
+    Array.from(this.peerReviews.values())
+      .filter(review => review.assignmentId === id)
+      .forEach(review => this.peerReviews.delete(review.id));
+    return this.assignments.delete(id);
+  }
+
   // Assignment settings operations
-  async getAssignmentSettings(): Promise<AssignmentSettings[]> {
-    return Array.from(this.assignmentSettings.values()).sort((a, b) => a.assignment.localeCompare(b.assignment));
+  async getAssignmentSettings(courseId: string): Promise<AssignmentSettings[]> {
+    const ordered = await this.getAssignments(courseId);
+    return ordered
+      .map(assignment => this.assignmentSettings.get(assignment.id))
+      .filter((setting): setting is AssignmentSettings => !!setting);
   }
 
   async getAllAssignmentSettings(): Promise<AssignmentSettings[]> {
-    return this.getAssignmentSettings();
+    return Array.from(this.assignmentSettings.values());
   }
 
-  async getAssignmentSetting(assignment: string): Promise<AssignmentSettings | undefined> {
-    return this.assignmentSettings.get(assignment);
+  async getAssignmentSetting(assignmentId: string): Promise<AssignmentSettings | undefined> {
+    return this.assignmentSettings.get(assignmentId);
   }
 
-  async updateAssignmentSetting(assignment: string, isOpenView: boolean): Promise<AssignmentSettings> {
-    let setting = this.assignmentSettings.get(assignment);
+  async updateAssignmentSetting(assignmentId: string, isOpenView: boolean): Promise<AssignmentSettings> {
+    let setting = this.assignmentSettings.get(assignmentId);
     if (!setting) {
       setting = {
         id: randomUUID(),
-        assignment,
+        assignmentId,
         isOpenView: isOpenView.toString(),
+        revealAt: null,
+        hideAt: null,
         updatedAt: new Date()
       };
     } else {
@@ -248,279 +790,1445 @@ export class MemStorage implements IStorage {
         updatedAt: new Date()
       };
     }
-    this.assignmentSettings.set(assignment, setting);
+    this.assignmentSettings.set(assignmentId, setting);
     return setting;
   }
 
-  async initializeDefaultAssignmentSettings(): Promise<void> {
-    // Only initialize if empty
-    if (this.assignmentSettings.size === 0) {
-      const defaultAssignments = [
-        "Assignment 1 - Segmentation and Personas",
-        "Assignment 2 - Positioning", 
-        "Assignment 3 - Journey Mapping",
-        "Assignment 4 - Marketing Channels",
-        "Assignment 5 - Pricing",
-        "Assignment 6 - Distribution Channels",
-        "Assignment 7 - Acquisition",
-        "Assignment 8 - Customer Discovery",
-        "Assignment 9 - Product Validation"
-      ];
-      
-      for (const assignment of defaultAssignments) {
-        await this.updateAssignmentSetting(assignment, false);
-      }
-    }
+  async updateAssignmentSchedule(assignmentId: string, schedule: AssignmentSchedule): Promise<AssignmentSettings> {
+    const existing = this.assignmentSettings.get(assignmentId) ?? await this.updateAssignmentSetting(assignmentId, false);
+    const setting: AssignmentSettings = {
+      ...existing,
+      revealAt: schedule.revealAt,
+      hideAt: schedule.hideAt,
+      updatedAt: new Date()
+    };
+    this.assignmentSettings.set(assignmentId, setting);
+    return setting;
   }
-}
 
-class DBStorage implements IStorage {
-  private db: any;
-  
-  constructor() {
-    // Import db inside constructor to avoid connection issues in dev
-    try {
-      const dbModule = require("./db");
-      this.db = dbModule.db;
-    } catch (error) {
-      console.error("Database connection failed, falling back to memory storage");
-      throw error;
-    }
+  // Rubric and grade operations
+  async getRubricCriteria(assignmentId: string): Promise<RubricCriterion[]> {
+    return Array.from(this.rubricCriteria.values())
+      .filter(criterion => criterion.assignmentId === assignmentId)
+      .sort((a, b) => a.order - b.order);
   }
 
-  // User operations
-  async getUser(id: string): Promise<User | undefined> {
-    const result = await this.db.select().from(users).where(eq(users.id, id)).limit(1);
-    return result[0];
-  }
+  async replaceRubricCriteria(assignmentId: string, criteria: RubricCriterionInput[]): Promise<RubricCriterion[]> {
+    const existing = await this.getRubricCriteria(assignmentId);
+    const keptIds = new Set(criteria.map(criterion => criterion.id).filter(Boolean));
+    existing
+      .filter(criterion => !keptIds.has(criterion.id))
+      .forEach(criterion => this.rubricCriteria.delete(criterion.id));
 
-  async getUserByTeam(teamNumber: number): Promise<User | undefined> {
-    const result = await this.db.select().from(users).where(eq(users.teamNumber, teamNumber)).limit(1);
-    return result[0];
+    criteria.forEach((criterion, index) => {
+      // Unknown ids (e.g. from another assignment) are treated as new criteria
+      const id = criterion.id && existing.some(c => c.id === criterion.id) ? criterion.id : randomUUID();
+      this.rubricCriteria.set(id, {
+        id,
+        assignmentId,
+        title: criterion.title,
+        description: criterion.description ?? null,
+        minPoints: criterion.minPoints,
+        maxPoints: criterion.maxPoints,
+        order: index,
+      });
+    });
+    return this.getRubricCriteria(assignmentId);
   }
 
-  async createUser(user: InsertUser): Promise<User> {
-    const result = await this.db.insert(users).values({
-      id: randomUUID(),
-      ...user
-    }).returning();
-    return result[0];
+  async getGrades(courseId: string, assignmentId?: string): Promise<Grade[]> {
+    return Array.from(this.grades.values())
+      .filter(grade => grade.courseId === courseId && (assignmentId === undefined || grade.assignmentId === assignmentId))
+      .sort((a, b) => a.teamNumber - b.teamNumber);
   }
 
-  async updateUserLogin(teamNumber: number): Promise<void> {
-    await this.db.update(users)
-      .set({ lastLogin: new Date() })
-      .where(eq(users.teamNumber, teamNumber));
+  async getGrade(assignmentId: string, teamNumber: number): Promise<Grade | undefined> {
+    return Array.from(this.grades.values()).find(
+      grade => grade.assignmentId === assignmentId && grade.teamNumber === teamNumber
+    );
   }
 
-  async getUserByTeamName(teamName: string): Promise<User | undefined> {
-    const result = await this.db.select().from(users).where(eq(users.teamName, teamName)).limit(1);
-    return result[0];
+  async saveGrade(courseId: string, assignmentId: string, teamNumber: number, data: SaveGrade & { gradedBy: string | null }): Promise<Grade> {
+    const existing = await this.getGrade(assignmentId, teamNumber);
+    const grade: Grade = {
+      id: existing?.id ?? randomUUID(),
+      courseId,
+      assignmentId,
+      teamNumber,
+      scores: data.scores,
+      feedback: data.feedback,
+      gradedBy: data.gradedBy,
+      updatedAt: new Date(),
+    };
+    this.grades.set(grade.id, grade);
+    return grade;
   }
 
-  async updateUserPassword(teamNumber: number, passwordHash: string): Promise<void> {
-    await this.db.update(users)
-      .set({ passwordHash })
-      .where(eq(users.teamNumber, teamNumber));
+  async deleteGrades(courseId: string, teamNumber?: number): Promise<number> {
+    const matching = (await this.getGrades(courseId))
+      .filter(grade => teamNumber === undefined || grade.teamNumber === teamNumber);
+    matching.forEach(grade => this.grades.delete(grade.id));
+    return matching.length;
   }
 
-  async checkTeamNameAvailable(teamName: string, excludeTeamNumber?: number): Promise<boolean> {
-    let query = this.db.select().from(users).where(eq(users.teamName, teamName));
-    
-    if (excludeTeamNumber !== undefined) {
-      const { and, ne } = await import("drizzle-orm");
-      query = this.db.select().from(users).where(
-        and(
-          eq(users.teamName, teamName),
-          ne(users.teamNumber, excludeTeamNumber)
-        )
-      );
-    }
-    
-    const result = await query.limit(1);
-    return result.length === 0;
+  // Presentation schedule operations
+  async getPresentationSchedule(assignmentId: string): Promise<PresentationSchedule | undefined> {
+    return Array.from(this.presentationSchedules.values()).find(schedule => schedule.assignmentId === assignmentId);
   }
 
-  async getAllUsers(): Promise<User[]> {
-    const { asc } = await import("drizzle-orm");
-    return await this.db.select().from(users).orderBy(asc(users.teamNumber));
+  async savePresentationSchedule(courseId: string, assignmentId: string, data: SavePresentationSchedule): Promise<PresentationSchedule> {
+    const existing = await this.getPresentationSchedule(assignmentId);
+    const schedule: PresentationSchedule = {
+      id: existing?.id ?? randomUUID(),
+      courseId,
+      assignmentId,
+      teamOrder: data.teamOrder,
+      slotMinutes: data.slotMinutes,
+      bufferMinutes: data.bufferMinutes,
+      warningMinutes: data.warningMinutes,
+      startsAt: data.startsAt,
+      updatedAt: new Date(),
+    };
+    this.presentationSchedules.set(schedule.id, schedule);
+    return schedule;
   }
 
-  async deleteUser(teamNumber: number): Promise<boolean> {
-    const result = await this.db.delete(users).where(eq(users.teamNumber, teamNumber)).returning();
-    return result.length > 0;
+  async getPresentationLogs(courseId: string, assignmentId?: string): Promise<PresentationLog[]> {
+    return Array.from(this.presentationLogs.values())
+      .filter(log => log.courseId === courseId && (assignmentId === undefined || log.assignmentId === assignmentId))
+      .sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
   }
 
-  // File operations
-  async createFile(file: InsertFile & { fileName: string }): Promise<File> {
-    const result = await this.db.insert(files).values({
+  async startPresentationLog(courseId: string, assignmentId: string, teamNumber: number, loggedBy: string | null): Promise<PresentationLog> {
+    const log: PresentationLog = {
       id: randomUUID(),
-      ...file
-    }).returning();
-    return result[0];
+      courseId,
+      assignmentId,
+      teamNumber,
+      startedAt: new Date(),
+      endedAt: null,
+      loggedBy,
+    };
+    this.presentationLogs.set(log.id, log);
+    return log;
   }
 
-  async getAllFiles(): Promise<File[]> {
-    return await this.db.select().from(files);
+  async endPresentationLogs(assignmentId: string): Promise<PresentationLog[]> {
+    const endedAt = new Date();
+    const open = Array.from(this.presentationLogs.values())
+      .filter(log => log.assignmentId === assignmentId && !log.endedAt);
+    return open.map(log => {
+      const ended = { ...log, endedAt };
+      this.presentationLogs.set(log.id, ended);
+      return ended;
+    });
   }
 
-  async getFileById(id: string): Promise<File | undefined> {
-    const result = await this.db.select().from(files).where(eq(files.id, id)).limit(1);
-    return result[0];
+  async deletePresentationLogs(courseId: string, filter: { assignmentId?: string; teamNumber?: number } = {}): Promise<number> {
+    const matching = (await this.getPresentationLogs(courseId, filter.assignmentId))
+      .filter(log => filter.teamNumber === undefined || log.teamNumber === filter.teamNumber);
+    matching.forEach(log => this.presentationLogs.delete(log.id));
+    return matching.length;
   }
 
-  async getFilesByTeam(teamNumber: number): Promise<File[]> {
-    return await this.db.select().from(files).where(eq(files.teamNumber, teamNumber));
+  // Comment operations
+  async getComments(fileId: string): Promise<Comment[]> {
+    return Array.from(this.comments.values())
+      .filter(comment => comment.fileId === fileId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
   }
 
-  async getFilesByType(fileType: string): Promise<File[]> {
-    return await this.db.select().from(files).where(eq(files.fileType, fileType));
+  async getComment(id: string): Promise<Comment | undefined> {
+    return this.comments.get(id);
   }
 
-  async getFilesByAssignment(assignment: string): Promise<File[]> {
-    return await this.db.select().from(files).where(eq(files.assignment, assignment));
+  async createComment(data: NewComment): Promise<Comment> {
+    const comment: Comment = {
+      ...data,
+      id: randomUUID(),
+      isResolved: "false",
+      resolvedBy: null,
+      createdAt: new Date(),
+      editedAt: null,
+    };
+    this.comments.set(comment.id, comment);
+    return comment;
   }
 
-  async searchFiles(query: string): Promise<File[]> {
-    return await this.db.select().from(files).where(
-      or(
-        like(files.label, `%${query}%`),
-        like(files.originalName, `%${query}%`),
-        like(files.description, `%${query}%`)
-      )
-    );
+  async updateComment(id: string, updates: { body?: string; isResolved?: string; resolvedBy?: string | null }): Promise<Comment | undefined> {
+    const comment = this.comments.get(id);
+    if (!comment) return undefined;
+
+    const updated = {
+      ...comment,
+      ...updates,
+      ...(updates.body !== undefined && { editedAt: new Date() }),
+    };
+    this.comments.set(id, updated);
+    return updated;
   }
 
-  async deleteFile(id: string): Promise<boolean> {
-    const result = await this.db.delete(files).where(eq(files.id, id)).returning();
-    return result.length > 0;
+  async deleteComment(id: string): Promise<boolean> {
+    Array.from(this.comments.values())
+      .filter(comment => comment.parentId === id)
+      .forEach(comment => this.comments.delete(comment.id));
+    return this.comments.delete(id);
   }
 
-  async updateFileVisibility(id: string, isVisible: string): Promise<File | undefined> {
-    const result = await this.db.update(files)
-      .set({ isVisible })
-      .where(eq(files.id, id))
-      .returning();
-    return result[0];
+  // Peer review operations
+  async getPeerReviewRounds(courseId: string): Promise<PeerReviewRound[]> {
+    return Array.from(this.peerReviewRounds.values()).filter(round => round.courseId === courseId);
   }
 
-  async updateFileDetails(id: string, updates: { label?: string; description?: string; tags?: string[] }): Promise<File | undefined> {
-    const updateData: any = {};
-    if (updates.label) updateData.label = updates.label;
-    if (updates.description !== undefined) updateData.description = updates.description;
-    if (updates.tags) updateData.tags = updates.tags;
-    
-    const result = await this.db.update(files)
-      .set(updateData)
-      .where(eq(files.id, id))
-      .returning();
-    return result[0];
+  async getPeerReviewRound(assignmentId: string): Promise<PeerReviewRound | undefined> {
+    return Array.from(this.peerReviewRounds.values()).find(round => round.assignmentId === assignmentId);
   }
 
-  // Assignment settings operations
-  async getAssignmentSettings(): Promise<AssignmentSettings[]> {
-    return await this.db.select().from(assignmentSettings).orderBy(asc(assignmentSettings.assignment));
+  async savePeerReviewRound(courseId: string, assignmentId: string, data: { questions: PeerReviewQuestion[]; reviewsPerTeam: number; dueAt: Date | null }): Promise<PeerReviewRound> {
+    const existing = await this.getPeerReviewRound(assignmentId);
+    const round: PeerReviewRound = {
+      id: existing?.id ?? randomUUID(),
+      courseId,
+      assignmentId,
+      questions: data.questions,
+      reviewsPerTeam: data.reviewsPerTeam,
+      dueAt: data.dueAt,
+      status: existing?.status ?? "draft",
+      isReleased: existing?.isReleased ?? "false",
+      updatedAt: new Date(),
+    };
+    this.peerReviewRounds.set(round.id, round);
+    return round;
   }
 
-  async getAllAssignmentSettings(): Promise<AssignmentSettings[]> {
-    return this.getAssignmentSettings();
+  async updatePeerReviewRound(id: string, updates: { status?: PeerReviewStatus; isReleased?: string }): Promise<PeerReviewRound | undefined> {
+    const round = this.peerReviewRounds.get(id);
+    if (!round) return undefined;
+
+    const updated = { ...round, ...updates, updatedAt: new Date() };
+    this.peerReviewRounds.set(id, updated);
+    return updated;
   }
 
-  async getAssignmentSetting(assignment: string): Promise<AssignmentSettings | undefined> {
-    const result = await this.db.select().from(assignmentSettings).where(eq(assignmentSettings.assignment, assignment)).limit(1);
-    return result[0];
+  async deletePeerReviewRound(id: string): Promise<boolean> {
+    Array.from(this.peerReviews.values())
+      .filter(review => review.roundId === id)
+      .forEach(review => this.peerReviews.delete(review.id));
+    return this.peerReviewRounds.delete(id);
   }
 
-  async updateAssignmentSetting(assignment: string, isOpenView: boolean): Promise<AssignmentSettings> {
-    const existing = await this.getAssignmentSetting(assignment);
-    
-    if (existing) {
-      const result = await this.db.update(assignmentSettings)
-        .set({ 
-          isOpenView: isOpenView.toString(),
-          updatedAt: new Date()
-        })
-        .where(eq(assignmentSettings.assignment, assignment))
-        .returning();
-      return result[0];
-    } else {
-      const result = await this.db.insert(assignmentSettings).values({
-        id: randomUUID(),
-        assignment,
-        isOpenView: isOpenView.toString(),
-        updatedAt: new Date()
-      }).returning();
-      return result[0];
-    }
+  async getPeerReviews(courseId: string, filter: { roundId?: string; reviewerTeamNumber?: number; revieweeTeamNumber?: number } = {}): Promise<PeerReview[]> {
+    return Array.from(this.peerReviews.values())
+      .filter(review =>
+        review.courseId === courseId &&
+        (filter.roundId === undefined || review.roundId === filter.roundId) &&
+        (filter.reviewerTeamNumber === undefined || review.reviewerTeamNumber === filter.reviewerTeamNumber) &&
+        (filter.revieweeTeamNumber === undefined || review.revieweeTeamNumber === filter.revieweeTeamNumber)
+      )
+      .sort((a, b) => a.reviewerTeamNumber - b.reviewerTeamNumber || a.revieweeTeamNumber - b.revieweeTeamNumber);
   }
 
-  async initializeDefaultAssignmentSettings(): Promise<void> {
-    // Only initialize if table is empty
-    const existing = await this.getAssignmentSettings();
-    if (existing.length === 0) {
-      const defaultAssignments = [
-        "Assignment 1 - Segmentation and Personas",
-        "Assignment 2 - Positioning", 
-        "Assignment 3 - Journey Mapping",
-        "Assignment 4 - Marketing Channels",
-        "Assignment 5 - Pricing",
-        "Assignment 6 - Distribution Channels",
-        "Assignment 7 - Acquisition",
-        "Assignment 8 - Customer Discovery",
-        "Assignment 9 - Product Validation"
-      ];
-      
-      for (const assignment of defaultAssignments) {
-        await this.updateAssignmentSetting(assignment, false);
-      }
-    }
+  async getPeerReview(id: string): Promise<PeerReview | undefined> {
+    return this.peerReviews.get(id);
   }
-}
 
-// Initialize storage with fallback mechanism
-async function createStorage(): Promise<IStorage> {
-  let storageInstance: IStorage;
-  
-  try {
-    storageInstance = new DBStorage();
-  } catch (error) {
-    console.log("🔄 Using memory storage for development (database not accessible)");
-    console.log("📝 DEPLOYMENT NOTE: This will automatically use PostgreSQL when deployed on server");
-    storageInstance = new MemStorage();
+  async assignPeerReviews(round: PeerReviewRound, pairs: ReviewPair[]): Promise<PeerReview[]> {
+    Array.from(this.peerReviews.values())
+      .filter(review => review.roundId === round.id)
+      .forEach(review => this.peerReviews.delete(review.id));
+
+    return pairs.map(pair => {
+      const review: PeerReview = {
+        id: randomUUID(),
+        courseId: round.courseId,
+        roundId: round.id,
+        assignmentId: round.assignmentId,
+        reviewerTeamNumber: pair.reviewerTeamNumber,
+        revieweeTeamNumber: pair.revieweeTeamNumber,
+        answers: [],
+        submittedAt: null,
+        updatedAt: new Date(),
+      };
+      this.peerReviews.set(review.id, review);
+      return review;
+    });
+  }
+
+  async savePeerReview(id: string, answers: PeerReviewAnswer[], submittedAt: Date | null): Promise<PeerReview | undefined> {
+    const review = this.peerReviews.get(id);
+    if (!review) return undefined;
+
+    const updated = { ...review, answers, submittedAt, updatedAt: new Date() };
+    this.peerReviews.set(id, updated);
+    return updated;
+  }
+
+  async deletePeerReviews(courseId: string, filter: { teamNumber?: number } = {}): Promise<number> {
+    const matching = (await this.getPeerReviews(courseId)).filter(review =>
+      filter.teamNumber === undefined || review.reviewerTeamNumber === filter.teamNumber || review.revieweeTeamNumber === filter.teamNumber
+    );
+    matching.forEach(review => this.peerReviews.delete(review.id));
+    return matching.length;
+  }
+
+  // Audit log operations
+  async getAuditEvents(courseId: string, filter: AuditEventFilter = {}): Promise<AuditEvent[]> {
+    const events = Array.from(this.auditEvents.values())
+      .filter(event => event.courseId === courseId || event.courseId === null)
+      .filter(event => filter.teamNumber === undefined || event.teamNumber === filter.teamNumber || event.actorTeamNumber === filter.teamNumber)
+      .filter(event => filter.actorUserId === undefined || event.actorUserId === filter.actorUserId)
+      .filter(event => filter.actorTeamNumber === undefined || event.actorTeamNumber === filter.actorTeamNumber)
+      .filter(event => filter.actorRole === undefined || event.actorRole === filter.actorRole)
+      .filter(event => filter.action === undefined || event.action === filter.action)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    return filter.limit === undefined ? events : events.slice(0, filter.limit);
+  }
+
+  async createAuditEvent(data: NewAuditEvent): Promise<AuditEvent> {
+    const event: AuditEvent = { ...data, id: randomUUID(), createdAt: new Date() };
+    this.auditEvents.set(event.id, event);
+    return event;
+  }
+
+  // Term archive operations
+  async getTermArchives(): Promise<TermArchive[]> {
+    return Array.from(this.termArchives.values())
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async getTermArchive(id: string): Promise<TermArchive | undefined> {
+    return this.termArchives.get(id);
+  }
+
+  async createTermArchive(data: NewTermArchive): Promise<TermArchive> {
+    const archive: TermArchive = { ...data, id: randomUUID(), createdAt: new Date() };
+    this.termArchives.set(archive.id, archive);
+    return archive;
+  }
+
+  async restoreCourse(records: CourseRecords): Promise<Course> {
+    this.courses.set(records.course.id, records.course);
+    records.assignments.forEach(assignment => this.assignments.set(assignment.id, assignment));
+    records.assignmentSettings.forEach(setting => this.assignmentSettings.set(setting.assignmentId, setting));
+    records.rubricCriteria.forEach(criterion => this.rubricCriteria.set(criterion.id, criterion));
+    records.users.forEach(user => this.users.set(user.id, user));
+    records.teamMembers.forEach(member => this.teamMembers.set(member.id, member));
+    records.files.forEach(file => this.files.set(file.id, file));
+    records.grades.forEach(grade => this.grades.set(grade.id, grade));
+    records.presentationSchedules.forEach(schedule => this.presentationSchedules.set(schedule.id, schedule));
+    records.presentationLogs.forEach(log => this.presentationLogs.set(log.id, log));
+    records.peerReviewRounds.forEach(round => this.peerReviewRounds.set(round.id, round));
+    records.peerReviews.forEach(review => this.peerReviews.set(review.id, review));
+    records.comments.forEach(comment => this.comments.set(comment.id, comment));
+    return records.course;
+  }
+
+  // Trash operations
+  async getTrashItems(courseId: string): Promise<TrashItem[]> {
+    return Array.from(this.trashItems.values())
+      .filter(item => item.courseId === courseId)
+      .sort((a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime());
+  }
+
+  async getTrashItem(courseId: string, id: string): Promise<TrashItem | undefined> {
+    const item = this.trashItems.get(id);
+    return item?.courseId === courseId ? item : undefined;
+  }
+
+  async getExpiredTrashItems(deletedBefore: Date): Promise<TrashItem[]> {
+    return Array.from(this.trashItems.values())
+      .filter(item => new Date(item.deletedAt).getTime() < deletedBefore.getTime());
+  }
+
+  async createTrashItem(data: NewTrashItem): Promise<TrashItem> {
+    const item: TrashItem = { ...data, id: randomUUID(), deletedAt: new Date() };
+    this.trashItems.set(item.id, item);
+    return item;
+  }
+
+  async restoreTrashItem(id: string, records: TrashedRecords): Promise<boolean> {
+    if (!this.trashItems.delete(id)) return false;
+    if (records.team) this.users.set(records.team.id, records.team);
+    records.members?.forEach(member => this.teamMembers.set(member.id, member));
+    records.files.forEach(file => this.files.set(file.id, file));
+    records.comments.forEach(comment => this.comments.set(comment.id, comment));
+    records.grades?.forEach(grade => this.grades.set(grade.id, grade));
+    records.presentationLogs?.forEach(log => this.presentationLogs.set(log.id, log));
+    records.peerReviews?.forEach(review => this.peerReviews.set(review.id, review));
+    return true;
+  }
+
+  async deleteTrashItem(id: string): Promise<boolean> {
+    return this.trashItems.delete(id);
+  }
+
+  // Read without awaiting anything in between, so no change can land part way through
+  async getSnapshot(): Promise<StorageSnapshot> {
+    return {
+      courses: Array.from(this.courses.values()),
+      users: Array.from(this.users.values()),
+      teamMembers: Array.from(this.teamMembers.values()),
+      files: Array.from(this.files.values()),
+      assignments: Array.from(this.assignments.values()),
+      assignmentSettings: Array.from(this.assignmentSettings.values()),
+      rubricCriteria: Array.from(this.rubricCriteria.values()),
+      grades: Array.from(this.grades.values()),
+      presentationSchedules: Array.from(this.presentationSchedules.values()),
+      presentationLogs: Array.from(this.presentationLogs.values()),
+      fileTexts: Array.from(this.fileTexts.values()),
+      comments: Array.from(this.comments.values()),
+      peerReviewRounds: Array.from(this.peerReviewRounds.values()),
+      peerReviews: Array.from(this.peerReviews.values()),
+      auditEvents: Array.from(this.auditEvents.values()),
+      termArchives: Array.from(this.termArchives.values()),
+      trashItems: Array.from(this.trashItems.values()),
+    };
+  }
+
+  async restoreSnapshot(snapshot: StorageSnapshot): Promise<void> {
+    // Refilled in place: the storage proxy has no set trap, and FileStorage saves these same maps
+    refill(this.courses, snapshot.courses, byId);
+    refill(this.users, snapshot.users, byId);
+    refill(this.teamMembers, snapshot.teamMembers, byId);
+    refill(this.files, snapshot.files, byId);
+    refill(this.assignments, snapshot.assignments, byId);
+    refill(this.assignmentSettings, snapshot.assignmentSettings, setting => setting.assignmentId);
+    refill(this.rubricCriteria, snapshot.rubricCriteria, byId);
+    refill(this.grades, snapshot.grades, byId);
+    refill(this.presentationSchedules, snapshot.presentationSchedules, byId);
+    refill(this.presentationLogs, snapshot.presentationLogs, byId);
+    refill(this.fileTexts, snapshot.fileTexts, byId);
+    refill(this.comments, snapshot.comments, byId);
+    refill(this.peerReviewRounds, snapshot.peerReviewRounds, byId);
+    refill(this.peerReviews, snapshot.peerReviews, byId);
+    refill(this.auditEvents, snapshot.auditEvents, byId);
+    refill(this.termArchives, snapshot.termArchives, byId);
+    refill(this.trashItems, snapshot.trashItems, byId);
+    this.textIndex.clear();
+    this.fileTexts.forEach(text => this.textIndex.add(text.fileName, text.content));
+  }
+
+}
+
+const SNAPSHOT_VERSION = 1;
+
+// Dates are tagged so they come back as Date objects rather than strings that merely look like dates
+export function snapshotReplacer(this: any, key: string, value: unknown) {
+  const raw = this[key];
+  return raw instanceof Date ? { $date: raw.toISOString() } : value;
+}
+
+export function snapshotReviver(key: string, value: any) {
+  if (value && typeof value === "object" && typeof value.$date === "string" && Object.keys(value).length === 1) {
+    return new Date(value.$date);
+  }
+  return value;
+}
+
+/**
+ * MemStorage that saves everything to a JSON file in a data directory, for deployments
+ * without Postgres. Every call marked "write" in storageMethodEffects writes a fresh
+ * snapshot before resolving, so a response is only sent once its change is on disk.
+ */
+export class FileStorage extends MemStorage {
+  private readonly dataFile: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(dataDir: string) {
+    super();
+    fs.mkdirSync(dataDir, { recursive: true });
+    this.dataFile = path.join(dataDir, "storage.json");
+    this.load();
+    this.persistMutations();
+  }
+
+  // Each saved collection with the key MemStorage files its records under
+  private collections(): Record<string, { map: Map<string, any>; key: (record: any) => string }> {
+    return {
+      courses: { map: this.courses, key: byId },
+      users: { map: this.users, key: byId },
+      teamMembers: { map: this.teamMembers, key: byId },
+      files: { map: this.files, key: byId },
+      assignments: { map: this.assignments, key: byId },
+      assignmentSettings: { map: this.assignmentSettings, key: setting => setting.assignmentId },
+      rubricCriteria: { map: this.rubricCriteria, key: byId },
+      grades: { map: this.grades, key: byId },
+      presentationSchedules: { map: this.presentationSchedules, key: byId },
+      presentationLogs: { map: this.presentationLogs, key: byId },
+      fileTexts: { map: this.fileTexts, key: byId },
+      comments: { map: this.comments, key: byId },
+      peerReviewRounds: { map: this.peerReviewRounds, key: byId },
+      peerReviews: { map: this.peerReviews, key: byId },
+      auditEvents: { map: this.auditEvents, key: byId },
+      termArchives: { map: this.termArchives, key: byId },
+      trashItems: { map: this.trashItems, key: byId },
+    };
+  }
+
+  private load() {
+    if (!fs.existsSync(this.dataFile)) return;
+
+    // A corrupt file is left in place for inspection; starting empty would overwrite it on the next change
+    const snapshot = JSON.parse(fs.readFileSync(this.dataFile, "utf8"), snapshotReviver);
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported storage file version ${snapshot.version} in ${this.dataFile}`);
+    }
+
+    for (const [name, { map, key }] of Object.entries(this.collections())) {
+      refill(map, snapshot[name] ?? [], key);
+    }
+    this.fileTexts.forEach(text => this.textIndex.add(text.fileName, text.content));
   }
+
+  private persistMutations() {
+    const writes = (Object.keys(storageMethodEffects) as (keyof IStorage)[])
+      .filter(name => storageMethodEffects[name] === "write");
+
+    for (const name of writes) {
+      const original = this[name] as (...args: unknown[]) => Promise<unknown>;
+      Object.assign(this, {
+        [name]: async (...args: unknown[]) => {
+          const result = await original.apply(this, args);
+          await this.save();
+          return result;
+        },
+      });
+    }
+  }
+
+  // Writes are queued so overlapping requests can't interleave; each one snapshots the latest state
+  private save(): Promise<void> {
+    this.writeQueue = this.writeQueue.catch(() => {}).then(async () => {
+      const snapshot: Record<string, unknown> = { version: SNAPSHOT_VERSION, savedAt: new Date() };
+      for (const [name, { map }] of Object.entries(this.collections())) {
+        snapshot[name] = Array.from(map.values());
+      }
+
+      // Write then rename so a crash mid-write never leaves a half-written file
+      const tempFile = `${this.dataFile}.tmp`;
+      await fs.promises.writeFile(tempFile, JSON.stringify(snapshot, snapshotReplacer));
+      await fs.promises.rename(tempFile, this.dataFile);
+    });
+    return this.writeQueue;
+  }
+}
+
+class DBStorage implements IStorage {
+  private db: any;
+  readonly pool: Pool;
   
-  // Initialize default assignment settings on first run
+  constructor() {
+    // Import db inside constructor to avoid connection issues in dev
+    try {
+      const dbModule = require("./db");
+      this.db = dbModule.db;
+      this.pool = dbModule.pool;
+    } catch (error) {
+      console.error("Database connection failed, falling back to memory storage");
+      throw error;
+    }
+  }
+
+  // Course operations
+  async getCourses(): Promise<Course[]> {
+    return await this.db.select().from(courses).orderBy(asc(courses.name), asc(courses.section));
+  }
+
+  async getCourse(id: string): Promise<Course | undefined> {
+    const result = await this.db.select().from(courses).where(eq(courses.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getCourseByJoinCode(joinCode: string): Promise<Course | undefined> {
+    const result = await this.db.select().from(courses).where(eq(courses.joinCode, joinCode.toUpperCase())).limit(1);
+    return result[0];
+  }
+
+  async createCourse(course: InsertCourse & { joinCode: string }): Promise<Course> {
+    const result = await this.db.insert(courses).values({
+      id: randomUUID(),
+      ...course
+    }).returning();
+    return result[0];
+  }
+
+  async updateCourse(id: string, updates: CourseUpdate): Promise<Course | undefined> {
+    const updateData: any = {};
+    if (updates.name !== undefined) updateData.name = updates.name;
+    if (updates.section !== undefined) updateData.section = updates.section;
+    if (updates.joinCode !== undefined) updateData.joinCode = updates.joinCode;
+    if (updates.maxTeams !== undefined) updateData.maxTeams = updates.maxTeams;
+    if (updates.isArchived !== undefined) updateData.isArchived = updates.isArchived;
+
+    if (Object.keys(updateData).length === 0) {
+      return this.getCourse(id);
+    }
+
+    const result = await this.db.update(courses)
+      .set(updateData)
+      .where(eq(courses.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // User operations
+  async getUser(id: string): Promise<User | undefined> {
+    const result = await this.db.select().from(users).where(eq(users.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getUserByTeam(courseId: string, teamNumber: number): Promise<User | undefined> {
+    const result = await this.db.select().from(users)
+      .where(and(eq(users.courseId, courseId), eq(users.teamNumber, teamNumber)))
+      .limit(1);
+    return result[0];
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const result = await this.db.insert(users).values({
+      id: randomUUID(),
+      ...user
+    }).returning();
+    return result[0];
+  }
+
+  async updateUserLogin(courseId: string, teamNumber: number): Promise<void> {
+    await this.db.update(users)
+      .set({ lastLogin: new Date() })
+      .where(and(eq(users.courseId, courseId), eq(users.teamNumber, teamNumber)));
+  }
+
+  async getUserByTeamName(courseId: string, teamName: string): Promise<User | undefined> {
+    const result = await this.db.select().from(users)
+      .where(and(eq(users.courseId, courseId), eq(users.teamName, teamName)))
+      .limit(1);
+    return result[0];
+  }
+
+  async updateUserPassword(courseId: string, teamNumber: number, passwordHash: string): Promise<void> {
+    await this.db.update(users)
+      .set({ passwordHash })
+      .where(and(eq(users.courseId, courseId), eq(users.teamNumber, teamNumber)));
+  }
+
+  async checkTeamNameAvailable(courseId: string, teamName: string, excludeTeamNumber?: number): Promise<boolean> {
+    let query = this.db.select().from(users).where(and(eq(users.courseId, courseId), eq(users.teamName, teamName)));
+    
+    if (excludeTeamNumber !== undefined) {
+      query = this.db.select().from(users).where(
+        and(
+          eq(users.courseId, courseId),
+          eq(users.teamName, teamName),
+          ne(users.teamNumber, excludeTeamNumber)
+        )
+      );
+    }
+    
+    const result = await query.limit(1);
+    return result.length === 0;
+  }
+
+  async getAllUsers(courseId: string): Promise<User[]> {
+    return await this.db.select().from(users).where(eq(users.courseId, courseId)).orderBy(asc(users.teamNumber));
+  }
+
+  async deleteUser(courseId: string, teamNumber: number): Promise<boolean> {
+    const result = await this.db.delete(users)
+      .where(and(eq(users.courseId, courseId), eq(users.teamNumber, teamNumber)))
+      .returning();
+    return result.length > 0;
+  }
+
+  // Team roster operations
+  async getTeamMembers(courseId: string, teamNumber?: number): Promise<TeamMember[]> {
+    const condition = teamNumber === undefined
+      ? eq(teamMembers.courseId, courseId)
+      : and(eq(teamMembers.courseId, courseId), eq(teamMembers.teamNumber, teamNumber));
+    return await this.db.select().from(teamMembers).where(condition).orderBy(asc(teamMembers.teamNumber), asc(teamMembers.name));
+  }
+
+  async getTeamMember(courseId: string, id: string): Promise<TeamMember | undefined> {
+    const result = await this.db.select().from(teamMembers)
+      .where(and(eq(teamMembers.courseId, courseId), eq(teamMembers.id, id)))
+      .limit(1);
+    return result[0];
+  }
+
+  async createTeamMember(courseId: string, teamNumber: number, member: InsertTeamMember): Promise<TeamMember> {
+    const result = await this.db.insert(teamMembers).values({
+      id: randomUUID(),
+      ...member,
+      courseId,
+      teamNumber
+    }).returning();
+    return result[0];
+  }
+
+  async updateTeamMember(id: string, updates: UpdateTeamMember): Promise<TeamMember | undefined> {
+    const updateData: any = {};
+    if (updates.name !== undefined) updateData.name = updates.name;
+    if (updates.email !== undefined) updateData.email = updates.email;
+    if (updates.rollNumber !== undefined) updateData.rollNumber = updates.rollNumber;
+
+    const result = await this.db.update(teamMembers)
+      .set(updateData)
+      .where(eq(teamMembers.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteTeamMember(id: string): Promise<boolean> {
+    const result = await this.db.delete(teamMembers).where(eq(teamMembers.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async replaceTeamMembers(courseId: string, teamNumber: number, members: InsertTeamMember[]): Promise<TeamMember[]> {
+    await this.db.transaction(async (tx: any) => {
+      await tx.delete(teamMembers).where(and(eq(teamMembers.courseId, courseId), eq(teamMembers.teamNumber, teamNumber)));
+      if (members.length > 0) {
+        await tx.insert(teamMembers).values(members.map(member => ({ id: randomUUID(), ...member, courseId, teamNumber })));
+      }
+    });
+    return this.getTeamMembers(courseId, teamNumber);
+  }
+
+  // Staff account operations
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const result = await this.db.select().from(users).where(eq(users.email, email.toLowerCase())).limit(1);
+    return result[0];
+  }
+
+  async getUserByResetToken(token: string): Promise<User | undefined> {
+    const result = await this.db.select().from(users).where(eq(users.passwordResetToken, token)).limit(1);
+    return result[0];
+  }
+
+  async getStaffUsers(): Promise<User[]> {
+    return await this.db.select().from(users).where(ne(users.role, "team")).orderBy(asc(users.displayName));
+  }
+
+  async updateStaffUser(id: string, updates: StaffUserUpdate): Promise<User | undefined> {
+    const result = await this.db.update(users)
+      .set(updates)
+      .where(eq(users.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // File operations
+  async createFile(file: InsertFile & { fileName: string }): Promise<File> {
+    const result = await this.db.insert(files).values({
+      id: randomUUID(),
+      ...file
+    }).returning();
+    return result[0];
+  }
+
+  async getAllFiles(courseId: string): Promise<File[]> {
+    return await this.db.select().from(files).where(eq(files.courseId, courseId));
+  }
+
+  async getFileById(courseId: string, id: string): Promise<File | undefined> {
+    const result = await this.db.select().from(files)
+      .where(and(eq(files.courseId, courseId), eq(files.id, id)))
+      .limit(1);
+    return result[0];
+  }
+
+  async getFilesByTeam(courseId: string, teamNumber: number): Promise<File[]> {
+    return await this.db.select().from(files).where(and(eq(files.courseId, courseId), eq(files.teamNumber, teamNumber)));
+  }
+
+  async getFilesByType(courseId: string, fileType: string): Promise<File[]> {
+    return await this.db.select().from(files).where(and(eq(files.courseId, courseId), eq(files.fileType, fileType)));
+  }
+
+  async getFilesByAssignment(courseId: string, assignmentId: string): Promise<File[]> {
+    return await this.db.select().from(files).where(and(eq(files.courseId, courseId), eq(files.assignmentId, assignmentId)));
+  }
+
+  // Full-text matches are ranked with the label and name weighted above details and file text;
+  // substring matches on the label, name and details still count, so partial words are found
+  async searchFiles(courseId: string, query: string): Promise<FileSearchResult[]> {
+    const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+    const pattern = `%${query}%`;
+    const document = sql`setweight(to_tsvector('english', ${files.label} || ' ' || ${files.originalName}), 'A')
+      || setweight(to_tsvector('english', coalesce(${files.description}, '') || ' ' || array_to_string(${files.tags}, ' ')), 'B')
+      || coalesce(${fileTexts.searchVector}, ''::tsvector)`;
+    const rank = sql<number>`ts_rank(${document}, ${tsQuery})`;
+    const headlineOptions = `StartSel=${SNIPPET_MATCH_START}, StopSel=${SNIPPET_MATCH_END}, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`;
+
+    const rows = await this.db.select({
+      file: files,
+      rank,
+      snippet: sql<string | null>`case when ${fileTexts.searchVector} @@ ${tsQuery}
+        then ts_headline('english', ${fileTexts.content}, ${tsQuery}, ${headlineOptions}) end`,
+    })
+      .from(files)
+      .leftJoin(fileTexts, eq(fileTexts.fileName, files.fileName))
+      .where(and(
+        eq(files.courseId, courseId),
+        or(
+          sql`${document} @@ ${tsQuery}`,
+          ilike(files.label, pattern),
+          ilike(files.originalName, pattern),
+          ilike(files.description, pattern),
+          sql`exists (select 1 from unnest(${files.tags}) as tag where tag ilike ${pattern})`,
+        )
+      ))
+      .orderBy(desc(rank), desc(files.uploadedAt));
+
+    return rows.map((row: { file: File; rank: number; snippet: string | null }) => ({
+      ...row.file,
+      searchRank: Number(row.rank),
+      searchSnippet: row.snippet,
+    }));
+  }
+
+  async deleteFile(id: string): Promise<boolean> {
+    const result = await this.db.delete(files).where(eq(files.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getFileReferenceCount(fileName: string): Promise<number> {
+    const fileRows = await this.db.select({ count: count() }).from(files).where(eq(files.fileName, fileName));
+    const trashRows = await this.db.select({ count: count() }).from(trashItems).where(arrayContains(trashItems.fileNames, [fileName]));
+    return Number(fileRows[0]?.count ?? 0) + Number(trashRows[0]?.count ?? 0);
+  }
+
+  async updateFileVisibility(id: string, isVisible: string): Promise<File | undefined> {
+    const result = await this.db.update(files)
+      .set({ isVisible })
+      .where(eq(files.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async updateFileDetails(id: string, updates: { label?: string; description?: string; tags?: string[] }): Promise<File | undefined> {
+    const updateData: any = {};
+    if (updates.label) updateData.label = updates.label;
+    if (updates.description !== undefined) updateData.description = updates.description;
+    if (updates.tags) updateData.tags = updates.tags;
+    
+    const result = await this.db.update(files)
+      .set(updateData)
+      .where(eq(files.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async getFileVersions(teamNumber: number, assignmentId: string, label: string): Promise<File[]> {
+    return await this.db.select().from(files)
+      .where(and(eq(files.teamNumber, teamNumber), eq(files.assignmentId, assignmentId), eq(files.label, label)))
+      .orderBy(desc(files.version), desc(files.uploadedAt));
+  }
+
+  async getFileText(fileName: string): Promise<FileText | undefined> {
+    const result = await this.db.select().from(fileTexts).where(eq(fileTexts.fileName, fileName)).limit(1);
+    return result[0];
+  }
+
+  async saveFileText(fileName: string, content: string): Promise<FileText> {
+    const values = { content, extractedAt: new Date() };
+    const result = await this.db.insert(fileTexts)
+      .values({ id: randomUUID(), fileName, ...values })
+      .onConflictDoUpdate({ target: fileTexts.fileName, set: values })
+      .returning();
+    return result[0];
+  }
+
+  async deleteFileText(fileName: string): Promise<boolean> {
+    const result = await this.db.delete(fileTexts).where(eq(fileTexts.fileName, fileName)).returning();
+    return result.length > 0;
+  }
+
+  async syncLatestFileVersion(teamNumber: number, assignmentId: string, label: string): Promise<void> {
+    const versions = await this.getFileVersions(teamNumber, assignmentId, label);
+    if (versions.length === 0) return;
+
+    const submission = and(eq(files.teamNumber, teamNumber), eq(files.assignmentId, assignmentId), eq(files.label, label));
+    await this.db.transaction(async (tx: any) => {
+      await tx.update(files).set({ isLatestVersion: "false" }).where(submission);
+      await tx.update(files).set({ isLatestVersion: "true" }).where(and(submission, eq(files.version, versions[0].version)));
+    });
+  }
+
+  // Assignment operations
+  async getAssignments(courseId: string): Promise<Assignment[]> {
+    return await this.db.select().from(assignments)
+      .where(eq(assignments.courseId, courseId))
+      .orderBy(asc(assignments.order), asc(assignments.title));
+  }
+
+  async getAssignment(courseId: string, id: string): Promise<Assignment | undefined> {
+    const result = await this.db.select().from(assignments)
+      .where(and(eq(assignments.courseId, courseId), eq(assignments.id, id)))
+      .limit(1);
+    return result[0];
+  }
+
+  async createAssignment(courseId: string, assignment: InsertAssignment): Promise<Assignment> {
+    let order = assignment.order;
+    if (order === undefined) {
+      const existing = await this.getAssignments(courseId);
+      order = existing.length > 0 ? Math.max(...existing.map(a => a.order)) + 1 : 0;
+    }
+
+    const result = await this.db.insert(assignments).values({
+      id: randomUUID(),
+      ...assignment,
+      courseId,
+      order
+    }).returning();
+    return result[0];
+  }
+
+  async updateAssignment(courseId: string, id: string, updates: UpdateAssignment): Promise<Assignment | undefined> {
+    const updateData: any = {};
+    if (updates.title !== undefined) updateData.title = updates.title;
+    if (updates.description !== undefined) updateData.description = updates.description;
+    if (updates.order !== undefined) updateData.order = updates.order;
+    if (updates.openAt !== undefined) updateData.openAt = updates.openAt;
+    if (updates.dueAt !== undefined) updateData.dueAt = updates.dueAt;
+    if (updates.cutoffAt !== undefined) updateData.cutoffAt = updates.cutoffAt;
+    if (updates.gradesReleased !== undefined) updateData.gradesReleased = updates.gradesReleased;
+    if (updates.isArchived !== undefined) updateData.isArchived = updates.isArchived;
+
+    if (Object.keys(updateData).length === 0) {
+      return this.getAssignment(courseId, id);
+    }
+
+    const result = await this.db.update(assignments)
+      .set(updateData)
+      .where(and(eq(assignments.courseId, courseId), eq(assignments.id, id)))
+      .returning();
+    return result[0];
+  }
+
+  async reorderAssignments(courseId: string, orderedIds: string[]): Promise<Assignment[]> {
+    await this.db.transaction(async (tx: any) => {
+      for (let index = 0; index < orderedIds.length; index++) {
+        await tx.update(assignments)
+          .set({ order: index })
+          .where(and(eq(assignments.courseId, courseId), eq(assignments.id, orderedIds[index])));
+      }
+    });
+    return this.getAssignments(courseId);
+  }
+
+  async deleteAssignment(id: string): Promise<boolean> {
+    const result = await this.db.delete(assignments).where(eq(assignments.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Assignment settings operations
+  async getAssignmentSettings(courseId: string): Promise<AssignmentSettings[]> {
+    const rows = await this.db.select({ setting: assignmentSettings })
+      .from(assignmentSettings)
+      .innerJoin(assignments, eq(assignmentSettings.assignmentId, assignments.id))
+      .where(eq(assignments.courseId, courseId))
+      .orderBy(asc(assignments.order), asc(assignments.title));
+    return rows.map((row: { setting: AssignmentSettings }) => row.setting);
+  }
+
+  async getAllAssignmentSettings(): Promise<AssignmentSettings[]> {
+    return await this.db.select().from(assignmentSettings);
+  }
+
+  async getAssignmentSetting(assignmentId: string): Promise<AssignmentSettings | undefined> {
+    const result = await this.db.select().from(assignmentSettings).where(eq(assignmentSettings.assignmentId, assignmentId)).limit(1);
+    return result[0];
+  }
+
+  async updateAssignmentSetting(assignmentId: string, isOpenView: boolean): Promise<AssignmentSettings> {
+    const existing = await this.getAssignmentSetting(assignmentId);
+    
+    if (existing) {
+      const result = await this.db.update(assignmentSettings)
+        .set({ 
+          isOpenView: isOpenView.toString(),
+          updatedAt: new Date()
+        })
+        .where(eq(assignmentSettings.assignmentId, assignmentId))
+        .returning();
+      return result[0];
+    } else {
+      const result = await this.db.insert(assignmentSettings).values({
+        id: randomUUID(),
+        assignmentId,
+        isOpenView: isOpenView.toString(),
+        updatedAt: new Date()
+      }).returning();
+      return result[0];
+    }
+  }
+
+  async updateAssignmentSchedule(assignmentId: string, schedule: AssignmentSchedule): Promise<AssignmentSettings> {
+    const existing = await this.getAssignmentSetting(assignmentId);
+    if (!existing) {
+      await this.updateAssignmentSetting(assignmentId, false);
+    }
+
+    const result = await this.db.update(assignmentSettings)
+      .set({
+        revealAt: schedule.revealAt,
+        hideAt: schedule.hideAt,
+        updatedAt: new Date()
+      })
+      .where(eq(assignmentSettings.assignmentId, assignmentId))
+      .returning();
+    return result[0];
+  }
+
+  // Rubric and grade operations
+  async getRubricCriteria(assignmentId: string): Promise<RubricCriterion[]> {
+    return await this.db.select().from(rubricCriteria)
+      .where(eq(rubricCriteria.assignmentId, assignmentId))
+      .orderBy(asc(rubricCriteria.order));
+  }
+
+  async replaceRubricCriteria(assignmentId: string, criteria: RubricCriterionInput[]): Promise<RubricCriterion[]> {
+    const existing = await this.getRubricCriteria(assignmentId);
+    const existingIds = new Set(existing.map(criterion => criterion.id));
+    const keptIds = new Set(criteria.map(criterion => criterion.id).filter(Boolean));
+
+    await this.db.transaction(async (tx: any) => {
+      for (const criterion of existing.filter(c => !keptIds.has(c.id))) {
+        await tx.delete(rubricCriteria).where(eq(rubricCriteria.id, criterion.id));
+      }
+      for (let index = 0; index < criteria.length; index++) {
+        const { id, ...values } = criteria[index];
+        const row = { ...values, description: values.description ?? null, order: index };
+        if (id && existingIds.has(id)) {
+          await tx.update(rubricCriteria).set(row).where(eq(rubricCriteria.id, id));
+        } else {
+          await tx.insert(rubricCriteria).values({ id: randomUUID(), assignmentId, ...row });
+        }
+      }
+    });
+    return this.getRubricCriteria(assignmentId);
+  }
+
+  async getGrades(courseId: string, assignmentId?: string): Promise<Grade[]> {
+    const condition = assignmentId === undefined
+      ? eq(grades.courseId, courseId)
+      : and(eq(grades.courseId, courseId), eq(grades.assignmentId, assignmentId));
+    return await this.db.select().from(grades).where(condition).orderBy(asc(grades.teamNumber));
+  }
+
+  async getGrade(assignmentId: string, teamNumber: number): Promise<Grade | undefined> {
+    const result = await this.db.select().from(grades)
+      .where(and(eq(grades.assignmentId, assignmentId), eq(grades.teamNumber, teamNumber)))
+      .limit(1);
+    return result[0];
+  }
+
+  async saveGrade(courseId: string, assignmentId: string, teamNumber: number, data: SaveGrade & { gradedBy: string | null }): Promise<Grade> {
+    const values = { scores: data.scores, feedback: data.feedback, gradedBy: data.gradedBy, updatedAt: new Date() };
+    const result = await this.db.insert(grades)
+      .values({ id: randomUUID(), courseId, assignmentId, teamNumber, ...values })
+      .onConflictDoUpdate({ target: [grades.assignmentId, grades.teamNumber], set: values })
+      .returning();
+    return result[0];
+  }
+
+  async deleteGrades(courseId: string, teamNumber?: number): Promise<number> {
+    const condition = teamNumber === undefined
+      ? eq(grades.courseId, courseId)
+      : and(eq(grades.courseId, courseId), eq(grades.teamNumber, teamNumber));
+    const result = await this.db.delete(grades).where(condition).returning();
+    return result.length;
+  }
+
+  // Presentation schedule operations
+  async getPresentationSchedule(assignmentId: string): Promise<PresentationSchedule | undefined> {
+    const result = await this.db.select().from(presentationSchedules)
+      .where(eq(presentationSchedules.assignmentId, assignmentId))
+      .limit(1);
+    return result[0];
+  }
+
+  async savePresentationSchedule(courseId: string, assignmentId: string, data: SavePresentationSchedule): Promise<PresentationSchedule> {
+    const values = { ...data, updatedAt: new Date() };
+    const result = await this.db.insert(presentationSchedules)
+      .values({ id: randomUUID(), courseId, assignmentId, ...values })
+      .onConflictDoUpdate({ target: presentationSchedules.assignmentId, set: values })
+      .returning();
+    return result[0];
+  }
+
+  async getPresentationLogs(courseId: string, assignmentId?: string): Promise<PresentationLog[]> {
+    const condition = assignmentId === undefined
+      ? eq(presentationLogs.courseId, courseId)
+      : and(eq(presentationLogs.courseId, courseId), eq(presentationLogs.assignmentId, assignmentId));
+    return await this.db.select().from(presentationLogs).where(condition).orderBy(asc(presentationLogs.startedAt));
+  }
+
+  async startPresentationLog(courseId: string, assignmentId: string, teamNumber: number, loggedBy: string | null): Promise<PresentationLog> {
+    const result = await this.db.insert(presentationLogs)
+      .values({ id: randomUUID(), courseId, assignmentId, teamNumber, startedAt: new Date(), loggedBy })
+      .returning();
+    return result[0];
+  }
+
+  async endPresentationLogs(assignmentId: string): Promise<PresentationLog[]> {
+    return await this.db.update(presentationLogs)
+      .set({ endedAt: new Date() })
+      .where(and(eq(presentationLogs.assignmentId, assignmentId), isNull(presentationLogs.endedAt)))
+      .returning();
+  }
+
+  async deletePresentationLogs(courseId: string, filter: { assignmentId?: string; teamNumber?: number } = {}): Promise<number> {
+    const conditions = [eq(presentationLogs.courseId, courseId)];
+    if (filter.assignmentId !== undefined) conditions.push(eq(presentationLogs.assignmentId, filter.assignmentId));
+    if (filter.teamNumber !== undefined) conditions.push(eq(presentationLogs.teamNumber, filter.teamNumber));
+    const result = await this.db.delete(presentationLogs).where(and(...conditions)).returning();
+    return result.length;
+  }
+
+  // Comment operations
+  async getComments(fileId: string): Promise<Comment[]> {
+    return await this.db.select().from(comments).where(eq(comments.fileId, fileId)).orderBy(asc(comments.createdAt));
+  }
+
+  async getComment(id: string): Promise<Comment | undefined> {
+    const result = await this.db.select().from(comments).where(eq(comments.id, id)).limit(1);
+    return result[0];
+  }
+
+  async createComment(data: NewComment): Promise<Comment> {
+    const result = await this.db.insert(comments).values(data).returning();
+    return result[0];
+  }
+
+  async updateComment(id: string, updates: { body?: string; isResolved?: string; resolvedBy?: string | null }): Promise<Comment | undefined> {
+    const result = await this.db.update(comments)
+      .set({ ...updates, ...(updates.body !== undefined && { editedAt: new Date() }) })
+      .where(eq(comments.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteComment(id: string): Promise<boolean> {
+    await this.db.delete(comments).where(eq(comments.parentId, id));
+    const result = await this.db.delete(comments).where(eq(comments.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Peer review operations
+  async getPeerReviewRounds(courseId: string): Promise<PeerReviewRound[]> {
+    return await this.db.select().from(peerReviewRounds).where(eq(peerReviewRounds.courseId, courseId));
+  }
+
+  async getPeerReviewRound(assignmentId: string): Promise<PeerReviewRound | undefined> {
+    const result = await this.db.select().from(peerReviewRounds).where(eq(peerReviewRounds.assignmentId, assignmentId)).limit(1);
+    return result[0];
+  }
+
+  async savePeerReviewRound(courseId: string, assignmentId: string, data: { questions: PeerReviewQuestion[]; reviewsPerTeam: number; dueAt: Date | null }): Promise<PeerReviewRound> {
+    const values = { ...data, updatedAt: new Date() };
+    const result = await this.db.insert(peerReviewRounds)
+      .values({ courseId, assignmentId, ...values })
+      .onConflictDoUpdate({ target: peerReviewRounds.assignmentId, set: values })
+      .returning();
+    return result[0];
+  }
+
+  async updatePeerReviewRound(id: string, updates: { status?: PeerReviewStatus; isReleased?: string }): Promise<PeerReviewRound | undefined> {
+    const result = await this.db.update(peerReviewRounds)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(peerReviewRounds.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deletePeerReviewRound(id: string): Promise<boolean> {
+    const result = await this.db.delete(peerReviewRounds).where(eq(peerReviewRounds.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getPeerReviews(courseId: string, filter: { roundId?: string; reviewerTeamNumber?: number; revieweeTeamNumber?: number } = {}): Promise<PeerReview[]> {
+    const conditions = [eq(peerReviews.courseId, courseId)];
+    if (filter.roundId !== undefined) conditions.push(eq(peerReviews.roundId, filter.roundId));
+    if (filter.reviewerTeamNumber !== undefined) conditions.push(eq(peerReviews.reviewerTeamNumber, filter.reviewerTeamNumber));
+    if (filter.revieweeTeamNumber !== undefined) conditions.push(eq(peerReviews.revieweeTeamNumber, filter.revieweeTeamNumber));
+    return await this.db.select().from(peerReviews)
+      .where(and(...conditions))
+      .orderBy(asc(peerReviews.reviewerTeamNumber), asc(peerReviews.revieweeTeamNumber));
+  }
+
+  async getPeerReview(id: string): Promise<PeerReview | undefined> {
+    const result = await this.db.select().from(peerReviews).where(eq(peerReviews.id, id)).limit(1);
+    return result[0];
+  }
+
+  async assignPeerReviews(round: PeerReviewRound, pairs: ReviewPair[]): Promise<PeerReview[]> {
+    return await this.db.transaction(async (tx: any) => {
+      await tx.delete(peerReviews).where(eq(peerReviews.roundId, round.id));
+      if (pairs.length === 0) return [];
+      return await tx.insert(peerReviews)
+        .values(pairs.map(pair => ({ courseId: round.courseId, roundId: round.id, assignmentId: round.assignmentId, ...pair })))
+        .returning();
+    });
+  }
+
+  async savePeerReview(id: string, answers: PeerReviewAnswer[], submittedAt: Date | null): Promise<PeerReview | undefined> {
+    const result = await this.db.update(peerReviews)
+      .set({ answers, submittedAt, updatedAt: new Date() })
+      .where(eq(peerReviews.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deletePeerReviews(courseId: string, filter: { teamNumber?: number } = {}): Promise<number> {
+    const condition = filter.teamNumber === undefined
+      ? eq(peerReviews.courseId, courseId)
+      : and(
+          eq(peerReviews.courseId, courseId),
+          or(eq(peerReviews.reviewerTeamNumber, filter.teamNumber), eq(peerReviews.revieweeTeamNumber, filter.teamNumber)),
+        );
+    const result = await this.db.delete(peerReviews).where(condition).returning();
+    return result.length;
+  }
+
+  // Audit log operations
+  async getAuditEvents(courseId: string, filter: AuditEventFilter = {}): Promise<AuditEvent[]> {
+    const conditions = [or(eq(auditEvents.courseId, courseId), isNull(auditEvents.courseId))];
+    if (filter.teamNumber !== undefined) {
+      conditions.push(or(eq(auditEvents.teamNumber, filter.teamNumber), eq(auditEvents.actorTeamNumber, filter.teamNumber)));
+    }
+    if (filter.actorUserId !== undefined) conditions.push(eq(auditEvents.actorUserId, filter.actorUserId));
+    if (filter.actorTeamNumber !== undefined) conditions.push(eq(auditEvents.actorTeamNumber, filter.actorTeamNumber));
+    if (filter.actorRole !== undefined) conditions.push(eq(auditEvents.actorRole, filter.actorRole));
+    if (filter.action !== undefined) conditions.push(eq(auditEvents.action, filter.action));
+
+    const query = this.db.select().from(auditEvents)
+      .where(and(...conditions))
+      .orderBy(desc(auditEvents.createdAt));
+    return filter.limit === undefined ? await query : await query.limit(filter.limit);
+  }
+
+  async createAuditEvent(data: NewAuditEvent): Promise<AuditEvent> {
+    const result = await this.db.insert(auditEvents).values(data).returning();
+    return result[0];
+  }
+
+  // Term archive operations
+  async getTermArchives(): Promise<TermArchive[]> {
+    return await this.db.select().from(termArchives).orderBy(desc(termArchives.createdAt));
+  }
+
+  async getTermArchive(id: string): Promise<TermArchive | undefined> {
+    const result = await this.db.select().from(termArchives).where(eq(termArchives.id, id));
+    return result[0];
+  }
+
+  async createTermArchive(data: NewTermArchive): Promise<TermArchive> {
+    const result = await this.db.insert(termArchives).values(data).returning();
+    return result[0];
+  }
+
+  // Parents are inserted before the rows that reference them; replies after the comments they answer
+  async restoreCourse(records: CourseRecords): Promise<Course> {
+    const orderedComments = [...records.comments].sort((a, b) => Number(a.parentId !== null) - Number(b.parentId !== null));
+    await this.db.transaction(async (tx: any) => {
+      await tx.insert(courses).values(records.course);
+      const tables: [any, unknown[]][] = [
+        [assignments, records.assignments],
+        [assignmentSettings, records.assignmentSettings],
+        [rubricCriteria, records.rubricCriteria],
+        [users, records.users],
+        [teamMembers, records.teamMembers],
+        [files, records.files],
+        [grades, records.grades],
+        [presentationSchedules, records.presentationSchedules],
+        [presentationLogs, records.presentationLogs],
+        [peerReviewRounds, records.peerReviewRounds],
+        [peerReviews, records.peerReviews],
+        [comments, orderedComments],
+      ];
+      for (const [table, rows] of tables) {
+        if (rows.length > 0) await tx.insert(table).values(rows);
+      }
+    });
+    return records.course;
+  }
+
+  // Trash operations
+  async getTrashItems(courseId: string): Promise<TrashItem[]> {
+    const rows = await this.db.select().from(trashItems)
+      .where(eq(trashItems.courseId, courseId))
+      .orderBy(desc(trashItems.deletedAt));
+    return rows.map(readTrashItem);
+  }
+
+  async getTrashItem(courseId: string, id: string): Promise<TrashItem | undefined> {
+    const result = await this.db.select().from(trashItems)
+      .where(and(eq(trashItems.id, id), eq(trashItems.courseId, courseId)));
+    return result[0] && readTrashItem(result[0]);
+  }
+
+  async getExpiredTrashItems(deletedBefore: Date): Promise<TrashItem[]> {
+    const rows = await this.db.select().from(trashItems).where(lt(trashItems.deletedAt, deletedBefore));
+    return rows.map(readTrashItem);
+  }
+
+  async createTrashItem(data: NewTrashItem): Promise<TrashItem> {
+    const result = await this.db.insert(trashItems).values(storableTrashItem(data)).returning();
+    return readTrashItem(result[0]);
+  }
+
+  async restoreTrashItem(id: string, records: TrashedRecords): Promise<boolean> {
+    const orderedComments = [...records.comments].sort((a, b) => Number(a.parentId !== null) - Number(b.parentId !== null));
+    return await this.db.transaction(async (tx: any) => {
+      const removed = await tx.delete(trashItems).where(eq(trashItems.id, id)).returning({ id: trashItems.id });
+      if (removed.length === 0) return false;
+
+      const tables: [any, unknown[]][] = [
+        [users, records.team ? [records.team] : []],
+        [teamMembers, records.members ?? []],
+        [files, records.files],
+        [comments, orderedComments],
+        [grades, records.grades ?? []],
+        [presentationLogs, records.presentationLogs ?? []],
+        [peerReviews, records.peerReviews ?? []],
+      ];
+      for (const [table, rows] of tables) {
+        if (rows.length > 0) await tx.insert(table).values(rows);
+      }
+      return true;
+    });
+  }
+
+  async deleteTrashItem(id: string): Promise<boolean> {
+    const result = await this.db.delete(trashItems).where(eq(trashItems.id, id)).returning({ id: trashItems.id });
+    return result.length > 0;
+  }
+
+  // One repeatable-read transaction, so every table is read as of the same moment
+  async getSnapshot(): Promise<StorageSnapshot> {
+    return await this.db.transaction(async (tx: any) => ({
+      courses: await tx.select().from(courses),
+      users: await tx.select().from(users),
+      teamMembers: await tx.select().from(teamMembers),
+      files: await tx.select().from(files),
+      assignments: await tx.select().from(assignments),
+      assignmentSettings: await tx.select().from(assignmentSettings),
+      rubricCriteria: await tx.select().from(rubricCriteria),
+      grades: await tx.select().from(grades),
+      presentationSchedules: await tx.select().from(presentationSchedules),
+      presentationLogs: await tx.select().from(presentationLogs),
+      // The search vector is generated from the content, so it's left out and rebuilt on restore
+      fileTexts: await tx.select({
+        id: fileTexts.id,
+        fileName: fileTexts.fileName,
+        content: fileTexts.content,
+        searchVector: sql<string | null>`null`,
+        extractedAt: fileTexts.extractedAt,
+      }).from(fileTexts),
+      comments: await tx.select().from(comments),
+      peerReviewRounds: await tx.select().from(peerReviewRounds),
+      peerReviews: await tx.select().from(peerReviews),
+      auditEvents: await tx.select().from(auditEvents),
+      termArchives: await tx.select().from(termArchives),
+      trashItems: (await tx.select().from(trashItems)).map(readTrashItem),
+    }), { isolationLevel: "repeatable read", accessMode: "read only" });
+  }
+
+  // Tables are emptied children first and refilled parents first, in batches, all in one transaction
+  async restoreSnapshot(snapshot: StorageSnapshot): Promise<void> {
+    const orderedComments = [...snapshot.comments].sort((a, b) => Number(a.parentId !== null) - Number(b.parentId !== null));
+    const tables: [any, unknown[]][] = [
+      [courses, snapshot.courses],
+      [users, snapshot.users],
+      [assignments, snapshot.assignments],
+      [assignmentSettings, snapshot.assignmentSettings],
+      [rubricCriteria, snapshot.rubricCriteria],
+      [teamMembers, snapshot.teamMembers],
+      [files, snapshot.files],
+      [fileTexts, snapshot.fileTexts.map(({ searchVector, ...text }) => text)],
+      [grades, snapshot.grades],
+      [presentationSchedules, snapshot.presentationSchedules],
+      [presentationLogs, snapshot.presentationLogs],
+      [peerReviewRounds, snapshot.peerReviewRounds],
+      [peerReviews, snapshot.peerReviews],
+      [comments, orderedComments],
+      [auditEvents, snapshot.auditEvents],
+      [termArchives, snapshot.termArchives],
+      [trashItems, snapshot.trashItems.map(storableTrashItem)],
+    ];
+    await this.db.transaction(async (tx: any) => {
+      for (const [table] of [...tables].reverse()) {
+        await tx.delete(table);
+      }
+      for (const [table, rows] of tables) {
+        for (let start = 0; start < rows.length; start += RESTORE_BATCH_SIZE) {
+          await tx.insert(table).values(rows.slice(start, start + RESTORE_BATCH_SIZE));
+        }
+      }
+    });
+  }
+}
+
+// Rows per insert when restoring a backup; Postgres allows 65535 parameters per statement
+const RESTORE_BATCH_SIZE = 500;
+
+// JSONB would turn the trashed records' dates into plain strings, so they are stored tagged
+function storableTrashItem<T extends { records: TrashedRecords }>(item: T): T {
+  return { ...item, records: JSON.parse(JSON.stringify(item.records, snapshotReplacer)) };
+}
+
+function readTrashItem(row: TrashItem): TrashItem {
+  return { ...row, records: JSON.parse(JSON.stringify(row.records), snapshotReviver) };
+}
+
+// Pick storage from STORAGE_MODE: "file" and "memory" are explicit; otherwise PostgreSQL with memory fallback
+function createStorage(): IStorage {
+  const mode = process.env.STORAGE_MODE?.trim().toLowerCase();
+
+  if (mode === "file") {
+    const dataDir = path.resolve(process.env.DATA_DIR || path.join(process.cwd(), "data"));
+    console.log(`💾 Using file storage in ${dataDir}`);
+    return new FileStorage(dataDir);
+  }
+
+  if (mode === "memory") {
+    console.log("🔄 Using memory storage (STORAGE_MODE=memory); data is lost on restart");
+    return new MemStorage();
+  }
+
   try {
-    await storageInstance.initializeDefaultAssignmentSettings();
+    return new DBStorage();
   } catch (error) {
-    console.log("Note: Could not initialize assignment settings:", (error as Error).message);
+    console.log("🔄 Using memory storage for development (database not accessible)");
+    console.log("📝 DEPLOYMENT NOTE: This will automatically use PostgreSQL when deployed on server");
+    return new MemStorage();
   }
-  
-  return storageInstance;
 }
 
-// Create storage instance (async initialization will happen when first used)
+// Create storage instance (initialized lazily on first use, after the env file is loaded)
 let storageInstance: IStorage | null = null;
+function getStorageInstance(): IStorage {
+  if (!storageInstance) {
+    storageInstance = createStorage();
+  }
+  return storageInstance;
+}
+
 export const storage = new Proxy({} as IStorage, {
   get: function(target, prop, receiver) {
-    if (!storageInstance) {
-      // Initialize synchronously for first access, but log a warning
-      try {
-        storageInstance = new DBStorage();
-        // Queue async initialization
-        storageInstance.initializeDefaultAssignmentSettings().catch(err => 
-          console.log("Note: Could not initialize assignment settings:", err.message)
-        );
-      } catch (error) {
-        console.log("🔄 Using memory storage for development (database not accessible)");
-        console.log("📝 DEPLOYMENT NOTE: This will automatically use PostgreSQL when deployed on server");
-        storageInstance = new MemStorage();
-        // Queue async initialization
-        storageInstance.initializeDefaultAssignmentSettings().catch(err => 
-          console.log("Note: Could not initialize assignment settings:", err.message)
-        );
-      }
-    }
-    return (storageInstance as any)[prop];
+    return (getStorageInstance() as any)[prop];
   }
 });
+
+// Where records are kept, for backups and the command line
+export function describeStorage(): "postgres" | "file" | "memory" {
+  const instance = getStorageInstance();
+  return instance instanceof DBStorage ? "postgres" : instance instanceof FileStorage ? "file" : "memory";
+}
+
+// Connection pool behind DBStorage, or null when running on memory storage
+export function getDatabasePool(): Pool | null {
+  const instance = getStorageInstance();
+  return instance instanceof DBStorage ? instance.pool : null;
+}
@@ -0,0 +1,147 @@
+import { execFile } from "child_process";
+import { createWriteStream } from "fs";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { pipeline } from "stream/promises";
+import { promisify } from "util";
+import JSZip from "jszip";
+import mammoth from "mammoth";
+import type { File } from "@shared/schema";
+import { SNIPPET_MATCH_END, SNIPPET_MATCH_START } from "@shared/search";
+import type { BlobStore } from "./blob-store";
+import type { IStorage } from "./storage";
+
+const run = promisify(execFile);
+
+// Enough for a long report; Postgres can't index much more than this in one document anyway
+const MAX_TEXT_LENGTH = 200_000;
+const EXTRACTION_TIMEOUT = 2 * 60 * 1000;
+
+type Extractor = (sourcePath: string) => Promise<string>;
+
+const extractors: Record<string, Extractor> = {
+  ".txt": sourcePath => fs.readFile(sourcePath, "utf8"),
+  ".docx": async sourcePath => (await mammoth.extractRawText({ path: sourcePath })).value,
+  ".pptx": extractSlidesText,
+  ".pdf": extractPdfText,
+};
+
+export function canExtractText(fileType: string): boolean {
+  return fileType.toLowerCase() in extractors;
+}
+
+/**
+ * Pulls the text out of PDFs (pdftotext), Word documents (mammoth), PowerPoint decks and plain
+ * text files so searches can match what's inside them, not only their labels.
+ *
+ * Text is stored per blob, so identical uploads are read once. Extractions run one at a time in
+ * the background; a file whose text can't be read is stored with empty text and not retried.
+ */
+export class TextExtractionService {
+  private queue: Promise<void> = Promise.resolve();
+  private pending = new Set<string>();
+  private pdftotextAvailable: Promise<boolean> | null = null;
+
+  constructor(private readonly blobStore: BlobStore, private readonly storage: IStorage) {}
+
+  request(file: File) {
+    if (!canExtractText(file.fileType) || this.pending.has(file.fileName)) return;
+
+    this.pending.add(file.fileName);
+    this.queue = this.queue
+      .then(() => this.extract(file))
+      .catch(error => console.error(`Text extraction failed for ${file.originalName}:`, error))
+      .finally(() => this.pending.delete(file.fileName));
+  }
+
+  // Queue files stored before search covered their contents
+  async backfill(files: File[]) {
+    for (const file of files) {
+      if (canExtractText(file.fileType) && !(await this.storage.getFileText(file.fileName))) {
+        this.request(file);
+      }
+    }
+  }
+
+  private async extract(file: File) {
+    if (await this.storage.getFileText(file.fileName)) return;
+    // Without poppler, PDFs are left unindexed so they're picked up once it is installed
+    if (file.fileType.toLowerCase() === ".pdf" && !(await this.canReadPdfs())) return;
+
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "assignmenthub-text-"));
+    try {
+      const blob = await this.blobStore.getStream(file.fileName);
+      if (!blob) return;
+      const sourcePath = path.join(workDir, `source${file.fileType.toLowerCase()}`);
+      await pipeline(blob.stream, createWriteStream(sourcePath));
+
+      let text = "";
+      try {
+        text = await extractors[file.fileType.toLowerCase()](sourcePath);
+      } catch (error) {
+        console.error(`Could not read text from ${file.originalName}:`, error);
+      }
+      await this.storage.saveFileText(file.fileName, cleanText(text));
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  private canReadPdfs(): Promise<boolean> {
+    if (!this.pdftotextAvailable) {
+      this.pdftotextAvailable = run(pdftotextPath(), ["-v"], { timeout: 30000 }).then(() => true, () => false);
+    }
+    return this.pdftotextAvailable;
+  }
+}
+
+function pdftotextPath() {
+  return process.env.PDFTOTEXT_PATH || "pdftotext";
+}
+
+async function extractPdfText(sourcePath: string): Promise<string> {
+  const { stdout } = await run(pdftotextPath(), ["-enc", "UTF-8", sourcePath, "-"], {
+    timeout: EXTRACTION_TIMEOUT,
+    maxBuffer: 64 * 1024 * 1024,
+  });
+  return stdout;
+}
+
+// Slide text lives in <a:t> runs in ppt/slides/slideN.xml; speaker notes are left out
+async function extractSlidesText(sourcePath: string): Promise<string> {
+  const zip = await JSZip.loadAsync(await fs.readFile(sourcePath));
+  const slides = Object.keys(zip.files)
+    .filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+    .sort((a, b) => parseInt(a.slice(16)) - parseInt(b.slice(16)));
+
+  const texts: string[] = [];
+  for (const name of slides) {
+    const xml = await zip.file(name)!.async("string");
+    const paragraphs = xml.split("</a:p>").map(paragraph =>
+      Array.from(paragraph.matchAll(/<a:t>([^<]*)<\/a:t>/g), match => decodeXml(match[1])).join("")
+    );
+    texts.push(paragraphs.filter(Boolean).join("\n"));
+  }
+  return texts.join("\n\n");
+}
+
+function decodeXml(text: string) {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+// Snippet markers and other control characters would confuse highlighting (and Postgres rejects NUL)
+function cleanText(text: string) {
+  return text
+    .split(SNIPPET_MATCH_START).join(" ")
+    .split(SNIPPET_MATCH_END).join(" ")
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, " ")
+    .slice(0, MAX_TEXT_LENGTH);
+}
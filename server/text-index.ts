@@ -0,0 +1,116 @@
+import { SNIPPET_MATCH_END, SNIPPET_MATCH_START } from "@shared/search";
+
+// Letters and digits in any script; built with RegExp because the compile target predates the u flag
+const WORD = new RegExp("[\\p{L}\\p{N}]+", "gu");
+const WORD_CHARACTER = new RegExp("[\\p{L}\\p{N}]", "u");
+
+// Roughly what Postgres's english configuration skips, so both storages match the same files
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "if", "in", "into", "is", "it",
+  "no", "not", "of", "on", "or", "such", "that", "the", "their", "then", "there", "these",
+  "they", "this", "to", "was", "will", "with",
+]);
+
+const SNIPPET_BEFORE = 60;
+const SNIPPET_AFTER = 180;
+
+// Plurals match their singular ("presentations" finds "presentation"), as with Postgres stemming
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+function terms(text: string): string[] {
+  return (text.toLowerCase().match(WORD) ?? [])
+    .filter(word => !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * In-memory inverted index over extracted file text, standing in for Postgres full-text
+ * search in memory and file storage. A document matches when it contains every query word;
+ * matches are scored by term frequency weighted towards rarer words.
+ */
+export class TextSearchIndex {
+  private postings = new Map<string, Map<string, number>>(); // term -> document key -> occurrences
+  private documents = new Map<string, { text: string; terms: string[] }>();
+
+  add(key: string, text: string) {
+    this.remove(key);
+
+    const counts = new Map<string, number>();
+    for (const term of terms(text)) {
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+    }
+    counts.forEach((occurrences, term) => {
+      if (!this.postings.has(term)) this.postings.set(term, new Map());
+      this.postings.get(term)!.set(key, occurrences);
+    });
+    this.documents.set(key, { text, terms: Array.from(counts.keys()) });
+  }
+
+  remove(key: string) {
+    const document = this.documents.get(key);
+    if (!document) return;
+
+    for (const term of document.terms) {
+      const posting = this.postings.get(term);
+      posting?.delete(key);
+      if (posting?.size === 0) this.postings.delete(term);
+    }
+    this.documents.delete(key);
+  }
+
+  clear() {
+    this.postings.clear();
+    this.documents.clear();
+  }
+
+  // Score for every document containing all of the query's words
+  search(query: string): Map<string, number> {
+    const queryTerms = Array.from(new Set(terms(query)));
+    const scores = new Map<string, number>();
+    if (queryTerms.length === 0) return scores;
+
+    const postings = queryTerms.map(term => this.postings.get(term));
+    if (postings.some(posting => !posting)) return scores;
+
+    const [first, ...rest] = postings as Map<string, number>[];
+    first.forEach((_, key) => {
+      if (!rest.every(posting => posting.has(key))) return;
+      let score = 0;
+      for (const posting of postings as Map<string, number>[]) {
+        const idf = Math.log(1 + this.documents.size / posting.size);
+        score += (1 + Math.log(posting.get(key)!)) * idf;
+      }
+      scores.set(key, score);
+    });
+    return scores;
+  }
+
+  // A passage around the first match, with matched words marked for highlighting
+  snippet(key: string, query: string): string | null {
+    const text = this.documents.get(key)?.text;
+    if (!text) return null;
+
+    const queryTerms = new Set(terms(query));
+    const isMatch = (word: string) => queryTerms.has(stem(word.toLowerCase()));
+    const words = new RegExp(WORD.source, WORD.flags);
+    let first = words.exec(text);
+    while (first && !isMatch(first[0])) first = words.exec(text);
+    if (!first) return null;
+
+    // Widen to whole words so the passage doesn't start or end mid-word
+    let start = Math.max(0, first.index - SNIPPET_BEFORE);
+    let end = Math.min(text.length, first.index + SNIPPET_AFTER);
+    while (start > 0 && WORD_CHARACTER.test(text[start - 1])) start--;
+    while (end < text.length && WORD_CHARACTER.test(text[end])) end++;
+
+    const passage = text.slice(start, end)
+      .replace(WORD, word => isMatch(word) ? `${SNIPPET_MATCH_START}${word}${SNIPPET_MATCH_END}` : word)
+      .replace(/\s+/g, " ")
+      .trim();
+    return `${start > 0 ? "… " : ""}${passage}${end < text.length ? " …" : ""}`;
+  }
+}
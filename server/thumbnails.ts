@@ -0,0 +1,94 @@
+import { randomUUID } from "crypto";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import type { File } from "@shared/schema";
+import { canHaveThumbnail, isThumbnailImage } from "@shared/previews";
+import type { BlobStore, BlobStream } from "./blob-store";
+import type { PreviewService } from "./previews";
+
+// Big enough for a gallery card on a high-density screen, small enough to load 80 at once
+const THUMBNAIL_WIDTH = 320;
+const THUMBNAIL_HEIGHT = 240;
+
+/**
+ * Small WebP images for gallery cards: a downscaled copy of pictures, and the first slide of
+ * PDFs and presentations once PreviewService has converted them.
+ *
+ * Thumbnails are stored next to the original as `<blob key>.thumb.webp`, so identical uploads
+ * share one. Generation runs one file at a time; files without a thumbnail yet (uploaded before
+ * thumbnails existed) are queued the first time one is asked for.
+ */
+export class ThumbnailService {
+  private queue: Promise<void> = Promise.resolve();
+  private pending = new Set<string>();
+  // Files that couldn't be read as images; not retried until the server restarts
+  private failed = new Set<string>();
+
+  constructor(private readonly blobStore: BlobStore, private readonly previews: PreviewService) {}
+
+  private thumbnailKey(fileName: string) {
+    return `${fileName}.thumb.webp`;
+  }
+
+  // The stored thumbnail, or null while it is being made or when there can't be one
+  async get(file: File): Promise<BlobStream | null> {
+    if (!canHaveThumbnail(file.fileType)) return null;
+
+    const blob = await this.blobStore.getStream(this.thumbnailKey(file.fileName));
+    if (!blob) this.request(file);
+    return blob;
+  }
+
+  request(file: File) {
+    if (!canHaveThumbnail(file.fileType) || this.pending.has(file.fileName) || this.failed.has(file.fileName)) return;
+
+    this.pending.add(file.fileName);
+    this.queue = this.queue
+      .then(() => this.generate(file))
+      .catch(error => {
+        this.failed.add(file.fileName);
+        console.error(`Thumbnail generation failed for ${file.originalName}:`, error);
+      })
+      .finally(() => this.pending.delete(file.fileName));
+  }
+
+  // Called once the original blob is deleted
+  async delete(fileName: string) {
+    await this.blobStore.delete(this.thumbnailKey(fileName));
+  }
+
+  private async generate(file: File) {
+    const key = this.thumbnailKey(file.fileName);
+    const existing = await this.blobStore.getStream(key);
+    if (existing) {
+      existing.stream.destroy();
+      return;
+    }
+
+    let source: BlobStream | null;
+    if (isThumbnailImage(file.fileType)) {
+      source = await this.blobStore.getStream(file.fileName);
+    } else {
+      // Waits for the slide conversion; a server without LibreOffice or poppler gets no thumbnail
+      await this.previews.request(file);
+      source = await this.previews.getSlide(file.fileName, 1);
+    }
+    if (!source) return;
+
+    // First frame only for animated GIFs; rotate() applies the camera's EXIF orientation
+    const resize = sharp({ animated: false })
+      .rotate()
+      .resize(THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT, { fit: "inside", withoutEnlargement: true })
+      .webp({ quality: 70 });
+    const thumbnailPath = path.join(os.tmpdir(), `assignmenthub-thumb-${randomUUID()}.webp`);
+    try {
+      source.stream.on("error", error => resize.destroy(error));
+      await source.stream.pipe(resize).toFile(thumbnailPath);
+      await this.blobStore.putFile(key, thumbnailPath, "image/webp");
+    } finally {
+      await fs.rm(thumbnailPath, { force: true });
+    }
+  }
+}
@@ -0,0 +1,211 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+import { recordAudit } from "./audit";
+import type { File, TrashItem, TrashItemKind, TrashedRecords } from "@shared/schema";
+
+const DEFAULT_RETENTION_DAYS = 30;
+const PURGE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// Who deleted something, as the session user has it; staff have an id, teams only a number
+interface TrashActor {
+  id?: string;
+  teamName?: string | null;
+  teamNumber?: number | null;
+}
+
+// Days deleted files and teams stay restorable, from TRASH_RETENTION_DAYS
+export function getTrashRetentionDays(): number {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+// Deleting or restoring a version can change which one is current
+async function syncSubmissions(files: File[]) {
+  const submissions = new Map(files.map(file => [`${file.teamNumber}:${file.assignmentId}:${file.label}`, file]));
+  for (const file of Array.from(submissions.values())) {
+    await storage.syncLatestFileVersion(file.teamNumber, file.assignmentId, file.label);
+  }
+}
+
+/**
+ * Move files to the trash along with their comments. The item is written before any row is
+ * removed, so a failure part way leaves the files where they were rather than lost; their blobs
+ * stay in the blob store until the item is purged.
+ */
+export async function moveToTrash(
+  courseId: string,
+  actor: TrashActor,
+  item: { kind: TrashItemKind; teamNumber: number | null; summary: string; files: File[]; extra?: Omit<TrashedRecords, "files" | "comments"> },
+): Promise<TrashItem> {
+  const comments = [];
+  for (const file of item.files) {
+    comments.push(...await storage.getComments(file.id));
+  }
+
+  const trashItem = await storage.createTrashItem({
+    courseId,
+    kind: item.kind,
+    teamNumber: item.teamNumber,
+    summary: item.summary,
+    records: { files: item.files, comments, ...item.extra },
+    fileNames: Array.from(new Set(item.files.map(file => file.fileName))),
+    fileCount: item.files.length,
+    deletedByUserId: actor.id ?? null,
+    deletedBy: actor.teamName || `Team ${actor.teamNumber}`,
+  });
+
+  for (const file of item.files) {
+    await storage.deleteFile(file.id);
+  }
+  await syncSubmissions(item.files);
+  return trashItem;
+}
+
+/**
+ * Move a team to the trash: its account, roster, files, grades, presentation times and the
+ * peer reviews it wrote or received. Signing the team out is left to the caller.
+ */
+export async function moveTeamToTrash(courseId: string, teamNumber: number, actor: TrashActor): Promise<TrashItem> {
+  const team = await storage.getUserByTeam(courseId, teamNumber);
+  const files = await storage.getFilesByTeam(courseId, teamNumber);
+  const members = await storage.getTeamMembers(courseId, teamNumber);
+  const grades = (await storage.getGrades(courseId)).filter(grade => grade.teamNumber === teamNumber);
+  const presentationLogs = (await storage.getPresentationLogs(courseId)).filter(entry => entry.teamNumber === teamNumber);
+  const peerReviews = (await storage.getPeerReviews(courseId))
+    .filter(review => review.reviewerTeamNumber === teamNumber || review.revieweeTeamNumber === teamNumber);
+
+  const item = await moveToTrash(courseId, actor, {
+    kind: "team",
+    teamNumber,
+    summary: `${team?.teamName || `Team ${teamNumber}`} with ${files.length} file${files.length === 1 ? "" : "s"}`,
+    files,
+    extra: { team: team ?? null, members, grades, presentationLogs, peerReviews },
+  });
+
+  await storage.deleteUser(courseId, teamNumber);
+  await storage.replaceTeamMembers(courseId, teamNumber, []);
+  await storage.deleteGrades(courseId, teamNumber);
+  await storage.deletePresentationLogs(courseId, { teamNumber });
+  await storage.deletePeerReviews(courseId, { teamNumber });
+  return item;
+}
+
+/**
+ * Fit trashed records to the course as it is now. A team number or name taken since, or an
+ * assignment deleted since, stops the restore; anything else that changed meanwhile wins over
+ * the trashed copy: version numbers taken by newer uploads move the restored file to the end,
+ * and grades, reviews and rosters filled in again are kept.
+ */
+async function prepareRestore(item: TrashItem): Promise<TrashedRecords | { error: string }> {
+  const { courseId, records } = item;
+
+  if (records.team) {
+    const teamNumber = records.team.teamNumber!;
+    if (await storage.getUserByTeam(courseId, teamNumber)) {
+      return { error: `Team ${teamNumber} has registered again. Delete the new team before restoring this one.` };
+    }
+    if (records.team.teamName && !(await storage.checkTeamNameAvailable(courseId, records.team.teamName))) {
+      return { error: `Another team now uses the name "${records.team.teamName}"` };
+    }
+  }
+
+  const assignmentIds = new Set((await storage.getAssignments(courseId)).map(assignment => assignment.id));
+  if (records.files.some(file => !assignmentIds.has(file.assignmentId))) {
+    return { error: "Some of these files belong to an assignment that has since been deleted" };
+  }
+
+  const currentMembers = await storage.getTeamMembers(courseId);
+  const members = records.team && currentMembers.some(member => member.teamNumber === records.team!.teamNumber)
+    ? []
+    : records.members ?? [];
+  const memberIds = new Set([...currentMembers, ...members].map(member => member.id));
+
+  const takenVersions = new Map<string, Set<number>>();
+  const files: File[] = [];
+  for (const file of [...records.files].sort((a, b) => a.version - b.version)) {
+    const submission = `${file.teamNumber}:${file.assignmentId}:${file.label}`;
+    if (!takenVersions.has(submission)) {
+      const versions = await storage.getFileVersions(file.teamNumber, file.assignmentId, file.label);
+      takenVersions.set(submission, new Set(versions.map(version => version.version)));
+    }
+    const taken = takenVersions.get(submission)!;
+    const version = taken.has(file.version) ? Math.max(...Array.from(taken)) + 1 : file.version;
+    taken.add(version);
+    files.push({
+      ...file,
+      version,
+      uploadedByMemberId: file.uploadedByMemberId && memberIds.has(file.uploadedByMemberId) ? file.uploadedByMemberId : null,
+    });
+  }
+
+  const authorIds = new Set<string>(records.team ? [records.team.id] : []);
+  for (const authorId of Array.from(new Set(records.comments.map(comment => comment.authorUserId)))) {
+    if (authorId && await storage.getUser(authorId)) authorIds.add(authorId);
+  }
+  const comments = records.comments.map(comment => ({
+    ...comment,
+    authorUserId: comment.authorUserId && authorIds.has(comment.authorUserId) ? comment.authorUserId : null,
+  }));
+
+  const gradedTeams = new Set((await storage.getGrades(courseId)).map(grade => `${grade.assignmentId}:${grade.teamNumber}`));
+  const roundIds = new Set((await storage.getPeerReviewRounds(courseId)).map(round => round.id));
+  const reviewPairs = new Set((await storage.getPeerReviews(courseId))
+    .map(review => `${review.roundId}:${review.reviewerTeamNumber}:${review.revieweeTeamNumber}`));
+
+  return {
+    files,
+    comments,
+    team: records.team,
+    members,
+    grades: records.grades?.filter(grade =>
+      assignmentIds.has(grade.assignmentId) && !gradedTeams.has(`${grade.assignmentId}:${grade.teamNumber}`)),
+    presentationLogs: records.presentationLogs?.filter(entry => assignmentIds.has(entry.assignmentId)),
+    peerReviews: records.peerReviews?.filter(review =>
+      roundIds.has(review.roundId) && !reviewPairs.has(`${review.roundId}:${review.reviewerTeamNumber}:${review.revieweeTeamNumber}`)),
+  };
+}
+
+// Put a trashed item's records back; the files' blobs never left the blob store
+export async function restoreFromTrash(item: TrashItem): Promise<{ records: TrashedRecords } | { error: string }> {
+  const records = await prepareRestore(item);
+  if ("error" in records) return records;
+
+  if (!(await storage.restoreTrashItem(item.id, records))) {
+    return { error: "This item was already restored or purged" };
+  }
+  await syncSubmissions(records.files);
+  return { records };
+}
+
+/**
+ * Purge trash items older than the retention period, now and then every hour. The caller does
+ * the purging, since removing blobs needs the blob store and the backup lock.
+ */
+export function startTrashPurger(purge: (item: TrashItem) => Promise<void>, retentionDays: number = getTrashRetentionDays()): () => void {
+  const run = async () => {
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+    for (const item of await storage.getExpiredTrashItems(cutoff)) {
+      await purge(item);
+      await recordAudit(null, {
+        action: "trash.purge",
+        targetType: "trash",
+        targetId: item.id,
+        teamNumber: item.teamNumber,
+        summary: `Purged ${item.summary} from the trash after ${retentionDays} days`,
+        courseId: item.courseId,
+      });
+      log(`Purged trash item ${item.id} (${item.summary})`, "trash");
+    }
+  };
+  const check = () => {
+    run().catch(error => {
+      console.error("Trash purge error:", error);
+    });
+  };
+
+  check();
+  const timer = setInterval(check, PURGE_CHECK_INTERVAL_MS);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,61 @@
+import path from "path";
+import { Readable } from "stream";
+import type { File } from "@shared/schema";
+
+// File ids travel in the download URL, which servers and proxies cap at a few kilobytes
+export const MAX_ZIP_DOWNLOAD_IDS = 200;
+
+// Windows and macOS both have to be able to unpack the ZIP
+export function safeName(name: string): string {
+  const cleaned = name.replace(/[\/\\:*?"<>|\x00-\x1f]/g, "_").replace(/^[.\s]+|[.\s]+$/g, "").slice(0, 120);
+  return cleaned || "untitled";
+}
+
+// Adds " (2)", " (3)", ... before the extension until the path is unused; case-insensitive like most filesystems
+export function uniquePath(used: Set<string>, wanted: string): string {
+  const ext = path.posix.extname(wanted);
+  const base = wanted.slice(0, wanted.length - ext.length);
+  let candidate = wanted;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    candidate = `${base} (${n})${ext}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+// The upload's own name, with " (vN)" added for anything that isn't a first, current version
+export function versionedFileName(file: File): string {
+  const ext = path.extname(file.originalName);
+  const baseName = safeName(file.originalName.slice(0, file.originalName.length - ext.length));
+  const versioned = file.version > 1 || file.isLatestVersion !== "true" ? `${baseName} (v${file.version})` : baseName;
+  return ext ? `${versioned}.${safeName(ext.slice(1))}` : versioned;
+}
+
+/**
+ * A stream that only opens its source once the ZIP writer starts reading it. JSZip reads
+ * entries one after another, so a course with thousands of uploads never holds more than
+ * one blob open at a time.
+ */
+export function openWhenRead(open: () => Promise<Readable>): Readable {
+  let source: Readable | null = null;
+  let opening = false;
+  const stream: Readable = new Readable({
+    read() {
+      if (source) {
+        source.resume();
+        return;
+      }
+      if (opening) return;
+      opening = true;
+      open().then(opened => {
+        source = opened;
+        opened.on("data", chunk => {
+          if (!stream.push(chunk)) opened.pause();
+        });
+        opened.on("end", () => stream.push(null));
+        opened.on("error", error => stream.destroy(error));
+      }, error => stream.destroy(error));
+    },
+  });
+  return stream;
+}
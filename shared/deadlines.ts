@@ -0,0 +1,68 @@
+import type { Assignment } from "./schema";
+
+export type SubmissionState = "not-open" | "open" | "late" | "closed";
+
+export interface SubmissionStatus {
+  state: SubmissionState;
+  minutesLate: number;
+}
+
+type AssignmentSchedule = Pick<Assignment, "openAt" | "dueAt" | "cutoffAt">;
+
+const toTime = (value: Date | string | null | undefined) =>
+  value ? new Date(value).getTime() : null;
+
+/**
+ * Where an upload made at `at` falls in the assignment's submission window.
+ * Dates may arrive as strings when the assignment came over JSON.
+ */
+export function getSubmissionStatus(assignment: AssignmentSchedule, at: Date = new Date()): SubmissionStatus {
+  const now = at.getTime();
+  const openAt = toTime(assignment.openAt);
+  const dueAt = toTime(assignment.dueAt);
+  const cutoffAt = toTime(assignment.cutoffAt);
+
+  if (openAt !== null && now < openAt) {
+    return { state: "not-open", minutesLate: 0 };
+  }
+  if (cutoffAt !== null && now > cutoffAt) {
+    return { state: "closed", minutesLate: dueAt !== null ? Math.ceil((now - dueAt) / 60000) : 0 };
+  }
+  if (dueAt !== null && now > dueAt) {
+    return { state: "late", minutesLate: Math.ceil((now - dueAt) / 60000) };
+  }
+  return { state: "open", minutesLate: 0 };
+}
+
+/**
+ * Check that open, due and cutoff times are in order. Returns an error message or null.
+ */
+export function validateAssignmentSchedule(assignment: AssignmentSchedule): string | null {
+  const openAt = toTime(assignment.openAt);
+  const dueAt = toTime(assignment.dueAt);
+  const cutoffAt = toTime(assignment.cutoffAt);
+
+  if (openAt !== null && dueAt !== null && dueAt < openAt) {
+    return "Due time must be after the open time";
+  }
+  if (cutoffAt !== null && dueAt === null) {
+    return "A cutoff time requires a due time";
+  }
+  if (cutoffAt !== null && dueAt !== null && cutoffAt < dueAt) {
+    return "Cutoff time must be after the due time";
+  }
+  return null;
+}
+
+/**
+ * Compact duration label, e.g. "2d 4h", "3h 15m" or "42m".
+ */
+export function formatMinutes(totalMinutes: number): string {
+  const days = Math.floor(totalMinutes / (60 * 24));
+  const hours = Math.floor((totalMinutes % (60 * 24)) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  if (hours > 0) return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+  return `${minutes}m`;
+}
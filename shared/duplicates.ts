@@ -0,0 +1,40 @@
+import type { File } from "./schema";
+
+type HashedFile = Pick<File, "id" | "teamNumber" | "assignmentId" | "label" | "contentHash">;
+
+export function describeUploader(teamNumber: number): string {
+  return teamNumber === 0 ? "Staff" : `Team ${teamNumber}`;
+}
+
+/**
+ * Other teams' uploads with exactly the same contents. Re-uploads within a team are expected
+ * and ignored; files uploaded before hashing have no hash and never match.
+ */
+export function findIdenticalUploads<T extends HashedFile>(file: HashedFile, files: T[]): T[] {
+  if (!file.contentHash) return [];
+  return files.filter(other =>
+    other.id !== file.id && other.teamNumber !== file.teamNumber && other.contentHash === file.contentHash
+  );
+}
+
+/**
+ * Contents uploaded by more than one team (staff included), one file per submission,
+ * with the groups spanning the most teams first.
+ */
+export function groupIdenticalUploads<T extends HashedFile>(files: T[]): T[][] {
+  const byHash = new Map<string, Map<string, T>>();
+  for (const file of files) {
+    if (!file.contentHash) continue;
+    const submissions = byHash.get(file.contentHash) ?? new Map<string, T>();
+    // Versions of one submission count once
+    const submissionKey = `${file.teamNumber}|${file.assignmentId}|${file.label}`;
+    if (!submissions.has(submissionKey)) submissions.set(submissionKey, file);
+    byHash.set(file.contentHash, submissions);
+  }
+
+  const teamCount = (group: T[]) => new Set(group.map(file => file.teamNumber)).size;
+  return Array.from(byHash.values())
+    .map(submissions => Array.from(submissions.values()).sort((a, b) => a.teamNumber - b.teamNumber))
+    .filter(group => teamCount(group) > 1)
+    .sort((a, b) => teamCount(b) - teamCount(a));
+}
@@ -0,0 +1,43 @@
+import type { GradeScore, RubricCriterion } from "./schema";
+
+type Criterion = Pick<RubricCriterion, "id" | "title" | "minPoints" | "maxPoints">;
+
+/**
+ * Highest score available on a rubric.
+ */
+export function getRubricMaxPoints(criteria: Pick<RubricCriterion, "maxPoints">[]): number {
+  return criteria.reduce((total, criterion) => total + criterion.maxPoints, 0);
+}
+
+/**
+ * Total of the scores that belong to the rubric's current criteria. Scores for
+ * criteria removed after grading are ignored rather than counted.
+ */
+export function getGradeTotal(criteria: Pick<RubricCriterion, "id">[], scores: GradeScore[]): number {
+  const criterionIds = new Set(criteria.map(criterion => criterion.id));
+  return scores
+    .filter(score => criterionIds.has(score.criterionId))
+    .reduce((total, score) => total + score.points, 0);
+}
+
+/**
+ * Check each score against its criterion's point range. Returns an error message or null.
+ */
+export function validateGradeScores(criteria: Criterion[], scores: GradeScore[]): string | null {
+  for (const score of scores) {
+    const criterion = criteria.find(c => c.id === score.criterionId);
+    if (!criterion) {
+      return "A score refers to a criterion that is not on this rubric";
+    }
+    if (score.points < criterion.minPoints || score.points > criterion.maxPoints) {
+      return `${criterion.title} must be scored between ${criterion.minPoints} and ${criterion.maxPoints}`;
+    }
+  }
+
+  const scored = new Set(scores.map(score => score.criterionId));
+  if (scored.size !== scores.length) {
+    return "Each criterion can only be scored once";
+  }
+
+  return null;
+}
@@ -0,0 +1,36 @@
+import type { AssignmentSettings } from "./schema";
+
+// Dates arrive as strings when the setting comes over JSON
+type OpenViewSchedule = Pick<AssignmentSettings, "isOpenView"> & {
+  revealAt: Date | string | null;
+  hideAt: Date | string | null;
+};
+
+interface OpenViewTransition {
+  at: Date;
+  isOpenView: boolean;
+}
+
+/**
+ * Scheduled transitions for a setting, oldest first.
+ */
+export function getOpenViewTransitions(setting: OpenViewSchedule): OpenViewTransition[] {
+  const transitions: OpenViewTransition[] = [];
+  if (setting.revealAt) transitions.push({ at: new Date(setting.revealAt), isOpenView: true });
+  if (setting.hideAt) transitions.push({ at: new Date(setting.hideAt), isOpenView: false });
+  return transitions.sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+/**
+ * Whether an assignment is open for peer viewing at `at`, applying any scheduled
+ * transitions that are already due even if the scheduler has not stored them yet.
+ */
+export function isOpenViewAt(setting: OpenViewSchedule, at: Date = new Date()): boolean {
+  let isOpenView = setting.isOpenView === "true";
+  for (const transition of getOpenViewTransitions(setting)) {
+    if (transition.at.getTime() <= at.getTime()) {
+      isOpenView = transition.isOpenView;
+    }
+  }
+  return isOpenView;
+}
@@ -0,0 +1,62 @@
+import type { PeerReviewAnswer, PeerReviewQuestion } from "./schema";
+
+export interface ReviewPair {
+  reviewerTeamNumber: number;
+  revieweeTeamNumber: number;
+}
+
+/**
+ * Pick who reviews whom. Teams are shuffled into a circle and each reviews the next
+ * `reviewsPerTeam` teams around it, so nobody reviews themselves, no pair repeats and
+ * every team receives exactly as many reviews as it writes.
+ */
+export function assignReviewers(teamNumbers: number[], reviewsPerTeam: number): ReviewPair[] {
+  const circle = Array.from(new Set(teamNumbers));
+  for (let i = circle.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [circle[i], circle[j]] = [circle[j], circle[i]];
+  }
+
+  const pairs: ReviewPair[] = [];
+  const offsets = Math.min(reviewsPerTeam, circle.length - 1);
+  circle.forEach((reviewer, index) => {
+    for (let offset = 1; offset <= offsets; offset++) {
+      pairs.push({ reviewerTeamNumber: reviewer, revieweeTeamNumber: circle[(index + offset) % circle.length] });
+    }
+  });
+  return pairs;
+}
+
+/**
+ * Check answers against the review form. With `requireAll`, as on submission, required
+ * questions must be answered too. Returns an error message or null.
+ */
+export function validatePeerReviewAnswers(questions: PeerReviewQuestion[], answers: PeerReviewAnswer[], requireAll: boolean): string | null {
+  for (const answer of answers) {
+    const question = questions.find(q => q.id === answer.questionId);
+    if (!question) {
+      return "An answer refers to a question that is not on this form";
+    }
+    if (answer.rating !== null && (question.type !== "rating" || answer.rating < 1 || answer.rating > (question.maxRating ?? 5))) {
+      return `"${question.prompt}" must be rated from 1 to ${question.maxRating ?? 5}`;
+    }
+  }
+
+  if (requireAll) {
+    for (const question of questions.filter(q => q.isRequired)) {
+      const answer = answers.find(a => a.questionId === question.id);
+      if (question.type === "rating" ? answer?.rating == null : !answer?.text) {
+        return `Answer "${question.prompt}" before submitting`;
+      }
+    }
+  }
+
+  return null;
+}
+
+export function formatPeerReviewAnswer(question: PeerReviewQuestion, answer: PeerReviewAnswer | undefined): string {
+  if (question.type === "rating") {
+    return answer?.rating != null ? `${answer.rating}/${question.maxRating ?? 5}` : "";
+  }
+  return answer?.text ?? "";
+}
@@ -0,0 +1,60 @@
+export const staffRoles = ["instructor", "ta", "observer"] as const;
+
+export type StaffRole = (typeof staffRoles)[number];
+export type UserRole = "team" | StaffRole;
+
+export const staffRoleLabels: Record<StaffRole, string> = {
+  instructor: "Instructor",
+  ta: "Teaching Assistant",
+  observer: "Observer",
+};
+
+export type Permission =
+  | "files.viewAll" // see every team's files regardless of open view
+  | "files.upload" // post staff files
+  | "files.edit" // edit staff files, toggle their visibility, restore versions
+  | "files.delete"
+  | "assignments.manage" // create, edit, reorder, archive and delete assignments
+  | "assignments.visibility" // open view toggles and schedules
+  | "teams.view"
+  | "teams.manage" // delete teams and their files
+  | "staff.manage"
+  | "sessions.manage" // list signed-in devices and sign them out
+  | "courses.manage" // create, rename and archive courses
+  | "grades.view"
+  | "grades.edit" // fill in grade sheets
+  | "grades.release" // show an assignment's grades to teams
+  | "presentations.manage" // set running orders and time slots, record presentation times
+  | "comments.manage" // comment on any file, post staff-only comments, resolve or delete anyone's comments
+  | "reviews.view" // see every peer review, including who wrote it
+  | "reviews.manage" // write review forms, assign reviewers, open, close and release review rounds
+  | "audit.view" // read and export the audit log
+  | "archives.manage" // take, download and import term archives
+  | "backups.manage" // take, download and restore backups of the whole server
+  | "trash.manage" // restore deleted files and teams, or delete them for good
+  | "server.reset";
+
+const rolePermissions: Record<StaffRole, Permission[]> = {
+  instructor: [
+    "files.viewAll", "files.upload", "files.edit", "files.delete",
+    "assignments.manage", "assignments.visibility",
+    "teams.view", "teams.manage",
+    "grades.view", "grades.edit", "grades.release", "presentations.manage", "comments.manage",
+    "reviews.view", "reviews.manage",
+    "staff.manage", "sessions.manage", "courses.manage", "audit.view", "archives.manage", "backups.manage", "trash.manage", "server.reset",
+  ],
+  ta: ["files.viewAll", "files.upload", "files.edit", "assignments.visibility", "teams.view", "grades.view", "grades.edit", "presentations.manage", "comments.manage", "reviews.view", "reviews.manage"],
+  observer: ["files.viewAll", "teams.view", "grades.view", "reviews.view"],
+};
+
+export function isStaffRole(role: unknown): role is StaffRole {
+  return staffRoles.includes(role as StaffRole);
+}
+
+/**
+ * Whether a signed-in user may perform an action. Team accounts hold no staff permissions.
+ */
+export function hasPermission(user: { role?: string } | null | undefined, permission: Permission): boolean {
+  if (!user || !isStaffRole(user.role)) return false;
+  return rolePermissions[user.role].includes(permission);
+}
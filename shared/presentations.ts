@@ -0,0 +1,62 @@
+/**
+ * Running order for a class session: the saved order, minus teams that no longer exist,
+ * with any new teams appended in number order.
+ */
+export function mergeRunningOrder(savedOrder: number[], teamNumbers: number[]): number[] {
+  const current = new Set(teamNumbers);
+  const kept = savedOrder.filter((teamNumber, index) => current.has(teamNumber) && savedOrder.indexOf(teamNumber) === index);
+  const added = teamNumbers.filter(teamNumber => !kept.includes(teamNumber)).sort((a, b) => a - b);
+  return [...kept, ...added];
+}
+
+// Fisher-Yates, so every order is equally likely
+export function shuffleRunningOrder(order: number[]): number[] {
+  const shuffled = [...order];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+export function formatElapsed(ms: number): string {
+  const totalSeconds = Math.floor(Math.abs(ms) / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${ms < 0 ? "-" : ""}${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+// Used until staff save a schedule for an assignment
+export const DEFAULT_PRESENTATION_SCHEDULE = {
+  teamOrder: [] as number[],
+  slotMinutes: 10,
+  bufferMinutes: 2,
+  warningMinutes: 2,
+  startsAt: null as Date | null,
+};
+
+export interface PlannedSlot {
+  teamNumber: number;
+  start: Date;
+  end: Date; // the changeover buffer follows this
+}
+
+// Back-to-back slots from the schedule's start time, each followed by the changeover buffer
+export function getPlannedSlots(startsAt: Date, order: number[], slotMinutes: number, bufferMinutes: number): PlannedSlot[] {
+  const slotMs = slotMinutes * 60 * 1000;
+  const stepMs = slotMs + bufferMinutes * 60 * 1000;
+  return order.map((teamNumber, index) => {
+    const start = new Date(startsAt.getTime() + index * stepMs);
+    return { teamNumber, start, end: new Date(start.getTime() + slotMs) };
+  });
+}
+
+export type TimerLevel = "normal" | "warning" | "over";
+
+// Remaining time in a slot is negative once the team runs over
+export function getTimerState(elapsedMs: number, slotMinutes: number, warningMinutes: number): { remainingMs: number; level: TimerLevel } {
+  const remainingMs = slotMinutes * 60 * 1000 - elapsedMs;
+  if (remainingMs < 0) return { remainingMs, level: "over" };
+  if (remainingMs <= warningMinutes * 60 * 1000) return { remainingMs, level: "warning" };
+  return { remainingMs, level: "normal" };
+}
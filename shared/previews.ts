@@ -0,0 +1,49 @@
+export type PreviewKind = "slides" | "document" | "sheets";
+
+export interface SheetPreview {
+  name: string;
+  rows: string[][];
+  truncated: boolean; // more rows or columns than the preview shows
+}
+
+// What the server stores once a conversion has run
+export type PreviewManifest =
+  | { status: "ready"; kind: "slides"; slideCount: number }
+  | { status: "ready"; kind: "document" }
+  | { status: "ready"; kind: "sheets"; sheets: SheetPreview[] }
+  | { status: "failed"; message: string };
+
+export type PreviewStatus =
+  | PreviewManifest
+  | { status: "pending" }
+  | { status: "unavailable"; message: string } // the server can't convert this type
+  | { status: "unsupported" };
+
+// PDFs open natively in the file preview; their slide images are for presentation mode
+const previewKinds: Record<string, PreviewKind> = {
+  ".pdf": "slides",
+  ".pptx": "slides",
+  ".ppt": "slides",
+  ".docx": "document",
+  ".xlsx": "sheets",
+};
+
+/**
+ * How a file type is previewed after server-side conversion, or null for types the browser
+ * shows directly (images) or can't show at all.
+ */
+export function getPreviewKind(fileType: string): PreviewKind | null {
+  return previewKinds[fileType.toLowerCase()] ?? null;
+}
+
+// Formats sharp can downscale directly; PDFs and presentations use their first slide image
+const thumbnailImageTypes = [".jpg", ".jpeg", ".png", ".gif", ".webp", ".svg"];
+
+export function isThumbnailImage(fileType: string): boolean {
+  return thumbnailImageTypes.includes(fileType.toLowerCase());
+}
+
+// Whether the server can make a gallery thumbnail for this type (given the tools it needs)
+export function canHaveThumbnail(fileType: string): boolean {
+  return isThumbnailImage(fileType) || getPreviewKind(fileType) === "slides";
+}
@@ -1,23 +1,439 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, bigint, timestamp, unique, jsonb, json, index, customType } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { staffRoles } from "./permissions";
+
+// A course (or one section of it) owns its teams, assignments, settings and files
+export const courses = pgTable("courses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  section: text("section"),
+  joinCode: varchar("join_code", { length: 20 }).notNull().unique(), // entered by teams at registration
+  maxTeams: integer("max_teams").notNull().default(9), // teams are numbered 1..maxTeams
+  isArchived: text("is_archived").notNull().default("false"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+export const insertCourseSchema = createInsertSchema(courses).omit({
+  id: true,
+  joinCode: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Course name is required").max(200, "Course name must be at most 200 characters"),
+  section: z.string().trim().max(100).nullable().optional(),
+  maxTeams: z.number().int().min(1, "A course needs at least one team").max(200, "A course can have at most 200 teams").optional(),
+  isArchived: z.enum(["true", "false"]).optional(),
+});
+
+export const updateCourseSchema = insertCourseSchema.partial();
+
+export type InsertCourse = z.infer<typeof insertCourseSchema>;
+export type UpdateCourse = z.infer<typeof updateCourseSchema>;
+export type Course = typeof courses.$inferSelect;
+
+export const assignments = pgTable("assignments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  courseId: varchar("course_id").notNull().references(() => courses.id),
+  title: text("title").notNull(),
+  description: text("description"),
+  order: integer("order").notNull().default(0), // position in dropdowns and settings lists
+  openAt: timestamp("open_at"), // uploads rejected before this time
+  dueAt: timestamp("due_at"), // uploads after this time are marked late
+  cutoffAt: timestamp("cutoff_at"), // uploads rejected after this time
+  gradesReleased: text("grades_released").notNull().default("false"), // teams see their grades once released
+  isArchived: text("is_archived").notNull().default("false"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+export const insertAssignmentSchema = createInsertSchema(assignments).omit({
+  id: true,
+  courseId: true,
+  createdAt: true,
+}).extend({
+  title: z.string().trim().min(1, "Title is required").max(200, "Title must be at most 200 characters"),
+  description: z.string().trim().max(2000).nullable().optional(),
+  order: z.number().int().min(0).optional(),
+  openAt: z.coerce.date().nullable().optional(),
+  dueAt: z.coerce.date().nullable().optional(),
+  cutoffAt: z.coerce.date().nullable().optional(),
+  gradesReleased: z.enum(["true", "false"]).optional(),
+  isArchived: z.enum(["true", "false"]).optional(),
+});
+
+export const updateAssignmentSchema = insertAssignmentSchema.partial();
+
+export type InsertAssignment = z.infer<typeof insertAssignmentSchema>;
+export type UpdateAssignment = z.infer<typeof updateAssignmentSchema>;
+export type Assignment = typeof assignments.$inferSelect;
+
+// Rubric criteria for an assignment; each is scored within its point range
+export const rubricCriteria = pgTable("rubric_criteria", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  assignmentId: varchar("assignment_id").notNull().references(() => assignments.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  description: text("description"),
+  minPoints: integer("min_points").notNull().default(0),
+  maxPoints: integer("max_points").notNull(),
+  order: integer("order").notNull().default(0),
+});
+
+export const rubricCriterionSchema = z.object({
+  id: z.string().optional(), // existing criteria keep their id so saved scores stay attached
+  title: z.string().trim().min(1, "Criterion title is required").max(200, "Criterion title must be at most 200 characters"),
+  description: z.string().trim().max(2000).nullable().optional(),
+  minPoints: z.number().int().min(0, "Points can't be negative").default(0),
+  maxPoints: z.number().int().min(1, "Maximum points must be at least 1").max(1000),
+}).refine(criterion => criterion.minPoints < criterion.maxPoints, {
+  message: "Minimum points must be below maximum points",
+});
+
+export const rubricSchema = z.object({
+  criteria: z.array(rubricCriterionSchema).max(50, "A rubric can have at most 50 criteria"),
+});
+
+export type RubricCriterionInput = z.infer<typeof rubricCriterionSchema>;
+export type RubricCriterion = typeof rubricCriteria.$inferSelect;
+
+export interface GradeScore {
+  criterionId: string;
+  points: number;
+  comment: string | null;
+}
+
+// One grade sheet per team per assignment
+export const grades = pgTable("grades", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  courseId: varchar("course_id").notNull().references(() => courses.id),
+  assignmentId: varchar("assignment_id").notNull().references(() => assignments.id, { onDelete: "cascade" }),
+  teamNumber: integer("team_number").notNull(),
+  scores: jsonb("scores").$type<GradeScore[]>().notNull().default([]),
+  feedback: text("feedback"),
+  gradedBy: text("graded_by"),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => ({
+  assignmentTeam: unique("grades_assignment_team_unique").on(table.assignmentId, table.teamNumber),
+}));
+
+export const saveGradeSchema = z.object({
+  scores: z.array(z.object({
+    criterionId: z.string().min(1),
+    points: z.number().min(0, "Points can't be negative"),
+    comment: z.string().trim().max(2000).nullable().optional().transform(value => value || null),
+  })),
+  feedback: z.string().trim().max(5000).nullable().optional().transform(value => value || null),
+});
+
+export type SaveGrade = z.infer<typeof saveGradeSchema>;
+export type Grade = typeof grades.$inferSelect;
+
+// Running order and time slots for presenting an assignment in class
+export const presentationSchedules = pgTable("presentation_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  courseId: varchar("course_id").notNull().references(() => courses.id),
+  assignmentId: varchar("assignment_id").notNull().unique().references(() => assignments.id, { onDelete: "cascade" }),
+  teamOrder: jsonb("team_order").$type<number[]>().notNull().default([]),
+  slotMinutes: integer("slot_minutes").notNull().default(10),
+  bufferMinutes: integer("buffer_minutes").notNull().default(2), // changeover between teams
+  warningMinutes: integer("warning_minutes").notNull().default(2), // timer turns amber with this much left
+  startsAt: timestamp("starts_at"), // when the first slot begins; slot times are planned from it
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+export const savePresentationScheduleSchema = z.object({
+  teamOrder: z.array(z.number().int().min(1)).max(500)
+    .refine(order => new Set(order).size === order.length, "Each team can only appear once"),
+  slotMinutes: z.number().int().min(1, "Slots must be at least 1 minute").max(240),
+  bufferMinutes: z.number().int().min(0).max(60),
+  warningMinutes: z.number().int().min(0).max(60),
+  startsAt: z.coerce.date().nullable(),
+});
+
+export type SavePresentationSchedule = z.infer<typeof savePresentationScheduleSchema>;
+export type PresentationSchedule = typeof presentationSchedules.$inferSelect;
+
+// When each team actually presented; a team presenting twice gets two entries
+export const presentationLogs = pgTable("presentation_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  courseId: varchar("course_id").notNull().references(() => courses.id),
+  assignmentId: varchar("assignment_id").notNull().references(() => assignments.id, { onDelete: "cascade" }),
+  teamNumber: integer("team_number").notNull(),
+  startedAt: timestamp("started_at").notNull().default(sql`now()`),
+  endedAt: timestamp("ended_at"), // null while the team is presenting
+  loggedBy: text("logged_by"),
+}, (table) => ({
+  assignmentIdx: index("presentation_logs_assignment_idx").on(table.assignmentId),
+}));
+
+export type PresentationLog = typeof presentationLogs.$inferSelect;
+
+export interface PeerReviewQuestion {
+  id: string;
+  prompt: string;
+  type: "rating" | "text";
+  maxRating: number | null; // ratings run from 1 to this; null for text questions
+  isRequired: boolean;
+}
+
+export interface PeerReviewAnswer {
+  questionId: string;
+  rating: number | null;
+  text: string | null;
+}
+
+// draft: the form is being written; open: reviewers are assigned and can submit; closed: no more changes
+export const peerReviewStatuses = ["draft", "open", "closed"] as const;
+export type PeerReviewStatus = (typeof peerReviewStatuses)[number];
+
+// A peer review round for an assignment: the review form and how many submissions each team reviews
+export const peerReviewRounds = pgTable("peer_review_rounds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  courseId: varchar("course_id").notNull().references(() => courses.id),
+  assignmentId: varchar("assignment_id").notNull().unique().references(() => assignments.id, { onDelete: "cascade" }),
+  questions: jsonb("questions").$type<PeerReviewQuestion[]>().notNull().default([]),
+  reviewsPerTeam: integer("reviews_per_team").notNull().default(2),
+  dueAt: timestamp("due_at"),
+  status: text("status").$type<PeerReviewStatus>().notNull().default("draft"),
+  isReleased: text("is_released").notNull().default("false"), // reviewed teams see their (anonymous) reviews once released
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+export const savePeerReviewRoundSchema = z.object({
+  questions: z.array(z.object({
+    id: z.string().min(1).optional(), // new questions get an id when saved
+    prompt: z.string().trim().min(1, "Every question needs a prompt").max(500),
+    type: z.enum(["rating", "text"]),
+    maxRating: z.number().int().min(2, "Rating scales need at least 2 points").max(10, "Rating scales go up to 10").nullable().optional(),
+    isRequired: z.boolean().default(true),
+  })).min(1, "Add at least one question").max(30),
+  reviewsPerTeam: z.number().int().min(1, "Each team must review at least one submission").max(10),
+  dueAt: z.coerce.date().nullable().optional(),
+});
+
+export type SavePeerReviewRound = z.infer<typeof savePeerReviewRoundSchema>;
+export type PeerReviewRound = typeof peerReviewRounds.$inferSelect;
+
+// One team's review of another team's submission; the reviewed team never learns the reviewer
+export const peerReviews = pgTable("peer_reviews", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  courseId: varchar("course_id").notNull().references(() => courses.id),
+  roundId: varchar("round_id").notNull().references(() => peerReviewRounds.id, { onDelete: "cascade" }),
+  assignmentId: varchar("assignment_id").notNull().references(() => assignments.id, { onDelete: "cascade" }),
+  reviewerTeamNumber: integer("reviewer_team_number").notNull(),
+  revieweeTeamNumber: integer("reviewee_team_number").notNull(),
+  answers: jsonb("answers").$type<PeerReviewAnswer[]>().notNull().default([]),
+  submittedAt: timestamp("submitted_at"), // null while the review is a draft or not started
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => ({
+  roundPair: unique("peer_reviews_round_pair_unique").on(table.roundId, table.reviewerTeamNumber, table.revieweeTeamNumber),
+}));
+
+export const savePeerReviewSchema = z.object({
+  answers: z.array(z.object({
+    questionId: z.string().min(1),
+    rating: z.number().int().nullable(),
+    text: z.string().trim().max(5000).nullable().transform(value => value || null),
+  })).max(30),
+  submit: z.boolean(),
+});
+
+export type SavePeerReview = z.infer<typeof savePeerReviewSchema>;
+export type PeerReview = typeof peerReviews.$inferSelect;
 
 export const files = pgTable("files", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   label: text("label").notNull(),
   originalName: text("original_name").notNull(),
-  fileName: text("file_name").notNull(), // stored filename
+  fileName: text("file_name").notNull(), // blob store key; rows with the same content share one blob
+  contentHash: varchar("content_hash", { length: 64 }), // SHA-256 of the contents; null for files uploaded before hashing
   fileType: text("file_type").notNull(),
   fileSize: integer("file_size").notNull(),
+  courseId: varchar("course_id").notNull().references(() => courses.id),
   teamNumber: integer("team_number").notNull(),
-  assignment: text("assignment").notNull(),
+  assignmentId: varchar("assignment_id").notNull().references(() => assignments.id),
   tags: text("tags").array().notNull().default(sql`'{}'::text[]`),
   description: text("description"),
   isVisible: text("is_visible").notNull().default("true"), // for admin files visibility control
+  isLate: text("is_late").notNull().default("false"),
+  minutesLate: integer("minutes_late").notNull().default(0),
+  // Uploads under the same team, assignment and label are versions of one submission
+  version: integer("version").notNull().default(1),
+  isLatestVersion: text("is_latest_version").notNull().default("true"),
+  restoredFromVersion: integer("restored_from_version"),
+  // Team accounts are shared, so uploads record which member (or staff member) made them
+  uploadedByMemberId: varchar("uploaded_by_member_id").references(() => teamMembers.id, { onDelete: "set null" }),
+  uploadedByName: text("uploaded_by_name"),
   uploadedAt: timestamp("uploaded_at").notNull().default(sql`now()`),
+}, (table) => ({
+  fileNameIdx: index("files_file_name_idx").on(table.fileName),
+  contentHashIdx: index("files_content_hash_idx").on(table.contentHash),
+}));
+
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+// Text extracted from uploads for full-text search, one row per stored blob
+export const fileTexts = pgTable("file_texts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  fileName: text("file_name").notNull().unique(), // blob key, shared by identical uploads
+  content: text("content").notNull(), // empty when the file had no readable text
+  searchVector: tsvector("search_vector").generatedAlwaysAs(sql`to_tsvector('english', content)`),
+  extractedAt: timestamp("extracted_at").notNull().default(sql`now()`),
+}, (table) => ({
+  searchVectorIdx: index("file_texts_search_vector_idx").using("gin", table.searchVector),
+}));
+
+export type FileText = typeof fileTexts.$inferSelect;
+
+// Who can read a comment besides its author: anyone who can see the file, staff and the
+// file's team, or staff only. Replies take their thread's visibility.
+export const commentVisibilities = ["everyone", "team", "staff"] as const;
+export type CommentVisibility = (typeof commentVisibilities)[number];
+
+// Feedback on one version of a file, optionally pinned to a page or slide
+export const comments = pgTable("comments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  courseId: varchar("course_id").notNull().references(() => courses.id),
+  fileId: varchar("file_id").notNull().references(() => files.id, { onDelete: "cascade" }),
+  parentId: varchar("parent_id"), // thread this comment replies to; replies don't nest further
+  page: integer("page"), // page or slide number, null for the file as a whole
+  body: text("body").notNull(),
+  visibility: text("visibility").$type<CommentVisibility>().notNull().default("everyone"),
+  authorUserId: varchar("author_user_id").references(() => users.id, { onDelete: "set null" }),
+  authorTeamNumber: integer("author_team_number").notNull(), // 0 for staff
+  authorName: text("author_name").notNull(),
+  isResolved: text("is_resolved").notNull().default("false"),
+  resolvedBy: text("resolved_by"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  editedAt: timestamp("edited_at"),
+}, (table) => ({
+  fileIdx: index("comments_file_idx").on(table.fileId),
+}));
+
+export const createCommentSchema = z.object({
+  body: z.string().trim().min(1, "Comment can't be empty").max(5000, "Comments are limited to 5000 characters"),
+  page: z.number().int().min(1, "Page numbers start at 1").nullable().optional(),
+  parentId: z.string().nullable().optional(),
+  visibility: z.enum(commentVisibilities).optional(),
+});
+
+export const updateCommentSchema = createCommentSchema.pick({ body: true });
+
+export type CreateComment = z.infer<typeof createCommentSchema>;
+export type Comment = typeof comments.$inferSelect;
+
+// A comment as returned to one user, with what they may do to it
+export type CommentView = Comment & {
+  canEdit: boolean;
+  canDelete: boolean;
+  canResolve: boolean;
+};
+
+// Append-only record of who changed what. Rows keep plain ids and names rather than
+// references, so they outlive the teams, users and files they describe.
+export const auditEvents = pgTable("audit_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  courseId: varchar("course_id"), // null for actions outside any course, e.g. staff accounts
+  actorUserId: varchar("actor_user_id"), // staff account; null for teams and the scheduler
+  actorRole: text("actor_role").notNull(), // "team", a staff role, or "system"
+  actorTeamNumber: integer("actor_team_number"),
+  actorName: text("actor_name").notNull(),
+  action: text("action").notNull(), // e.g. "team.delete", "file.visibility"
+  targetType: text("target_type").notNull(),
+  targetId: varchar("target_id"),
+  teamNumber: integer("team_number"), // team the action concerns, if any
+  summary: text("summary").notNull(),
+  before: jsonb("before"),
+  after: jsonb("after"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => ({
+  courseCreatedIdx: index("audit_events_course_created_idx").on(table.courseId, table.createdAt),
+}));
+
+export type AuditEvent = typeof auditEvents.$inferSelect;
+
+// A ZIP of everything a course held, taken before a term is closed. The ZIP lives in the blob
+// store; rows keep the course name so they outlive the course they came from.
+export const termArchives = pgTable("term_archives", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  courseId: varchar("course_id"), // course the archive was taken from
+  courseName: text("course_name").notNull(),
+  fileName: text("file_name").notNull(), // blob store key of the ZIP
+  fileSize: bigint("file_size", { mode: "number" }).notNull(),
+  fileCount: integer("file_count").notNull(), // uploads inside the ZIP
+  teamCount: integer("team_count").notNull(),
+  createdBy: text("created_by"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+export type TermArchive = typeof termArchives.$inferSelect;
+
+// "files" for one or more deleted uploads, "team" for a team with everything deleted along with it
+export type TrashItemKind = "files" | "team";
+
+// The rows a deletion removed, exactly as they were, so restoring can put them back ids and all
+export interface TrashedRecords {
+  files: File[];
+  comments: Comment[];
+  team?: User | null;
+  members?: TeamMember[];
+  grades?: Grade[];
+  presentationLogs?: PresentationLog[];
+  peerReviews?: PeerReview[];
+}
+
+// Deleted files and teams, kept until restored or purged. Their blobs stay in the blob store
+// meanwhile, and file_names keeps them counted as in use.
+export const trashItems = pgTable("trash_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  courseId: varchar("course_id").notNull().references(() => courses.id),
+  kind: text("kind").$type<TrashItemKind>().notNull(),
+  teamNumber: integer("team_number"), // the team deleted, or whose files were; null for files of several teams
+  summary: text("summary").notNull(),
+  records: jsonb("records").$type<TrashedRecords>().notNull(),
+  fileNames: text("file_names").array().notNull().default(sql`'{}'::text[]`), // blob keys of the trashed files
+  fileCount: integer("file_count").notNull(),
+  deletedByUserId: varchar("deleted_by_user_id"),
+  deletedBy: text("deleted_by").notNull(),
+  deletedAt: timestamp("deleted_at").notNull().default(sql`now()`),
+}, (table) => ({
+  courseDeletedIdx: index("trash_items_course_deleted_idx").on(table.courseId, table.deletedAt),
+  fileNamesIdx: index("trash_items_file_names_idx").using("gin", table.fileNames),
+}));
+
+export type TrashItem = typeof trashItems.$inferSelect;
+
+export const teamMembers = pgTable("team_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  courseId: varchar("course_id").notNull().references(() => courses.id),
+  teamNumber: integer("team_number").notNull(), // rosters can be imported before the team registers
+  name: text("name").notNull(),
+  email: varchar("email", { length: 255 }),
+  rollNumber: varchar("roll_number", { length: 50 }),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
+export const insertTeamMemberSchema = createInsertSchema(teamMembers).pick({
+  name: true,
+  email: true,
+  rollNumber: true,
+}).extend({
+  name: z.string().trim().min(1, "Member name is required").max(100, "Member name must be at most 100 characters"),
+  email: z.union([z.string().trim().toLowerCase().email("Enter a valid email address"), z.literal("")]).nullable().optional()
+    .transform(value => value === "" ? null : value),
+  rollNumber: z.string().trim().max(50).nullable().optional().transform(value => value === "" ? null : value),
+});
+
+export const updateTeamMemberSchema = insertTeamMemberSchema.partial();
+
+export type InsertTeamMember = z.infer<typeof insertTeamMemberSchema>;
+export type UpdateTeamMember = z.infer<typeof updateTeamMemberSchema>;
+export type TeamMember = typeof teamMembers.$inferSelect;
+
 export const insertFileSchema = createInsertSchema(files).omit({
   id: true,
   fileName: true,
@@ -29,37 +445,72 @@ export type File = typeof files.$inferSelect;
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  teamNumber: integer("team_number").notNull().unique(),
+  courseId: varchar("course_id").references(() => courses.id), // null for staff accounts, who work across courses
+  teamNumber: integer("team_number"), // unique within a course; null for staff accounts
   teamName: varchar("team_name", { length: 100 }),
+  email: varchar("email", { length: 255 }).unique(), // staff login
+  displayName: varchar("display_name", { length: 100 }),
+  role: text("role").notNull().default("team"), // team | instructor | ta | observer
   passwordHash: text("password_hash"),
   isAdmin: text("is_admin").notNull().default("false"),
   isActive: text("is_active").notNull().default("true"),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   lastLogin: timestamp("last_login"),
-  passwordResetToken: varchar("password_reset_token", { length: 255 }),
+  passwordResetToken: varchar("password_reset_token", { length: 255 }), // also used for staff invites
   tokenExpiry: timestamp("token_expiry"),
-});
+}, (table) => ({
+  courseTeam: unique("users_course_team_unique").on(table.courseId, table.teamNumber),
+}));
 
 export const assignmentSettings = pgTable("assignment_settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  assignment: text("assignment").notNull().unique(),
+  assignmentId: varchar("assignment_id").notNull().unique().references(() => assignments.id, { onDelete: "cascade" }),
   isOpenView: text("is_open_view").notNull().default("false"),
+  revealAt: timestamp("reveal_at"), // scheduled switch to open view
+  hideAt: timestamp("hide_at"), // scheduled switch back to closed
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
 
+// Login sessions, written by connect-pg-simple; declared here so db:push keeps the table
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => ({
+  expireIdx: index("IDX_session_expire").on(table.expire),
+}));
+
 export const insertUserSchema = createInsertSchema(users).pick({
+  courseId: true,
   teamNumber: true,
   teamName: true,
+  email: true,
+  displayName: true,
+  role: true,
   passwordHash: true,
   isAdmin: true,
   isActive: true,
+  passwordResetToken: true,
+  tokenExpiry: true,
+});
+
+export const inviteStaffSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email address"),
+  displayName: z.string().trim().min(1, "Name is required").max(100),
+  role: z.enum(staffRoles),
+});
+
+export const updateStaffSchema = z.object({
+  role: z.enum(staffRoles).optional(),
+  isActive: z.enum(["true", "false"]).optional(),
 });
 
 export const registerUserSchema = createInsertSchema(users).pick({
   teamNumber: true,
   teamName: true,
 }).extend({
-  teamNumber: z.number().int().min(1, "Team number must be at least 1").max(9, "Team number must be at most 9"),
+  joinCode: z.string().trim().min(1, "Course join code is required"),
+  teamNumber: z.number().int().min(1, "Team number must be at least 1"), // upper bound is the course's team count
   teamName: z.string().optional(),
   password: z.string().min(12, "Password must be at least 12 characters")
     .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/, 
@@ -71,7 +522,16 @@ export const insertAssignmentSettingsSchema = createInsertSchema(assignmentSetti
   updatedAt: true,
 });
 
+export const assignmentScheduleSchema = z.object({
+  assignmentId: z.string().min(1, "Assignment is required"),
+  revealAt: z.coerce.date().nullable(),
+  hideAt: z.coerce.date().nullable(),
+});
+
+export type AssignmentSchedule = Omit<z.infer<typeof assignmentScheduleSchema>, "assignmentId">;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type InviteStaff = z.infer<typeof inviteStaffSchema>;
+export type UpdateStaff = z.infer<typeof updateStaffSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertAssignmentSettings = z.infer<typeof insertAssignmentSettingsSchema>;
 export type AssignmentSettings = typeof assignmentSettings.$inferSelect;
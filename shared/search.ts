@@ -0,0 +1,25 @@
+import type { File } from "./schema";
+
+// Matched words in a snippet are wrapped in these, so clients can highlight them without parsing HTML
+export const SNIPPET_MATCH_START = "\u0002";
+export const SNIPPET_MATCH_END = "\u0003";
+
+export type FileSearchResult = File & {
+  searchRank: number;
+  // Passage of the file's text around the matches; null when only the label or details matched
+  searchSnippet: string | null;
+};
+
+export function splitSnippet(snippet: string): { text: string; isMatch: boolean }[] {
+  const parts: { text: string; isMatch: boolean }[] = [];
+  for (const piece of snippet.split(SNIPPET_MATCH_START)) {
+    const end = piece.indexOf(SNIPPET_MATCH_END);
+    if (end === -1) {
+      if (piece) parts.push({ text: piece, isMatch: false });
+      continue;
+    }
+    parts.push({ text: piece.slice(0, end), isMatch: true });
+    if (end + 1 < piece.length) parts.push({ text: piece.slice(end + 1), isMatch: false });
+  }
+  return parts;
+}
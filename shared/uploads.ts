@@ -0,0 +1,26 @@
+export const allowedUploadExtensions = [
+  // Images
+  '.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', '.svg',
+  // Documents
+  '.pdf', '.doc', '.docx', '.txt', '.rtf',
+  // Spreadsheets
+  '.xls', '.xlsx', '.csv',
+  // Presentations
+  '.ppt', '.pptx',
+  // Archives
+  '.zip', '.rar', '.7z',
+  // Other common formats
+  '.json', '.xml', '.html', '.css', '.js', '.ts'
+];
+
+// Single-request uploads stay at 50MB; larger files go through chunked uploads
+export const MAX_DIRECT_UPLOAD_SIZE = 50 * 1024 * 1024;
+export const MAX_UPLOAD_SIZE = 500 * 1024 * 1024;
+
+// Small enough that a dropped connection only loses a few seconds of work
+export const UPLOAD_CHUNK_SIZE = 5 * 1024 * 1024;
+
+export function isAllowedUploadType(fileName: string): boolean {
+  const dot = fileName.lastIndexOf('.');
+  return dot >= 0 && allowedUploadExtensions.includes(fileName.slice(dot).toLowerCase());
+}